@@ -37,6 +37,7 @@ import AdminIntegrations from "../pages/admin/settings/Integrations";
 import NotificationsPage from "../pages/admin/NotificationsPage";
 import MediaLibraryPage from "../pages/admin/content/MediaLibrary";
 import ScormPlayer from "../pages/scorm/Player";
+import ModulePlayer from "../pages/learn/ModulePlayer";
 
 export default function App() {
   return (
@@ -50,7 +51,13 @@ export default function App() {
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/forms" element={<UserForms />} />
           <Route path="/forms/:formId/fill" element={<UserFillForm />} />
+          <Route path="/forms/submissions/:submissionId/stage" element={<UserFillForm />} />
           <Route path="/scorm/:id" element={<ScormPlayer />} />
+          <Route path="/learn/module/:moduleId" element={<ModulePlayer />} />
+          <Route
+            path="/learn/module/:moduleId/lessons/:pageId"
+            element={<ModulePlayer />}
+          />
           <Route path="/admin" element={<AdminDashboard />} />
           <Route path="/admin/users" element={<AdminUsers />} />
           <Route path="/admin/groups" element={<AdminGroups />} />
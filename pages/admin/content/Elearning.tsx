@@ -2,7 +2,17 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import FavoritesSection from '../../../components/FavoritesSection';
 import { supabase } from '../../../lib/supabaseClient';
-import { Upload, Layers } from 'lucide-react';
+import { duplicateContentModule } from '../../../src/lib/supabase/contentModules';
+import { Upload, Layers, Download, FileUp } from 'lucide-react';
+import {
+  exportContentModulePackage,
+  importContentModulePackage,
+} from '../../../src/lib/contentModulePackage';
+import {
+  DEFAULT_SCORM_PASSING_SCORE,
+  exportScormPackage,
+  type ScormVersion,
+} from '../../../src/lib/scormPackage';
 
 // --- Types ---
 interface ScormModule {
@@ -71,6 +81,17 @@ const FormInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label:
     </div>
 );
 
+// Save a generated file (e.g. an exported module zip) to the user's machine
+const downloadBlob = (blob: Blob, baseName: string, extension: string) => {
+    const slug = baseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'module';
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${slug}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
 const formatDate = (dateString: string) => {
     if (!dateString) return '—';
     return new Date(dateString).toLocaleString('en-AU', {
@@ -100,6 +121,17 @@ const AdminElearning: React.FC = () => {
   const [contentModules, setContentModules] = useState<ContentModule[]>([]);
   const [isLoadingContentModules, setIsLoadingContentModules] = useState<boolean>(true);
   const [contentModulesError, setContentModulesError] = useState<string | null>(null);
+  const [duplicatingModuleId, setDuplicatingModuleId] = useState<string | null>(null);
+  const [exportingModuleId, setExportingModuleId] = useState<string | null>(null);
+  const [isImportingModule, setIsImportingModule] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // SCORM export modal state
+  const [scormExportModule, setScormExportModule] = useState<ContentModule | null>(null);
+  const [scormVersion, setScormVersion] = useState<ScormVersion>('1.2');
+  const [scormPassingScore, setScormPassingScore] = useState(String(DEFAULT_SCORM_PASSING_SCORE));
+  const [isExportingScorm, setIsExportingScorm] = useState(false);
+  const [scormExportError, setScormExportError] = useState<string | null>(null);
 
   const navigate = useNavigate();
   
@@ -166,6 +198,86 @@ const AdminElearning: React.FC = () => {
     }
   }, []);
 
+  const handleDuplicateContentModule = async (mod: ContentModule) => {
+    setDuplicatingModuleId(mod.id);
+    try {
+      await duplicateContentModule(mod.id);
+      setToast({ message: `Module '${mod.title}' duplicated.`, type: 'success' });
+      await loadContentModules();
+    } catch (err) {
+      console.error('Error duplicating content module', err);
+      setToast({ message: 'Failed to duplicate module. Please try again.', type: 'error' });
+    } finally {
+      setDuplicatingModuleId(null);
+    }
+  };
+
+  const handleExportContentModule = async (mod: ContentModule) => {
+    setExportingModuleId(mod.id);
+    try {
+      const zip = await exportContentModulePackage(mod.id);
+      downloadBlob(zip, mod.title, 'zip');
+    } catch (err) {
+      console.error('Error exporting content module', err);
+      setToast({ message: 'Failed to export module. Please try again.', type: 'error' });
+    } finally {
+      setExportingModuleId(null);
+    }
+  };
+
+  const openScormExportModal = (mod: ContentModule) => {
+    setScormExportModule(mod);
+    setScormExportError(null);
+  };
+
+  const closeScormExportModal = () => {
+    if (isExportingScorm) return;
+    setScormExportModule(null);
+  };
+
+  const handleExportScorm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scormExportModule) return;
+
+    const passingScore = Number(scormPassingScore);
+    if (!Number.isFinite(passingScore) || passingScore < 0 || passingScore > 100) {
+      setScormExportError('Passing score must be between 0 and 100.');
+      return;
+    }
+
+    setIsExportingScorm(true);
+    setScormExportError(null);
+    try {
+      const zip = await exportScormPackage(scormExportModule.id, { version: scormVersion, passingScore });
+      downloadBlob(zip, `${scormExportModule.title} scorm ${scormVersion}`, 'zip');
+      setScormExportModule(null);
+    } catch (err: any) {
+      console.error('Error exporting SCORM package', err);
+      setScormExportError(err.message || 'Failed to export SCORM package.');
+    } finally {
+      setIsExportingScorm(false);
+    }
+  };
+
+  const handleImportContentModule = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const packageFile = e.target.files?.[0];
+    // Reset so the same file can be picked again after fixing it
+    e.target.value = '';
+    if (!packageFile) return;
+
+    setIsImportingModule(true);
+    try {
+      const newModuleId = await importContentModulePackage(packageFile);
+      setToast({ message: 'Module imported as a draft.', type: 'success' });
+      navigate(`/admin/content/module-builder/${newModuleId}`);
+    } catch (err: any) {
+      console.error('Error importing content module', err);
+      setToast({ message: err.message || 'Failed to import module.', type: 'error' });
+    } finally {
+      setIsImportingModule(false);
+    }
+  };
+
   useEffect(() => {
     loadScormModules();
     loadContentModules();
@@ -254,10 +366,20 @@ const AdminElearning: React.FC = () => {
 
       if (functionError) {
         console.error("Edge function error:", functionError);
+        // Non-2xx responses carry the function's JSON body (e.g. an invalid
+        // manifest) on error.context – prefer that message when present.
+        let functionMessage: string | null = null;
+        try {
+          const body = await (functionError as any).context?.json?.();
+          functionMessage = body?.error ?? null;
+        } catch {
+          // Body was not JSON – fall back to the generic message
+        }
         throw new Error(
-          `Error creating SCORM module: ${
-            functionError.message || "details not available"
-          }`
+          functionMessage ||
+            `Error creating SCORM module: ${
+              functionError.message || "details not available"
+            }`
         );
       }
 
@@ -352,7 +474,24 @@ const AdminElearning: React.FC = () => {
 
       {/* Modules Section */}
       <div className="bg-white p-6 md:p-8 rounded-2xl shadow-md ring-1 ring-gray-100">
-        <h2 className="text-xl font-bold text-gray-800 mb-4">Modules</h2>
+        <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-800">Modules</h2>
+            <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImportingModule}
+                className="px-3 py-1.5 bg-white text-gray-700 text-sm font-semibold rounded-md border border-gray-300 hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-60"
+            >
+                <FileUp size={16} />
+                {isImportingModule ? 'Importing…' : 'Import module'}
+            </button>
+            <input
+                ref={importInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleImportContentModule}
+                className="hidden"
+            />
+        </div>
         {isLoadingContentModules ? (
             <p className="text-gray-500 text-center py-4">Loading modules…</p>
         ) : contentModulesError ? (
@@ -380,7 +519,30 @@ const AdminElearning: React.FC = () => {
                                 <td className="py-2 pr-4 text-gray-600 truncate max-w-xs" title={mod.description || ''}>
                                     {mod.description || <span className="text-gray-400 italic">No description</span>}
                                 </td>
-                                <td className="py-2 pl-4 text-right">
+                                <td className="py-2 pl-4 text-right space-x-2">
+                                    <button
+                                        onClick={() => handleDuplicateContentModule(mod)}
+                                        disabled={duplicatingModuleId !== null}
+                                        className="px-3 py-1 bg-white text-gray-700 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-60"
+                                    >
+                                        {duplicatingModuleId === mod.id ? 'Duplicating…' : 'Duplicate'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleExportContentModule(mod)}
+                                        disabled={exportingModuleId !== null}
+                                        title="Download as a package to import into another environment"
+                                        className="px-3 py-1 bg-white text-gray-700 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-50 transition-colors disabled:opacity-60 inline-flex items-center gap-1"
+                                    >
+                                        <Download size={12} />
+                                        {exportingModuleId === mod.id ? 'Exporting…' : 'Export'}
+                                    </button>
+                                    <button
+                                        onClick={() => openScormExportModal(mod)}
+                                        title="Download the published version as a SCORM package for another LMS"
+                                        className="px-3 py-1 bg-white text-gray-700 text-xs font-semibold rounded-md border border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        SCORM
+                                    </button>
                                     <button
                                         onClick={() => navigate(`/admin/content/module-builder/${mod.id}`)}
                                         className="px-3 py-1 bg-secondary text-white text-xs font-semibold rounded-md hover:opacity-90 transition-opacity"
@@ -457,6 +619,68 @@ const AdminElearning: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      <Modal isOpen={scormExportModule !== null} onClose={closeScormExportModal} title="Export as SCORM">
+        <form onSubmit={handleExportScorm}>
+          <div className="space-y-4">
+            {scormExportError && <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm">{scormExportError}</div>}
+
+            <p className="text-sm text-gray-600">
+              Packages the published version of <span className="font-semibold">{scormExportModule?.title}</span> for
+              upload to another LMS. Lessons are rendered as static pages and knowledge checks report their scores to the LMS.
+            </p>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-1">SCORM version</legend>
+              <div className="flex gap-6">
+                {(['1.2', '2004'] as ScormVersion[]).map((version) => (
+                  <label key={version} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="scorm-version"
+                      value={version}
+                      checked={scormVersion === version}
+                      onChange={() => setScormVersion(version)}
+                      disabled={isExportingScorm}
+                    />
+                    {version === '1.2' ? 'SCORM 1.2' : 'SCORM 2004 (4th edition)'}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <FormInput
+              label="Passing score (%)"
+              id="scorm-passing-score"
+              type="number"
+              value={scormPassingScore}
+              onChange={(e) => setScormPassingScore(e.target.value)}
+              min="0"
+              max="100"
+              required
+              disabled={isExportingScorm}
+            />
+          </div>
+
+          <div className="mt-6 flex justify-end gap-3 border-t pt-4">
+            <button
+              type="button"
+              onClick={closeScormExportModal}
+              disabled={isExportingScorm}
+              className="px-6 py-2 bg-gray-100 text-gray-700 font-semibold rounded-md hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isExportingScorm}
+              className="px-6 py-2 bg-secondary text-white font-semibold rounded-md hover:opacity-90 transition-opacity disabled:bg-gray-400 disabled:cursor-wait"
+            >
+              {isExportingScorm ? 'Building package...' : 'Download package'}
+            </button>
+          </div>
+        </form>
+      </Modal>
     </div>
   );
 };
@@ -25,18 +25,71 @@ import {
   ListOrdered,
   IndentIncrease,
   Pencil,
+  Undo2,
+  Redo2,
+  Check,
+  CloudOff,
+  Loader2,
+  AlertTriangle,
+  History,
+  Link2,
+  MessageSquare,
 } from "lucide-react";
 import { supabase } from "../../../lib/supabaseClient";
+import { useUndoableState } from "../../../src/hooks/useUndoableState";
+import {
+  claimContentModulePageVersion,
+  getContentModulePageVersion,
+  LESSON_REVIEW_STATUS_LABELS,
+  updateContentModulePageReviewStatus,
+  type LessonReviewStatus,
+} from "../../../src/lib/supabase/contentModules";
+import {
+  createContentBlockComment,
+  groupContentBlockCommentThreads,
+  listContentBlockComments,
+  listContentReviewers,
+  setContentBlockCommentResolved,
+  type ContentBlockCommentRow,
+  type ContentBlockCommentThread,
+  type ContentReviewer,
+} from "../../../src/lib/supabase/contentBlockComments";
+import {
+  diffLessonBlocks,
+  getLessonBlockPlainText,
+  type LessonBlockDiffEntry,
+} from "../../../src/lib/lessonBlockDiff";
+import { LessonBlockDiffView } from "../../../src/components/blocks/shared/LessonBlockDiffView";
+import { LessonHistoryModal } from "../../../src/components/blocks/shared/LessonHistoryModal";
+import { SavedBlocksPanel } from "../../../src/components/blocks/shared/SavedBlocksPanel";
+import { BlockCommentsPanel } from "../../../src/components/blocks/shared/BlockCommentsPanel";
+import {
+  SaveBlockToLibraryModal,
+  type SaveBlockToLibraryValues,
+} from "../../../src/components/blocks/shared/SaveBlockToLibraryModal";
+import {
+  createContentSavedBlock,
+  resolveLinkedBlockRows,
+  updateContentSavedBlockContent,
+  type ContentSavedBlockRow,
+} from "../../../src/lib/supabase/contentSavedBlocks";
+import {
+  createContentModulePageRevision,
+  type ContentModulePageRevision,
+} from "../../../src/lib/supabase/contentModulePageRevisions";
 import {
   upsertContentModuleBlock,
   getContentModuleBlocksByPageId,
   deleteContentModuleBlock,
   type ContentModuleBlockRow,
 } from "../../../src/lib/supabase/contentModuleBlocks";
-import type {
-  TextBlockContentJson,
-  StructuredBlockContent,
-} from "../../../src/types/contentBlocks";
+import {
+  createLessonBlockFromSaved,
+  hydrateLessonBlocks,
+  SAVED_BLOCK_TYPES,
+  serializeLessonBlock,
+} from "../../../src/lib/lessonBlocks";
+import type { StructuredBlockContent } from "../../../src/types/contentBlocks";
 import TipTapEditor from "../../../src/components/editor/TipTapEditor";
 import {
   BlockStyleMenu,
@@ -47,9 +100,9 @@ import {
   BlockMetadataPopover,
   BlockWrapper,
   FormatPanel,
-  getBlockStyleClasses,
-  getContentWidthClasses,
 } from "../../../src/components/blocks/shared/LessonBuilderInternals";
+import { ANIMATION_STYLES } from "../../../src/components/blocks/shared/AnimateOnView";
+import { LessonBlockView } from "../../../src/components/blocks/shared/LessonBlockView";
 import { ParagraphBlock } from "../../../src/components/blocks/text/ParagraphBlock";
 import { ParagraphWithHeaderBlock as ParagraphWithHeadingBlock } from "../../../src/components/blocks/text/ParagraphWithHeaderBlock";
 import { ParagraphWithSubheadingBlock } from "../../../src/components/blocks/text/ParagraphWithSubheadingBlock";
@@ -58,24 +111,41 @@ import { SubheadingBlock } from "../../../src/components/blocks/text/SubheadingB
 import { ImageCenteredBlock } from "../../../src/components/blocks/image/ImageCenteredBlock";
 import { ImageFullWidthBlock } from "../../../src/components/blocks/image/ImageFullWidthBlock";
 import { ImageTextBlock } from "../../../src/components/blocks/image/ImageTextBlock";
-import {
-  FlashcardsBlock,
-  FlashcardsPreview,
-} from "../../../src/components/blocks/interactive/flashcards/FlashcardsBlock";
+import { FlashcardsBlock } from "../../../src/components/blocks/interactive/flashcards/FlashcardsBlock";
 import { SortingActivityBlock } from "../../../src/components/blocks/interactive/sorting-activity/SortingActivityBlock";
 import { AccordionBlock } from "../../../src/components/blocks/interactive/accordion/AccordionBlock";
 import type { AccordionContent } from "../../../src/components/blocks/interactive/accordion/accordion-types";
-import {
-  TabsLearner,
-  TabsBlock,
-} from "../../../src/components/blocks/interactive/tabs";
+import { TabsBlock } from "../../../src/components/blocks/interactive/tabs";
 import type { TabsContent } from "../../../src/components/blocks/interactive/tabs";
 import {
-  ImageCompareLearner,
   ImageCompareBlock,
   getDefaultImageCompareContent,
 } from "../../../src/components/blocks/interactive/image-compare";
 import type { ImageCompareContent } from "../../../src/components/blocks/interactive/image-compare";
+import {
+  KnowledgeCheckBlock,
+  getDefaultKnowledgeCheckContent,
+} from "../../../src/components/blocks/knowledge-check";
+import type { KnowledgeCheckQuestionType } from "../../../src/components/blocks/knowledge-check";
+import {
+  VideoBlock,
+  getDefaultVideoContent,
+} from "../../../src/components/blocks/multimedia/video";
+import {
+  ChartBlock,
+  getDefaultChartContent,
+} from "../../../src/components/blocks/chart";
+import type { ChartType } from "../../../src/components/blocks/chart";
+import {
+  DividerBlock,
+  getDefaultDividerContent,
+} from "../../../src/components/blocks/divider";
+import type { DividerVariant } from "../../../src/components/blocks/divider";
+import {
+  QuoteBlock,
+  getDefaultQuoteContent,
+} from "../../../src/components/blocks/quote";
+import type { QuoteAlignment } from "../../../src/components/blocks/quote";
 import {
   DEFAULT_TABLE_CONTENT,
   TableBlock,
@@ -93,10 +163,6 @@ import type {
   OrderedListStyle,
 } from "../../../src/components/blocks/list/ordered-list/orderedListTypes";
 
-// Import sorting activity types and components
-import type { SortingActivityContent } from "../../../src/components/blocks/sorting/sorting-types";
-import { SortingActivityLearner } from "../../../src/components/blocks/sorting/SortingActivityLearner";
-
 // Import media assets
 import {
   MediaAsset,
@@ -123,10 +189,13 @@ import {
 type LessonPage = {
   id: string;
   title: string;
+  review_status: LessonReviewStatus | null;
+  review_updated_at: string | null;
+  review_updated_by_name: string | null;
 };
 
 // Block types (local to this component for now)
-type LessonBlockType =
+export type LessonBlockType =
   | "heading"
   | "subheading"
   | "paragraph"
@@ -143,7 +212,12 @@ type LessonBlockType =
   | "sorting_activity"
   | "accordion"
   | "tabs"
-  | "image_compare";
+  | "image_compare"
+  | "knowledge_check"
+  | "video"
+  | "chart"
+  | "quote"
+  | "divider";
 
 // Content shape for image-centered block
 interface ImageCenteredContent {
@@ -186,7 +260,7 @@ interface FlashcardImage {
   alt?: string;
 }
 
-interface FlashcardItem {
+export interface FlashcardItem {
   id: string;
   frontHtml: string;
   backHtml: string;
@@ -239,56 +313,6 @@ function getListStyleType(style: OrderedListStyle | undefined): string {
   }
 }
 
-// Helper to convert a number to the appropriate list marker format
-function getListMarker(
-  num: number,
-  style: OrderedListStyle | undefined
-): string {
-  switch (style) {
-    case "lower-alpha":
-      // Convert 1 -> a, 2 -> b, etc. (wraps after z)
-      return String.fromCharCode(97 + ((num - 1) % 26));
-    case "upper-alpha":
-      // Convert 1 -> A, 2 -> B, etc. (wraps after Z)
-      return String.fromCharCode(65 + ((num - 1) % 26));
-    case "lower-roman":
-      return toRoman(num).toLowerCase();
-    case "upper-roman":
-      return toRoman(num);
-    case "decimal":
-    default:
-      return String(num);
-  }
-}
-
-// Helper to convert number to Roman numerals
-function toRoman(num: number): string {
-  if (num < 1 || num > 3999) return String(num);
-  const romanNumerals: [number, string][] = [
-    [1000, "M"],
-    [900, "CM"],
-    [500, "D"],
-    [400, "CD"],
-    [100, "C"],
-    [90, "XC"],
-    [50, "L"],
-    [40, "XL"],
-    [10, "X"],
-    [9, "IX"],
-    [5, "V"],
-    [4, "IV"],
-    [1, "I"],
-  ];
-  let result = "";
-  for (const [value, symbol] of romanNumerals) {
-    while (num >= value) {
-      result += symbol;
-      num -= value;
-    }
-  }
-  return result;
-}
-
 export interface LessonBlock {
   id: string;
   type: LessonBlockType;
@@ -300,6 +324,7 @@ export interface LessonBlock {
   mblMetadata?: unknown; // Raw AI-generated metadata from mbl_metadata column
   savedToDb?: boolean; // true when block exists in content_module_blocks table
   media_asset_id?: string | null; // FK to media_assets for image blocks
+  savedBlockId?: string | null; // content_saved_blocks id when linked to a saved block
   content: {
     heading?: string; // Used by paragraph-with-heading
     subheading?: string; // Used by paragraph-with-subheading
@@ -371,166 +396,6 @@ const ANIMATION_OPTIONS: {
 // Animation duration options
 export type AnimationDuration = "fast" | "normal" | "slow" | "very-slow";
 
-const DURATION_OPTIONS: {
-  value: AnimationDuration;
-  label: string;
-  seconds: number;
-}[] = [
-  { value: "fast", label: "Fast", seconds: 0.3 },
-  { value: "normal", label: "Normal", seconds: 0.6 },
-  { value: "slow", label: "Slow", seconds: 1.0 },
-  { value: "very-slow", label: "Very Slow", seconds: 1.5 },
-];
-
-// Helper to get duration in seconds
-function getDurationSeconds(duration: AnimationDuration | undefined): number {
-  const option = DURATION_OPTIONS.find((d) => d.value === duration);
-  return option?.seconds ?? 0.6; // Default to normal (0.6s)
-}
-
-// CSS keyframe animations for block entrance effects
-const ANIMATION_STYLES = `
-  @keyframes fadeIn {
-    from { opacity: 0; }
-    to { opacity: 1; }
-  }
-  @keyframes slideUp {
-    from { opacity: 0; transform: translateY(30px); }
-    to { opacity: 1; transform: translateY(0); }
-  }
-  @keyframes slideDown {
-    from { opacity: 0; transform: translateY(-30px); }
-    to { opacity: 1; transform: translateY(0); }
-  }
-  @keyframes slideLeft {
-    from { opacity: 0; transform: translateX(30px); }
-    to { opacity: 1; transform: translateX(0); }
-  }
-  @keyframes slideRight {
-    from { opacity: 0; transform: translateX(-30px); }
-    to { opacity: 1; transform: translateX(0); }
-  }
-  @keyframes zoomIn {
-    from { opacity: 0; transform: scale(0.9); }
-    to { opacity: 1; transform: scale(1); }
-  }
-  @keyframes bounce {
-    0% { opacity: 0; transform: translateY(30px); }
-    50% { transform: translateY(-10px); }
-    70% { transform: translateY(5px); }
-    100% { opacity: 1; transform: translateY(0); }
-  }
-  .animate-fade-in { animation: fadeIn 0.6s ease-out both; }
-  .animate-slide-up { animation: slideUp 0.6s ease-out both; }
-  .animate-slide-down { animation: slideDown 0.6s ease-out both; }
-  .animate-slide-left { animation: slideLeft 0.6s ease-out both; }
-  .animate-slide-right { animation: slideRight 0.6s ease-out both; }
-  .animate-zoom-in { animation: zoomIn 0.5s ease-out both; }
-  .animate-bounce { animation: bounce 0.8s ease-out both; }
-  
-  /* Staggered list item animation - slides in from right */
-  @keyframes listItemSlideIn {
-    from { opacity: 0; transform: translateX(50px); }
-    to { opacity: 1; transform: translateX(0); }
-  }
-  .animate-list-item {
-    opacity: 0;
-    animation: listItemSlideIn 0.8s ease-out both;
-  }
-`;
-
-// Helper to get animation class based on animation type
-function getAnimationClass(animation: BlockAnimation | undefined): string {
-  switch (animation) {
-    case "fade-in":
-      return "animate-fade-in";
-    case "slide-up":
-      return "animate-slide-up";
-    case "slide-down":
-      return "animate-slide-down";
-    case "slide-left":
-      return "animate-slide-left";
-    case "slide-right":
-      return "animate-slide-right";
-    case "zoom-in":
-      return "animate-zoom-in";
-    case "bounce":
-      return "animate-bounce";
-    default:
-      return "";
-  }
-}
-
-// Component that animates when it comes into view
-interface AnimateOnViewProps {
-  children: React.ReactNode;
-  animation: BlockAnimation | undefined;
-  duration?: AnimationDuration;
-  className?: string;
-  style?: React.CSSProperties;
-}
-
-const AnimateOnView: React.FC<AnimateOnViewProps> = ({
-  children,
-  animation,
-  duration,
-  className = "",
-  style,
-}) => {
-  const ref = useRef<HTMLDivElement>(null);
-  const [isVisible, setIsVisible] = useState(false);
-
-  useEffect(() => {
-    const element = ref.current;
-    if (!element) return;
-
-    const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          // Only trigger once when element comes into view
-          if (entry.isIntersecting && !isVisible) {
-            setIsVisible(true);
-          }
-        });
-      },
-      {
-        threshold: 0.1, // Trigger when 10% of the element is visible
-        rootMargin: "0px 0px -50px 0px", // Trigger slightly before fully in view
-      }
-    );
-
-    observer.observe(element);
-
-    return () => {
-      observer.disconnect();
-    };
-  }, [isVisible]);
-
-  const animationClass = isVisible ? getAnimationClass(animation) : "";
-  const durationSeconds = getDurationSeconds(duration);
-
-  // Start with opacity 0 if there's an animation, then animate in
-  const initialStyle: React.CSSProperties =
-    animation && animation !== "none" && !isVisible ? { opacity: 0 } : {};
-
-  // Apply custom animation duration and delay via CSS
-  // Delay of 300ms so animation is more noticeable after block comes into view
-  const animationStyle: React.CSSProperties =
-    isVisible && animation && animation !== "none"
-      ? { animationDuration: `${durationSeconds}s`, animationDelay: "0.3s" }
-      : {};
-
-  return (
-    <div
-      ref={ref}
-      className={`${className} ${animationClass}`}
-      style={{ ...style, ...initialStyle, ...animationStyle }}
-    >
-      {children}
-    </div>
-  );
-};
-
 // ---------------------------------------------------------------------------
 // OrderedListControlsBar - Modern icon controls for ordered list settings
 // ---------------------------------------------------------------------------
@@ -736,7 +601,11 @@ const BlockHoverWrapper: React.FC<BlockHoverWrapperProps> = ({
   onMouseLeave,
 }) => {
   return (
-    <div onMouseEnter={onMouseEnter} onMouseLeave={onMouseLeave}>
+    <div
+      className="relative"
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+    >
       {children}
     </div>
   );
@@ -809,7 +678,7 @@ type BlockCategoryId =
   | "knowledge_check"
   | "chart"
   | "divider"
-  | "block_templates"
+  | "saved_blocks"
   | "code";
 
 type BlockTemplate = {
@@ -830,7 +699,7 @@ const BLOCK_LIBRARY_CATEGORIES: { id: BlockCategoryId; label: string }[] = [
   { id: "knowledge_check", label: "Knowledge Check" },
   { id: "chart", label: "Chart" },
   { id: "divider", label: "Divider" },
-  { id: "block_templates", label: "Block Templates" },
+  { id: "saved_blocks", label: "Saved Blocks" },
   { id: "code", label: "Code" },
 ];
 
@@ -908,6 +777,16 @@ const IMAGE_TEMPLATES: BlockTemplate[] = [
   },
 ];
 
+// Templates for the Multimedia category
+const MULTIMEDIA_TEMPLATES: BlockTemplate[] = [
+  {
+    id: "video",
+    title: "Video",
+    description:
+      "Embed a YouTube or Vimeo video, or upload your own with captions.",
+  },
+];
+
 // Templates for the Interactive category
 const INTERACTIVE_TEMPLATES: BlockTemplate[] = [
   {
@@ -937,6 +816,124 @@ const INTERACTIVE_TEMPLATES: BlockTemplate[] = [
   },
 ];
 
+// Templates for the Chart category (ids match ChartType)
+const CHART_TEMPLATES: BlockTemplate[] = [
+  {
+    id: "bar",
+    title: "Bar Chart",
+    description: "Compare values across categories.",
+  },
+  {
+    id: "line",
+    title: "Line Chart",
+    description: "Show how values change over time.",
+  },
+  {
+    id: "pie",
+    title: "Pie Chart",
+    description: "Show how a total splits into parts.",
+  },
+];
+
+// Templates for the Quote category (ids match QuoteAlignment)
+const QUOTE_TEMPLATES: BlockTemplate[] = [
+  {
+    id: "left",
+    title: "Quote",
+    description: "Quote with a rule on the left and optional author.",
+  },
+  {
+    id: "center",
+    title: "Centered Quote",
+    description: "Centered pull quote with author photo and role.",
+  },
+];
+
+// Templates for the Divider category (ids match DividerVariant)
+const DIVIDER_TEMPLATES: BlockTemplate[] = [
+  {
+    id: "line",
+    title: "Line",
+    description: "Horizontal rule between sections.",
+  },
+  {
+    id: "spacer",
+    title: "Spacer",
+    description: "Empty space to give content room to breathe.",
+  },
+  {
+    id: "numbered",
+    title: "Numbered Step",
+    description: "Step marker to break a lesson into stages.",
+  },
+];
+
+// Templates for the Knowledge Check category (ids match KnowledgeCheckQuestionType)
+const KNOWLEDGE_CHECK_TEMPLATES: BlockTemplate[] = [
+  {
+    id: "multiple_choice",
+    title: "Multiple Choice",
+    description: "Learners pick the one correct answer from a list.",
+  },
+  {
+    id: "multiple_response",
+    title: "Multiple Response",
+    description: "Learners select every answer that applies.",
+  },
+  {
+    id: "true_false",
+    title: "True / False",
+    description: "Learners decide whether a statement is true or false.",
+  },
+  {
+    id: "fill_blank",
+    title: "Fill in the Blank",
+    description: "Learners type the answer into a text field.",
+  },
+];
+
+// Maximum number of undo steps kept for a lesson page
+const BLOCK_HISTORY_LIMIT = 100;
+
+// Quiet period after the last edit before changes are autosaved
+const AUTOSAVE_DELAY_MS = 2000;
+
+type AutosaveStatus =
+  "idle" | "unsaved" | "saving" | "saved" | "offline" | "error" | "conflict";
+
+// Another author saved the page after we loaded it
+interface SaveConflict {
+  serverBlocks: LessonBlock[];
+  serverVersion: number;
+  entries: LessonBlockDiffEntry[];
+}
+
+// Serialised upsert params for every persisted block, keyed by block id
+function getSavePayloads(
+  blocks: LessonBlock[],
+  pageId: string
+): Map<string, string> {
+  return new Map(
+    blocks
+      .filter((block) => SAVED_BLOCK_TYPES.includes(block.type))
+      .map((block) => [
+        block.id,
+        JSON.stringify(serializeLessonBlock(block, pageId)),
+      ])
+  );
+}
+
+// Keyboard shortcuts inside text fields and editors are left to the field itself
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT"
+  );
+}
+
 const LessonBuilder: React.FC = () => {
   const { moduleId, pageId } = useParams<{
     moduleId: string;
@@ -955,8 +952,18 @@ const LessonBuilder: React.FC = () => {
   const [selectedCategory, setSelectedCategory] =
     useState<BlockCategoryId | null>(null);
 
-  // Blocks state
-  const [blocks, setBlocks] = useState<LessonBlock[]>([]);
+  // Blocks state, with undo/redo history (bounded, cleared on page change)
+  const {
+    state: blocks,
+    set: setBlocks,
+    undo: undoBlocks,
+    redo: redoBlocks,
+    reset: resetBlocks,
+    patchHistory: patchBlocksHistory,
+    canUndo,
+    canRedo,
+    revision: blocksRevision,
+  } = useUndoableState<LessonBlock[]>([], { limit: BLOCK_HISTORY_LIMIT });
 
   // Format panel state - tracks which block's format panel is open
   const [openFormatBlockId, setOpenFormatBlockId] = useState<string | null>(
@@ -987,8 +994,40 @@ const LessonBuilder: React.FC = () => {
   );
 
   // Save state
-  const [isSaving, setIsSaving] = useState(false);
-  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
+  const isSaving = autosaveStatus === "saving";
+
+  // Version of content_module_pages our saves are based on
+  const pageVersionRef = useRef(0);
+  // Serialised upsert params per block id, as last written to the database
+  const savedPayloadsRef = useRef<Map<string, string>>(new Map());
+  // Latest blocks for async saves started from timers / events
+  const blocksRef = useRef<LessonBlock[]>([]);
+  const isSavingRef = useRef(false);
+  const saveQueuedRef = useRef(false);
+  const hasConflictRef = useRef(false);
+
+  // Saved blocks library
+  const [blockToSaveToLibrary, setBlockToSaveToLibrary] =
+    useState<LessonBlock | null>(null);
+  const [savedBlocksRefreshKey, setSavedBlocksRefreshKey] = useState(0);
+
+  // Version history
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  // Set when a revision is restored so the next save records where it came from
+  const restoredFromRevisionIdRef = useRef<string | null>(null);
+
+  // Block comments + review workflow
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [comments, setComments] = useState<ContentBlockCommentRow[]>([]);
+  const [reviewers, setReviewers] = useState<ContentReviewer[]>([]);
+  const [commentsBlockId, setCommentsBlockId] = useState<string | null>(null);
+  const [showOpenCommentsOnly, setShowOpenCommentsOnly] = useState(false);
+  const [isUpdatingReview, setIsUpdatingReview] = useState(false);
 
   // Preview state
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
@@ -1003,6 +1042,23 @@ const LessonBuilder: React.FC = () => {
 
   useEffect(() => {
     const loadPageAndUser = async () => {
+      // Switching pages starts a fresh block list, history and save state
+      initialLoadComplete.current = false;
+      resetBlocks([]);
+      savedPayloadsRef.current = new Map();
+      pageVersionRef.current = 0;
+      hasConflictRef.current = false;
+      setSaveConflict(null);
+      setIsConflictModalOpen(false);
+      setIsHistoryOpen(false);
+      setCommentsBlockId(null);
+      setShowOpenCommentsOnly(false);
+      setComments([]);
+      restoredFromRevisionIdRef.current = null;
+      setAutosaveStatus("idle");
+      setLastSavedAt(null);
+      setHasUnsavedChanges(false);
+
       if (!pageId) {
         setLoading(false);
         return;
@@ -1011,7 +1067,9 @@ const LessonBuilder: React.FC = () => {
       // Load lesson page
       const { data, error } = await supabase
         .from("content_module_pages")
-        .select("id, title")
+        .select(
+          "id, title, review_status, review_updated_at, review_updated_by_name"
+        )
         .eq("id", pageId)
         .single();
 
@@ -1028,6 +1086,8 @@ const LessonBuilder: React.FC = () => {
       } = await supabase.auth.getUser();
 
       if (!userError && user) {
+        setCurrentUserId(user.id);
+
         const { data: profile, error: profileError } = await supabase
           .from("profiles")
           .select("first_name, last_name, email")
@@ -1068,631 +1128,20 @@ const LessonBuilder: React.FC = () => {
       // Load existing blocks from the database
       // -----------------------------------------------------------------------
       try {
-        const rows = await getContentModuleBlocksByPageId(pageId);
+        const [rows, pageVersion] = await Promise.all([
+          getContentModuleBlocksByPageId(pageId).then(resolveLinkedBlockRows),
+          getContentModulePageVersion(pageId),
+        ]);
 
         // Hydrate text blocks and image blocks
-        const supportedDbTypes = [
-          "text",
-          "numbered-list",
-          "bullet-list",
-          "image-centered",
-          "image-fullwidth",
-          "image-text",
-          "flashcards",
-          "sorting_activity",
-          "accordion",
-          "tabs",
-          "image_compare",
-        ];
-        const hydratedBlocks: LessonBlock[] = rows
-          .filter((row) => supportedDbTypes.includes(row.type))
-          .map((row) => {
-            const json = row.content_json as TextBlockContentJson | null;
-
-            // ---------------------------------------------------------------
-            // Handle image block types directly (they use DB type as-is)
-            // ---------------------------------------------------------------
-            if (
-              row.type === "image-centered" ||
-              row.type === "image-fullwidth"
-            ) {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              // Read style from content_json.style, falling back to "light"
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              // Read animation settings from content_json
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              return {
-                id: row.id,
-                type: row.type as LessonBlockType, // "image-centered" or "image-fullwidth"
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                media_asset_id: row.media_asset_id ?? null,
-                content: {
-                  // Spread content from DB (media_asset_id, alt_text, caption, public_url, image, etc.)
-                  media_asset_id:
-                    (rawContent as any).media_asset_id ??
-                    row.media_asset_id ??
-                    null,
-                  alt_text: (rawContent as any).alt_text ?? "",
-                  caption: (rawContent as any).caption ?? null,
-                  public_url: (rawContent as any).public_url ?? null,
-                  image: (rawContent as any).image ?? null,
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle image-text blocks
-            // ---------------------------------------------------------------
-            if (row.type === "image-text") {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              // Read style from content_json.style, falling back to "light"
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              // Read animation settings from content_json
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              // Extract body HTML from content.text.body (primary) or content.body (fallback)
-              const savedText = (rawContent as any).text;
-              const bodyHtml: string =
-                (typeof savedText === "object" && savedText?.body) ||
-                (rawContent as any).body ||
-                "";
-
-              // Extract layout content
-              const savedLayout = (rawContent as any).layout ?? {};
-              const rawImagePosition = savedLayout.imagePosition ?? "left";
-              const rawImageWidth = savedLayout.imageWidth ?? 50;
-
-              // Convert imageWidth from decimal (0.25, 0.5, 0.75) to integer (25, 50, 75) if needed
-              const imageWidthInt: 25 | 50 | 75 =
-                rawImageWidth <= 1
-                  ? rawImageWidth === 0.25
-                    ? 25
-                    : rawImageWidth === 0.75
-                    ? 75
-                    : 50
-                  : rawImageWidth === 25
-                  ? 25
-                  : rawImageWidth === 75
-                  ? 75
-                  : 50;
-
-              // Extract image URL from content.image.url (primary) or content.public_url (fallback)
-              const imageUrl: string | null =
-                (rawContent as any).image?.url ||
-                (rawContent as any).public_url ||
-                null;
-
-              // Debug log to verify data is being read correctly
-              console.log("ImageText deserialize:", {
-                rowId: row.id,
-                bodyHtml:
-                  bodyHtml.substring(0, 100) +
-                  (bodyHtml.length > 100 ? "..." : ""),
-                imageUrl,
-                imagePosition: rawImagePosition,
-                imageWidth: imageWidthInt,
-              });
-
-              return {
-                id: row.id,
-                type: "image-text" as LessonBlockType,
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                media_asset_id: row.media_asset_id ?? null,
-                content: {
-                  media_asset_id:
-                    (rawContent as any).media_asset_id ??
-                    row.media_asset_id ??
-                    null,
-                  // Use imageUrl which reads from both content.image.url and content.public_url
-                  public_url: imageUrl,
-                  alt_text: (rawContent as any).alt_text ?? "",
-                  layout: {
-                    imagePosition: rawImagePosition as "left" | "right",
-                    imageWidth: imageWidthInt,
-                  },
-                  text: {
-                    heading: "",
-                    body: bodyHtml,
-                  },
-                  ai_metadata: (rawContent as any).ai_metadata ?? null,
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle flashcards blocks
-            // ---------------------------------------------------------------
-            if (row.type === "flashcards") {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              // Read style from content_json.style, falling back to "light"
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              // Read animation settings from content_json
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              // Extract cards array from content
-              const savedCards = (rawContent as any).cards ?? [];
-              const savedTitle = (rawContent as any).title ?? "Flashcards";
-
-              console.log("Flashcards deserialize:", {
-                rowId: row.id,
-                cardCount: savedCards.length,
-                title: savedTitle,
-              });
-
-              return {
-                id: row.id,
-                type: "flashcards" as LessonBlockType,
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                content: {
-                  title: savedTitle,
-                  cards: savedCards.map((card: any) => ({
-                    id: card.id,
-                    frontHtml: card.frontHtml ?? "",
-                    backHtml: card.backHtml ?? "",
-                    frontDisplayMode: card.frontDisplayMode ?? "text",
-                    backDisplayMode: card.backDisplayMode ?? "text",
-                    frontImage: card.frontImage ?? null,
-                    backImage: card.backImage ?? null,
-                  })),
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle sorting activity blocks
-            // ---------------------------------------------------------------
-            if (row.type === "sorting_activity") {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              const categories = (rawContent as any).categories ?? [];
-              const items = (rawContent as any).items ?? [];
-              const settings = (rawContent as any).settings ?? {};
-
-              return {
-                id: row.id,
-                type: "sorting_activity" as LessonBlockType,
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                content: {
-                  title: (rawContent as any).title ?? "",
-                  instructions: (rawContent as any).instructions ?? "",
-                  categories,
-                  items,
-                  settings,
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle accordion blocks
-            // ---------------------------------------------------------------
-            if (row.type === "accordion") {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              return {
-                id: row.id,
-                type: "accordion" as LessonBlockType,
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                content: {
-                  ...(rawContent as any),
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle tabs blocks
-            // ---------------------------------------------------------------
-            if (row.type === "tabs") {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              const rawTabs = (rawContent as any).tabs ?? [];
-              const rawSettings = (rawContent as any).settings ?? {};
-
-              const normalizedTabs = Array.isArray(rawTabs)
-                ? rawTabs.map((t: any, idx: number) => ({
-                    id: t?.id ?? `tab-${idx + 1}`,
-                    title: t?.title ?? "",
-                    content: t?.content ?? "",
-                    image: t?.image ?? null,
-                  }))
-                : [];
-
-              const tabsContent: TabsContent & Record<string, unknown> = {
-                title: (rawContent as any).title ?? "",
-                tabs: normalizedTabs,
-                settings: {
-                  style: rawSettings?.style ?? "light",
-                  allowKeyboardNav: rawSettings?.allowKeyboardNav ?? true,
-                },
-              };
-
-              return {
-                id: row.id,
-                type: "tabs" as LessonBlockType,
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                content: {
-                  ...tabsContent,
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle image_compare blocks
-            // ---------------------------------------------------------------
-            if (row.type === "image_compare") {
-              const rawContent =
-                typeof json?.content === "object" && json?.content !== null
-                  ? json.content
-                  : {};
-
-              const savedStyle = json?.style?.style ?? "light";
-              const savedCustomColor =
-                json?.style?.customBackgroundColor ?? undefined;
-              const savedAnimation = (json as any)?.animation ?? "none";
-              const savedAnimationDuration =
-                (json as any)?.animationDuration ?? "normal";
-
-              const defaults = getDefaultImageCompareContent();
-
-              const compareContent: ImageCompareContent &
-                Record<string, unknown> = {
-                ...defaults,
-                ...(rawContent as any),
-                settings: {
-                  ...(defaults.settings ?? {}),
-                  ...(((rawContent as any).settings as any) ?? {}),
-                },
-              };
-
-              return {
-                id: row.id,
-                type: "image_compare" as LessonBlockType,
-                orderIndex: row.order_index,
-                style: savedStyle as BlockStyle,
-                customBackgroundColor: savedCustomColor,
-                layout: { ...DEFAULT_BLOCK_LAYOUT },
-                metadata: {
-                  behaviourTag: json?.metadata?.behaviourTag ?? null,
-                  cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                  learningPattern: json?.metadata?.learningPattern ?? null,
-                  difficulty: json?.metadata?.difficulty ?? null,
-                  notes: json?.metadata?.notes ?? null,
-                  source: json?.metadata?.source ?? null,
-                  fieldSources: json?.metadata?.fieldSources ?? undefined,
-                  aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                  aiConfidenceScores:
-                    json?.metadata?.aiConfidenceScores ?? undefined,
-                },
-                mblMetadata: row.mbl_metadata,
-                savedToDb: true,
-                content: {
-                  ...compareContent,
-                  animation: savedAnimation as BlockAnimation,
-                  animationDuration:
-                    savedAnimationDuration as AnimationDuration,
-                },
-              };
-            }
-
-            // ---------------------------------------------------------------
-            // Handle text-based blocks (row.type === "text")
-            // ---------------------------------------------------------------
-            // Determine internal block type from content_json.blockType
-            const internalType = (json?.blockType ??
-              "paragraph") as LessonBlockType;
-
-            // Build the content object based on block type
-            // Handle both old format (string) and new format (structured object)
-            const content: LessonBlock["content"] = {};
-            const rawContent = json?.content;
-            const isStructured =
-              typeof rawContent === "object" && rawContent !== null;
-
-            if (internalType === "paragraph") {
-              content.html = typeof rawContent === "string" ? rawContent : "";
-            } else if (internalType === "heading") {
-              content.heading =
-                typeof rawContent === "string" ? rawContent : "";
-            } else if (internalType === "subheading") {
-              content.subheading =
-                typeof rawContent === "string" ? rawContent : "";
-            } else if (internalType === "paragraph-with-heading") {
-              if (isStructured) {
-                // New format: structured content with heading and body
-                content.heading = (rawContent as any).heading ?? "";
-                content.html = (rawContent as any).body ?? "";
-              } else {
-                // Old format: combined string (legacy)
-                content.heading = "";
-                content.html = typeof rawContent === "string" ? rawContent : "";
-              }
-            } else if (internalType === "paragraph-with-subheading") {
-              if (isStructured) {
-                // New format: structured content with subheading and body
-                content.subheading = (rawContent as any).subheading ?? "";
-                content.html = (rawContent as any).body ?? "";
-              } else {
-                // Old format: combined string (legacy)
-                content.subheading = "";
-                content.html = typeof rawContent === "string" ? rawContent : "";
-              }
-            } else if (internalType === "columns") {
-              if (isStructured) {
-                // New format: structured content with columnOne and columnTwo
-                content.columnOneContent = (rawContent as any).columnOne ?? "";
-                content.columnTwoContent = (rawContent as any).columnTwo ?? "";
-              } else {
-                // Old format: combined string (legacy)
-                content.columnOneContent =
-                  typeof rawContent === "string" ? rawContent : "";
-                content.columnTwoContent = "";
-              }
-            } else if (internalType === "table") {
-              // Load table content from database
-              if (isStructured) {
-                content.tableContent = (rawContent as any).tableContent ?? null;
-                content.borderMode = (rawContent as any).borderMode ?? "normal";
-              } else {
-                // Legacy/fallback
-                content.tableContent = null;
-                content.borderMode = "normal";
-              }
-            } else if (internalType === "numbered-list") {
-              // Load numbered list content from database
-              if (isStructured) {
-                content.listItems = (rawContent as any).items ?? [];
-                content.startNumber = (rawContent as any).startNumber ?? 1;
-                content.listStyle = (rawContent as any).listStyle ?? "decimal";
-                content.subStyle =
-                  (rawContent as any).subStyle ?? "lower-alpha";
-                content.numberColor =
-                  (rawContent as any).numberColor ?? "#f97316";
-              } else {
-                // Legacy/fallback - create one empty item
-                content.listItems = [{ body: "<p>List item...</p>" }];
-                content.startNumber = 1;
-                content.listStyle = "decimal";
-                content.subStyle = "lower-alpha";
-                content.numberColor = "#f97316";
-              }
-            } else if (internalType === "bullet-list") {
-              // Load bullet list content from database
-              if (isStructured) {
-                content.bulletItems = (rawContent as any).bulletItems ?? [];
-                content.bulletStyle = (rawContent as any).bulletStyle ?? "disc";
-                content.bulletSubStyle =
-                  (rawContent as any).bulletSubStyle ?? "disc";
-                content.bulletColor =
-                  (rawContent as any).bulletColor ?? "#f97316";
-              } else {
-                // Legacy/fallback - create one empty item
-                content.bulletItems = [
-                  { body: "<p>Bullet point content...</p>" },
-                ];
-                content.bulletStyle = "disc";
-                content.bulletSubStyle = "disc";
-                content.bulletColor = "#f97316";
-              }
-            } else {
-              // Fallback
-              content.html = typeof rawContent === "string" ? rawContent : "";
-            }
-
-            // Read style from content_json.style, falling back to "light" for legacy blocks
-            const savedStyle = json?.style?.style ?? "light";
-            const savedCustomColor =
-              json?.style?.customBackgroundColor ?? undefined;
-            // Read animation settings from content_json
-            const savedAnimation = (json as any)?.animation ?? "none";
-            const savedAnimationDuration =
-              (json as any)?.animationDuration ?? "normal";
-
-            return {
-              id: row.id,
-              type: internalType,
-              orderIndex: row.order_index,
-              style: savedStyle as BlockStyle,
-              customBackgroundColor: savedCustomColor,
-              layout: { ...DEFAULT_BLOCK_LAYOUT },
-              metadata: {
-                behaviourTag: json?.metadata?.behaviourTag ?? null,
-                cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
-                learningPattern: json?.metadata?.learningPattern ?? null,
-                difficulty: json?.metadata?.difficulty ?? null,
-                notes: json?.metadata?.notes ?? null,
-                source: json?.metadata?.source ?? null,
-                fieldSources: json?.metadata?.fieldSources ?? undefined,
-                aiExplanations: json?.metadata?.aiExplanations ?? undefined,
-                aiConfidenceScores:
-                  json?.metadata?.aiConfidenceScores ?? undefined,
-              },
-              mblMetadata: row.mbl_metadata, // Raw AI-generated metadata from database
-              savedToDb: true,
-              content: {
-                ...content,
-                animation: savedAnimation as BlockAnimation,
-                animationDuration: savedAnimationDuration as AnimationDuration,
-              },
-            };
-          });
+        const hydratedBlocks: LessonBlock[] = hydrateLessonBlocks(rows);
 
         if (hydratedBlocks.length > 0) {
-          setBlocks(hydratedBlocks);
+          resetBlocks(hydratedBlocks);
         }
+        savedPayloadsRef.current = getSavePayloads(hydratedBlocks, pageId);
+        pageVersionRef.current = pageVersion?.version ?? 0;
+        setAutosaveStatus("saved");
       } catch (err) {
         console.error("Error loading blocks from database:", err);
       }
@@ -1708,13 +1157,6 @@ const LessonBuilder: React.FC = () => {
     loadPageAndUser();
   }, [pageId]);
 
-  // Track unsaved changes when blocks are modified (after initial load)
-  useEffect(() => {
-    if (initialLoadComplete.current && blocks.length > 0) {
-      setHasUnsavedChanges(true);
-    }
-  }, [blocks]);
-
   // Block handlers
   const handleAddParagraphBlock = () => {
     // Use pendingInsertIndex if set, otherwise append to end
@@ -1722,11 +1164,30 @@ const LessonBuilder: React.FC = () => {
   };
 
   const handleUpdateBlock = (updatedBlock: LessonBlock) => {
-    setBlocks((prev) =>
-      prev.map((b) => (b.id === updatedBlock.id ? updatedBlock : b))
+    // Keystrokes in the same block collapse into a single undo step
+    setBlocks(
+      (prev) => prev.map((b) => (b.id === updatedBlock.id ? updatedBlock : b)),
+      { coalesceKey: `content:${updatedBlock.id}` }
     );
   };
 
+  // Undo / redo shortcuts: Ctrl+Z and Ctrl+Shift+Z (Cmd on macOS)
+  useEffect(() => {
+    const handleUndoRedoKeys = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      if (isEditableTarget(e.target)) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redoBlocks();
+      } else {
+        undoBlocks();
+      }
+    };
+    document.addEventListener("keydown", handleUndoRedoKeys);
+    return () => document.removeEventListener("keydown", handleUndoRedoKeys);
+  }, [undoBlocks, redoBlocks]);
+
   const handleBlockStyleChange = (
     blockId: string,
     newStyle: BlockStyle,
@@ -2238,46 +1699,18 @@ const LessonBuilder: React.FC = () => {
     createSortingActivityBlockAtIndex(pendingInsertIndex);
   };
 
-  // Create a new accordion block at a specific index or at the end
-  const createAccordionBlockAtIndex = (insertIndex: number | null) => {
+  // Create a new video block at a specific index or at the end
+  const createVideoBlockAtIndex = (insertIndex: number | null) => {
     setBlocks((prev) => {
-      const defaultAccordionContent: AccordionContent = {
-        title: "",
-        instructions: "",
-        items: [
-          {
-            id: "acc-1",
-            title: "Embracing Discovery",
-            bodyHtml: "<p>Add your content here.</p>",
-            isOpenByDefault: false,
-          },
-          {
-            id: "acc-2",
-            title: "Gaining Insight",
-            bodyHtml: "<p>Add your content here.</p>",
-            isOpenByDefault: true,
-          },
-          {
-            id: "acc-3",
-            title: "Making It Real",
-            bodyHtml: "<p>Add your content here.</p>",
-            isOpenByDefault: false,
-          },
-        ],
-        settings: {
-          allowMultipleOpen: false,
-        },
-      };
-
       const newBlock: LessonBlock = {
         id: crypto.randomUUID(),
-        type: "accordion",
+        type: "video",
         orderIndex: 0, // will be recalculated
         style: "light",
         customBackgroundColor: undefined,
         layout: { ...DEFAULT_BLOCK_LAYOUT },
         metadata: { ...DEFAULT_BLOCK_METADATA },
-        content: defaultAccordionContent,
+        content: { ...getDefaultVideoContent() },
       };
 
       let newBlocks: LessonBlock[];
@@ -2307,50 +1740,25 @@ const LessonBuilder: React.FC = () => {
     setPendingInsertIndex(null);
   };
 
-  const handleAddAccordionBlock = () => {
-    createAccordionBlockAtIndex(pendingInsertIndex);
+  const handleAddVideoBlock = () => {
+    createVideoBlockAtIndex(pendingInsertIndex);
   };
 
-  // Create a new tabs block at a specific index or at the end
-  const createTabsBlockAtIndex = (insertIndex: number | null) => {
+  // Create a new chart block at a specific index or at the end
+  const createChartBlockAtIndex = (
+    insertIndex: number | null,
+    chartType: ChartType
+  ) => {
     setBlocks((prev) => {
-      const defaultTabsContent: TabsContent & Record<string, unknown> = {
-        title: "",
-        tabs: [
-          {
-            id: "tab-1",
-            title: "Embracing discovery",
-            content: "<p>Add your content here.</p>",
-            image: null,
-          },
-          {
-            id: "tab-2",
-            title: "Gaining insight",
-            content: "<p>Add your content here.</p>",
-            image: null,
-          },
-          {
-            id: "tab-3",
-            title: "Making it real",
-            content: "<p>Add your content here.</p>",
-            image: null,
-          },
-        ],
-        settings: {
-          style: "light",
-          allowKeyboardNav: true,
-        },
-      };
-
       const newBlock: LessonBlock = {
         id: crypto.randomUUID(),
-        type: "tabs",
+        type: "chart",
         orderIndex: 0, // will be recalculated
         style: "light",
         customBackgroundColor: undefined,
         layout: { ...DEFAULT_BLOCK_LAYOUT },
         metadata: { ...DEFAULT_BLOCK_METADATA },
-        content: defaultTabsContent,
+        content: { ...getDefaultChartContent(chartType) },
       };
 
       let newBlocks: LessonBlock[];
@@ -2380,26 +1788,25 @@ const LessonBuilder: React.FC = () => {
     setPendingInsertIndex(null);
   };
 
-  const handleAddTabsBlock = () => {
-    createTabsBlockAtIndex(pendingInsertIndex);
+  const handleAddChartBlock = (chartType: ChartType) => {
+    createChartBlockAtIndex(pendingInsertIndex, chartType);
   };
 
-  // Create a new image_compare block at a specific index or at the end
-  const createImageCompareBlockAtIndex = (insertIndex: number | null) => {
+  // Create a new quote block at a specific index or at the end
+  const createQuoteBlockAtIndex = (
+    insertIndex: number | null,
+    alignment: QuoteAlignment
+  ) => {
     setBlocks((prev) => {
-      const defaultCompareContent =
-        getDefaultImageCompareContent() as ImageCompareContent &
-          Record<string, unknown>;
-
       const newBlock: LessonBlock = {
         id: crypto.randomUUID(),
-        type: "image_compare",
+        type: "quote",
         orderIndex: 0, // will be recalculated
         style: "light",
         customBackgroundColor: undefined,
         layout: { ...DEFAULT_BLOCK_LAYOUT },
         metadata: { ...DEFAULT_BLOCK_METADATA },
-        content: defaultCompareContent,
+        content: { ...getDefaultQuoteContent(alignment) },
       };
 
       let newBlocks: LessonBlock[];
@@ -2429,11 +1836,304 @@ const LessonBuilder: React.FC = () => {
     setPendingInsertIndex(null);
   };
 
-  const handleAddImageCompareBlock = () => {
-    createImageCompareBlockAtIndex(pendingInsertIndex);
+  const handleAddQuoteBlock = (alignment: QuoteAlignment) => {
+    createQuoteBlockAtIndex(pendingInsertIndex, alignment);
   };
 
-  // Create a new image-centered block at a specific index or at the end
+  // Create a new divider block at a specific index or at the end
+  const createDividerBlockAtIndex = (
+    insertIndex: number | null,
+    variant: DividerVariant
+  ) => {
+    setBlocks((prev) => {
+      const newBlock: LessonBlock = {
+        id: crypto.randomUUID(),
+        type: "divider",
+        orderIndex: 0, // will be recalculated
+        style: "light",
+        customBackgroundColor: undefined,
+        layout: { ...DEFAULT_BLOCK_LAYOUT },
+        metadata: { ...DEFAULT_BLOCK_METADATA },
+        content: { ...getDefaultDividerContent(variant) },
+      };
+
+      let newBlocks: LessonBlock[];
+
+      if (
+        insertIndex !== null &&
+        insertIndex >= 0 &&
+        insertIndex <= prev.length
+      ) {
+        newBlocks = [
+          ...prev.slice(0, insertIndex),
+          newBlock,
+          ...prev.slice(insertIndex),
+        ];
+      } else {
+        newBlocks = [...prev, newBlock];
+      }
+
+      return newBlocks.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+
+    setIsBlockLibraryOpen(false);
+    setSelectedCategory(null);
+    setPendingInsertIndex(null);
+  };
+
+  const handleAddDividerBlock = (variant: DividerVariant) => {
+    createDividerBlockAtIndex(pendingInsertIndex, variant);
+  };
+
+  // Create a new knowledge check block at a specific index or at the end
+  const createKnowledgeCheckBlockAtIndex = (
+    insertIndex: number | null,
+    questionType: KnowledgeCheckQuestionType
+  ) => {
+    setBlocks((prev) => {
+      const newBlock: LessonBlock = {
+        id: crypto.randomUUID(),
+        type: "knowledge_check",
+        orderIndex: 0, // will be recalculated
+        style: "light",
+        customBackgroundColor: undefined,
+        layout: { ...DEFAULT_BLOCK_LAYOUT },
+        metadata: { ...DEFAULT_BLOCK_METADATA },
+        content: { ...getDefaultKnowledgeCheckContent(questionType) },
+      };
+
+      let newBlocks: LessonBlock[];
+
+      if (
+        insertIndex !== null &&
+        insertIndex >= 0 &&
+        insertIndex <= prev.length
+      ) {
+        newBlocks = [
+          ...prev.slice(0, insertIndex),
+          newBlock,
+          ...prev.slice(insertIndex),
+        ];
+      } else {
+        newBlocks = [...prev, newBlock];
+      }
+
+      return newBlocks.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+
+    setIsBlockLibraryOpen(false);
+    setSelectedCategory(null);
+    setPendingInsertIndex(null);
+  };
+
+  const handleAddKnowledgeCheckBlock = (
+    questionType: KnowledgeCheckQuestionType
+  ) => {
+    createKnowledgeCheckBlockAtIndex(pendingInsertIndex, questionType);
+  };
+
+  // Create a new accordion block at a specific index or at the end
+  const createAccordionBlockAtIndex = (insertIndex: number | null) => {
+    setBlocks((prev) => {
+      const defaultAccordionContent: AccordionContent = {
+        title: "",
+        instructions: "",
+        items: [
+          {
+            id: "acc-1",
+            title: "Embracing Discovery",
+            bodyHtml: "<p>Add your content here.</p>",
+            isOpenByDefault: false,
+          },
+          {
+            id: "acc-2",
+            title: "Gaining Insight",
+            bodyHtml: "<p>Add your content here.</p>",
+            isOpenByDefault: true,
+          },
+          {
+            id: "acc-3",
+            title: "Making It Real",
+            bodyHtml: "<p>Add your content here.</p>",
+            isOpenByDefault: false,
+          },
+        ],
+        settings: {
+          allowMultipleOpen: false,
+        },
+      };
+
+      const newBlock: LessonBlock = {
+        id: crypto.randomUUID(),
+        type: "accordion",
+        orderIndex: 0, // will be recalculated
+        style: "light",
+        customBackgroundColor: undefined,
+        layout: { ...DEFAULT_BLOCK_LAYOUT },
+        metadata: { ...DEFAULT_BLOCK_METADATA },
+        content: defaultAccordionContent,
+      };
+
+      let newBlocks: LessonBlock[];
+
+      if (
+        insertIndex !== null &&
+        insertIndex >= 0 &&
+        insertIndex <= prev.length
+      ) {
+        newBlocks = [
+          ...prev.slice(0, insertIndex),
+          newBlock,
+          ...prev.slice(insertIndex),
+        ];
+      } else {
+        newBlocks = [...prev, newBlock];
+      }
+
+      return newBlocks.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+
+    setIsBlockLibraryOpen(false);
+    setSelectedCategory(null);
+    setPendingInsertIndex(null);
+  };
+
+  const handleAddAccordionBlock = () => {
+    createAccordionBlockAtIndex(pendingInsertIndex);
+  };
+
+  // Create a new tabs block at a specific index or at the end
+  const createTabsBlockAtIndex = (insertIndex: number | null) => {
+    setBlocks((prev) => {
+      const defaultTabsContent: TabsContent & Record<string, unknown> = {
+        title: "",
+        tabs: [
+          {
+            id: "tab-1",
+            title: "Embracing discovery",
+            content: "<p>Add your content here.</p>",
+            image: null,
+          },
+          {
+            id: "tab-2",
+            title: "Gaining insight",
+            content: "<p>Add your content here.</p>",
+            image: null,
+          },
+          {
+            id: "tab-3",
+            title: "Making it real",
+            content: "<p>Add your content here.</p>",
+            image: null,
+          },
+        ],
+        settings: {
+          style: "light",
+          allowKeyboardNav: true,
+        },
+      };
+
+      const newBlock: LessonBlock = {
+        id: crypto.randomUUID(),
+        type: "tabs",
+        orderIndex: 0, // will be recalculated
+        style: "light",
+        customBackgroundColor: undefined,
+        layout: { ...DEFAULT_BLOCK_LAYOUT },
+        metadata: { ...DEFAULT_BLOCK_METADATA },
+        content: defaultTabsContent,
+      };
+
+      let newBlocks: LessonBlock[];
+
+      if (
+        insertIndex !== null &&
+        insertIndex >= 0 &&
+        insertIndex <= prev.length
+      ) {
+        newBlocks = [
+          ...prev.slice(0, insertIndex),
+          newBlock,
+          ...prev.slice(insertIndex),
+        ];
+      } else {
+        newBlocks = [...prev, newBlock];
+      }
+
+      return newBlocks.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+
+    setIsBlockLibraryOpen(false);
+    setSelectedCategory(null);
+    setPendingInsertIndex(null);
+  };
+
+  const handleAddTabsBlock = () => {
+    createTabsBlockAtIndex(pendingInsertIndex);
+  };
+
+  // Create a new image_compare block at a specific index or at the end
+  const createImageCompareBlockAtIndex = (insertIndex: number | null) => {
+    setBlocks((prev) => {
+      const defaultCompareContent =
+        getDefaultImageCompareContent() as ImageCompareContent &
+          Record<string, unknown>;
+
+      const newBlock: LessonBlock = {
+        id: crypto.randomUUID(),
+        type: "image_compare",
+        orderIndex: 0, // will be recalculated
+        style: "light",
+        customBackgroundColor: undefined,
+        layout: { ...DEFAULT_BLOCK_LAYOUT },
+        metadata: { ...DEFAULT_BLOCK_METADATA },
+        content: defaultCompareContent,
+      };
+
+      let newBlocks: LessonBlock[];
+
+      if (
+        insertIndex !== null &&
+        insertIndex >= 0 &&
+        insertIndex <= prev.length
+      ) {
+        newBlocks = [
+          ...prev.slice(0, insertIndex),
+          newBlock,
+          ...prev.slice(insertIndex),
+        ];
+      } else {
+        newBlocks = [...prev, newBlock];
+      }
+
+      return newBlocks.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+
+    setIsBlockLibraryOpen(false);
+    setSelectedCategory(null);
+    setPendingInsertIndex(null);
+  };
+
+  const handleAddImageCompareBlock = () => {
+    createImageCompareBlockAtIndex(pendingInsertIndex);
+  };
+
+  // Create a new image-centered block at a specific index or at the end
   const createImageCenteredBlockAtIndex = (insertIndex: number | null) => {
     setBlocks((prev) => {
       const newBlock: LessonBlock = {
@@ -2753,32 +2453,17 @@ const LessonBuilder: React.FC = () => {
     createParagraphWithSubheadingBlockAtIndex(pendingInsertIndex);
   };
 
-  const handleDeleteBlock = async (blockId: string) => {
-    // Find the block to check if it's saved to the database
-    const blockToDelete = blocks.find((b) => b.id === blockId);
-
+  const handleDeleteBlock = (blockId: string) => {
     // Show confirmation dialog
     const confirmed = window.confirm(
-      "Are you sure you want to delete this block? This action cannot be undone."
+      "Are you sure you want to delete this block? You can restore it with Undo (Ctrl+Z)."
     );
 
     if (!confirmed) {
       return;
     }
 
-    // If the block was saved to the database, delete it there first
-    if (blockToDelete?.savedToDb) {
-      try {
-        await deleteContentModuleBlock(blockId);
-        console.log("Block deleted from database:", blockId);
-      } catch (error) {
-        console.error("Error deleting block from database:", error);
-        alert("Failed to delete block. Please try again.");
-        return;
-      }
-    }
-
-    // Remove from local state
+    // Remove from local state (the database row is removed on the next save)
     setBlocks((prev) =>
       prev
         .filter((block) => block.id !== blockId)
@@ -2820,6 +2505,82 @@ const LessonBuilder: React.FC = () => {
     });
   };
 
+  // ---------------------------------------------------------------------------
+  // Saved blocks library
+  // ---------------------------------------------------------------------------
+
+  const handleSaveBlockToLibrary = async ({
+    name,
+    tags,
+    linked,
+  }: SaveBlockToLibraryValues) => {
+    if (!blockToSaveToLibrary) return;
+    const params = serializeLessonBlock(blockToSaveToLibrary, pageId ?? "");
+    const saved = await createContentSavedBlock({
+      name,
+      tags,
+      blockType: blockToSaveToLibrary.type,
+      contentJson: params.contentJson,
+      mediaAssetId: params.mediaAssetId,
+      createdByName: authorName,
+    });
+
+    if (linked) {
+      const blockId = blockToSaveToLibrary.id;
+      setBlocks((prev) =>
+        prev.map((block) =>
+          block.id === blockId ? { ...block, savedBlockId: saved.id } : block
+        )
+      );
+    }
+    setSavedBlocksRefreshKey((prev) => prev + 1);
+    setBlockToSaveToLibrary(null);
+  };
+
+  const insertSavedBlockAtIndex = (
+    insertIndex: number | null,
+    saved: ContentSavedBlockRow,
+    linked: boolean
+  ) => {
+    const newBlock = createLessonBlockFromSaved(saved, { linked });
+
+    setBlocks((prev) => {
+      let newBlocks: LessonBlock[];
+
+      if (
+        insertIndex !== null &&
+        insertIndex >= 0 &&
+        insertIndex <= prev.length
+      ) {
+        newBlocks = [
+          ...prev.slice(0, insertIndex),
+          newBlock,
+          ...prev.slice(insertIndex),
+        ];
+      } else {
+        newBlocks = [...prev, newBlock];
+      }
+
+      return newBlocks.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+
+    setIsBlockLibraryOpen(false);
+    setSelectedCategory(null);
+    setPendingInsertIndex(null);
+  };
+
+  // Turn a linked instance into an independent copy of its current content
+  const handleUnlinkSavedBlock = (blockId: string) => {
+    setBlocks((prev) =>
+      prev.map((block) =>
+        block.id === blockId ? { ...block, savedBlockId: null } : block
+      )
+    );
+  };
+
   const moveBlock = (blockId: string, direction: "up" | "down") => {
     setBlocks((prev) => {
       const index = prev.findIndex((b) => b.id === blockId);
@@ -2832,305 +2593,375 @@ const LessonBuilder: React.FC = () => {
         return prev;
       }
 
-      const next = [...prev];
-      const temp = next[index];
-      next[index] = next[targetIndex];
-      next[targetIndex] = temp;
+      const next = [...prev];
+      const temp = next[index];
+      next[index] = next[targetIndex];
+      next[targetIndex] = temp;
+
+      // Normalise orderIndex after reordering
+      return next.map((block, i) => ({
+        ...block,
+        orderIndex: i,
+      }));
+    });
+  };
+
+  const handleMoveBlockUp = (blockId: string) => moveBlock(blockId, "up");
+  const handleMoveBlockDown = (blockId: string) => moveBlock(blockId, "down");
+
+  // ---------------------------------------------------------------------------
+  // Block comments + review workflow
+  // ---------------------------------------------------------------------------
+  // Threads are anchored to block ids, which survive saves, so they follow a
+  // block when it is moved. Comments are stored as soon as they're posted and
+  // don't go through the lesson save.
+
+  useEffect(() => {
+    if (!pageId) return;
+    let cancelled = false;
+
+    listContentBlockComments(pageId)
+      .then((rows) => {
+        if (!cancelled) setComments(rows);
+      })
+      .catch((err) => console.error("Error loading block comments:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pageId]);
+
+  useEffect(() => {
+    listContentReviewers()
+      .then(setReviewers)
+      .catch((err) => console.error("Error loading reviewers:", err));
+  }, []);
+
+  const commentThreadsByBlock = useMemo(
+    () => groupContentBlockCommentThreads(comments),
+    [comments]
+  );
+
+  const openCommentCountByBlock = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const [blockId, threads] of commentThreadsByBlock) {
+      const open = threads.filter((thread) => !thread.root.resolved_at).length;
+      if (open > 0) counts.set(blockId, open);
+    }
+    return counts;
+  }, [commentThreadsByBlock]);
+
+  // Threads on deleted blocks aren't shown, so don't count them either
+  const openCommentCount = blocks.reduce(
+    (total, block) => total + (openCommentCountByBlock.get(block.id) ?? 0),
+    0
+  );
 
-      // Normalise orderIndex after reordering
-      return next.map((block, i) => ({
-        ...block,
-        orderIndex: i,
-      }));
+  const commentsBlock = commentsBlockId
+    ? blocks.find((block) => block.id === commentsBlockId) ?? null
+    : null;
+
+  const handleCreateComment = async (
+    body: string,
+    mentions: string[],
+    parentId: string | null
+  ) => {
+    if (!pageId || !commentsBlockId) return;
+    const comment = await createContentBlockComment({
+      pageId,
+      blockId: commentsBlockId,
+      parentId,
+      body,
+      mentions,
+      authorName,
     });
+    setComments((prev) => [...prev, comment]);
   };
 
-  const handleMoveBlockUp = (blockId: string) => moveBlock(blockId, "up");
-  const handleMoveBlockDown = (blockId: string) => moveBlock(blockId, "down");
+  const handleToggleCommentResolved = async (
+    thread: ContentBlockCommentThread
+  ) => {
+    try {
+      const updated = await setContentBlockCommentResolved(
+        thread.root.id,
+        !thread.root.resolved_at,
+        authorName
+      );
+      setComments((prev) =>
+        prev.map((comment) => (comment.id === updated.id ? updated : comment))
+      );
+    } catch (err) {
+      console.error("Error updating comment:", err);
+      alert("Couldn't update this comment. Please try again.");
+    }
+  };
+
+  const handleReviewStatusChange = async (reviewStatus: LessonReviewStatus) => {
+    if (!pageId || !page || isUpdatingReview) return;
+
+    if (reviewStatus !== "draft" && openCommentCount > 0) {
+      const confirmed = window.confirm(
+        `This lesson still has ${openCommentCount} open comment${
+          openCommentCount === 1 ? "" : "s"
+        }. Mark it as "${LESSON_REVIEW_STATUS_LABELS[reviewStatus]}" anyway?`
+      );
+      if (!confirmed) return;
+    }
+
+    setIsUpdatingReview(true);
+    try {
+      const review = await updateContentModulePageReviewStatus(
+        pageId,
+        reviewStatus,
+        authorName
+      );
+      setPage((prev) => (prev ? { ...prev, ...review } : prev));
+    } catch (err) {
+      console.error("Error updating lesson review status:", err);
+      alert("Couldn't update the review status. Please try again.");
+    } finally {
+      setIsUpdatingReview(false);
+    }
+  };
 
   // ---------------------------------------------------------------------------
   // SAVE LESSON HANDLER
   // ---------------------------------------------------------------------------
+  // Only blocks whose serialised params changed since the last save are
+  // written. Each save first claims the next page version; if someone else
+  // saved in between, the save stops and the conflict modal shows a diff.
+  blocksRef.current = blocks;
+
+  const openSaveConflict = async (localBlocks: LessonBlock[]) => {
+    if (!pageId) return;
+    const [rows, pageVersion] = await Promise.all([
+      getContentModuleBlocksByPageId(pageId).then(resolveLinkedBlockRows),
+      getContentModulePageVersion(pageId),
+    ]);
+    const serverBlocks = hydrateLessonBlocks(rows);
+
+    hasConflictRef.current = true;
+    setSaveConflict({
+      serverBlocks,
+      serverVersion: pageVersion?.version ?? 0,
+      entries: diffLessonBlocks(serverBlocks, localBlocks),
+    });
+    setIsConflictModalOpen(true);
+    setAutosaveStatus("conflict");
+  };
+
   const handleSaveLesson = async () => {
     if (!pageId) {
       console.error("No pageId available");
       return;
     }
+    if (hasConflictRef.current) {
+      setIsConflictModalOpen(true);
+      return;
+    }
+    if (isSavingRef.current) {
+      saveQueuedRef.current = true;
+      return;
+    }
+
+    const snapshot = blocksRef.current;
+    const payloads = getSavePayloads(snapshot, pageId);
+    const dirtyIds = [...payloads.keys()].filter(
+      (id) => savedPayloadsRef.current.get(id) !== payloads.get(id)
+    );
+    const deletedIds = [...savedPayloadsRef.current.keys()].filter(
+      (id) => !payloads.has(id)
+    );
+
+    if (dirtyIds.length === 0 && deletedIds.length === 0) {
+      setHasUnsavedChanges(false);
+      setAutosaveStatus("saved");
+      return;
+    }
 
-    setIsSaving(true);
-    setSaveMessage(null);
-
-    // Define which block types are saved to content_module_blocks
-    const textBlockTypes: LessonBlockType[] = [
-      "paragraph",
-      "heading",
-      "subheading",
-      "paragraph-with-heading",
-      "paragraph-with-subheading",
-      "columns",
-      "table",
-      "numbered-list",
-      "bullet-list",
-      "image-centered",
-      "image-fullwidth",
-      "image-text",
-      "flashcards",
-      "sorting_activity",
-      "accordion",
-      "tabs",
-      "image_compare",
-    ];
+    if (!navigator.onLine) {
+      setAutosaveStatus("offline");
+      return;
+    }
+
+    isSavingRef.current = true;
+    setAutosaveStatus("saving");
 
     // Track updated block IDs (for newly inserted blocks)
     const updatedBlockIds: Record<string, string> = {};
 
     try {
-      for (const block of blocks) {
-        // Only process text-based blocks for now
-        if (!textBlockTypes.includes(block.type)) {
-          continue;
-        }
-
-        // Build the content based on block type
-        // For simple blocks, content is a string
-        // For compound blocks, content is a StructuredBlockContent object (or custom content for interactive blocks)
-        let blockContent: any = "";
-
-        if (block.type === "paragraph") {
-          blockContent = block.content.html ?? "";
-        } else if (block.type === "heading") {
-          blockContent = block.content.heading ?? "";
-        } else if (block.type === "subheading") {
-          blockContent = block.content.subheading ?? "";
-        } else if (block.type === "paragraph-with-heading") {
-          // Store heading and body separately
-          blockContent = {
-            heading: block.content.heading ?? "",
-            body: block.content.html ?? "",
-          };
-        } else if (block.type === "paragraph-with-subheading") {
-          // Store subheading and body separately
-          blockContent = {
-            subheading: block.content.subheading ?? "",
-            body: block.content.html ?? "",
-          };
-        } else if (block.type === "columns") {
-          // Store columns separately
-          blockContent = {
-            columnOne: block.content.columnOneContent ?? "",
-            columnTwo: block.content.columnTwoContent ?? "",
-          };
-        } else if (block.type === "table") {
-          // Store table content and settings
-          blockContent = {
-            tableContent: block.content.tableContent ?? null,
-            borderMode: block.content.borderMode ?? "normal",
-          };
-        } else if (block.type === "numbered-list") {
-          // Store numbered list items, start number, list styles, and number color
-          blockContent = {
-            items: block.content.listItems ?? [],
-            startNumber: block.content.startNumber ?? 1,
-            listStyle: block.content.listStyle ?? "decimal",
-            subStyle: block.content.subStyle ?? "lower-alpha",
-            numberColor: block.content.numberColor ?? "#f97316",
-          };
-        } else if (block.type === "bullet-list") {
-          // Store bullet list items and bullet color
-          blockContent = {
-            bulletItems: block.content.bulletItems ?? [],
-            bulletStyle: block.content.bulletStyle ?? "disc",
-            bulletSubStyle: block.content.bulletSubStyle ?? "disc",
-            bulletColor: block.content.bulletColor ?? "#f97316",
-          };
-        } else if (block.type === "image-centered") {
-          // Store image content - includes both flat fields and structured image object
-          blockContent = {
-            media_asset_id:
-              block.media_asset_id ?? block.content.media_asset_id ?? null,
-            alt_text: block.content.alt_text ?? "",
-            caption: block.content.caption ?? null,
-            public_url: block.content.public_url ?? null,
-            // Structured image object with full asset info
-            image: block.content.image ?? {
-              media_asset_id:
-                block.media_asset_id ?? block.content.media_asset_id ?? null,
-              url: block.content.public_url ?? null,
-              alt_text: block.content.alt_text ?? "",
-              title: "",
-              description: "",
-            },
-          };
-        } else if (block.type === "image-fullwidth") {
-          // Store image content - includes both flat fields and structured image object
-          blockContent = {
-            media_asset_id:
-              block.media_asset_id ?? block.content.media_asset_id ?? null,
-            alt_text: block.content.alt_text ?? "",
-            caption: block.content.caption ?? null,
-            public_url: block.content.public_url ?? null,
-            // Structured image object with full asset info
-            image: block.content.image ?? {
-              media_asset_id:
-                block.media_asset_id ?? block.content.media_asset_id ?? null,
-              url: block.content.public_url ?? null,
-              alt_text: block.content.alt_text ?? "",
-              title: "",
-              description: "",
-            },
-          };
-        } else if (block.type === "image-text") {
-          // Store image-text content
-          // Extract text content - handle both object and string formats
-          const textContent = block.content.text;
-          const textObject =
-            typeof textContent === "object" && textContent !== null
-              ? textContent
-              : {
-                  heading: "",
-                  body: typeof textContent === "string" ? textContent : "",
-                };
-
-          // Extract layout content
-          const layoutContent = block.content.layout;
-          const layoutObject =
-            typeof layoutContent === "object" && layoutContent !== null
-              ? layoutContent
-              : { imagePosition: "left" as const, imageWidth: 50 as const };
-
-          blockContent = {
-            media_asset_id:
-              block.media_asset_id ?? block.content.media_asset_id ?? null,
-            public_url: block.content.public_url ?? null,
-            alt_text: block.content.alt_text ?? "",
-            layout: {
-              imagePosition: layoutObject.imagePosition ?? "left",
-              imageWidth: layoutObject.imageWidth ?? 50,
-            },
-            text: {
-              heading: textObject.heading ?? "",
-              body: textObject.body ?? "",
-            },
-            ai_metadata: block.content.ai_metadata ?? null,
-          };
-        } else if (block.type === "flashcards") {
-          // Store flashcards content - includes title and cards array
-          const flashcardsContent = block.content as {
-            cards?: FlashcardItem[];
-            title?: string;
-          };
-          blockContent = {
-            title: flashcardsContent?.title ?? null,
-            cards: (flashcardsContent?.cards ?? []).map((card) => ({
-              id: card.id,
-              frontHtml: card.frontHtml ?? "",
-              backHtml: card.backHtml ?? "",
-              frontDisplayMode: card.frontDisplayMode ?? "text",
-              backDisplayMode: card.backDisplayMode ?? "text",
-              frontImage: card.frontImage ?? null,
-              backImage: card.backImage ?? null,
-            })),
-          };
-        } else if (block.type === "sorting_activity") {
-          // Store sorting activity content (categories/items/settings)
-          blockContent = block.content as SortingActivityContent;
-        } else if (block.type === "accordion") {
-          // Store accordion content (items/settings)
-          blockContent = block.content as AccordionContent;
-        } else if (block.type === "tabs") {
-          // Store tabs content (tabs/settings)
-          blockContent = block.content as TabsContent;
-        } else if (block.type === "image_compare") {
-          // Store image compare content
-          blockContent = block.content as ImageCompareContent;
+      const claimed = await claimContentModulePageVersion(
+        pageId,
+        pageVersionRef.current
+      );
+      if (!claimed) {
+        await openSaveConflict(snapshot);
+        return;
+      }
+      pageVersionRef.current = claimed.version;
+
+      for (const id of dirtyIds) {
+        const params = JSON.parse(payloads.get(id)!);
+        const previous = savedPayloadsRef.current.get(id);
+        const result = await upsertContentModuleBlock(params);
+
+        // Edits to a linked instance update the saved block it came from
+        // (moving the block or linking it alone doesn't change the source)
+        if (params.savedBlockId) {
+          const before = previous ? JSON.parse(previous) : null;
+          if (
+            before?.savedBlockId === params.savedBlockId &&
+            JSON.stringify([before.contentJson, before.mediaAssetId]) !==
+              JSON.stringify([params.contentJson, params.mediaAssetId])
+          ) {
+            await updateContentSavedBlockContent(
+              params.savedBlockId,
+              params.contentJson,
+              params.mediaAssetId ?? null
+            );
+          }
         }
 
-        // Build the TextBlockContentJson object
-        const contentJson: TextBlockContentJson = {
-          blockType: block.type,
-          content: blockContent,
-          metadata: {
-            behaviourTag: block.metadata?.behaviourTag ?? null,
-            cognitiveSkill: block.metadata?.cognitiveSkill ?? null,
-            learningPattern: block.metadata?.learningPattern ?? null,
-            difficulty: block.metadata?.difficulty ?? null,
-            notes: block.metadata?.notes ?? null,
-            source: block.metadata?.source ?? null,
-            fieldSources: block.metadata?.fieldSources ?? null,
-            aiExplanations: block.metadata?.aiExplanations ?? null,
-            aiConfidenceScores: block.metadata?.aiConfidenceScores ?? null,
-          },
-          // Include style data so block appearance persists
-          style: {
-            style: block.style ?? null,
-            customBackgroundColor: block.customBackgroundColor ?? null,
-          },
-          // Include animation settings
-          animation: block.content.animation ?? "none",
-          animationDuration: block.content.animationDuration ?? "normal",
-        };
-
-        // Check if block.id looks like a UUID from the database or a client-generated one
-        // For now, assume all IDs are valid and let upsert handle insert vs update
-        const result = await upsertContentModuleBlock({
-          id: block.id,
-          pageId: pageId,
-          type: block.type,
-          orderIndex: block.orderIndex,
-          contentJson,
-          learningGoal: null,
-          mediaType:
-            block.type === "image-centered" ||
-            block.type === "image-fullwidth" ||
-            block.type === "image-text"
-              ? "image"
-              : null,
-          isCore: null,
-          difficultyLevel: null,
-          // Pass media_asset_id for image blocks (FK to media_assets)
-          mediaAssetId:
-            block.type === "image-centered" ||
-            block.type === "image-fullwidth" ||
-            block.type === "image-text"
-              ? block.media_asset_id ?? null
-              : null,
-        });
-
         // If the returned id is different from the block id, track it for update
-        if (result && result.id && result.id !== block.id) {
-          updatedBlockIds[block.id] = result.id;
+        if (result && result.id && result.id !== id) {
+          updatedBlockIds[id] = result.id;
+          savedPayloadsRef.current.set(
+            result.id,
+            JSON.stringify({ ...params, id: result.id })
+          );
+        } else {
+          savedPayloadsRef.current.set(id, payloads.get(id)!);
         }
       }
 
-      // Update local state: set savedToDb=true for all saved blocks, and update IDs if needed
-      setBlocks((prev) =>
+      for (const id of deletedIds) {
+        await deleteContentModuleBlock(id);
+        savedPayloadsRef.current.delete(id);
+      }
+
+      // Record an immutable snapshot of the page as it is now saved
+      const savedRows = await getContentModuleBlocksByPageId(pageId);
+      await createContentModulePageRevision({
+        pageId,
+        moduleId: moduleId ?? null,
+        version: claimed.version,
+        blocks: savedRows,
+        restoredFromRevisionId: restoredFromRevisionIdRef.current,
+        createdByName: authorName,
+      });
+      restoredFromRevisionIdRef.current = null;
+      setHistoryRefreshKey((prev) => prev + 1);
+
+      // Update local state: set savedToDb=true for all saved blocks, and update IDs if needed.
+      // Applied to the whole undo history so restored blocks keep their DB ids.
+      patchBlocksHistory((prev) =>
         prev.map((block) => {
-          // Only update text blocks that were saved
-          if (!textBlockTypes.includes(block.type)) {
-            return block;
-          }
           // Update ID if it changed, and mark as saved
           if (updatedBlockIds[block.id]) {
             return { ...block, id: updatedBlockIds[block.id], savedToDb: true };
           }
-          // Mark as saved even if ID didn't change
-          return { ...block, savedToDb: true };
+          if (payloads.has(block.id) && !block.savedToDb) {
+            return { ...block, savedToDb: true };
+          }
+          return block;
         })
       );
 
-      setSaveMessage("Lesson saved successfully!");
-      setHasUnsavedChanges(false); // Reset unsaved changes flag
-      // Clear the message after 3 seconds
-      setTimeout(() => setSaveMessage(null), 3000);
+      setLastSavedAt(new Date());
+      setAutosaveStatus("saved");
     } catch (error) {
       console.error("Error saving lesson:", error);
-      setSaveMessage("Error saving lesson. Please try again.");
-      setTimeout(() => setSaveMessage(null), 5000);
+      setAutosaveStatus(navigator.onLine ? "error" : "offline");
     } finally {
-      setIsSaving(false);
+      isSavingRef.current = false;
+      // Edits made while this save was running
+      if (saveQueuedRef.current) {
+        saveQueuedRef.current = false;
+        void handleSaveLesson();
+      }
     }
   };
 
+  // Track unsaved changes and autosave them once editing pauses
+  useEffect(() => {
+    if (!initialLoadComplete.current || !pageId) return;
+
+    const payloads = getSavePayloads(blocks, pageId);
+    const saved = savedPayloadsRef.current;
+    const isDirty =
+      payloads.size !== saved.size ||
+      [...payloads].some(([id, payload]) => saved.get(id) !== payload);
+
+    setHasUnsavedChanges(isDirty);
+    if (!isDirty || hasConflictRef.current) return;
+
+    setAutosaveStatus((prev) =>
+      prev === "offline" || prev === "saving" ? prev : "unsaved"
+    );
+    const timer = setTimeout(() => {
+      void handleSaveLesson();
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [blocks, pageId]);
+
+  // Retry as soon as the browser is back online
+  useEffect(() => {
+    const handleOnline = () => {
+      void handleSaveLesson();
+    };
+    const handleOffline = () => {
+      setAutosaveStatus((prev) => (prev === "conflict" ? prev : "offline"));
+    };
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [pageId]);
+
+  // Restore a revision from the history panel. The restore is a normal,
+  // undoable edit; autosave then records it as a new revision.
+  const handleRestoreRevision = (
+    revision: ContentModulePageRevision,
+    revisionBlocks: LessonBlock[]
+  ) => {
+    restoredFromRevisionIdRef.current = revision.id;
+    setBlocks(revisionBlocks);
+    setIsHistoryOpen(false);
+  };
+
+  // Conflict resolution: take the other author's saved page
+  const handleUseServerVersion = () => {
+    if (!saveConflict || !pageId) return;
+    resetBlocks(saveConflict.serverBlocks);
+    savedPayloadsRef.current = getSavePayloads(
+      saveConflict.serverBlocks,
+      pageId
+    );
+    pageVersionRef.current = saveConflict.serverVersion;
+    hasConflictRef.current = false;
+    setSaveConflict(null);
+    setIsConflictModalOpen(false);
+    setHasUnsavedChanges(false);
+    setAutosaveStatus("saved");
+  };
+
+  // Conflict resolution: save our blocks over the other author's version
+  const handleOverwriteServerVersion = () => {
+    if (!saveConflict || !pageId) return;
+    savedPayloadsRef.current = getSavePayloads(
+      saveConflict.serverBlocks,
+      pageId
+    );
+    pageVersionRef.current = saveConflict.serverVersion;
+    hasConflictRef.current = false;
+    setSaveConflict(null);
+    setIsConflictModalOpen(false);
+    void handleSaveLesson();
+  };
+
   const title = page?.title || "Lesson";
 
   if (loading) {
@@ -3168,18 +2999,81 @@ const LessonBuilder: React.FC = () => {
         <div className="flex items-start justify-between mb-6">
           <h1 className="text-4xl font-light text-gray-700">{title}</h1>
           <div className="flex items-center gap-3">
-            {/* Save message */}
-            {saveMessage && (
+            {/* Undo / redo */}
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={undoBlocks}
+                disabled={!canUndo}
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+                className="inline-flex items-center justify-center h-9 w-9 rounded-lg text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={redoBlocks}
+                disabled={!canRedo}
+                aria-label="Redo"
+                title="Redo (Ctrl+Shift+Z)"
+                className="inline-flex items-center justify-center h-9 w-9 rounded-lg text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsHistoryOpen(true)}
+                aria-label="Version history"
+                title="Version history"
+                className="inline-flex items-center justify-center h-9 w-9 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+              >
+                <History className="h-4 w-4" />
+              </button>
+            </div>
+            {/* Autosave status */}
+            {autosaveStatus === "saving" ? (
+              <span className="inline-flex items-center gap-1.5 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Saving…
+              </span>
+            ) : autosaveStatus === "saved" ? (
               <span
-                className={`text-sm ${
-                  saveMessage.includes("Error")
-                    ? "text-red-600"
-                    : "text-green-600"
-                }`}
+                className="inline-flex items-center gap-1.5 text-sm text-green-600"
+                title={
+                  lastSavedAt
+                    ? `Last saved ${lastSavedAt.toLocaleTimeString()}`
+                    : undefined
+                }
+              >
+                <Check className="h-4 w-4" />
+                Saved
+              </span>
+            ) : autosaveStatus === "unsaved" ? (
+              <span className="text-sm text-gray-500">Unsaved changes</span>
+            ) : autosaveStatus === "offline" ? (
+              <span
+                className="inline-flex items-center gap-1.5 text-sm text-amber-600"
+                title="Changes will be saved when you are back online"
               >
-                {saveMessage}
+                <CloudOff className="h-4 w-4" />
+                Offline
               </span>
-            )}
+            ) : autosaveStatus === "error" ? (
+              <span className="inline-flex items-center gap-1.5 text-sm text-red-600">
+                <AlertTriangle className="h-4 w-4" />
+                Error saving lesson
+              </span>
+            ) : autosaveStatus === "conflict" ? (
+              <button
+                type="button"
+                onClick={() => setIsConflictModalOpen(true)}
+                className="inline-flex items-center gap-1.5 text-sm text-red-600 hover:underline"
+              >
+                <AlertTriangle className="h-4 w-4" />
+                Edited by someone else
+              </button>
+            ) : null}
             {/* Save button */}
             <button
               type="button"
@@ -3205,6 +3099,68 @@ const LessonBuilder: React.FC = () => {
           </div>
         </div>
 
+        {/* Review state + comment filter */}
+        {page && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-3">
+              <div
+                className="inline-flex rounded-lg border border-gray-200 p-0.5"
+                title={
+                  page.review_updated_at
+                    ? `Updated ${new Date(
+                        page.review_updated_at
+                      ).toLocaleString()}${
+                        page.review_updated_by_name
+                          ? ` by ${page.review_updated_by_name}`
+                          : ""
+                      }`
+                    : undefined
+                }
+              >
+                {(
+                  Object.keys(
+                    LESSON_REVIEW_STATUS_LABELS
+                  ) as LessonReviewStatus[]
+                ).map((status) => {
+                  const isActive = (page.review_status ?? "draft") === status;
+                  return (
+                    <button
+                      key={status}
+                      type="button"
+                      onClick={() => handleReviewStatusChange(status)}
+                      disabled={isActive || isUpdatingReview}
+                      className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${
+                        isActive
+                          ? status === "approved"
+                            ? "bg-green-600 text-white"
+                            : status === "ready_for_review"
+                            ? "bg-amber-500 text-white"
+                            : "bg-gray-700 text-white"
+                          : "text-gray-600 hover:bg-gray-100"
+                      }`}
+                    >
+                      {LESSON_REVIEW_STATUS_LABELS[status]}
+                    </button>
+                  );
+                })}
+              </div>
+              {isUpdatingReview && (
+                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+              )}
+            </div>
+            <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showOpenCommentsOnly}
+                onChange={(e) => setShowOpenCommentsOnly(e.target.checked)}
+                className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+              />
+              <MessageSquare className="h-4 w-4 text-gray-500" />
+              Only blocks with open comments ({openCommentCount})
+            </label>
+          </div>
+        )}
+
         {/* Author row */}
         {authorName && (
           <div className="flex items-center gap-3 mb-8">
@@ -3455,7 +3411,21 @@ const LessonBuilder: React.FC = () => {
               const sortedBlocks = blocks
                 .slice()
                 .sort((a, b) => a.orderIndex - b.orderIndex);
+              if (showOpenCommentsOnly && openCommentCount === 0) {
+                return (
+                  <p className="max-w-4xl mx-auto px-8 text-sm text-gray-500">
+                    No blocks in this lesson have open comments.
+                  </p>
+                );
+              }
               return sortedBlocks.map((block, index) => {
+                if (
+                  showOpenCommentsOnly &&
+                  !openCommentCountByBlock.has(block.id)
+                ) {
+                  return null;
+                }
+
                 // Common block props
                 const commonBlockProps = {
                   block,
@@ -3474,6 +3444,7 @@ const LessonBuilder: React.FC = () => {
                   onDurationChange: (duration: AnimationDuration) =>
                     handleDurationChange(block.id, duration),
                   onDuplicate: () => handleDuplicateBlock(block.id),
+                  onSaveToLibrary: () => setBlockToSaveToLibrary(block),
                   onDelete: () => handleDeleteBlock(block.id),
                   onMoveUp: () => handleMoveBlockUp(block.id),
                   onMoveDown: () => handleMoveBlockDown(block.id),
@@ -3538,6 +3509,46 @@ const LessonBuilder: React.FC = () => {
                       pageId={pageId ?? null}
                     />
                   );
+                } else if (block.type === "chart") {
+                  blockComponent = (
+                    <ChartBlock
+                      {...commonBlockProps}
+                      moduleId={moduleId ?? null}
+                      pageId={pageId ?? null}
+                    />
+                  );
+                } else if (block.type === "quote") {
+                  blockComponent = (
+                    <QuoteBlock
+                      {...commonBlockProps}
+                      moduleId={moduleId ?? null}
+                      pageId={pageId ?? null}
+                    />
+                  );
+                } else if (block.type === "divider") {
+                  blockComponent = (
+                    <DividerBlock
+                      {...commonBlockProps}
+                      moduleId={moduleId ?? null}
+                      pageId={pageId ?? null}
+                    />
+                  );
+                } else if (block.type === "video") {
+                  blockComponent = (
+                    <VideoBlock
+                      {...commonBlockProps}
+                      moduleId={moduleId ?? null}
+                      pageId={pageId ?? null}
+                    />
+                  );
+                } else if (block.type === "knowledge_check") {
+                  blockComponent = (
+                    <KnowledgeCheckBlock
+                      {...commonBlockProps}
+                      moduleId={moduleId ?? null}
+                      pageId={pageId ?? null}
+                    />
+                  );
                 } else if (block.type === "accordion") {
                   blockComponent = (
                     <AccordionBlock
@@ -3567,26 +3578,79 @@ const LessonBuilder: React.FC = () => {
                 if (!blockComponent) return null;
 
                 return (
-                  <Fragment key={block.id}>
+                  // Remount after undo/redo so editors pick up restored content
+                  <Fragment key={`${block.id}:${blocksRevision}`}>
                     <BlockHoverWrapper
                       onMouseEnter={() => setHoveredBlockId(block.id)}
                       onMouseLeave={() => setHoveredBlockId(null)}
                     >
+                      {/* Comments - shown on hover, or always once a block has threads */}
+                      {(() => {
+                        const openCount =
+                          openCommentCountByBlock.get(block.id) ?? 0;
+                        const hasThreads = commentThreadsByBlock.has(block.id);
+                        return (
+                          <button
+                            type="button"
+                            onClick={() => setCommentsBlockId(block.id)}
+                            aria-label="Block comments"
+                            title={
+                              openCount > 0
+                                ? `${openCount} open comment${
+                                    openCount === 1 ? "" : "s"
+                                  }`
+                                : "Comments"
+                            }
+                            className={`absolute right-4 -top-3 z-20 inline-flex items-center gap-1 h-6 rounded-full border px-2 text-xs font-medium shadow-sm transition-opacity ${
+                              openCount > 0
+                                ? "border-[#ff7a00] bg-[#ff7a00] text-white"
+                                : "border-gray-200 bg-white text-gray-500 hover:text-[#ff7a00]"
+                            } ${
+                              openCount > 0 ||
+                              hasThreads ||
+                              hoveredBlockId === block.id ||
+                              commentsBlockId === block.id
+                                ? "opacity-100"
+                                : "opacity-0 pointer-events-none"
+                            }`}
+                          >
+                            <MessageSquare className="h-3.5 w-3.5" />
+                            {openCount > 0 && openCount}
+                          </button>
+                        );
+                      })()}
+                      {block.savedBlockId && (
+                        <div className="max-w-4xl mx-auto px-8 pt-2 flex items-center gap-2 text-xs text-[#ff7a00]">
+                          <Link2 className="h-3.5 w-3.5" />
+                          <span>
+                            Linked saved block · edits here update every lesson
+                            that uses it
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => handleUnlinkSavedBlock(block.id)}
+                            className="text-gray-500 underline hover:text-gray-700"
+                          >
+                            Unlink
+                          </button>
+                        </div>
+                      )}
                       {blockComponent}
                     </BlockHoverWrapper>
 
                     {/* Insertion handle between this block and the next */}
-                    {index < sortedBlocks.length - 1 && (
-                      <InsertionHandle
-                        index={index + 1}
-                        aboveBlockId={block.id}
-                        belowBlockId={sortedBlocks[index + 1].id}
-                        hoveredBlockId={hoveredBlockId}
-                        hoveredInsertIndex={hoveredInsertIndex}
-                        setHoveredInsertIndex={setHoveredInsertIndex}
-                        onInsertClick={handleInsertClick}
-                      />
-                    )}
+                    {!showOpenCommentsOnly &&
+                      index < sortedBlocks.length - 1 && (
+                        <InsertionHandle
+                          index={index + 1}
+                          aboveBlockId={block.id}
+                          belowBlockId={sortedBlocks[index + 1].id}
+                          hoveredBlockId={hoveredBlockId}
+                          hoveredInsertIndex={hoveredInsertIndex}
+                          setHoveredInsertIndex={setHoveredInsertIndex}
+                          onInsertClick={handleInsertClick}
+                        />
+                      )}
                   </Fragment>
                 );
               });
@@ -3897,6 +3961,39 @@ const LessonBuilder: React.FC = () => {
                     </button>
                   ))}
                 </div>
+              ) : selectedCategory === "multimedia" ? (
+                <div className="space-y-3">
+                  {MULTIMEDIA_TEMPLATES.map((tpl) => (
+                    <button
+                      key={tpl.id}
+                      type="button"
+                      onClick={() => {
+                        if (tpl.id === "video") {
+                          handleAddVideoBlock();
+                        }
+                      }}
+                      className="w-full bg-white rounded-lg border border-gray-200 hover:border-orange-500 hover:shadow-sm text-left overflow-hidden transition-all"
+                    >
+                      {/* Visual preview */}
+                      <div className="h-16 bg-gray-100 border-b border-gray-200 flex items-center justify-center">
+                        <div className="relative w-24 h-12 rounded bg-gray-700 flex items-center justify-center">
+                          <div className="w-0 h-0 border-y-[7px] border-y-transparent border-l-[12px] border-l-white ml-1" />
+                          <div className="absolute bottom-1.5 left-2 right-2 h-0.5 bg-gray-500 rounded">
+                            <div className="h-0.5 w-1/3 bg-orange-400 rounded" />
+                          </div>
+                        </div>
+                      </div>
+                      <div className="px-3 py-2.5">
+                        <div className="text-sm font-medium text-gray-900">
+                          {tpl.title}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500 leading-relaxed">
+                          {tpl.description}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
               ) : selectedCategory === "interactive" ? (
                 <div className="space-y-3">
                   {INTERACTIVE_TEMPLATES.map((tpl) => (
@@ -3980,34 +4077,243 @@ const LessonBuilder: React.FC = () => {
                                   <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-0.5 w-2 bg-gray-400 rounded" />
                                   <div className="absolute inset-y-0 left-1/2 -translate-x-1/2 h-2 w-0.5 bg-gray-400 rounded" />
                                 </div>
-                              </div>
-                            </div>
+                              </div>
+                            </div>
+                          </div>
+                        ) : tpl.id === "tabs" ? (
+                          <div className="w-3/4">
+                            <div className="flex gap-2 justify-center mb-2">
+                              <div className="h-2 w-10 rounded-full bg-gray-300" />
+                              <div className="h-2 w-10 rounded-full bg-gray-400" />
+                              <div className="h-2 w-10 rounded-full bg-gray-300" />
+                            </div>
+                            <div className="h-1 w-10 bg-orange-400 rounded-full mx-auto mb-2" />
+                            <div className="space-y-1">
+                              <div className="h-1.5 w-full bg-gray-300 rounded" />
+                              <div className="h-1.5 w-4/5 bg-gray-300 rounded" />
+                              <div className="h-1.5 w-3/5 bg-gray-300 rounded" />
+                            </div>
+                          </div>
+                        ) : tpl.id === "image_compare" ? (
+                          <div className="w-3/4 flex items-center justify-center">
+                            <div className="relative w-40 h-10 rounded border border-gray-300 bg-white overflow-hidden">
+                              <div className="absolute inset-0 bg-gray-200" />
+                              <div className="absolute inset-y-0 left-0 w-1/2 bg-gray-300" />
+                              <div className="absolute inset-y-0 left-1/2 w-[2px] bg-orange-400" />
+                              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-4 w-4 rounded-full border border-gray-200 bg-white shadow-sm" />
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="text-2xl">📦</div>
+                        )}
+                      </div>
+                      <div className="px-3 py-2.5">
+                        <div className="text-sm font-medium text-gray-900">
+                          {tpl.title}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500 leading-relaxed">
+                          {tpl.description}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : selectedCategory === "knowledge_check" ? (
+                <div className="space-y-3">
+                  {KNOWLEDGE_CHECK_TEMPLATES.map((tpl) => (
+                    <button
+                      key={tpl.id}
+                      type="button"
+                      onClick={() =>
+                        handleAddKnowledgeCheckBlock(
+                          tpl.id as KnowledgeCheckQuestionType
+                        )
+                      }
+                      className="w-full bg-white rounded-lg border border-gray-200 hover:border-orange-500 hover:shadow-sm text-left overflow-hidden transition-all"
+                    >
+                      {/* Visual preview - different for each template */}
+                      <div className="h-16 bg-gray-100 border-b border-gray-200 flex items-center justify-center">
+                        {tpl.id === "fill_blank" ? (
+                          <div className="w-3/4 space-y-2">
+                            <div className="h-1.5 w-32 bg-gray-300 rounded" />
+                            <div className="h-5 w-full bg-white rounded border border-gray-300" />
+                          </div>
+                        ) : tpl.id === "true_false" ? (
+                          <div className="flex gap-3">
+                            <div className="w-14 h-8 bg-orange-50 rounded border border-orange-300 flex items-center justify-center">
+                              <span className="text-xs text-orange-600 font-medium">
+                                True
+                              </span>
+                            </div>
+                            <div className="w-14 h-8 bg-white rounded border border-gray-300 flex items-center justify-center">
+                              <span className="text-xs text-gray-600 font-medium">
+                                False
+                              </span>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="w-3/4 space-y-1.5">
+                            {[true, false, tpl.id === "multiple_response"].map(
+                              (checked, idx) => (
+                                <div
+                                  key={idx}
+                                  className="flex items-center gap-2"
+                                >
+                                  <div
+                                    className={`h-3 w-3 border ${
+                                      tpl.id === "multiple_response"
+                                        ? "rounded-sm"
+                                        : "rounded-full"
+                                    } ${
+                                      checked
+                                        ? "bg-orange-400 border-orange-400"
+                                        : "bg-white border-gray-400"
+                                    }`}
+                                  />
+                                  <div className="h-1.5 w-28 bg-gray-300 rounded" />
+                                </div>
+                              )
+                            )}
                           </div>
-                        ) : tpl.id === "tabs" ? (
-                          <div className="w-3/4">
-                            <div className="flex gap-2 justify-center mb-2">
-                              <div className="h-2 w-10 rounded-full bg-gray-300" />
-                              <div className="h-2 w-10 rounded-full bg-gray-400" />
-                              <div className="h-2 w-10 rounded-full bg-gray-300" />
-                            </div>
-                            <div className="h-1 w-10 bg-orange-400 rounded-full mx-auto mb-2" />
-                            <div className="space-y-1">
-                              <div className="h-1.5 w-full bg-gray-300 rounded" />
-                              <div className="h-1.5 w-4/5 bg-gray-300 rounded" />
-                              <div className="h-1.5 w-3/5 bg-gray-300 rounded" />
+                        )}
+                      </div>
+                      <div className="px-3 py-2.5">
+                        <div className="text-sm font-medium text-gray-900">
+                          {tpl.title}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500 leading-relaxed">
+                          {tpl.description}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : selectedCategory === "chart" ? (
+                <div className="space-y-3">
+                  {CHART_TEMPLATES.map((tpl) => (
+                    <button
+                      key={tpl.id}
+                      type="button"
+                      onClick={() => handleAddChartBlock(tpl.id as ChartType)}
+                      className="w-full bg-white rounded-lg border border-gray-200 hover:border-orange-500 hover:shadow-sm text-left overflow-hidden transition-all"
+                    >
+                      {/* Visual preview - different for each template */}
+                      <div className="h-16 bg-gray-100 border-b border-gray-200 flex items-center justify-center">
+                        {tpl.id === "bar" ? (
+                          <div className="flex items-end gap-1.5 h-10">
+                            <div className="w-3 h-5 bg-gray-400 rounded-t-sm" />
+                            <div className="w-3 h-8 bg-orange-400 rounded-t-sm" />
+                            <div className="w-3 h-6 bg-gray-400 rounded-t-sm" />
+                            <div className="w-3 h-10 bg-orange-400 rounded-t-sm" />
+                            <div className="w-3 h-4 bg-gray-400 rounded-t-sm" />
+                          </div>
+                        ) : tpl.id === "line" ? (
+                          <svg className="w-24 h-10" viewBox="0 0 96 40">
+                            <polyline
+                              points="2,34 22,24 42,28 62,12 94,6"
+                              fill="none"
+                              stroke="#fb923c"
+                              strokeWidth={2.5}
+                              strokeLinejoin="round"
+                            />
+                            <polyline
+                              points="2,38 22,32 42,34 62,26 94,22"
+                              fill="none"
+                              stroke="#9ca3af"
+                              strokeWidth={2}
+                              strokeLinejoin="round"
+                            />
+                          </svg>
+                        ) : (
+                          <div
+                            className="w-11 h-11 rounded-full"
+                            style={{
+                              background:
+                                "conic-gradient(#fb923c 0 45%, #9ca3af 45% 75%, #d1d5db 75% 100%)",
+                            }}
+                          />
+                        )}
+                      </div>
+                      <div className="px-3 py-2.5">
+                        <div className="text-sm font-medium text-gray-900">
+                          {tpl.title}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500 leading-relaxed">
+                          {tpl.description}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : selectedCategory === "quote" ? (
+                <div className="space-y-3">
+                  {QUOTE_TEMPLATES.map((tpl) => (
+                    <button
+                      key={tpl.id}
+                      type="button"
+                      onClick={() =>
+                        handleAddQuoteBlock(tpl.id as QuoteAlignment)
+                      }
+                      className="w-full bg-white rounded-lg border border-gray-200 hover:border-orange-500 hover:shadow-sm text-left overflow-hidden transition-all"
+                    >
+                      {/* Visual preview - different for each template */}
+                      <div className="h-16 bg-gray-100 border-b border-gray-200 flex items-center justify-center">
+                        {tpl.id === "left" ? (
+                          <div className="flex gap-2 w-28">
+                            <div className="w-1 bg-orange-400 rounded-full" />
+                            <div className="flex-1 space-y-1.5 py-0.5">
+                              <div className="h-2 bg-gray-400 rounded w-full" />
+                              <div className="h-2 bg-gray-400 rounded w-3/4" />
+                              <div className="h-1.5 bg-gray-300 rounded w-1/3 mt-2" />
                             </div>
                           </div>
-                        ) : tpl.id === "image_compare" ? (
-                          <div className="w-3/4 flex items-center justify-center">
-                            <div className="relative w-40 h-10 rounded border border-gray-300 bg-white overflow-hidden">
-                              <div className="absolute inset-0 bg-gray-200" />
-                              <div className="absolute inset-y-0 left-0 w-1/2 bg-gray-300" />
-                              <div className="absolute inset-y-0 left-1/2 w-[2px] bg-orange-400" />
-                              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-4 w-4 rounded-full border border-gray-200 bg-white shadow-sm" />
+                        ) : (
+                          <div className="flex flex-col items-center gap-1.5 w-28">
+                            <div className="h-2 bg-gray-400 rounded w-full" />
+                            <div className="h-2 bg-gray-400 rounded w-2/3" />
+                            <div className="flex items-center gap-1 mt-0.5">
+                              <div className="w-3 h-3 rounded-full bg-orange-400" />
+                              <div className="h-1.5 bg-gray-300 rounded w-8" />
                             </div>
                           </div>
+                        )}
+                      </div>
+                      <div className="px-3 py-2.5">
+                        <div className="text-sm font-medium text-gray-900">
+                          {tpl.title}
+                        </div>
+                        <div className="mt-1 text-xs text-gray-500 leading-relaxed">
+                          {tpl.description}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : selectedCategory === "divider" ? (
+                <div className="space-y-3">
+                  {DIVIDER_TEMPLATES.map((tpl) => (
+                    <button
+                      key={tpl.id}
+                      type="button"
+                      onClick={() =>
+                        handleAddDividerBlock(tpl.id as DividerVariant)
+                      }
+                      className="w-full bg-white rounded-lg border border-gray-200 hover:border-orange-500 hover:shadow-sm text-left overflow-hidden transition-all"
+                    >
+                      {/* Visual preview - different for each template */}
+                      <div className="h-16 bg-gray-100 border-b border-gray-200 flex items-center justify-center">
+                        {tpl.id === "line" ? (
+                          <div className="w-28 border-t-2 border-gray-400" />
+                        ) : tpl.id === "spacer" ? (
+                          <div className="w-28 h-8 rounded border border-dashed border-gray-400" />
                         ) : (
-                          <div className="text-2xl">📦</div>
+                          <div className="flex items-center gap-2 w-28">
+                            <div className="flex-1 border-t border-gray-400" />
+                            <div className="w-5 h-5 rounded-full bg-orange-400 text-[10px] font-semibold text-white flex items-center justify-center">
+                              1
+                            </div>
+                            <div className="flex-1 border-t border-gray-400" />
+                          </div>
                         )}
                       </div>
                       <div className="px-3 py-2.5">
@@ -4021,6 +4327,13 @@ const LessonBuilder: React.FC = () => {
                     </button>
                   ))}
                 </div>
+              ) : selectedCategory === "saved_blocks" ? (
+                <SavedBlocksPanel
+                  refreshKey={savedBlocksRefreshKey}
+                  onInsert={(saved, linked) =>
+                    insertSavedBlockAtIndex(pendingInsertIndex, saved, linked)
+                  }
+                />
               ) : selectedCategory ? (
                 <div className="h-full flex items-center justify-center text-sm text-gray-500">
                   <div className="text-center">
@@ -4197,511 +4510,15 @@ const LessonBuilder: React.FC = () => {
                   {blocks
                     .slice()
                     .sort((a, b) => a.orderIndex - b.orderIndex)
-                    .map((block) => {
-                      // Get style classes and inline color
-                      const styleClasses = getBlockStyleClasses(block.style);
-                      const inlineBgColor =
-                        block.style === "custom" && block.customBackgroundColor
-                          ? block.customBackgroundColor
-                          : undefined;
-                      const layout = block.layout || DEFAULT_BLOCK_LAYOUT;
-
-                      return (
-                        <AnimateOnView
-                          key={block.id}
-                          animation={block.content.animation as BlockAnimation}
-                          duration={
-                            block.content.animationDuration as AnimationDuration
-                          }
-                          className={`w-full ${styleClasses}`}
-                          style={
-                            inlineBgColor
-                              ? { backgroundColor: inlineBgColor }
-                              : undefined
-                          }
-                        >
-                          <div
-                            className={
-                              block.type === "image-fullwidth"
-                                ? "w-full"
-                                : `${getContentWidthClasses(
-                                    layout.contentWidth
-                                  )} px-8`
-                            }
-                            style={{
-                              paddingTop: `${layout.paddingTop}px`,
-                              paddingBottom: `${layout.paddingBottom}px`,
-                            }}
-                          >
-                            {/* Heading */}
-                            {block.type === "heading" && (
-                              <div
-                                className="text-[40px] font-semibold leading-tight"
-                                dangerouslySetInnerHTML={{
-                                  __html: block.content.heading || "",
-                                }}
-                              />
-                            )}
-
-                            {/* Subheading */}
-                            {block.type === "subheading" && (
-                              <div
-                                className="text-[30px] font-semibold leading-tight"
-                                dangerouslySetInnerHTML={{
-                                  __html: block.content.subheading || "",
-                                }}
-                              />
-                            )}
-
-                            {/* Paragraph */}
-                            {block.type === "paragraph" && (
-                              <div
-                                className="prose prose-lg max-w-none"
-                                dangerouslySetInnerHTML={{
-                                  __html: block.content.html || "",
-                                }}
-                              />
-                            )}
-
-                            {/* Paragraph with Heading */}
-                            {block.type === "paragraph-with-heading" && (
-                              <div>
-                                <div
-                                  className="text-[40px] font-semibold leading-tight mb-4"
-                                  dangerouslySetInnerHTML={{
-                                    __html: block.content.heading || "",
-                                  }}
-                                />
-                                <div
-                                  className="prose prose-lg max-w-none"
-                                  dangerouslySetInnerHTML={{
-                                    __html: block.content.html || "",
-                                  }}
-                                />
-                              </div>
-                            )}
-
-                            {/* Paragraph with Subheading */}
-                            {block.type === "paragraph-with-subheading" && (
-                              <div>
-                                <div
-                                  className="text-[30px] font-semibold leading-tight mb-4"
-                                  dangerouslySetInnerHTML={{
-                                    __html: block.content.subheading || "",
-                                  }}
-                                />
-                                <div
-                                  className="prose prose-lg max-w-none"
-                                  dangerouslySetInnerHTML={{
-                                    __html: block.content.html || "",
-                                  }}
-                                />
-                              </div>
-                            )}
-
-                            {/* Columns */}
-                            {block.type === "columns" && (
-                              <div className="flex flex-col md:flex-row gap-6 md:gap-8">
-                                <div
-                                  className="flex-1 prose prose-lg max-w-none"
-                                  dangerouslySetInnerHTML={{
-                                    __html:
-                                      block.content.columnOneContent || "",
-                                  }}
-                                />
-                                <div
-                                  className="flex-1 prose prose-lg max-w-none"
-                                  dangerouslySetInnerHTML={{
-                                    __html:
-                                      block.content.columnTwoContent || "",
-                                  }}
-                                />
-                              </div>
-                            )}
-
-                            {/* Table */}
-                            {block.type === "table" && (
-                              <div className="overflow-x-auto">
-                                {block.content.tableContent ? (
-                                  <TablePreview
-                                    content={block.content.tableContent}
-                                  />
-                                ) : (
-                                  <div className="text-gray-400 italic">
-                                    Empty table
-                                  </div>
-                                )}
-                              </div>
-                            )}
-
-                            {/* Ordered List (with nested support) */}
-                            {block.type === "numbered-list" && (
-                              <div className="space-y-4">
-                                {(block.content.listItems ?? []).map(
-                                  (item, idx) => {
-                                    const startNum =
-                                      block.content.startNumber ?? 1;
-                                    const marker = getListMarker(
-                                      startNum + idx,
-                                      block.content.listStyle
-                                    );
-                                    // Staggered delay: each item waits longer (0.35s per item)
-                                    const itemDelay = 0.4 + idx * 0.35;
-                                    return (
-                                      <div
-                                        key={idx}
-                                        className="animate-list-item"
-                                        style={{
-                                          animationDelay: `${itemDelay}s`,
-                                        }}
-                                      >
-                                        {/* Top-level item with badge */}
-                                        <div className="flex items-start gap-4">
-                                          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-orange-500 text-white font-semibold text-sm">
-                                            {marker}
-                                          </div>
-                                          <div className="flex-1 pt-2">
-                                            <div
-                                              className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-800"
-                                              dangerouslySetInnerHTML={{
-                                                __html: item.body,
-                                              }}
-                                            />
-                                          </div>
-                                        </div>
-
-                                        {/* Nested children (level 2) */}
-                                        {item.children &&
-                                          item.children.length > 0 && (
-                                            <div className="ml-14 mt-3 space-y-3">
-                                              {item.children.map(
-                                                (child, childIdx) => {
-                                                  const childMarker =
-                                                    getListMarker(
-                                                      childIdx + 1,
-                                                      block.content.subStyle ??
-                                                        "lower-alpha"
-                                                    );
-                                                  // Child items also stagger after parent
-                                                  const childDelay =
-                                                    itemDelay +
-                                                    0.2 +
-                                                    childIdx * 0.25;
-                                                  return (
-                                                    <div
-                                                      key={childIdx}
-                                                      className="flex items-start gap-3 animate-list-item"
-                                                      style={{
-                                                        animationDelay: `${childDelay}s`,
-                                                      }}
-                                                    >
-                                                      <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-orange-400 text-white font-medium text-xs">
-                                                        {childMarker}
-                                                      </div>
-                                                      <div className="flex-1 pt-1">
-                                                        <div
-                                                          className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-700"
-                                                          dangerouslySetInnerHTML={{
-                                                            __html: child.body,
-                                                          }}
-                                                        />
-                                                      </div>
-                                                    </div>
-                                                  );
-                                                }
-                                              )}
-                                            </div>
-                                          )}
-                                      </div>
-                                    );
-                                  }
-                                )}
-                              </div>
-                            )}
-
-                            {/* Bullet List */}
-                            {block.type === "bullet-list" && (
-                              <div className="space-y-4">
-                                {(block.content.bulletItems ?? []).map(
-                                  (item, idx) => {
-                                    // Staggered delay: each item waits longer
-                                    const itemDelay = 0.4 + idx * 0.35;
-                                    return (
-                                      <div
-                                        key={idx}
-                                        className="animate-list-item"
-                                        style={{
-                                          animationDelay: `${itemDelay}s`,
-                                        }}
-                                      >
-                                        {/* Top-level item with bullet */}
-                                        <div className="flex items-start gap-4">
-                                          <div
-                                            className="flex h-4 w-4 mt-1.5 shrink-0 items-center justify-center rounded-full"
-                                            style={{
-                                              backgroundColor:
-                                                block.content.bulletColor ||
-                                                "#f97316",
-                                            }}
-                                          />
-                                          <div className="flex-1">
-                                            <div
-                                              className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-800"
-                                              dangerouslySetInnerHTML={{
-                                                __html: item.body,
-                                              }}
-                                            />
-                                          </div>
-                                        </div>
-
-                                        {/* Nested children (level 2) */}
-                                        {item.children &&
-                                          item.children.length > 0 && (
-                                            <div className="ml-8 mt-3 space-y-3">
-                                              {item.children.map(
-                                                (child, childIdx) => {
-                                                  // Child items also stagger after parent
-                                                  const childDelay =
-                                                    itemDelay +
-                                                    0.2 +
-                                                    childIdx * 0.25;
-                                                  return (
-                                                    <div
-                                                      key={childIdx}
-                                                      className="flex items-start gap-3 animate-list-item"
-                                                      style={{
-                                                        animationDelay: `${childDelay}s`,
-                                                      }}
-                                                    >
-                                                      <div
-                                                        className="flex h-3 w-3 mt-1.5 shrink-0 items-center justify-center rounded-full opacity-70"
-                                                        style={{
-                                                          backgroundColor:
-                                                            block.content
-                                                              .bulletColor ||
-                                                            "#f97316",
-                                                        }}
-                                                      />
-                                                      <div className="flex-1">
-                                                        <div
-                                                          className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-700"
-                                                          dangerouslySetInnerHTML={{
-                                                            __html: child.body,
-                                                          }}
-                                                        />
-                                                      </div>
-                                                    </div>
-                                                  );
-                                                }
-                                              )}
-                                            </div>
-                                          )}
-                                      </div>
-                                    );
-                                  }
-                                )}
-                              </div>
-                            )}
-
-                            {/* Image Centered */}
-                            {block.type === "image-centered" && (
-                              <div className="flex flex-col items-center">
-                                {block.content.public_url ? (
-                                  <>
-                                    <img
-                                      src={block.content.public_url as string}
-                                      alt={
-                                        (block.content.alt_text as string) ||
-                                        "Image"
-                                      }
-                                      className="max-w-[600px] w-full h-auto rounded-lg"
-                                    />
-                                    {block.content.caption && (
-                                      <p className="mt-2 text-sm text-gray-600 italic text-center">
-                                        {block.content.caption as string}
-                                      </p>
-                                    )}
-                                  </>
-                                ) : (
-                                  <div className="py-4 text-center text-gray-400 italic text-sm">
-                                    Image not selected
-                                  </div>
-                                )}
-                              </div>
-                            )}
-
-                            {/* Image Full Width */}
-                            {block.type === "image-fullwidth" && (
-                              <div className="w-full">
-                                {block.content.public_url ? (
-                                  <>
-                                    <img
-                                      src={block.content.public_url as string}
-                                      alt={
-                                        (block.content.alt_text as string) ||
-                                        "Image"
-                                      }
-                                      className="w-full h-auto object-cover rounded-md"
-                                    />
-                                    {block.content.caption && (
-                                      <p className="mt-2 text-sm text-gray-600 italic text-center">
-                                        {block.content.caption as string}
-                                      </p>
-                                    )}
-                                  </>
-                                ) : (
-                                  <div className="py-4 text-center text-gray-400 italic text-sm">
-                                    Image not selected
-                                  </div>
-                                )}
-                              </div>
-                            )}
-
-                            {/* Image + Text */}
-                            {block.type === "image-text" &&
-                              (() => {
-                                const imagePosition =
-                                  (block.content.layout as any)
-                                    ?.imagePosition || "left";
-                                const imageWidth =
-                                  (block.content.layout as any)?.imageWidth ||
-                                  50;
-                                const textContent = block.content.text as
-                                  | { heading: string; body: string }
-                                  | undefined;
-                                const heading = textContent?.heading || "";
-                                const body = textContent?.body || "";
-
-                                const getImageWidthClass = () => {
-                                  switch (imageWidth) {
-                                    case 25:
-                                      return "w-1/4";
-                                    case 75:
-                                      return "w-3/4";
-                                    default:
-                                      return "w-1/2";
-                                  }
-                                };
-                                const getTextWidthClass = () => {
-                                  switch (imageWidth) {
-                                    case 25:
-                                      return "w-3/4";
-                                    case 75:
-                                      return "w-1/4";
-                                    default:
-                                      return "w-1/2";
-                                  }
-                                };
-
-                                const imageElement = block.content
-                                  .public_url ? (
-                                  <img
-                                    src={block.content.public_url as string}
-                                    alt={
-                                      (block.content.alt_text as string) ||
-                                      "Image"
-                                    }
-                                    className="w-full h-auto object-cover rounded-lg"
-                                  />
-                                ) : (
-                                  <div className="w-full h-32 bg-gray-200 rounded-lg flex items-center justify-center">
-                                    <span className="text-gray-400 text-sm">
-                                      No image
-                                    </span>
-                                  </div>
-                                );
-
-                                const textElement = (
-                                  <div className="flex flex-col">
-                                    {body && (
-                                      <div
-                                        className="prose prose-sm max-w-none text-gray-700"
-                                        dangerouslySetInnerHTML={{
-                                          __html: body,
-                                        }}
-                                      />
-                                    )}
-                                  </div>
-                                );
-
-                                return (
-                                  <div
-                                    className={`flex gap-6 ${
-                                      imagePosition === "right"
-                                        ? "flex-row-reverse"
-                                        : "flex-row"
-                                    }`}
-                                  >
-                                    <div className={getImageWidthClass()}>
-                                      {imageElement}
-                                    </div>
-                                    <div
-                                      className={`${getTextWidthClass()} flex items-center`}
-                                    >
-                                      {textElement}
-                                    </div>
-                                  </div>
-                                );
-                              })()}
-
-                            {/* Flashcards */}
-                            {block.type === "flashcards" && (
-                              <FlashcardsPreview
-                                cards={
-                                  block.content.cards as
-                                    | FlashcardItem[]
-                                    | undefined
-                                }
-                                previewWidth={previewWidth}
-                                blockId={block.id}
-                                pageId={pageId}
-                              />
-                            )}
-
-                            {/* Sorting Activity */}
-                            {block.type === "sorting_activity" && (
-                              <SortingActivityLearner
-                                moduleId={moduleId ?? null}
-                                pageId={pageId}
-                                blockId={block.id}
-                                content={
-                                  block.content as SortingActivityContent
-                                }
-                              />
-                            )}
-
-                            {/* Accordion */}
-                            {block.type === "accordion" && (
-                              <AccordionBlock
-                                block={block}
-                                onChange={() => {}}
-                                isPreviewMode
-                                moduleId={moduleId ?? null}
-                                pageId={pageId ?? null}
-                              />
-                            )}
-
-                            {/* Tabs */}
-                            {block.type === "tabs" && moduleId && (
-                              <TabsLearner
-                                content={block.content as TabsContent}
-                                blockId={block.id}
-                                moduleId={moduleId}
-                                lessonId={pageId ?? undefined}
-                              />
-                            )}
-
-                            {/* Image Compare */}
-                            {block.type === "image_compare" && (
-                              <ImageCompareLearner
-                                blockId={block.id}
-                                content={block.content as ImageCompareContent}
-                              />
-                            )}
-                          </div>
-                        </AnimateOnView>
-                      );
-                    })}
+                    .map((block) => (
+                      <LessonBlockView
+                        key={block.id}
+                        block={block}
+                        moduleId={moduleId ?? null}
+                        pageId={pageId ?? null}
+                        previewWidth={previewWidth}
+                      />
+                    ))}
 
                   {/* Empty state */}
                   {blocks.length === 0 && (
@@ -4732,7 +4549,113 @@ const LessonBuilder: React.FC = () => {
         </div>
       )}
 
+      {/* Block Comments Panel */}
+      {commentsBlock && (
+        <BlockCommentsPanel
+          blockLabel={
+            getLessonBlockPlainText(commentsBlock).slice(0, 80) ||
+            commentsBlock.type
+          }
+          threads={commentThreadsByBlock.get(commentsBlock.id) ?? []}
+          reviewers={reviewers}
+          currentUserId={currentUserId}
+          onCreate={handleCreateComment}
+          onToggleResolved={handleToggleCommentResolved}
+          onClose={() => setCommentsBlockId(null)}
+        />
+      )}
+
       {/* Unsaved Changes Modal */}
+      {/* Version History Modal */}
+      {isHistoryOpen && pageId && (
+        <LessonHistoryModal
+          pageId={pageId}
+          currentBlocks={blocks}
+          refreshKey={historyRefreshKey}
+          onRestore={handleRestoreRevision}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Save Block to Library Modal */}
+      {blockToSaveToLibrary && (
+        <SaveBlockToLibraryModal
+          defaultName={
+            getLessonBlockPlainText(blockToSaveToLibrary).slice(0, 60) ||
+            blockToSaveToLibrary.type
+          }
+          onSave={handleSaveBlockToLibrary}
+          onClose={() => setBlockToSaveToLibrary(null)}
+        />
+      )}
+
+      {/* Save Conflict Modal */}
+      {isConflictModalOpen && saveConflict && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/50"
+            onClick={() => setIsConflictModalOpen(false)}
+          />
+
+          {/* Modal */}
+          <div className="relative bg-white rounded-xl shadow-2xl w-[90vw] max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+            {/* Header */}
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">
+                This lesson was changed by someone else
+              </h2>
+              <button
+                type="button"
+                onClick={() => setIsConflictModalOpen(false)}
+                className="h-8 w-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-200 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+              <p className="text-sm text-gray-600">
+                Another author saved this page after you opened it, so your
+                changes were not saved. Compare the two versions and choose
+                which one to keep. Autosave is paused until you decide.
+              </p>
+              <LessonBlockDiffView
+                entries={saveConflict.entries}
+                leftLabel="Saved by the other author"
+                rightLabel="Your version"
+              />
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 border-t border-gray-100 bg-gray-50 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setIsConflictModalOpen(false)}
+                className="px-4 py-2 rounded-lg font-medium text-sm bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 transition-colors"
+              >
+                Decide Later
+              </button>
+              <button
+                type="button"
+                onClick={handleUseServerVersion}
+                className="px-4 py-2 rounded-lg font-medium text-sm bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 transition-colors"
+              >
+                Discard Mine and Load Theirs
+              </button>
+              <button
+                type="button"
+                onClick={handleOverwriteServerVersion}
+                className="px-4 py-2 rounded-lg font-medium text-sm bg-red-600 hover:bg-red-700 text-white transition-colors"
+              >
+                Overwrite With Mine
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showUnsavedModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
           {/* Backdrop */}
@@ -4789,126 +4712,4 @@ const LessonBuilder: React.FC = () => {
   );
 };
 
-// Helper component for table preview
-const TablePreview: React.FC<{ content: unknown }> = ({ content }) => {
-  // Render TipTap table JSON as HTML
-  if (!content || typeof content !== "object") return null;
-
-  const renderNode = (node: any): React.ReactNode => {
-    if (!node) return null;
-
-    // Handle doc wrapper (TipTap wraps content in a doc node)
-    if (node.type === "doc") {
-      return (
-        <>
-          {node.content?.map((child: any, i: number) =>
-            renderNode({ ...child, key: i })
-          )}
-        </>
-      );
-    }
-
-    if (node.type === "table") {
-      return (
-        <table
-          key={node.key}
-          className="border-collapse border border-gray-300 w-full"
-        >
-          <tbody>
-            {node.content?.map((row: any, i: number) =>
-              renderNode({ ...row, key: i })
-            )}
-          </tbody>
-        </table>
-      );
-    }
-
-    if (node.type === "tableRow") {
-      return (
-        <tr key={node.key}>
-          {node.content?.map((cell: any, i: number) =>
-            renderNode({ ...cell, key: i })
-          )}
-        </tr>
-      );
-    }
-
-    if (node.type === "tableHeader") {
-      return (
-        <th
-          key={node.key}
-          className="border border-gray-300 px-4 py-2 bg-orange-500 text-white font-semibold"
-          style={
-            node.attrs?.backgroundColor
-              ? { backgroundColor: node.attrs.backgroundColor }
-              : undefined
-          }
-        >
-          {node.content?.map((p: any, i: number) =>
-            renderNode({ ...p, key: i })
-          )}
-        </th>
-      );
-    }
-
-    if (node.type === "tableCell") {
-      return (
-        <td
-          key={node.key}
-          className="border border-gray-300 px-4 py-2"
-          style={
-            node.attrs?.backgroundColor
-              ? { backgroundColor: node.attrs.backgroundColor }
-              : undefined
-          }
-        >
-          {node.content?.map((p: any, i: number) =>
-            renderNode({ ...p, key: i })
-          )}
-        </td>
-      );
-    }
-
-    if (node.type === "paragraph") {
-      return (
-        <p key={node.key} className="m-0">
-          {node.content?.map((t: any, i: number) =>
-            renderNode({ ...t, key: i })
-          ) || <br />}
-        </p>
-      );
-    }
-
-    if (node.type === "text") {
-      let text: React.ReactNode = node.text;
-      // Apply marks (bold, italic, etc.)
-      if (node.marks) {
-        for (const mark of node.marks) {
-          if (mark.type === "bold") {
-            text = <strong>{text}</strong>;
-          } else if (mark.type === "italic") {
-            text = <em>{text}</em>;
-          } else if (mark.type === "underline") {
-            text = <u>{text}</u>;
-          } else if (mark.type === "strike") {
-            text = <s>{text}</s>;
-          } else if (mark.type === "textStyle" && mark.attrs?.color) {
-            text = <span style={{ color: mark.attrs.color }}>{text}</span>;
-          }
-        }
-      }
-      return <span key={node.key}>{text}</span>;
-    }
-
-    // Handle hardBreak
-    if (node.type === "hardBreak") {
-      return <br key={node.key} />;
-    }
-
-    return null;
-  };
-
-  return <>{renderNode(content)}</>;
-};
-
 export default LessonBuilder;
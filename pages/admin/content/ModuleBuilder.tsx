@@ -6,8 +6,18 @@ import {
   Draggable,
   DropResult,
 } from '@hello-pangea/dnd';
-import { GripVertical } from 'lucide-react';
+import { Copy, GripVertical, Rocket } from 'lucide-react';
 import { supabase } from '../../../lib/supabaseClient';
+import { duplicateContentModule } from '../../../src/lib/supabase/contentModules';
+import { upsertContentModuleBlock } from '../../../src/lib/supabase/contentModuleBlocks';
+import { serializeLessonBlock } from '../../../src/lib/lessonBlocks';
+import type { LessonTemplate } from '../../../src/lib/lessonTemplates';
+import LessonTemplateGallery from '../../../src/components/blocks/shared/LessonTemplateGallery';
+import {
+  listContentModuleVersions,
+  publishContentModule,
+  type ContentModuleVersionSummary,
+} from '../../../src/lib/supabase/contentModuleVersions';
 
 // Lesson item type
 type LessonItem = {
@@ -30,6 +40,10 @@ const ModuleBuilder: React.FC = () => {
   const [newLessonTitle, setNewLessonTitle] = useState('');
   const [openLessonMenuId, setOpenLessonMenuId] = useState<string | null>(null);
 
+  // Lesson template gallery state
+  const [templateLessonId, setTemplateLessonId] = useState<string | null>(null);
+  const [creatingTemplateId, setCreatingTemplateId] = useState<string | null>(null);
+
   // Delete lesson modal state
   const [lessonToDelete, setLessonToDelete] = useState<LessonItem | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -43,6 +57,16 @@ const ModuleBuilder: React.FC = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isLoadingModule, setIsLoadingModule] = useState(false);
+  const [isDuplicatingModule, setIsDuplicatingModule] = useState(false);
+
+  // Publishing state: learners only see the published version
+  const [versions, setVersions] = useState<ContentModuleVersionSummary[]>([]);
+  const [publishedVersionId, setPublishedVersionId] = useState<string | null>(null);
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false);
+  const [isPublishModalOpen, setIsPublishModalOpen] = useState(false);
+  const [changeNote, setChangeNote] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishError, setPublishError] = useState<string | null>(null);
 
   // Author state (from authenticated user)
   const [authorName, setAuthorName] = useState<string | null>(null);
@@ -138,7 +162,7 @@ const ModuleBuilder: React.FC = () => {
       // 1) Load the module (title + description)
       const { data: module, error: moduleError } = await supabase
         .from('content_modules')
-        .select('id, title, description')
+        .select('id, title, description, published_version_id, published_at')
         .eq('id', moduleIdParam)
         .single();
 
@@ -155,7 +179,7 @@ const ModuleBuilder: React.FC = () => {
       // 2) Load the pages as lessons
       const { data: pages, error: pagesError } = await supabase
         .from('content_module_pages')
-        .select('id, title, order_index')
+        .select('id, title, order_index, updated_at')
         .eq('module_id', module.id)
         .order('order_index', { ascending: true });
 
@@ -169,6 +193,24 @@ const ModuleBuilder: React.FC = () => {
           orderIndex: (p.order_index as number) ?? 0,
         }));
         setLessons(mappedLessons);
+
+        // Lessons saved in the Lesson Builder since the last publish
+        setHasUnpublishedChanges(
+          !!module.published_at &&
+            pages.some(
+              (p) =>
+                !!p.updated_at &&
+                new Date(p.updated_at as string) > new Date(module.published_at)
+            )
+        );
+      }
+
+      // 3) Load the published versions
+      setPublishedVersionId(module.published_version_id ?? null);
+      try {
+        setVersions(await listContentModuleVersions(module.id));
+      } catch (err) {
+        console.error('Error loading module versions', err);
       }
 
       setIsLoadingModule(false);
@@ -240,6 +282,7 @@ const ModuleBuilder: React.FC = () => {
       }
 
       console.log('Module updated:', moduleId);
+      setHasUnpublishedChanges(true);
       setIsSaving(false);
       return moduleId;
     }
@@ -274,7 +317,10 @@ const ModuleBuilder: React.FC = () => {
     return null;
   };
 
-  const handleCreateLessonFor = async (lessonId: string) => {
+  const handleCreateLessonFor = async (
+    lessonId: string,
+    template?: LessonTemplate
+  ): Promise<void> => {
     // Find lesson in local state
     const lesson = lessons.find((l) => l.id === lessonId);
     if (!lesson) return;
@@ -318,6 +364,20 @@ const ModuleBuilder: React.FC = () => {
     const pageId = data.id as string;
     console.log('Lesson page created with id:', pageId);
 
+    // Seed the new page with the template's blocks
+    if (template) {
+      try {
+        for (const block of template.createBlocks()) {
+          await upsertContentModuleBlock(serializeLessonBlock(block, pageId));
+        }
+      } catch (err) {
+        // The page exists either way; the author can finish it in the Lesson Builder
+        console.error('Error adding template blocks', err);
+      }
+    }
+
+    setHasUnpublishedChanges(true);
+
     // Mark lesson as having a page
     setLessons((prev) =>
       prev.map((l) =>
@@ -363,6 +423,10 @@ const ModuleBuilder: React.FC = () => {
       }
     }
 
+    if (lessonToDelete.pageId) {
+      setHasUnpublishedChanges(true);
+    }
+
     // Remove from UI
     setLessons((prev) => prev.filter((l) => l.id !== lessonToDelete.id));
     setLessonToDelete(null);
@@ -405,6 +469,7 @@ const ModuleBuilder: React.FC = () => {
           )
         );
         console.log('Lesson order saved to database');
+        setHasUnpublishedChanges(true);
       } catch (err) {
         console.error('Error saving lesson order', err);
         // Optionally show an error toast here
@@ -479,6 +544,7 @@ const ModuleBuilder: React.FC = () => {
         },
       ]);
 
+      setHasUnpublishedChanges(true);
       console.log('Lesson duplicated with id:', inserted.id);
     } catch (err) {
       console.error('Unexpected error duplicating lesson', err);
@@ -486,6 +552,68 @@ const ModuleBuilder: React.FC = () => {
     }
   };
 
+  const handleCreateLessonFromTemplate = async (template: LessonTemplate) => {
+    if (!templateLessonId) return;
+
+    setCreatingTemplateId(template.id);
+    await handleCreateLessonFor(templateLessonId, template);
+    setCreatingTemplateId(null);
+    setTemplateLessonId(null);
+  };
+
+  const handleDuplicateModule = async () => {
+    // Copy what's on screen, including an unsaved title/description
+    const currentModuleId = await handleSaveModule();
+    if (!currentModuleId) {
+      setError('Please enter a module title and save first.');
+      return;
+    }
+
+    setIsDuplicatingModule(true);
+    try {
+      const newModuleId = await duplicateContentModule(currentModuleId);
+      navigate(`/admin/content/module-builder/${newModuleId}`);
+    } catch (err) {
+      console.error('Error duplicating module', err);
+      setError('Failed to duplicate module.');
+    } finally {
+      setIsDuplicatingModule(false);
+    }
+  };
+
+  const handlePublishModule = async () => {
+    setPublishError(null);
+
+    // Publish exactly what's on screen, including an unsaved title/description
+    const currentModuleId = await handleSaveModule();
+    if (!currentModuleId) {
+      setPublishError('Please enter a module title before publishing.');
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      const version = await publishContentModule({
+        moduleId: currentModuleId,
+        changeNote,
+        publishedByName: authorName,
+      });
+      setVersions((prev) => [version, ...prev]);
+      setPublishedVersionId(version.id);
+      setHasUnpublishedChanges(false);
+      setChangeNote('');
+      setIsPublishModalOpen(false);
+    } catch (err) {
+      console.error('Error publishing module', err);
+      setPublishError('Failed to publish module.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const publishedVersion =
+    versions.find((v) => v.id === publishedVersionId) ?? null;
+
   // Inline lesson title editing helpers
   const startEditingLessonTitle = (lesson: LessonItem) => {
     setEditingLessonId(lesson.pageId ?? lesson.id);
@@ -527,6 +655,8 @@ const ModuleBuilder: React.FC = () => {
 
         if (error) {
           console.error('Error updating lesson title', error);
+        } else {
+          setHasUnpublishedChanges(true);
         }
       } catch (err) {
         console.error('Unexpected error updating lesson title', err);
@@ -551,7 +681,7 @@ const ModuleBuilder: React.FC = () => {
     <div className="min-h-screen bg-white">
       <div className="max-w-4xl mx-auto px-8 pt-12 pb-24">
         {/* Breadcrumb */}
-        <div className="mb-6">
+        <div className="mb-6 flex items-center justify-between">
           <button
             type="button"
             onClick={() => navigate('/admin/content/elearning')}
@@ -559,6 +689,17 @@ const ModuleBuilder: React.FC = () => {
           >
             ← Back to E-Learning Content
           </button>
+          {moduleId && (
+            <button
+              type="button"
+              onClick={handleDuplicateModule}
+              disabled={isDuplicatingModule || isSaving}
+              className="inline-flex items-center gap-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-60"
+            >
+              <Copy size={14} />
+              {isDuplicatingModule ? 'Duplicating…' : 'Duplicate module'}
+            </button>
+          )}
         </div>
 
         {/* Editable Course Title */}
@@ -656,15 +797,45 @@ const ModuleBuilder: React.FC = () => {
           {/* Placeholder when author is hidden or loading */}
           {(!showAuthor || !authorName) && <div />}
 
-          {/* Save Module Button */}
+          {/* Publish status + Save / Publish Buttons */}
           <div className="flex flex-col items-end gap-1">
-            <button
-              onClick={handleSaveModule}
-              disabled={isSaving || !title.trim()}
-              className="inline-flex items-center rounded-md bg-orange-500 px-4 py-2 text-sm font-medium text-white hover:bg-orange-600 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
-            >
-              {isSaving ? 'Saving…' : 'Save module'}
-            </button>
+            <div className="flex items-center gap-3">
+              {!publishedVersion ? (
+                <span className="rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-600">
+                  Draft
+                </span>
+              ) : hasUnpublishedChanges ? (
+                <span
+                  className="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-700"
+                  title={`Learners see version ${publishedVersion.version_number}`}
+                >
+                  Unpublished changes
+                </span>
+              ) : (
+                <span className="rounded-full bg-green-100 px-2.5 py-1 text-xs font-medium text-green-700">
+                  Published · v{publishedVersion.version_number}
+                </span>
+              )}
+              <button
+                onClick={handleSaveModule}
+                disabled={isSaving || !title.trim()}
+                className="inline-flex items-center rounded-md border border-orange-500 px-4 py-2 text-sm font-medium text-orange-600 hover:bg-orange-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving…' : 'Save module'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setPublishError(null);
+                  setIsPublishModalOpen(true);
+                }}
+                disabled={isSaving || isPublishing || !title.trim()}
+                className="inline-flex items-center gap-2 rounded-md bg-orange-500 px-4 py-2 text-sm font-medium text-white hover:bg-orange-600 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                <Rocket size={16} />
+                Publish
+              </button>
+            </div>
             {error && <span className="text-xs text-red-500">{error}</span>}
           </div>
         </div>
@@ -798,6 +969,20 @@ const ModuleBuilder: React.FC = () => {
                                       </div>
                                     </button>
 
+                                    <button
+                                      type="button"
+                                      onClick={() => {
+                                        setTemplateLessonId(lesson.id);
+                                        setOpenLessonMenuId(null);
+                                      }}
+                                      className="w-full text-left px-4 py-3 text-sm hover:bg-gray-50 border-b border-gray-100"
+                                    >
+                                      <div className="font-semibold text-gray-900">Start from Template</div>
+                                      <div className="text-xs text-gray-500">
+                                        Begin with a pre-built lesson layout.
+                                      </div>
+                                    </button>
+
                                     <button
                                       type="button"
                                       onClick={() => {
@@ -898,6 +1083,120 @@ const ModuleBuilder: React.FC = () => {
         {/* Empty space below - this is where future content would go */}
       </div>
 
+      {/* Lesson Template Gallery */}
+      {templateLessonId && (
+        <LessonTemplateGallery
+          lessonTitle={lessons.find((l) => l.id === templateLessonId)?.title ?? ''}
+          creatingTemplateId={creatingTemplateId}
+          onSelect={handleCreateLessonFromTemplate}
+          onClose={() => setTemplateLessonId(null)}
+        />
+      )}
+
+      {/* Publish Modal */}
+      {isPublishModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/40"
+            onClick={() => !isPublishing && setIsPublishModalOpen(false)}
+          />
+
+          {/* Modal */}
+          <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full mx-4 overflow-hidden">
+            <div className="px-6 py-5">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                Publish{' '}
+                {publishedVersion
+                  ? `version ${publishedVersion.version_number + 1}`
+                  : 'module'}
+                ?
+              </h3>
+              <p className="text-sm text-gray-600">
+                Learners starting this module will get the lessons as they are
+                now. Learners already part way through keep the version they
+                started.
+              </p>
+
+              <label
+                htmlFor="publish-change-note"
+                className="block mt-4 mb-1 text-sm font-medium text-gray-700"
+              >
+                Change note{' '}
+                <span className="font-normal text-gray-400">(optional)</span>
+              </label>
+              <textarea
+                id="publish-change-note"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder="What changed in this version?"
+                rows={3}
+                disabled={isPublishing}
+                className="w-full resize-none rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:border-orange-500 focus:outline-none"
+              />
+
+              {publishError && (
+                <p className="mt-2 text-xs text-red-500">{publishError}</p>
+              )}
+
+              {versions.length > 0 && (
+                <div className="mt-5">
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    Previous versions
+                  </h4>
+                  <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {versions.map((version) => (
+                      <li key={version.id} className="px-3 py-2 text-sm">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-800">
+                            Version {version.version_number}
+                            {version.id === publishedVersionId && (
+                              <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-[11px] font-medium text-green-700">
+                                Live
+                              </span>
+                            )}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {new Date(version.published_at).toLocaleString()}
+                          </span>
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {version.published_by_name || 'Unknown author'}
+                        </div>
+                        {version.change_note && (
+                          <p className="mt-1 text-xs text-gray-700 whitespace-pre-wrap">
+                            {version.change_note}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setIsPublishModalOpen(false)}
+                disabled={isPublishing}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handlePublishModule}
+                disabled={isPublishing}
+                className="px-4 py-2 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+              >
+                {isPublishing ? 'Publishing…' : 'Publish'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Lesson Confirmation Modal */}
       {lessonToDelete && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -163,7 +163,14 @@ const UploadScormToS3: React.FC = () => {
       }
 
       if (responseStatus < 200 || responseStatus >= 300) {
-        throw new Error(`Finalize function failed (Status ${responseStatus}). See debug panel.`);
+        // Surface validation errors (e.g. a missing or invalid imsmanifest.xml)
+        let functionMessage: string | null = null;
+        try {
+          functionMessage = JSON.parse(rawResponseText)?.error ?? null;
+        } catch {
+          // Not JSON – use the generic message below
+        }
+        throw new Error(functionMessage || `Finalize function failed (Status ${responseStatus}). See debug panel.`);
       }
 
       let finalizeData: FinalizeResponse;
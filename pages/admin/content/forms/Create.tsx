@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
-import type { FormSchema, FormSection, BaseFormField, FormFieldType, FormFieldOption } from '../../../../src/types/forms';
+import type { FormSchema, FormSection, BaseFormField, FormFieldType, FormFieldOption, FormRole, FormStage, VisibilityLogic, VisibilityRule } from '../../../../src/types/forms';
 import { createForm, getFormById, updateForm } from '../../../../src/services/forms';
 import { supabase } from '../../../../lib/supabaseClient';
 import { listAssignmentsForForm, createFormAssignment, deleteFormAssignment, DbFormAssignment, FormAssignmentTargetType } from '../../../../src/services/formAssignments';
@@ -10,6 +10,8 @@ import { useUsersListing } from '../../../../src/hooks/useUsersListing';
 import RichTextEditor from '../../../../src/components/RichTextEditor';
 import ImageEditModal from '../../../../src/components/ImageEditModal';
 import type { ImageEditResult } from '../../../../src/components/ImageEditModal';
+import VisibilityRulesEditor, { isVisibilitySourceField } from '../../../../src/components/VisibilityRulesEditor';
+import { FORM_ROLE_LABELS, getSectionStageIndex } from '../../../../src/lib/formStages';
 import {
   Type,
   AlignLeft,
@@ -334,6 +336,7 @@ const CreateFormPage: React.FC = () => {
         const finalSchema = {
           ...defaultFormSchema,
           ...fetchedSchema,
+          version: existing.version,
         };
 
         // Ensure sections is a valid array, and has at least one section for new forms.
@@ -542,6 +545,72 @@ const CreateFormPage: React.FC = () => {
     });
   };
   
+  const handleUpdateSectionVisibility = (sectionId: string, visibilityConditions: VisibilityRule[], visibilityLogic: VisibilityLogic) => {
+    setFormSchema((prev) => {
+      if (!prev) return prev;
+
+      const sections = prev.sections.map((section) =>
+        section.id === sectionId ? { ...section, visibilityConditions, visibilityLogic } : section
+      );
+
+      return { ...prev, sections };
+    });
+  };
+
+  const handleUpdateSectionStage = (sectionId: string, stageId: string) => {
+    setFormSchema((prev) => {
+      if (!prev) return prev;
+
+      const sections = prev.sections.map((section) =>
+        section.id === sectionId ? { ...section, stageId: stageId || undefined } : section
+      );
+
+      return { ...prev, sections };
+    });
+  };
+
+  const handleAddStage = () => {
+    setFormSchema((prev) => {
+      if (!prev) return prev;
+
+      const stages = prev.stages ?? [];
+      const newStage: FormStage = {
+        id: crypto.randomUUID?.() ?? `stage_${Date.now()}`,
+        // The first stage is filled by whoever the form is assigned to
+        name: stages.length === 0 ? 'Submitter' : `Stage ${stages.length + 1}`,
+        role: stages.length === 0 ? 'user' : 'admin',
+      };
+
+      return { ...prev, stages: [...stages, newStage] };
+    });
+  };
+
+  const handleUpdateStage = (stageId: string, updates: Partial<FormStage>) => {
+    setFormSchema((prev) => {
+      if (!prev) return prev;
+
+      const stages = (prev.stages ?? []).map((stage) =>
+        stage.id === stageId ? { ...stage, ...updates } : stage
+      );
+
+      return { ...prev, stages };
+    });
+  };
+
+  const handleRemoveStage = (stageId: string) => {
+    setFormSchema((prev) => {
+      if (!prev) return prev;
+
+      // Sections of a removed stage fall back to the first stage
+      const sections = prev.sections.map((section) =>
+        section.stageId === stageId ? { ...section, stageId: undefined } : section
+      );
+      const stages = (prev.stages ?? []).filter((stage) => stage.id !== stageId);
+
+      return { ...prev, sections, stages };
+    });
+  };
+
   const handleAddSection = () => {
     setFormSchema((prev) => {
       if (!prev) return prev;
@@ -653,11 +722,18 @@ const CreateFormPage: React.FC = () => {
       setIsSaving(true);
       setToast(null);
   
-      await updateForm(formId, {
+      const saved = await updateForm(formId, {
         name: formName.trim(),
         schema: { ...formSchema, title: formName.trim() },
       });
-      setToast({ message: 'Form updated successfully!', type: 'success' });
+      const isNewVersion = saved.version !== formSchema.version;
+      setFormSchema((prev) => ({ ...prev, version: saved.version }));
+      setToast({
+        message: isNewVersion
+          ? `Form saved as version ${saved.version}. Existing submissions keep the version they were filled with.`
+          : 'Form updated successfully!',
+        type: 'success',
+      });
     } catch (err: any) {
       console.error('Error saving form', err);
       setToast({ message: err.message ?? 'Failed to save form.', type: 'error' });
@@ -1693,6 +1769,10 @@ const CreateFormPage: React.FC = () => {
   };
 
   const pageTitle = 'Edit Form';
+  // Questions that conditional logic can branch on
+  const visibilitySourceFields = (Array.isArray(formSchema?.sections) ? formSchema.sections : [])
+    .flatMap((section) => (Array.isArray(section?.fields) ? section.fields : []))
+    .filter(isVisibilitySourceField);
   const formControlClasses = "block w-full rounded-md border border-gray-300 bg-white text-gray-900 px-3 py-2 text-sm focus:border-secondary focus:ring-2 focus:ring-offset-1 focus:ring-secondary disabled:bg-gray-100 placeholder:text-gray-400";
 
   return (
@@ -1704,7 +1784,10 @@ const CreateFormPage: React.FC = () => {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <div>
           <Link to="/admin/content/forms" className="text-sm text-secondary hover:underline">&larr; Back to Forms</Link>
-          <h1 className="text-3xl font-bold text-primary mt-2">{pageTitle}</h1>
+          <h1 className="text-3xl font-bold text-primary mt-2">
+            {pageTitle}
+            {formSchema?.version !== undefined && <span className="ml-3 align-middle text-sm font-medium text-gray-500">Version {formSchema.version}</span>}
+          </h1>
         </div>
         <div className="flex items-center gap-3">
           {formId && (
@@ -1748,6 +1831,59 @@ const CreateFormPage: React.FC = () => {
                 />
               </div>
 
+              <div className="bg-white p-6 rounded-2xl shadow-md ring-1 ring-gray-100 space-y-4">
+                <div>
+                  <h2 className="text-xl font-bold text-primary">Workflow stages</h2>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Split the form between people: the first stage is filled by the assignee, then each later stage is sent to everyone with its role. Pick the stage that fills each section below.
+                  </p>
+                </div>
+                {(formSchema.stages ?? []).length > 0 && (
+                  <ol className="space-y-2">
+                    {(formSchema.stages ?? []).map((stage, stageIndex) => (
+                      <li key={stage.id} className="flex flex-wrap items-center gap-2">
+                        <span className="w-6 text-sm font-semibold text-gray-500">{stageIndex + 1}.</span>
+                        <input
+                          type="text"
+                          value={stage.name}
+                          onChange={(e) => handleUpdateStage(stage.id, { name: e.target.value })}
+                          placeholder="Stage name, e.g. Supervisor review"
+                          className="flex-1 min-w-[12rem] rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-secondary focus:ring-2 focus:ring-secondary"
+                        />
+                        <select
+                          value={stage.role}
+                          onChange={(e) => handleUpdateStage(stage.id, { role: e.target.value as FormRole })}
+                          disabled={stageIndex === 0}
+                          title={stageIndex === 0 ? 'The first stage is filled by the assignee' : undefined}
+                          className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-secondary focus:ring-2 focus:ring-secondary disabled:bg-gray-100"
+                        >
+                          {(Object.keys(FORM_ROLE_LABELS) as FormRole[]).map((role) => (
+                            <option key={role} value={role}>{FORM_ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveStage(stage.id)}
+                          className="rounded-md border border-red-200 bg-white px-3 py-2 text-xs font-medium text-red-600 hover:bg-red-50"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {(formSchema.stages ?? []).length === 1 && (
+                  <p className="text-xs text-gray-500">Add a second stage to route the form on after it is submitted.</p>
+                )}
+                <button
+                  type="button"
+                  onClick={handleAddStage}
+                  className="inline-flex items-center px-3 py-1.5 rounded-md border border-dashed border-gray-400 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  + Add stage
+                </button>
+              </div>
+
               <div className="bg-white p-6 rounded-2xl shadow-md ring-1 ring-gray-100 space-y-4">
                 <h2 className="text-xl font-bold text-primary">Form Content</h2>
                 {(Array.isArray(formSchema?.sections) ? formSchema.sections : []).map((section, sectionIndex) => {
@@ -1809,6 +1945,41 @@ const CreateFormPage: React.FC = () => {
                       </div>
                     </div>
 
+                    <details className="mb-2 rounded-md border border-gray-200 px-3 py-2">
+                      <summary className="cursor-pointer text-xs font-medium text-gray-700">
+                        Section conditions{(section.visibilityConditions?.length ?? 0) > 0 ? ` (${section.visibilityConditions?.length})` : ''}
+                      </summary>
+                      <div className="mt-3">
+                        <VisibilityRulesEditor
+                          subject="section"
+                          rules={section.visibilityConditions ?? []}
+                          logic={section.visibilityLogic ?? 'all'}
+                          sourceFields={visibilitySourceFields.filter((source) => !fields.some((item) => item.id === source.id))}
+                          onChange={(rules, logic) => handleUpdateSectionVisibility(section.id, rules, logic)}
+                        />
+                      </div>
+                    </details>
+
+                    {(formSchema.stages ?? []).length > 1 && (
+                      <div className="mb-2 flex items-center gap-2">
+                        <label htmlFor={`stage-${section.id}`} className="text-xs font-medium text-gray-700">
+                          Filled in stage
+                        </label>
+                        <select
+                          id={`stage-${section.id}`}
+                          value={getSectionStageIndex(formSchema, section) === 0 ? '' : section.stageId}
+                          onChange={(e) => handleUpdateSectionStage(section.id, e.target.value)}
+                          className="rounded-md border border-gray-300 bg-white px-2 py-1.5 text-xs text-gray-900 focus:border-secondary focus:ring-2 focus:ring-secondary"
+                        >
+                          {(formSchema.stages ?? []).map((stage, stageIndex) => (
+                            <option key={stage.id} value={stageIndex === 0 ? '' : stage.id}>
+                              {stageIndex + 1}. {stage.name || 'Untitled stage'} ({FORM_ROLE_LABELS[stage.role]})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
                     {!isCollapsed && (
                       <div className="mt-4">
                         <Droppable droppableId={`form-section-${section.id}`}>
@@ -1958,6 +2129,64 @@ const CreateFormPage: React.FC = () => {
                                         )}
                                         
                                         {renderFieldTypeConfig(field, section.id)}
+
+                                        <details className="mt-4 rounded-md border border-gray-200 px-3 py-2">
+                                          <summary className="cursor-pointer text-xs font-medium text-gray-700">
+                                            Conditional logic{(field.visibilityConditions?.length ?? 0) > 0 ? ` (${field.visibilityConditions?.length})` : ''}
+                                          </summary>
+                                          <div className="mt-3">
+                                            <VisibilityRulesEditor
+                                              subject="field"
+                                              rules={field.visibilityConditions ?? []}
+                                              logic={field.visibilityLogic ?? 'all'}
+                                              sourceFields={visibilitySourceFields.filter((source) => source.id !== field.id)}
+                                              onChange={(rules, logic) =>
+                                                handleUpdateField(section.id, field.id, { visibilityConditions: rules, visibilityLogic: logic })
+                                              }
+                                            />
+                                          </div>
+                                        </details>
+
+                                        {!isDivider && !isStaticText && (
+                                          <details className="mt-2 rounded-md border border-gray-200 px-3 py-2">
+                                            <summary className="cursor-pointer text-xs font-medium text-gray-700">
+                                              Access{(field.visibleToRoles?.length ?? 0) > 0 || field.readOnly ? ' (restricted)' : ''}
+                                            </summary>
+                                            <div className="mt-3 space-y-2">
+                                              <label className="flex items-center gap-2 text-sm text-gray-700">
+                                                <input
+                                                  type="checkbox"
+                                                  checked={!!field.readOnly}
+                                                  onChange={(e) => handleUpdateField(section.id, field.id, { readOnly: e.target.checked })}
+                                                  className="h-4 w-4 text-accent border-gray-300 rounded"
+                                                />
+                                                Read-only (shows its default value)
+                                              </label>
+                                              <div>
+                                                <p className="text-xs text-gray-500 mb-1">Only visible to (leave empty for everyone):</p>
+                                                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                                  {(Object.keys(FORM_ROLE_LABELS) as FormRole[]).map((role) => {
+                                                    const roles = field.visibleToRoles ?? [];
+                                                    return (
+                                                      <label key={role} className="inline-flex items-center gap-1.5 text-sm text-gray-700">
+                                                        <input
+                                                          type="checkbox"
+                                                          checked={roles.includes(role)}
+                                                          onChange={(e) => {
+                                                            const next = e.target.checked ? [...roles, role] : roles.filter((item) => item !== role);
+                                                            handleUpdateField(section.id, field.id, { visibleToRoles: next.length > 0 ? next : undefined });
+                                                          }}
+                                                          className="h-4 w-4 text-accent border-gray-300 rounded"
+                                                        />
+                                                        {FORM_ROLE_LABELS[role]}
+                                                      </label>
+                                                    );
+                                                  })}
+                                                </div>
+                                              </div>
+                                            </div>
+                                          </details>
+                                        )}
                                         
                                       </div>
                                     );
@@ -1,12 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useParams, useNavigate } from 'react-router-dom';
 import { getSubmissionById, approveSubmission, rejectSubmission, FullSubmission, DerivedStatus, getFilesForSubmission } from '../../../../src/services/formSubmissions';
-import { getFormById } from '../../../../src/services/forms';
+import { getFormById, getFormSchemaVersion, listForms, DbForm } from '../../../../src/services/forms';
 import { FormSchema, BaseFormField, FileAnswerItem, SignatureAnswer } from '../../../../src/types/forms';
 import { supabase } from '../../../../lib/supabaseClient';
 import RichTextViewer from '../../../../src/components/RichTextViewer';
 import { useSubmissionsListing } from '../../../../src/hooks/useSubmissionsListing';
 import SubmissionStatusBadge from '../../../../src/components/SubmissionStatusBadge';
+import { getVisibleFormSections } from '../../../../src/lib/formVisibility';
+import { FORM_ROLE_LABELS, getFormStage, hasFormRole, isMultiStageForm } from '../../../../src/lib/formStages';
+import { listSubmissionStageEvents, FormStageEvent } from '../../../../src/services/formWorkflow';
+import { getMyProfile } from '../../../../src/lib/profiles';
+import { exportFormSubmissions } from '../../../../src/services/formSubmissionsExport';
+import { buildCsv, buildXlsx } from '../../../../src/lib/spreadsheetExport';
 
 // --- Helper Functions & Components ---
 const clsx = (...classes: (string | boolean | undefined)[]) => classes.filter(Boolean).join(' ');
@@ -87,7 +93,7 @@ const Toast: React.FC<{ message: string; type: 'success' | 'error'; onDismiss: (
 export const AdminFormSubmissionsListPage: React.FC = () => {
     const {
       rows, total, loading, error,
-      search, setSearch,
+      search, setSearch, debouncedSearch,
       statusFilter, setStatusFilter,
       sort, dir, setSortKey,
       page, setPage,
@@ -100,6 +106,57 @@ export const AdminFormSubmissionsListPage: React.FC = () => {
   
     const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
     const [downloadingPdfId, setDownloadingPdfId] = useState<string | null>(null);
+    const [forms, setForms] = useState<DbForm[]>([]);
+    const [exportFormId, setExportFormId] = useState('');
+    const [exportingFormat, setExportingFormat] = useState<'csv' | 'xlsx' | null>(null);
+
+    useEffect(() => {
+        listForms()
+            .then(setForms)
+            .catch((err) => console.error("Error loading forms for export:", err));
+    }, []);
+
+    const handleExport = async (format: 'csv' | 'xlsx') => {
+        const form = forms.find(f => f.id === exportFormId);
+        if (!form) return;
+        setExportingFormat(format);
+        setToast(null);
+
+        try {
+            // Same filters and order as the table
+            const table = await exportFormSubmissions(form.id, {
+                p_search: debouncedSearch.trim(),
+                p_status: statusFilter,
+                p_sort: sort,
+                p_dir: dir,
+            });
+            if (table.rows.length === 0) {
+                setToast({ message: `No submissions for "${form.name}" match your filters.`, type: 'error' });
+                return;
+            }
+
+            const blob = format === 'csv' ? buildCsv(table) : await buildXlsx(table, form.name);
+            const fileBase = form.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'form';
+            const url = window.URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${fileBase}-submissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+            document.body.appendChild(a);
+            a.click();
+            a.remove();
+            window.URL.revokeObjectURL(url);
+
+            setToast({ message: `Exported ${table.rows.length} submission${table.rows.length === 1 ? '' : 's'}.`, type: 'success' });
+        } catch (err: any) {
+            console.error("Submissions export error:", err);
+            setToast({
+                message: err.message || "Failed to export submissions.",
+                type: 'error',
+            });
+        } finally {
+            setExportingFormat(null);
+        }
+    };
 
     const handleDownloadPdf = async (submissionId: string) => {
         setDownloadingPdfId(submissionId);
@@ -111,7 +168,15 @@ export const AdminFormSubmissionsListPage: React.FC = () => {
                 throw new Error("Authentication error. Please log in again.");
             }
 
-            // Use fetch for robust file downloads instead of invoke
+            // Send the schema version the submission was made against, as the review page
+            // renders it, so the PDF doesn't use the form's current schema
+            const submission = await getSubmissionById(submissionId);
+            if (!submission) {
+                throw new Error("Submission not found.");
+            }
+            const schema = await getFormSchemaVersion(submission.form_id, submission.form_version);
+
+            // Use fetch for robust file downloads instead of invoke.
             // FIX: Access the protected 'url' property using `as any` to bypass TypeScript's visibility check, as this is required for manual fetch calls.
             const response = await fetch(`${(supabase.functions as any).url}/generate-submission-pdf`, {
                 method: 'POST',
@@ -119,7 +184,7 @@ export const AdminFormSubmissionsListPage: React.FC = () => {
                     'Authorization': `Bearer ${session.access_token}`,
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ submissionId }),
+                body: JSON.stringify({ submissionId, formVersion: submission.form_version, schema }),
             });
 
             if (!response.ok) {
@@ -215,6 +280,40 @@ export const AdminFormSubmissionsListPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Export */}
+          <div className="flex flex-col md:flex-row items-center gap-3 border-t border-gray-100 pt-4">
+            <span className="text-sm font-medium text-gray-700 flex-shrink-0">Export submissions</span>
+            <select
+              value={exportFormId}
+              onChange={(e) => setExportFormId(e.target.value)}
+              className="w-full md:w-72 rounded-lg border border-gray-300 bg-white px-3 pr-8 py-2 text-sm outline-none focus:ring-2 focus:ring-secondary"
+            >
+              <option value="">Select a form...</option>
+              {forms.map(form => (
+                <option key={form.id} value={form.id}>{form.name}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => handleExport('csv')}
+                disabled={!exportFormId || exportingFormat !== null}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exportingFormat === 'csv' ? 'Exporting...' : 'CSV'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('xlsx')}
+                disabled={!exportFormId || exportingFormat !== null}
+                className="rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {exportingFormat === 'xlsx' ? 'Exporting...' : 'Excel'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">Uses the search and status filters above. File links expire after 7 days.</p>
+          </div>
+
           {/* Table */}
           <div className="overflow-x-auto">
             <table className="min-w-full">
@@ -459,7 +558,10 @@ export const AdminFormSubmissionReviewPage: React.FC = () => {
 
     const [submission, setSubmission] = useState<FullSubmission | null>(null);
     const [schema, setSchema] = useState<FormSchema | null>(null);
+    const [currentFormVersion, setCurrentFormVersion] = useState<number | null>(null);
     const [files, setFiles] = useState<Record<string, FileAnswerItem[]>>({});
+    const [stageEvents, setStageEvents] = useState<FormStageEvent[]>([]);
+    const [profileRoles, setProfileRoles] = useState<string[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isApproving, setIsApproving] = useState(false);
@@ -484,16 +586,23 @@ export const AdminFormSubmissionReviewPage: React.FC = () => {
                 }
                 setSubmission(subData);
 
-                const [formData, fileData] = await Promise.all([
+                // Render against the version the submission was filled with, not the form as it is now
+                const [formData, filledSchema, fileData, eventData, profile] = await Promise.all([
                     getFormById(subData.form_id),
-                    getFilesForSubmission(subData.id)
+                    getFormSchemaVersion(subData.form_id, subData.form_version),
+                    getFilesForSubmission(subData.id),
+                    listSubmissionStageEvents(subData.id),
+                    getMyProfile()
                 ]);
                 
-                if (!formData) {
+                if (!formData || !filledSchema) {
                     throw new Error("Associated form could not be found.");
                 }
-                setSchema(formData.schema);
+                setSchema(filledSchema);
+                setCurrentFormVersion(formData.version);
                 setFiles(fileData);
+                setStageEvents(eventData);
+                setProfileRoles(profile?.roles ?? []);
             } catch (err: any) {
                 setError(err.message || "Failed to load submission data.");
             } finally {
@@ -556,6 +665,7 @@ export const AdminFormSubmissionReviewPage: React.FC = () => {
     if (!submission || !schema) return <div className="p-8 text-center">Submission or form schema not found.</div>;
 
     const allAnswers = { ...(submission.data?.answers || {}), ...files };
+    const currentStage = getFormStage(schema, submission.current_stage_id);
 
     const renderStatus = () => {
         switch (submission.review_status) {
@@ -573,6 +683,10 @@ export const AdminFormSubmissionReviewPage: React.FC = () => {
                 if (!canReview) {
                     return null;
                 }
+                // Multi-stage forms are reviewed once every stage is complete
+                if (currentStage) {
+                    return <div className="text-sm text-blue-700 bg-blue-50 px-4 py-2 rounded-md">Waiting on the {currentStage.name} stage before it can be reviewed.</div>;
+                }
                 return (
                     <>
                         <button
@@ -605,11 +719,47 @@ export const AdminFormSubmissionReviewPage: React.FC = () => {
                 <div className="text-sm text-gray-500 space-y-1">
                     <p><strong>Submitted by:</strong> {submission.user_name} ({submission.user_email})</p>
                     <p><strong>Submitted on:</strong> {formatDate(submission.submitted_at)}</p>
+                    {submission.form_version !== null && (
+                        <p>
+                            <strong>Form version:</strong> {submission.form_version}
+                            {currentFormVersion !== null && currentFormVersion !== submission.form_version && <span className="text-amber-700"> (the form has since been updated to version {currentFormVersion})</span>}
+                        </p>
+                    )}
                 </div>
             </div>
 
+            {(isMultiStageForm(schema) || stageEvents.length > 0) && (
+                <div className="bg-white p-6 rounded-2xl shadow-md ring-1 ring-gray-100">
+                    <h2 className="text-lg font-semibold text-primary mb-4">Stage history</h2>
+                    {stageEvents.length === 0 && !currentStage && <p className="text-sm text-gray-500">No stages have been recorded for this submission.</p>}
+                    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                        {stageEvents.map(event => (
+                            <li key={event.id} className="ml-4">
+                                <span className={clsx('absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white', event.action === 'returned' ? 'bg-red-500' : 'bg-green-500')} />
+                                <p className="text-sm text-gray-900">
+                                    <strong>{event.stage_name || 'Stage'}</strong> {event.action === 'returned' ? 'sent back' : 'completed'} by {event.actor_name || 'a user'}
+                                </p>
+                                <p className="text-xs text-gray-500">{formatDate(event.created_at)}</p>
+                                {event.note && <p className="mt-1 text-sm text-gray-700">Reason: {event.note}</p>}
+                            </li>
+                        ))}
+                        {currentStage && (
+                            <li className="ml-4">
+                                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                                <p className="text-sm text-gray-900">
+                                    <strong>{currentStage.name}</strong> waiting on {FORM_ROLE_LABELS[currentStage.role]}
+                                </p>
+                                {hasFormRole(profileRoles, currentStage.role) && (
+                                    <Link to={`/forms/submissions/${submission.id}/stage`} className="text-sm text-secondary hover:underline">Complete this stage &rarr;</Link>
+                                )}
+                            </li>
+                        )}
+                    </ol>
+                </div>
+            )}
+
             <div className="bg-white p-6 rounded-2xl shadow-md ring-1 ring-gray-100 space-y-6">
-                {schema.sections.map(section => (
+                {getVisibleFormSections(schema, allAnswers).map(section => (
                     <div key={section.id}>
                         {section.title && <h2 className="text-xl font-semibold text-primary border-b pb-2 mb-4">{section.title}</h2>}
                         <div className="divide-y divide-gray-200">
@@ -0,0 +1,388 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, ArrowRight, CheckCircle2, Loader } from "lucide-react";
+import {
+  getContentModuleById,
+  type ContentModuleRow,
+} from "../../src/lib/supabase/contentModules";
+import {
+  getContentModuleVersion,
+  type ContentModuleVersion,
+} from "../../src/lib/supabase/contentModuleVersions";
+import { hydrateLessonBlocks } from "../../src/lib/lessonBlocks";
+import { ANIMATION_STYLES } from "../../src/components/blocks/shared/AnimateOnView";
+import { LessonBlockView } from "../../src/components/blocks/shared/LessonBlockView";
+import { useContentModuleProgress } from "../../src/hooks/useContentModuleProgress";
+import type { LessonBlock } from "../admin/content/LessonBuilder";
+
+// ---------------------------------------------------------------------------
+// ModulePlayer - learner-facing player for content_modules.
+// Routes:
+//   /learn/module/:moduleId                 → resumes at the last lesson viewed
+//                                              (or the first lesson)
+//   /learn/module/:moduleId/lessons/:pageId → renders a single lesson
+//
+// Learners see a published version of the module, never the draft. Once a
+// learner has started, they stay on the version they started even if a newer
+// one is published.
+// ---------------------------------------------------------------------------
+
+const ModulePlayer: React.FC = () => {
+  const navigate = useNavigate();
+  const { moduleId, pageId } = useParams<{
+    moduleId: string;
+    pageId?: string;
+  }>();
+
+  const [module, setModule] = useState<ContentModuleRow | null>(null);
+  const [version, setVersion] = useState<ContentModuleVersion | null>(null);
+  const [loadingModule, setLoadingModule] = useState(true);
+  const [loadingVersion, setLoadingVersion] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // -------------------------------------------------------------------------
+  // Load module
+  // -------------------------------------------------------------------------
+  useEffect(() => {
+    if (!moduleId) {
+      setError("Module ID is missing.");
+      setLoadingModule(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadModule = async () => {
+      setLoadingModule(true);
+      setError(null);
+      try {
+        const moduleRow = await getContentModuleById(moduleId);
+        if (cancelled) return;
+
+        if (!moduleRow) {
+          setError("Module not found.");
+          return;
+        }
+
+        setModule(moduleRow);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error loading module for player", err);
+        setError("Failed to load this module. Please try again.");
+      } finally {
+        if (!cancelled) setLoadingModule(false);
+      }
+    };
+
+    loadModule();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [moduleId]);
+
+  const pages = useMemo(
+    () =>
+      (version?.snapshot.pages ?? [])
+        .slice()
+        .sort((a, b) => a.order_index - b.order_index),
+    [version]
+  );
+
+  const currentIndex = useMemo(
+    () => pages.findIndex((p) => p.id === pageId),
+    [pages, pageId]
+  );
+  const currentPage = currentIndex >= 0 ? pages[currentIndex] : null;
+  const previousPage = currentIndex > 0 ? pages[currentIndex - 1] : null;
+  const nextPage =
+    currentIndex >= 0 && currentIndex < pages.length - 1
+      ? pages[currentIndex + 1]
+      : null;
+
+  const blocks = useMemo<LessonBlock[]>(
+    () => (currentPage ? hydrateLessonBlocks(currentPage.blocks) : []),
+    [currentPage]
+  );
+
+  const progress = useContentModuleProgress({
+    moduleId,
+    pageId: currentPage?.id,
+    totalPages: pages.length,
+    moduleVersionId: version?.id,
+    blocks: currentPage ? blocks : null,
+  });
+
+  // -------------------------------------------------------------------------
+  // Load the version the learner started, or the current published version
+  // -------------------------------------------------------------------------
+  const versionId = progress.loading
+    ? null
+    : progress.startedVersionId ?? module?.published_version_id ?? null;
+
+  useEffect(() => {
+    if (!versionId) return;
+
+    let cancelled = false;
+
+    const loadVersion = async () => {
+      setLoadingVersion(true);
+      try {
+        const row = await getContentModuleVersion(versionId);
+        if (cancelled) return;
+        if (!row) {
+          setError("This version of the module is no longer available.");
+          return;
+        }
+        setVersion(row);
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error loading module version for player", err);
+        setError("Failed to load this module. Please try again.");
+      } finally {
+        if (!cancelled) setLoadingVersion(false);
+      }
+    };
+
+    loadVersion();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [versionId]);
+
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [pageId]);
+
+  const completedCount = pages.filter(
+    (p) => progress.pageProgress[p.id] === "completed"
+  ).length;
+
+  const goToPage = (targetPageId: string) => {
+    navigate(`/learn/module/${moduleId}/lessons/${targetPageId}`);
+  };
+
+  if (
+    loadingModule ||
+    progress.loading ||
+    loadingVersion ||
+    (versionId && version?.id !== versionId && !error)
+  ) {
+    return (
+      <div className="flex flex-col items-center justify-center p-10">
+        <Loader className="h-8 w-8 text-secondary animate-spin mb-3" />
+        <p className="text-gray-600">Loading module...</p>
+      </div>
+    );
+  }
+
+  if (error || !module) {
+    return (
+      <div className="text-center p-10 bg-red-50 rounded-lg">
+        <p className="text-red-700 font-semibold">Error</p>
+        <p className="text-red-600 mt-2">{error ?? "Module not found."}</p>
+        <Link
+          to="/dashboard"
+          className="mt-4 inline-block text-sm text-secondary hover:underline"
+        >
+          &larr; Back to Dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  if (!version) {
+    return (
+      <div className="text-center p-10">
+        <h1 className="text-2xl font-bold text-primary">{module.title}</h1>
+        <p className="text-gray-600 mt-2">
+          This module hasn&apos;t been published yet.
+        </p>
+        <Link
+          to="/dashboard"
+          className="mt-4 inline-block text-sm text-secondary hover:underline"
+        >
+          &larr; Back to Dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  if (pages.length === 0) {
+    return (
+      <div className="text-center p-10">
+        <h1 className="text-2xl font-bold text-primary">
+          {version.snapshot.title}
+        </h1>
+        <p className="text-gray-600 mt-2">This module has no lessons yet.</p>
+        <Link
+          to="/dashboard"
+          className="mt-4 inline-block text-sm text-secondary hover:underline"
+        >
+          &larr; Back to Dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  // No lesson selected (or an unknown one) → resume where the learner left
+  // off, falling back to the first lesson
+  if (!currentPage) {
+    const resumePage =
+      (!pageId && pages.find((p) => p.id === progress.resumePageId)) ||
+      pages[0];
+    return (
+      <Navigate
+        to={`/learn/module/${moduleId}/lessons/${resumePage.id}`}
+        replace
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {/* Inject animation styles */}
+      <style dangerouslySetInnerHTML={{ __html: ANIMATION_STYLES }} />
+
+      <div>
+        <Link
+          to="/dashboard"
+          className="text-sm text-secondary hover:underline"
+        >
+          &larr; Back to Dashboard
+        </Link>
+        <h1 className="text-2xl font-bold text-primary mt-1">
+          {version.snapshot.title}
+        </h1>
+        <div className="mt-3 flex items-center gap-3 max-w-md">
+          <div className="flex-1 h-2 rounded-full bg-gray-200 overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-all duration-500"
+              style={{
+                width: `${Math.round((completedCount / pages.length) * 100)}%`,
+              }}
+            />
+          </div>
+          <span className="text-xs font-medium text-gray-600 whitespace-nowrap">
+            {progress.isModuleCompleted
+              ? "Module completed"
+              : `${completedCount} of ${pages.length} lessons completed`}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Lesson list */}
+        <aside className="lg:w-64 shrink-0">
+          <nav className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b border-gray-100 text-xs font-semibold uppercase tracking-wide text-gray-500">
+              Lessons
+            </div>
+            <ol>
+              {pages.map((p, idx) => {
+                const isActive = p.id === currentPage.id;
+                const isCompleted = progress.pageProgress[p.id] === "completed";
+                return (
+                  <li key={p.id}>
+                    <button
+                      type="button"
+                      onClick={() => goToPage(p.id)}
+                      aria-current={isActive ? "page" : undefined}
+                      className={`w-full text-left px-4 py-3 text-sm flex items-start gap-3 transition-colors ${
+                        isActive
+                          ? "bg-orange-50 text-orange-700 font-semibold"
+                          : "text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      <span className="shrink-0 text-gray-400">{idx + 1}.</span>
+                      <span className="flex-1">
+                        {p.title || "Untitled Lesson"}
+                      </span>
+                      {isCompleted && (
+                        <CheckCircle2
+                          className="h-4 w-4 shrink-0 text-green-600"
+                          aria-label="Completed"
+                        />
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </nav>
+        </aside>
+
+        {/* Lesson content */}
+        <main className="flex-1 min-w-0 bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="border-b border-gray-100 px-8 py-6">
+            <p className="text-xs font-medium text-gray-500">
+              Lesson {currentIndex + 1} of {pages.length}
+            </p>
+            <h2 className="text-3xl font-bold text-gray-900 mt-1">
+              {currentPage.title || "Untitled Lesson"}
+            </h2>
+          </div>
+
+          <div className="bg-gray-50">
+            {blocks.length === 0 ? (
+              <div className="flex items-center justify-center py-20 text-gray-400">
+                <p>This lesson has no content yet.</p>
+              </div>
+            ) : (
+              blocks
+                .slice()
+                .sort((a, b) => a.orderIndex - b.orderIndex)
+                .map((block) => (
+                  <LessonBlockView
+                    key={block.id}
+                    block={block}
+                    moduleId={module.id}
+                    pageId={currentPage.id}
+                    onSeen={progress.markBlockSeen}
+                    onActivityCompleted={progress.markActivityCompleted}
+                  />
+                ))
+            )}
+          </div>
+
+          {/* Previous / next navigation */}
+          <div className="flex items-center justify-between gap-4 px-8 py-5 border-t border-gray-100">
+            {previousPage ? (
+              <button
+                type="button"
+                onClick={() => goToPage(previousPage.id)}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Previous lesson
+              </button>
+            ) : (
+              <span />
+            )}
+
+            {nextPage ? (
+              <button
+                type="button"
+                onClick={() => goToPage(nextPage.id)}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 transition-colors"
+              >
+                Next lesson
+                <ArrowRight className="h-4 w-4" />
+              </button>
+            ) : (
+              <Link
+                to="/dashboard"
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 transition-colors"
+              >
+                Finish module
+              </Link>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default ModulePlayer;
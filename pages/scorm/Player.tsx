@@ -1,29 +1,117 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabaseClient';
-import { Loader } from 'lucide-react';
+import { ArrowLeft, ArrowRight, CheckCircle2, Circle, CircleDot, Loader, XCircle } from 'lucide-react';
+import {
+  getLatestScormAttempt,
+  getScormModuleProgress,
+  listScormAttempts,
+  saveScormAttempt,
+  saveScormModuleProgress,
+  type ScormModuleProgress,
+} from '../../src/lib/api/scorm';
+import {
+  SCORM_RUNTIME_SCRIPTS,
+  addScormTimes,
+  buildInitialCmi,
+  buildScormToc,
+  detectScormVersionFromManifest,
+  getScoStatuses,
+  getTotalTimeElement,
+  isCompletedLessonStatus,
+  summariseCmi,
+  type ScormLearner,
+  type ScormSco,
+  type ScormTocItem,
+  type ScormVersion,
+} from '../../src/lib/scorm/runtimeData';
 
 interface ScormModule {
   id: string;
   title: string;
   launch_url: string;
+  scorm_version: ScormVersion | null; // from imsmanifest.xml at upload time
+  scos: ScormSco[] | null; // launchable items of the default organization
+  toc: ScormTocItem[] | null; // organization tree
+}
+
+// Package root (modules/<uuid>) for a launch file key
+function getPackageRoot(s3Key: string): string {
+  const parts = s3Key.split('/');
+  return s3Key.startsWith('modules/') ? parts.slice(0, 2).join('/') : parts.slice(0, -1).join('/');
+}
+
+// Locate the package's imsmanifest.xml (at the root of modules/<uuid>/) and
+// read its schema version so the matching runtime can be injected.
+async function detectPackageVersion(packageRoot: string): Promise<ScormVersion> {
+  try {
+    const response = await fetch(`/scorm/${packageRoot}/imsmanifest.xml`);
+    if (!response.ok) {
+      console.warn('[MyLMS] imsmanifest.xml not found, defaulting to SCORM 1.2');
+      return '1.2';
+    }
+    return detectScormVersionFromManifest(await response.text());
+  } catch (err) {
+    console.warn('[MyLMS] Could not read imsmanifest.xml, defaulting to SCORM 1.2', err);
+    return '1.2';
+  }
+}
+
+function ScoStatusIcon({ status }: { status: string | undefined }) {
+  if (isCompletedLessonStatus(status)) {
+    return <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" aria-label="Completed" />;
+  }
+  if (status === 'failed') {
+    return <XCircle className="h-4 w-4 shrink-0 text-red-500" aria-label="Failed" />;
+  }
+  if (status && status !== 'not attempted') {
+    return <CircleDot className="h-4 w-4 shrink-0 text-orange-500" aria-label="In progress" />;
+  }
+  return <Circle className="h-4 w-4 shrink-0 text-gray-300" aria-label="Not started" />;
 }
 
 const ScormPlayer: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const [module, setModule] = useState<ScormModule | null>(null);
-  const [iframeSrc, setIframeSrc] = useState<string | null>(null);
+  const [launchSrc, setLaunchSrc] = useState<string | null>(null);
+  const [packageRoot, setPackageRoot] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [iframeLoading, setIframeLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  
+  const [scormVersion, setScormVersion] = useState<ScormVersion | null>(null);
+  const [scriptReady, setScriptReady] = useState(false);
+  const [runtimeReady, setRuntimeReady] = useState(false);
+
+  // Multi-SCO packages: the SCO shown in the iframe, and the latest status per
+  // SCO identifier ("" is the single SCO of a one-SCO package)
+  const [activeScoId, setActiveScoId] = useState<string | null>(null);
+  const [scoStatuses, setScoStatuses] = useState<Record<string, string>>({});
+  const [moduleProgress, setModuleProgress] = useState<ScormModuleProgress | null>(null);
+  const scoStatusesRef = useRef<Record<string, string>>({});
+  const moduleProgressRef = useRef<ScormModuleProgress | null>(null);
+
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
-  // --- Inject SCORM API Shim ---
+  const scos = module?.scos ?? [];
+  const isMultiSco = scos.length > 1;
+  const toc = useMemo(() => buildScormToc(module?.scos ?? [], module?.toc ?? null), [module]);
+  const activeScoIndex = isMultiSco ? scos.findIndex((sco) => sco.identifier === activeScoId) : -1;
+  const activeSco = activeScoIndex >= 0 ? scos[activeScoIndex] : null;
+  const iframeSrc = activeSco && packageRoot ? `/scorm/${packageRoot}/${activeSco.href}` : launchSrc;
+  const scoKeys = isMultiSco ? scos.map((sco) => sco.identifier) : [''];
+  const completedScoCount = scoKeys.filter((key) => isCompletedLessonStatus(scoStatuses[key])).length;
+
+  // --- Inject the SCORM runtime matching the package's manifest version ---
+  // Re-injected per SCO so every SCO starts with a fresh runtime session.
   useEffect(() => {
+    if (!scormVersion) return;
+
+    setScriptReady(false);
     const script = document.createElement("script");
-    script.src = "/scorm-api-1_2.js";
+    script.src = SCORM_RUNTIME_SCRIPTS[scormVersion];
     script.async = false; // Ensure immediate execution
+    script.onload = () => setScriptReady(true);
+    script.onerror = () => setError(`Failed to load the SCORM ${scormVersion} runtime.`);
     document.head.appendChild(script);
 
     return () => {
@@ -36,7 +124,137 @@ const ScormPlayer: React.FC = () => {
       // @ts-ignore
       delete window.API_1484_11;
     };
-  }, []);
+  }, [scormVersion, activeSco?.identifier]);
+
+  // --- Load saved runtime data and install the persistence bridge ---
+  // The runtimes call window.MyLMSScorm.getInitialCmi() on LMSInitialize /
+  // Initialize and window.MyLMSScorm.commit() on Commit and Finish/Terminate.
+  useEffect(() => {
+    if (!module || !scormVersion) return;
+    if (isMultiSco && !activeSco) return;
+
+    let cancelled = false;
+    const moduleId = module.id;
+    const scoIdentifier = activeSco?.identifier ?? null;
+    const statusKey = scoIdentifier ?? '';
+    const rollupKeys = scoKeys;
+
+    const installBridge = async () => {
+      setRuntimeReady(false);
+
+      let learner: ScormLearner | null = null;
+      let attempt: Awaited<ReturnType<typeof getLatestScormAttempt>> = null;
+
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) {
+          learner = { id: user.id, name: user.email ?? '' };
+
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('first_name, last_name')
+            .eq('user_id', user.id)
+            .maybeSingle();
+          if (profile?.last_name || profile?.first_name) {
+            // SCORM expects "Last, First"
+            learner.name = [profile.last_name, profile.first_name].filter(Boolean).join(', ');
+          }
+
+          attempt = await getLatestScormAttempt(user.id, moduleId, scoIdentifier);
+        } else {
+          console.warn('[MyLMS] No user available, SCORM runtime data will not be saved');
+        }
+      } catch (err) {
+        console.error('Failed to load saved SCORM attempt', err);
+      }
+
+      if (cancelled) return;
+
+      const initialCmi = buildInitialCmi(scormVersion, attempt, learner);
+      const totalTimeElement = getTotalTimeElement(scormVersion);
+
+      // Switching a module between 1.2 and 2004 starts a fresh attempt
+      let attemptId = attempt && (attempt.scorm_version ?? '1.2') === scormVersion ? attempt.id : null;
+      let totalTime = initialCmi[totalTimeElement];
+      let completedAt = attemptId ? attempt?.completed_at ?? null : null;
+      let saveChain: Promise<void> = Promise.resolve();
+
+      (window as any).MyLMSScorm = {
+        getInitialCmi: () => initialCmi,
+        commit: (cmi: Record<string, string>, { finished }: { finished: boolean }) => {
+          if (!learner) return;
+
+          const summary = summariseCmi(scormVersion, cmi);
+
+          // session_time is only added to total_time when the session ends
+          if (finished && summary.sessionTime) {
+            totalTime = addScormTimes(scormVersion, totalTime, summary.sessionTime);
+          }
+          if (!completedAt && summary.isCompleted) {
+            completedAt = new Date().toISOString();
+          }
+
+          const snapshot = { ...cmi, [totalTimeElement]: totalTime };
+          const userId = learner.id;
+
+          const statusChanged = scoStatusesRef.current[statusKey] !== summary.lessonStatus;
+          scoStatusesRef.current = { ...scoStatusesRef.current, [statusKey]: summary.lessonStatus };
+          setScoStatuses(scoStatusesRef.current);
+
+          // Serialise saves so an update never races the initial insert
+          saveChain = saveChain
+            .then(async () => {
+              const saved = await saveScormAttempt({
+                attemptId,
+                userId,
+                moduleId,
+                scoIdentifier,
+                scormVersion,
+                lessonLocation: summary.lessonLocation,
+                suspendData: summary.suspendData,
+                lessonStatus: summary.lessonStatus,
+                scoreRaw: summary.scoreRaw,
+                scoreMin: summary.scoreMin,
+                scoreMax: summary.scoreMax,
+                scoreScaled: summary.scoreScaled,
+                totalTime,
+                cmi: snapshot,
+                completedAt,
+              });
+              attemptId = saved.id;
+
+              // Roll the SCO statuses up to module completion
+              if (statusChanged || finished) {
+                const statuses = scoStatusesRef.current;
+                const progress = await saveScormModuleProgress({
+                  userId,
+                  moduleId,
+                  completedScos: rollupKeys.filter((key) => isCompletedLessonStatus(statuses[key])).length,
+                  totalScos: rollupKeys.length,
+                  lastScoIdentifier: scoIdentifier,
+                  previousCompletedAt: moduleProgressRef.current?.completed_at ?? null,
+                });
+                moduleProgressRef.current = progress;
+                setModuleProgress(progress);
+              }
+            })
+            .catch((err) => {
+              console.error('Failed to save SCORM attempt', err);
+            });
+        },
+      };
+
+      setRuntimeReady(true);
+    };
+
+    installBridge();
+
+    return () => {
+      cancelled = true;
+      delete (window as any).MyLMSScorm;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [module, scormVersion, activeSco?.identifier]);
 
   useEffect(() => {
     if (!id) {
@@ -51,7 +269,7 @@ const ScormPlayer: React.FC = () => {
       try {
         const { data, error: fetchError } = await supabase
           .from('modules')
-          .select('id, title, launch_url')
+          .select('id, title, launch_url, scorm_version, scos, toc')
           .eq('id', id)
           .eq('type', 'scorm')
           .single();
@@ -67,8 +285,7 @@ const ScormPlayer: React.FC = () => {
             throw new Error('Module data is incomplete or missing a launch URL.');
         }
 
-        setModule(data as ScormModule);
-
+        const moduleData = data as ScormModule;
         const launchUrl = data.launch_url;
         let s3Key = '';
 
@@ -96,8 +313,45 @@ const ScormPlayer: React.FC = () => {
             }
         }
 
+        const root = getPackageRoot(s3Key);
+
+        // Pick the runtime before the package is launched. Packages uploaded
+        // before manifests were parsed on finalize have no stored version.
+        setScormVersion(moduleData.scorm_version ?? (await detectPackageVersion(root)));
+
+        // Per-SCO statuses and the module rollup, used to resume multi-SCO
+        // packages at the SCO the learner was last in
+        let resumeScoId: string | null = null;
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (user) {
+            const [attempts, progress] = await Promise.all([
+              listScormAttempts(user.id, moduleData.id),
+              getScormModuleProgress(user.id, moduleData.id),
+            ]);
+            scoStatusesRef.current = getScoStatuses(attempts);
+            moduleProgressRef.current = progress;
+            setScoStatuses(scoStatusesRef.current);
+            setModuleProgress(progress);
+            resumeScoId = progress?.last_sco_identifier ?? null;
+          }
+        } catch (progressError) {
+          console.error('Failed to load SCORM progress', progressError);
+        }
+
+        const moduleScos = moduleData.scos ?? [];
+        if (moduleScos.length > 1) {
+          const resumeSco =
+            moduleScos.find((sco) => sco.identifier === resumeScoId) ??
+            moduleScos.find((sco) => !isCompletedLessonStatus(scoStatusesRef.current[sco.identifier])) ??
+            moduleScos[0];
+          setActiveScoId(resumeSco.identifier);
+        }
+
         // Set the proxy URL
-        setIframeSrc(`/scorm/${s3Key}`);
+        setPackageRoot(root);
+        setLaunchSrc(`/scorm/${s3Key}`);
+        setModule(moduleData);
 
       } catch (err: any) {
         setError(err.message || 'An unexpected error occurred while fetching the module.');
@@ -109,6 +363,12 @@ const ScormPlayer: React.FC = () => {
     fetchModule();
   }, [id]);
 
+  const goToSco = (scoId: string) => {
+    if (scoId === activeScoId) return;
+    setIframeLoading(true);
+    setActiveScoId(scoId);
+  };
+
   const handleIFrameLoad = () => {
     // Mark iframe as loaded to remove spinner
     setIframeLoading(false);
@@ -161,33 +421,136 @@ const ScormPlayer: React.FC = () => {
     );
   }
 
+  const runtimeLoading = !runtimeReady || !scriptReady;
+  const previousSco = isMultiSco && activeScoIndex > 0 ? scos[activeScoIndex - 1] : null;
+  const nextSco = isMultiSco && activeScoIndex >= 0 && activeScoIndex < scos.length - 1 ? scos[activeScoIndex + 1] : null;
+
+  const player = (
+    <div className="w-full bg-gray-200 rounded-lg overflow-hidden shadow-md relative min-h-[400px]">
+      {(iframeLoading || runtimeLoading) && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-50 z-10">
+          <Loader className="h-10 w-10 text-secondary animate-spin mb-3" />
+          <p className="text-gray-600 font-medium animate-pulse">Loading course content...</p>
+        </div>
+      )}
+      {!runtimeLoading && (
+        <iframe
+          key={activeSco?.identifier ?? 'launch'}
+          ref={iframeRef}
+          src={iframeSrc}
+          onLoad={handleIFrameLoad}
+          title={activeSco ? `${module.title} – ${activeSco.title}` : module.title}
+          style={{ width: "100%", height: "80vh", border: "none" }}
+          className={`w-full h-full ${iframeLoading ? 'opacity-0' : 'opacity-100'} transition-opacity duration-500`}
+          allowFullScreen
+          sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-top-navigation-by-user-activation"
+        />
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-4 animate-fade-in">
         <div className="flex items-center justify-between">
             <div>
                 <Link to="/admin/content/elearning" className="text-sm text-secondary hover:underline">&larr; Back to E-Learning Content</Link>
                 <h1 className="text-2xl font-bold text-primary mt-1">{module.title}</h1>
+                {isMultiSco && (
+                  <div className="mt-3 flex items-center gap-3 max-w-md">
+                    <div className="flex-1 h-2 rounded-full bg-gray-200 overflow-hidden">
+                      <div
+                        className="h-full bg-green-500 transition-all duration-500"
+                        style={{ width: `${Math.round((completedScoCount / scos.length) * 100)}%` }}
+                      />
+                    </div>
+                    <span className="text-xs font-medium text-gray-600 whitespace-nowrap">
+                      {moduleProgress?.status === 'completed'
+                        ? 'Module completed'
+                        : `${completedScoCount} of ${scos.length} sections completed`}
+                    </span>
+                  </div>
+                )}
             </div>
         </div>
-      
-      <div className="w-full bg-gray-200 rounded-lg overflow-hidden shadow-md relative min-h-[400px]">
-         {iframeLoading && (
-            <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-50 z-10">
-                <Loader className="h-10 w-10 text-secondary animate-spin mb-3" />
-                <p className="text-gray-600 font-medium animate-pulse">Loading course content...</p>
+
+      {isMultiSco ? (
+        <div className="flex flex-col lg:flex-row gap-6">
+          {/* Table of contents from the manifest's organization */}
+          <aside className="lg:w-72 shrink-0">
+            <nav className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-100 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                Contents
+              </div>
+              <ul>
+                {toc.map((item) => {
+                  const indent = { paddingLeft: `${1 + item.depth}rem` };
+                  if (!item.sco_identifier) {
+                    return (
+                      <li
+                        key={item.identifier}
+                        style={indent}
+                        className="pr-4 pt-3 pb-1 text-xs font-semibold text-gray-500"
+                      >
+                        {item.title}
+                      </li>
+                    );
+                  }
+                  const scoId = item.sco_identifier;
+                  const isActive = scoId === activeSco?.identifier;
+                  return (
+                    <li key={item.identifier}>
+                      <button
+                        type="button"
+                        onClick={() => goToSco(scoId)}
+                        aria-current={isActive ? 'page' : undefined}
+                        style={indent}
+                        className={`w-full text-left pr-4 py-2.5 text-sm flex items-start gap-3 transition-colors ${
+                          isActive ? 'bg-orange-50 text-orange-700 font-semibold' : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="flex-1">{item.title}</span>
+                        <ScoStatusIcon status={scoStatuses[scoId]} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </nav>
+          </aside>
+
+          <main className="flex-1 min-w-0 space-y-4">
+            {player}
+
+            {/* Previous / next SCO navigation */}
+            <div className="flex items-center justify-between gap-4">
+              {previousSco ? (
+                <button
+                  type="button"
+                  onClick={() => goToSco(previousSco.identifier)}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  {previousSco.title}
+                </button>
+              ) : (
+                <span />
+              )}
+              {nextSco && (
+                <button
+                  type="button"
+                  onClick={() => goToSco(nextSco.identifier)}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-orange-500 text-white hover:bg-orange-600 transition-colors"
+                >
+                  {nextSco.title}
+                  <ArrowRight className="h-4 w-4" />
+                </button>
+              )}
             </div>
-         )}
-         <iframe
-            ref={iframeRef}
-            src={iframeSrc}
-            onLoad={handleIFrameLoad}
-            title={module.title}
-            style={{ width: "100%", height: "80vh", border: "none" }}
-            className={`w-full h-full ${iframeLoading ? 'opacity-0' : 'opacity-100'} transition-opacity duration-500`}
-            allowFullScreen
-            sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-top-navigation-by-user-activation"
-        />
-      </div>
+          </main>
+        </div>
+      ) : (
+        player
+      )}
     </div>
   );
 };
@@ -1,11 +1,16 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Link, useParams, useNavigate } from 'react-router-dom';
-import { listMyForms, MyForm, getFormById } from '../../src/services/forms';
-import { saveOrSubmitSubmission, uploadAndLinkFile, getLatestUserSubmission, UserSubmission, getFilesForSubmission, getSignedUrl, deleteFormFile, uploadSignature } from '../../src/services/formSubmissions';
+import { listMyForms, MyForm, getFormById, getFormSchemaVersion } from '../../src/services/forms';
+import { saveOrSubmitSubmission, uploadAndLinkFile, getLatestUserSubmission, UserSubmission, getFilesForSubmission, getSignedUrl, deleteFormFile, uploadSignature, getSubmissionById } from '../../src/services/formSubmissions';
+import { completeSubmissionStage, listSubmissionsAwaitingMyStage, AwaitingStageSubmission, returnSubmissionToSubmitter } from '../../src/services/formWorkflow';
+import { getMyProfile } from '../../src/lib/profiles';
 import { supabase } from '../../lib/supabaseClient';
-import type { FormSchema, BaseFormField, FormAnswers, FormAnswerValue, FileAnswerItem, SignatureAnswer } from '../../src/types/forms';
+import type { FormSchema, FormSection, BaseFormField, FormAnswers, FormAnswerValue, FileAnswerItem, SignatureAnswer } from '../../src/types/forms';
 import SignaturePad from '../../src/components/SignaturePad';
 import RichTextViewer from '../../src/components/RichTextViewer';
+import { getFormVisibility, getVisibleFormSections, omitHiddenAnswers } from '../../src/lib/formVisibility';
+import { canViewFormField, getFormStages, getSectionStageIndex, getStageIndex, hasFormRole, isFormFieldEditable, isMultiStageForm } from '../../src/lib/formStages';
+import { validateFormAnswers } from '../../src/lib/formValidation';
 import {
   Circle,
   Loader,
@@ -15,6 +20,7 @@ import {
   FileText,
   CalendarDays,
   ChevronRight,
+  ClipboardCheck,
 } from 'lucide-react';
 
 
@@ -134,8 +140,34 @@ const EmptyState: React.FC = () => (
     </div>
 );
 
+const AwaitingStageList: React.FC<{ items: AwaitingStageSubmission[] }> = ({ items }) => (
+    <div className="bg-white rounded-xl shadow-sm border p-5">
+        <h2 className="font-bold text-primary flex items-center gap-2">
+            <ClipboardCheck size={18} />
+            Awaiting your sign-off
+        </h2>
+        <ul className="mt-3 divide-y divide-gray-100">
+            {items.map(item => (
+                <li key={item.id} className="py-3 flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                        <p className="text-sm font-semibold text-gray-800">{item.form_name}</p>
+                        <p className="text-xs text-gray-500">
+                            {item.stage.name}
+                            {item.submitted_at && <> &middot; submitted {new Date(item.submitted_at).toLocaleDateString()}</>}
+                        </p>
+                    </div>
+                    <Link to={`/forms/submissions/${item.id}/stage`} className="px-4 py-1.5 text-sm font-semibold rounded-lg border-2 border-secondary text-secondary bg-white hover:bg-gray-50 transition-colors">
+                        Open
+                    </Link>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
 export const UserForms: React.FC = () => {
   const [forms, setForms] = useState<MyForm[]>([]);
+  const [awaitingStages, setAwaitingStages] = useState<AwaitingStageSubmission[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState<'All' | FormStatus>('All');
@@ -157,6 +189,19 @@ export const UserForms: React.FC = () => {
     fetchForms();
   }, []);
 
+  useEffect(() => {
+    const fetchAwaitingStages = async () => {
+      try {
+        const profile = await getMyProfile();
+        setAwaitingStages(await listSubmissionsAwaitingMyStage(profile?.roles ?? []));
+      } catch (err: any) {
+        // The forms list still works without it
+        console.error('Failed to load submissions awaiting sign-off:', err);
+      }
+    };
+    fetchAwaitingStages();
+  }, []);
+
   const filteredForms = useMemo(() => {
     if (activeFilter === 'All') return forms;
     return forms.filter(form => mapMyFormStatus(form.status) === activeFilter);
@@ -200,6 +245,8 @@ export const UserForms: React.FC = () => {
             <p className="mt-1 text-gray-500">Forms and surveys assigned to you.</p>
         </div>
 
+        {awaitingStages.length > 0 && <AwaitingStageList items={awaitingStages} />}
+
         <div className="flex flex-wrap items-center gap-2">
             {filterPills.map(filter => (
                 <button
@@ -332,9 +379,19 @@ const renderAnswerReadOnly = (field: BaseFormField, answer: any) => {
 };
 
 export const UserFillForm: React.FC = () => {
-    const { formId } = useParams<{ formId: string }>();
+    // Opened as /forms/submissions/:submissionId/stage to fill a later workflow stage of someone else's submission
+    const { formId: routeFormId, submissionId: stageSubmissionId } = useParams<{ formId: string; submissionId: string }>();
+    const isStageMode = !!stageSubmissionId;
     const navigate = useNavigate();
 
+    const [formId, setFormId] = useState<string | undefined>(routeFormId);
+    const [formVersion, setFormVersion] = useState<number | undefined>(undefined);
+    const [isOutdatedDraft, setIsOutdatedDraft] = useState(false);
+    const [profileRoles, setProfileRoles] = useState<string[]>([]);
+    const [submitterName, setSubmitterName] = useState<string | null>(null);
+    const [isReturning, setIsReturning] = useState(false);
+    const [returnReason, setReturnReason] = useState('');
+
     const [schema, setSchema] = useState<FormSchema | null>(null);
     const [submission, setSubmission] = useState<UserSubmission | null>(null);
     const [assignment, setAssignment] = useState<{ id: string; started_at: string | null; } | null>(null);
@@ -349,9 +406,32 @@ export const UserFillForm: React.FC = () => {
     const [isSaving, setIsSaving] = useState(false);
     const [saveSuccessMessage, setSaveSuccessMessage] = useState<string | null>(null);
 
+    // Re-evaluated on every answer change so conditional fields show/hide live
+    const visibility = useMemo(
+        () => (schema ? getFormVisibility(schema, answers) : null),
+        [schema, answers]
+    );
+
+    // Workflow stage being filled: the first one for the assignee, the submission's current one in stage mode
+    const stages = schema ? getFormStages(schema) : [];
+    const activeStageIndex = schema && isStageMode ? getStageIndex(schema, submission?.current_stage_id) : 0;
+    const activeStage = stages[activeStageIndex] ?? null;
+    const canCompleteStage = !isStageMode || (!!activeStage && hasFormRole(profileRoles, activeStage.role));
+
+    const isFieldEditable = (section: FormSection, field: BaseFormField) =>
+        !!schema && isFormFieldEditable(schema, section, field, activeStageIndex, canCompleteStage);
+
+    // Sections of stages that haven't been reached yet aren't shown
+    const isSectionReached = (section: FormSection) => {
+        if (!schema || !isMultiStageForm(schema)) return true;
+        const sectionStageIndex = getSectionStageIndex(schema, section);
+        if (!isReadOnly) return sectionStageIndex <= activeStageIndex;
+        return !submission?.current_stage_id || sectionStageIndex < getStageIndex(schema, submission.current_stage_id);
+    };
+
     useEffect(() => {
         const loadData = async () => {
-            if (!formId) return;
+            if (!routeFormId && !stageSubmissionId) return;
             try {
                 const { data: { user } } = await supabase.auth.getUser();
                 if (!user) {
@@ -359,36 +439,81 @@ export const UserFillForm: React.FC = () => {
                     return;
                 }
 
-                const form = await getFormById(formId);
+                const profile = await getMyProfile();
+                const roles = profile?.roles ?? [];
+                setProfileRoles(roles);
+
+                // In stage mode the form comes from the submission being signed off
+                const stageSubmission = stageSubmissionId ? await getSubmissionById(stageSubmissionId) : null;
+                if (stageSubmissionId && !stageSubmission) {
+                    setError("Submission not found.");
+                    return;
+                }
+                const targetFormId = stageSubmission?.form_id ?? routeFormId!;
+                setFormId(targetFormId);
+                setSubmitterName(stageSubmission?.user_name ?? null);
+
+                const form = await getFormById(targetFormId);
                 if (!form) {
                     setError("Form not found.");
                     setLoading(false);
                     return;
                 }
-                setSchema(form.schema);
+                setFormVersion(form.version);
                 
                 // FIX: Added explicit type annotation for `sub` to resolve a TypeScript inference issue where its properties were not being recognized.
-                const sub: UserSubmission | null = await getLatestUserSubmission(formId, user.id);
+                const sub: UserSubmission | null = stageSubmission
+                    ? {
+                        id: stageSubmission.id,
+                        data: stageSubmission.data,
+                        submitted_at: stageSubmission.submitted_at,
+                        status: stageSubmission.status as UserSubmission['status'],
+                        review_status: stageSubmission.review_status,
+                        rejection_reason: stageSubmission.rejection_reason,
+                        current_stage_id: stageSubmission.current_stage_id,
+                        form_version: stageSubmission.form_version,
+                    }
+                    : await getLatestUserSubmission(targetFormId, user.id);
                 setSubmission(sub);
 
-                const { data: assignmentData } = await supabase
-                    .from('form_assignments')
-                    .select('id, started_at')
-                    .eq('form_id', formId)
-                    .or(`target_type.eq.all,and(target_type.eq.user,target_id.eq.${user.id})`)
-                    .order('created_at', { ascending: false })
-                    .limit(1)
-                    .maybeSingle();
-                setAssignment(assignmentData);
+                if (!stageSubmission) {
+                    const { data: assignmentData } = await supabase
+                        .from('form_assignments')
+                        .select('id, started_at')
+                        .eq('form_id', targetFormId)
+                        .or(`target_type.eq.all,and(target_type.eq.user,target_id.eq.${user.id})`)
+                        .order('created_at', { ascending: false })
+                        .limit(1)
+                        .maybeSingle();
+                    setAssignment(assignmentData);
+                }
                 
                 // This line was causing an error, which is resolved by typing `sub` above.
-                const readOnly = (sub?.status === 'submitted' && sub.review_status !== 'rejected') || sub?.review_status === 'approved';
+                let readOnly = (sub?.status === 'submitted' && sub.review_status !== 'rejected') || sub?.review_status === 'approved';
+
+                // Submitted answers render against the form version they were filled with; drafts move to the latest
+                const filledSchema = sub && (readOnly || stageSubmission) ? await getFormSchemaVersion(targetFormId, sub.form_version) : null;
+                const activeSchema = filledSchema ?? form.schema;
+                setSchema(activeSchema);
+                setIsOutdatedDraft(!filledSchema && sub?.form_version != null && sub.form_version !== form.version);
+
+                if (stageSubmission) {
+                    // A later stage is only editable while it's the current one and by holders of its role
+                    const currentStage = getFormStages(activeSchema).find(stage => stage.id === stageSubmission.current_stage_id);
+                    readOnly = !currentStage || !hasFormRole(roles, currentStage.role);
+                }
                 setIsReadOnly(readOnly);
 
                 const initialAnswers: Record<string, PreSubmissionAnswerValue> = {};
-                form.schema.sections.forEach(section => {
+                activeSchema.sections.forEach(section => {
                     section.fields.forEach(field => {
-                        initialAnswers[field.id] = field.defaultValue as PreSubmissionAnswerValue;
+                        if (field.type === 'date' && field.defaultValue === 'today') {
+                            // Date fields can default to the (local) day the form is opened
+                            const today = new Date();
+                            initialAnswers[field.id] = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+                        } else {
+                            initialAnswers[field.id] = field.defaultValue as PreSubmissionAnswerValue;
+                        }
                     });
                 });
 
@@ -411,7 +536,7 @@ export const UserFillForm: React.FC = () => {
             }
         };
         loadData();
-    }, [formId, navigate]);
+    }, [routeFormId, stageSubmissionId, navigate]);
 
     useEffect(() => {
         if (assignment && assignment.started_at === null && !isReadOnly) {
@@ -453,7 +578,7 @@ export const UserFillForm: React.FC = () => {
         let currentSubmissionId = submission?.id;
         if (!currentSubmissionId) {
             try {
-                const newId = await saveOrSubmitSubmission({ formId, userId: user.id, answers: {}, mode: 'draft' });
+                const newId = await saveOrSubmitSubmission({ formId, userId: user.id, answers: {}, mode: 'draft', formVersion });
                 setSubmission(prev => ({ ...(prev as UserSubmission), id: newId, status: 'started' }));
                 currentSubmissionId = newId;
             } catch (e) {
@@ -495,7 +620,7 @@ export const UserFillForm: React.FC = () => {
                 }));
             }
         }
-    }, [formId, submission]);
+    }, [formId, formVersion, submission]);
 
     const handleFilesSelected = (fieldId: string, files: FileList | null) => {
         if (!files || files.length === 0) return;
@@ -603,6 +728,7 @@ export const UserFillForm: React.FC = () => {
                 answers: finalAnswers,
                 submissionId: submission?.id,
                 mode: 'draft',
+                formVersion,
             });
     
             if (!submission && newSubmissionId) {
@@ -623,17 +749,9 @@ export const UserFillForm: React.FC = () => {
         e.preventDefault();
         if (!schema) return;
 
-        const errors: Record<string, string> = {};
-        schema.sections.forEach(section => {
-            section.fields.forEach(field => {
-                if (field.required) {
-                    const answer = answers[field.id];
-                    if (answer === null || answer === undefined || answer === '' || (Array.isArray(answer) && answer.length === 0)) {
-                        errors[field.id] = `${field.label} is required.`;
-                    }
-                }
-            });
-        });
+        const currentVisibility = getFormVisibility(schema, answers);
+        // Same checks as the submit-form Edge Function, so errors show inline instead of failing on submit
+        const errors = validateFormAnswers(schema, answers, { stageIndex: activeStageIndex, profileRoles });
 
         setValidationErrors(errors);
         if (Object.keys(errors).length > 0) {
@@ -653,7 +771,14 @@ export const UserFillForm: React.FC = () => {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user || !formId) throw new Error("Not authenticated");
 
-            const processedAnswers = await processSignatures(answers);
+            // Answers to fields the user can no longer see aren't submitted
+            const visibleAnswers = omitHiddenAnswers(answers, currentVisibility);
+            // A later stage only saves its own fields on top of the earlier answers
+            const stageFieldIds = new Set(schema.sections.flatMap(section => section.fields.filter(field => isFieldEditable(section, field)).map(field => field.id)));
+            const answersToSubmit = isStageMode
+                ? Object.fromEntries(Object.entries(visibleAnswers).filter(([fieldId]) => stageFieldIds.has(fieldId)))
+                : visibleAnswers;
+            const processedAnswers = await processSignatures(answersToSubmit);
 
             const finalAnswers: FormAnswers = {};
             for (const fieldId in processedAnswers) {
@@ -662,6 +787,14 @@ export const UserFillForm: React.FC = () => {
                 }
             }
 
+            if (isStageMode) {
+                if (!submission || !activeStage) throw new Error("This submission isn't waiting on a stage.");
+                await completeSubmissionStage({ formId, submissionId: submission.id, schema, stageId: activeStage.id, answers: finalAnswers });
+                navigate('/forms');
+                return;
+            }
+
+            // Validated again server-side, which also works out hidden fields and routes the first stage on
             await saveOrSubmitSubmission({
                 formId,
                 userId: user.id,
@@ -680,6 +813,61 @@ export const UserFillForm: React.FC = () => {
         }
     };
 
+    const handleReturnToSubmitter = async () => {
+        if (!submission || !activeStage) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            await returnSubmissionToSubmitter({ submissionId: submission.id, stage: activeStage, reason: returnReason });
+            navigate('/forms');
+        } catch (err: unknown) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(message || "Could not send the form back.");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const renderReadOnlyField = (field: BaseFormField) => {
+        if (field.type === 'static_text') {
+            return (
+                <div key={field.id} className="py-4">
+                    {field.label && <h3 className="text-sm font-semibold text-gray-800 mb-1">{field.label}</h3>}
+                    <RichTextViewer html={field.helpText || ''} />
+                </div>
+            );
+        }
+        if (field.type === 'image') {
+            return (
+                <div key={field.id} className="py-4 text-center">
+                    {field.imageUrl && <img src={field.imageUrl} alt={field.imageAlt || ''} className="max-w-full rounded-md border inline-block" />}
+                    {field.imageCaption && <p className="text-xs text-gray-600 italic mt-1">{field.imageCaption}</p>}
+                </div>
+            );
+        }
+        if (field.type === 'divider') {
+            return (
+                <div key={field.id} className="py-4">
+                    <hr style={{
+                        borderTopStyle: field.dividerStyle || 'solid',
+                        borderColor: field.dividerColor || '#E5E7EB',
+                        borderWidth: `${field.dividerThickness || 1}px`,
+                        marginTop: `${field.dividerMarginTop || 8}px`,
+                        marginBottom: `${field.dividerMarginBottom || 8}px`,
+                    }} />
+                </div>
+            );
+        }
+
+        return (
+            <div key={field.id} className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4 py-4">
+                <div className="text-sm font-medium text-gray-600 col-span-1">{field.label}</div>
+                <div className="text-sm text-gray-900 col-span-2">{renderAnswerReadOnly(field, answers[field.id])}</div>
+            </div>
+        );
+    };
+
     if (loading) return <div className="p-8 text-center">Loading form...</div>;
     if (error && !isSubmitting) return <div className="p-8 text-center text-red-600 bg-red-50 rounded-lg">{error}</div>;
     if (!schema) return <div className="p-8 text-center">Form could not be loaded.</div>;
@@ -695,68 +883,61 @@ export const UserFillForm: React.FC = () => {
                 {isReadOnly ? (
                     <div>
                         {submission?.review_status === 'approved' && <div className="mb-4 p-3 bg-green-50 text-green-700 rounded-md text-sm">This form has been completed and approved.</div>}
-                        {submission?.review_status === 'pending' && <div className="mb-4 p-3 bg-blue-50 text-blue-700 rounded-md text-sm">Your submission is awaiting review.</div>}
+                        {isStageMode ? (
+                            <div className="mb-4 p-3 bg-gray-50 text-gray-700 rounded-md text-sm">
+                                {submission?.current_stage_id ? 'This submission is waiting on a stage you can’t complete.' : 'There is nothing left for you to complete on this submission.'}
+                            </div>
+                        ) : (
+                            <>
+                                {submission?.review_status === 'pending' && submission.current_stage_id && <div className="mb-4 p-3 bg-blue-50 text-blue-700 rounded-md text-sm">Your submission is waiting on the {stages.find(stage => stage.id === submission.current_stage_id)?.name || 'next'} stage.</div>}
+                                {submission?.review_status === 'pending' && !submission.current_stage_id && <div className="mb-4 p-3 bg-blue-50 text-blue-700 rounded-md text-sm">Your submission is awaiting review.</div>}
+                            </>
+                        )}
 
-                        {schema.sections.map(section => (
+                        {getVisibleFormSections(schema, answers).filter(isSectionReached).map(section => (
                             <div key={section.id} className="mb-6">
                                 {section.title && <h2 className="text-xl font-semibold text-primary border-b pb-2 mb-4">{section.title}</h2>}
                                 <div className="divide-y divide-gray-200">
-                                    {section.fields.map(field => {
-                                        if (field.type === 'static_text') {
-                                            return (
-                                                <div key={field.id} className="py-4">
-                                                    {field.label && <h3 className="text-sm font-semibold text-gray-800 mb-1">{field.label}</h3>}
-                                                    <RichTextViewer html={field.helpText || ''} />
-                                                </div>
-                                            );
-                                        }
-                                        if (field.type === 'image') {
-                                            return (
-                                                <div key={field.id} className="py-4 text-center">
-                                                    {field.imageUrl && <img src={field.imageUrl} alt={field.imageAlt || ''} className="max-w-full rounded-md border inline-block" />}
-                                                    {field.imageCaption && <p className="text-xs text-gray-600 italic mt-1">{field.imageCaption}</p>}
-                                                </div>
-                                            );
-                                        }
-                                        if (field.type === 'divider') {
-                                            return (
-                                                <div key={field.id} className="py-4">
-                                                    <hr style={{
-                                                        borderTopStyle: field.dividerStyle || 'solid',
-                                                        borderColor: field.dividerColor || '#E5E7EB',
-                                                        borderWidth: `${field.dividerThickness || 1}px`,
-                                                        marginTop: `${field.dividerMarginTop || 8}px`,
-                                                        marginBottom: `${field.dividerMarginBottom || 8}px`,
-                                                    }} />
-                                                </div>
-                                            );
-                                        }
-                                        
-                                        return (
-                                            <div key={field.id} className="grid grid-cols-1 md:grid-cols-3 gap-2 md:gap-4 py-4">
-                                                <div className="text-sm font-medium text-gray-600 col-span-1">{field.label}</div>
-                                                <div className="text-sm text-gray-900 col-span-2">{renderAnswerReadOnly(field, answers[field.id])}</div>
-                                            </div>
-                                        );
-                                    })}
+                                    {section.fields.filter(field => canViewFormField(field, profileRoles)).map(field => renderReadOnlyField(field))}
                                 </div>
                             </div>
                         ))}
                     </div>
                 ) : (
                     <form onSubmit={handleSubmit} className="space-y-6">
+                        {isOutdatedDraft && (
+                            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                                This form has been updated since you started it. Your answers have been kept, but please check them against the current questions before submitting.
+                            </div>
+                        )}
                         {submission?.review_status === 'rejected' && (
                             <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
                                 <h3 className="font-bold text-red-800">This submission was rejected</h3>
                                 {submission.rejection_reason && <p className="mt-1 text-sm text-red-700"><strong>Reason:</strong> {submission.rejection_reason}</p>}
                             </div>
                         )}
-                        {schema.sections.map(section => (
+                        {isMultiStageForm(schema) && activeStage && (
+                            <div className="p-3 bg-blue-50 text-blue-700 rounded-md text-sm">
+                                <strong>Stage {activeStageIndex + 1} of {stages.length}: {activeStage.name}</strong>
+                                {isStageMode && submitterName && <> &middot; submitted by {submitterName}</>}
+                                {!isStageMode && stages[1] && <> &middot; once submitted, this form goes to {stages[1].name} for the next stage.</>}
+                            </div>
+                        )}
+                        {schema.sections.filter(section => !visibility?.hiddenSectionIds.has(section.id) && isSectionReached(section)).map(section => getSectionStageIndex(schema, section) < activeStageIndex ? (
+                            // Earlier stages are shown for reference only
+                            <div key={section.id}>
+                                {section.title && <h2 className="text-xl font-semibold text-primary border-b pb-2 mb-4">{section.title}</h2>}
+                                <div className="divide-y divide-gray-200">
+                                    {section.fields.filter(field => !visibility?.hiddenFieldIds.has(field.id) && canViewFormField(field, profileRoles)).map(field => renderReadOnlyField(field))}
+                                </div>
+                            </div>
+                        ) : (
                             <div key={section.id}>
                                 {section.title && <h2 className="text-xl font-semibold text-primary border-b pb-2 mb-4">{section.title}</h2>}
                                 <div className="space-y-4">
-                                    {section.fields.map(field => {
+                                    {section.fields.filter(field => !visibility?.hiddenFieldIds.has(field.id) && canViewFormField(field, profileRoles)).map(field => {
                                         const fieldError = validationErrors[field.id];
+                                        const editable = isFieldEditable(section, field);
                                         const commonInputClasses = "block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-secondary focus:ring-2 focus:ring-secondary focus:outline-none shadow-sm transition-all duration-150 disabled:bg-gray-100 placeholder:text-gray-400";
                                         const fieldAnswer = answers[field.id];
 
@@ -768,7 +949,7 @@ export const UserFillForm: React.FC = () => {
                                                 case 'checkbox': return <label className="flex items-center"><input type="checkbox" id={field.id} checked={!!fieldAnswer} onChange={e => handleAnswerChange(field.id, e.target.checked)} className="h-4 w-4 text-accent border-gray-300 rounded" /><span className="ml-2 text-sm text-gray-700">{field.label}</span></label>;
                                                 case 'checkbox_group': return <div className="space-y-2">{field.options?.map(opt => (<label key={opt.value} className="flex items-center"><input type="checkbox" checked={(fieldAnswer as string[] || []).includes(opt.value)} onChange={e => { const newSelection = e.target.checked ? [...(fieldAnswer as string[] || []), opt.value] : (fieldAnswer as string[] || []).filter(v => v !== opt.value); handleAnswerChange(field.id, newSelection); }} className="h-4 w-4 text-accent border-gray-300 rounded" /><span className="ml-2 text-sm text-gray-700">{opt.label}</span></label>))}</div>;
                                                 case 'date': return <input type="date" id={field.id} value={fieldAnswer as string || ''} onChange={e => handleAnswerChange(field.id, e.target.value)} className={commonInputClasses} />;
-                                                case 'signature': return <><SignaturePad onChange={(dataUrl) => handleSignatureChange(field.id, dataUrl)} disabled={isSubmitting} /></>;
+                                                case 'signature': return <><SignaturePad onChange={(dataUrl) => handleSignatureChange(field.id, dataUrl)} disabled={isSubmitting || !editable} /></>;
                                                 case 'file': return (
                                                     <div>
                                                         <input type="file" id={field.id} onChange={e => handleFilesSelected(field.id, e.target.files)} className={commonInputClasses} multiple={field.allowMultiple} />
@@ -797,32 +978,53 @@ export const UserFillForm: React.FC = () => {
                                             }
                                         };
                                         return (
-                                            <div key={field.id}>
-                                                {field.type !== 'checkbox' && field.type !== 'divider' && <label htmlFor={field.id} className="block text-sm font-medium text-gray-700">{field.label}{field.required && <span className="text-red-500">*</span>}</label>}
+                                            <fieldset key={field.id} disabled={!editable}>
+                                                {field.type !== 'checkbox' && field.type !== 'divider' && <label htmlFor={field.id} className="block text-sm font-medium text-gray-700">{field.label}{field.required && editable && <span className="text-red-500">*</span>}</label>}
                                                 {field.helpText && field.type !== 'static_text' && <RichTextViewer html={field.helpText} className="text-xs !text-gray-500 mb-1" />}
                                                 {renderField()}
                                                 {fieldError && <p className="text-red-600 text-xs mt-1">{fieldError}</p>}
-                                            </div>
+                                            </fieldset>
                                         )
                                     })}
                                 </div>
                             </div>
                         ))}
                         {error && <div className="text-red-600 bg-red-100 p-3 rounded-md text-sm">{error}</div>}
+                        {isStageMode && isReturning && (
+                            <div className="p-4 bg-gray-50 border rounded-lg space-y-2">
+                                <label htmlFor="return-reason" className="block text-sm font-medium text-gray-700">Why are you sending this back?</label>
+                                <textarea id="return-reason" value={returnReason} onChange={e => setReturnReason(e.target.value)} rows={3} className="block w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:border-secondary focus:ring-2 focus:ring-secondary focus:outline-none" placeholder="The submitter sees this and can resubmit." />
+                                <div className="flex justify-end gap-2">
+                                    <button type="button" onClick={() => setIsReturning(false)} className="px-4 py-2 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50">Cancel</button>
+                                    <button type="button" onClick={handleReturnToSubmitter} disabled={isSubmitting || returnReason.trim() === ''} className="px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50">Send back</button>
+                                </div>
+                            </div>
+                        )}
                         <div className="flex justify-end items-center pt-4 border-t gap-3">
                             {saveSuccessMessage && <span className="text-sm text-green-600">{saveSuccessMessage}</span>}
-                            <button
-                                type="button"
-                                onClick={handleSave}
-                                // FIX: Explicitly type `uploadList` to fix "Property 'some' does not exist on type 'unknown'" error.
-                                disabled={isSaving || isSubmitting || Object.values(uploads).some((uploadList: UploadItem[]) => uploadList.some(u => u.status === 'uploading'))}
-                                className="px-6 py-2 bg-white text-secondary border border-secondary font-semibold rounded-md hover:bg-gray-50 disabled:opacity-50"
-                            >
-                                {isSaving ? 'Saving...' : 'Save'}
-                            </button>
+                            {isStageMode ? (
+                                <button
+                                    type="button"
+                                    onClick={() => setIsReturning(true)}
+                                    disabled={isSubmitting || isReturning}
+                                    className="px-6 py-2 bg-white text-red-600 border border-red-500 font-semibold rounded-md hover:bg-red-50 disabled:opacity-50"
+                                >
+                                    Send back
+                                </button>
+                            ) : (
+                                <button
+                                    type="button"
+                                    onClick={handleSave}
+                                    // FIX: Explicitly type `uploadList` to fix "Property 'some' does not exist on type 'unknown'" error.
+                                    disabled={isSaving || isSubmitting || Object.values(uploads).some((uploadList: UploadItem[]) => uploadList.some(u => u.status === 'uploading'))}
+                                    className="px-6 py-2 bg-white text-secondary border border-secondary font-semibold rounded-md hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                    {isSaving ? 'Saving...' : 'Save'}
+                                </button>
+                            )}
                             {/* FIX: Explicitly type `uploadList` to fix "Property 'some' does not exist on type 'unknown'" error. */}
                             <button type="submit" disabled={isSubmitting || isSaving || Object.values(uploads).some((uploadList: UploadItem[]) => uploadList.some(u => u.status === 'uploading'))} className="px-6 py-2 bg-secondary text-white font-semibold rounded-md hover:opacity-90 disabled:bg-gray-400">
-                                {isSubmitting ? 'Submitting...' : submission ? 'Resubmit Form' : 'Submit Form'}
+                                {isSubmitting ? 'Submitting...' : isStageMode ? `Complete ${activeStage?.name || 'stage'}` : submission ? 'Resubmit Form' : 'Submit Form'}
                             </button>
                         </div>
                     </form>
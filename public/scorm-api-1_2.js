@@ -1,6 +1,13 @@
 // public/scorm-api-1_2.js
-// Minimal SCORM 1.2 API shim so Articulate/Rise thinks it's in an LMS.
-// NOTE: This only stores values in memory for now – no real tracking yet.
+// SCORM 1.2 API shim so Articulate/Rise thinks it's in an LMS.
+//
+// Runtime data is persisted through a bridge installed by the React player
+// (pages/scorm/Player.tsx) on window.MyLMSScorm:
+//   - getInitialCmi(): { [element]: value }  – saved cmi for this learner/SCO
+//   - commit(cmi, { finished }): void        – persist the current cmi snapshot
+// The bridge is captured on initialize, so a SCO that finishes after the
+// player has switched to another SCO still saves to its own attempt.
+// Without a bridge the shim still works, but values only live in memory.
 
 (function () {
   // If an API already exists, don't overwrite it
@@ -10,17 +17,121 @@
 
   console.log("[MyLMS] Injecting SCORM 1.2 API shim");
 
-  const cmi = {};
+  let cmi = {};
   let initialized = false;
   let finished = false;
   let lastError = "0";
 
+  // Elements the SCO may read but never write
+  const READ_ONLY = [
+    "cmi.core._children",
+    "cmi.core.student_id",
+    "cmi.core.student_name",
+    "cmi.core.credit",
+    "cmi.core.entry",
+    "cmi.core.total_time",
+    "cmi.core.lesson_mode",
+    "cmi.core.score._children",
+    "cmi.launch_data",
+    "cmi.comments_from_lms",
+    "cmi.student_data._children",
+    "cmi.interactions._children",
+    "cmi.interactions._count",
+    "cmi.objectives._children",
+    "cmi.objectives._count",
+  ];
+
+  // Elements the SCO may write but never read
+  const WRITE_ONLY = ["cmi.core.exit", "cmi.core.session_time"];
+
+  const LESSON_STATUSES = [
+    "passed",
+    "completed",
+    "failed",
+    "incomplete",
+    "browsed",
+    "not attempted",
+  ];
+
+  const DEFAULTS = {
+    "cmi.core._children":
+      "student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time",
+    "cmi.core.student_id": "",
+    "cmi.core.student_name": "",
+    "cmi.core.lesson_location": "",
+    "cmi.core.credit": "credit",
+    "cmi.core.lesson_status": "not attempted",
+    "cmi.core.entry": "ab-initio",
+    "cmi.core.score._children": "raw,min,max",
+    "cmi.core.score.raw": "",
+    "cmi.core.score.min": "",
+    "cmi.core.score.max": "",
+    "cmi.core.total_time": "0000:00:00.00",
+    "cmi.core.lesson_mode": "normal",
+    "cmi.suspend_data": "",
+    "cmi.launch_data": "",
+    "cmi.comments": "",
+    "cmi.interactions._children":
+      "id,objectives,time,type,correct_responses,weighting,student_response,result,latency",
+    "cmi.interactions._count": "0",
+    "cmi.objectives._children": "id,score,status",
+    "cmi.objectives._count": "0",
+  };
+
   function setError(code) {
     lastError = String(code || "0");
   }
 
+  // Bridge captured for the current session
+  let sessionBridge = null;
+
+  function getBridge() {
+    return window.MyLMSScorm || null;
+  }
+
+  // Keep the _count elements in step with the indexed interactions/objectives
+  function updateCount(key) {
+    const match = /^cmi\.(interactions|objectives)\.(\d+)\./.exec(key);
+    if (!match) return;
+    const countKey = "cmi." + match[1] + "._count";
+    const index = Number(match[2]);
+    if (index + 1 > Number(cmi[countKey] || "0")) {
+      cmi[countKey] = String(index + 1);
+    }
+  }
+
+  function persist(isFinished) {
+    const bridge = sessionBridge;
+    if (!bridge || typeof bridge.commit !== "function") {
+      console.log("[SCORM] No MyLMS bridge – runtime data not persisted");
+      return;
+    }
+    try {
+      bridge.commit(Object.assign({}, cmi), { finished: isFinished });
+    } catch (err) {
+      console.error("[SCORM] Failed to persist runtime data", err);
+    }
+  }
+
   function LMSInitialize(_param) {
     console.log("[SCORM] LMSInitialize");
+    if (initialized && !finished) {
+      setError("101"); // Already initialized
+      return "false";
+    }
+
+    const bridge = getBridge();
+    sessionBridge = bridge;
+    const saved =
+      bridge && typeof bridge.getInitialCmi === "function"
+        ? bridge.getInitialCmi() || {}
+        : {};
+
+    cmi = Object.assign({}, DEFAULTS, saved);
+    cmi["cmi.core.entry"] = cmi["cmi.suspend_data"] ? "resume" : "ab-initio";
+    delete cmi["cmi.core.exit"];
+    delete cmi["cmi.core.session_time"];
+
     initialized = true;
     finished = false;
     setError("0");
@@ -29,17 +140,30 @@
 
   function LMSFinish(_param) {
     console.log("[SCORM] LMSFinish");
-    if (!initialized) {
+    if (!initialized || finished) {
       setError("301"); // Not initialized
       return "false";
     }
+    // A SCO that never reported a status has at least been opened
+    if (cmi["cmi.core.lesson_status"] === "not attempted") {
+      cmi["cmi.core.lesson_status"] = "incomplete";
+    }
     finished = true;
+    persist(true);
     setError("0");
     return "true";
   }
 
   function LMSGetValue(element) {
     const key = String(element || "");
+    if (!initialized || finished) {
+      setError("301");
+      return "";
+    }
+    if (WRITE_ONLY.includes(key)) {
+      setError("404"); // Element is write only
+      return "";
+    }
     const value = cmi[key] ?? "";
     console.log("[SCORM] LMSGetValue", key, "=>", value);
     setError("0");
@@ -49,15 +173,36 @@
   function LMSSetValue(element, value) {
     const key = String(element || "");
     const val = String(value ?? "");
+    if (!initialized || finished) {
+      setError("301");
+      return "false";
+    }
+    if (
+      READ_ONLY.includes(key) ||
+      key.endsWith("._children") ||
+      key.endsWith("._count")
+    ) {
+      setError("403"); // Element is read only
+      return "false";
+    }
+    if (key === "cmi.core.lesson_status" && !LESSON_STATUSES.includes(val)) {
+      setError("405"); // Incorrect data type
+      return "false";
+    }
     console.log("[SCORM] LMSSetValue", key, "=", val);
     cmi[key] = val;
+    updateCount(key);
     setError("0");
     return "true";
   }
 
   function LMSCommit(_param) {
-    console.log("[SCORM] LMSCommit (no-op for now)");
-    // Later we’ll push cmi to Supabase here.
+    console.log("[SCORM] LMSCommit");
+    if (!initialized || finished) {
+      setError("301");
+      return "false";
+    }
+    persist(false);
     setError("0");
     return "true";
   }
@@ -72,6 +217,10 @@
       "101": "General exception",
       "201": "Invalid argument error",
       "301": "Not initialized",
+      "401": "Not implemented error",
+      "403": "Element is read only",
+      "404": "Element is write only",
+      "405": "Incorrect data type",
     };
     return map[String(errorCode)] || "Unknown error";
   }
@@ -105,4 +254,4 @@
       GetDiagnostic: LMSGetDiagnostic,
     };
   }
-})();
\ No newline at end of file
+})();
@@ -0,0 +1,439 @@
+// public/scorm-api-2004.js
+// SCORM 2004 (API_1484_11) runtime so Storyline/Rise 2004 packages find an LMS.
+//
+// Like the 1.2 shim, runtime data is persisted through the bridge installed by
+// the React player (pages/scorm/Player.tsx) on window.MyLMSScorm:
+//   - getInitialCmi(): { [element]: value }  – saved cmi for this learner/SCO
+//   - commit(cmi, { finished }): void        – persist the current cmi snapshot
+// The bridge is captured on initialize, so a SCO that finishes after the
+// player has switched to another SCO still saves to its own attempt.
+// Without a bridge the runtime still works, but values only live in memory.
+
+(function () {
+  // If an API already exists, don't overwrite it
+  if (window.API_1484_11) {
+    return;
+  }
+
+  console.log("[MyLMS] Injecting SCORM 2004 API runtime");
+
+  // Session states
+  const NOT_INITIALIZED = 0;
+  const RUNNING = 1;
+  const TERMINATED = 2;
+
+  let cmi = {};
+  let state = NOT_INITIALIZED;
+  let lastError = "0";
+
+  const ERROR_STRINGS = {
+    "0": "No error",
+    "101": "General exception",
+    "102": "General initialization failure",
+    "103": "Already initialized",
+    "104": "Content instance terminated",
+    "111": "General termination failure",
+    "112": "Termination before initialization",
+    "113": "Termination after termination",
+    "122": "Retrieve data before initialization",
+    "123": "Retrieve data after termination",
+    "132": "Store data before initialization",
+    "133": "Store data after termination",
+    "142": "Commit before initialization",
+    "143": "Commit after termination",
+    "201": "General argument error",
+    "301": "General get failure",
+    "351": "General set failure",
+    "391": "General commit failure",
+    "401": "Undefined data model element",
+    "402": "Unimplemented data model element",
+    "403": "Data model element value not initialized",
+    "404": "Data model element is read only",
+    "405": "Data model element is write only",
+    "406": "Data model element type mismatch",
+    "407": "Data model element value out of range",
+    "408": "Data model dependency not established",
+  };
+
+  // Elements the SCO may read but never write
+  const READ_ONLY = [
+    "cmi._version",
+    "cmi.learner_id",
+    "cmi.learner_name",
+    "cmi.credit",
+    "cmi.entry",
+    "cmi.mode",
+    "cmi.total_time",
+    "cmi.launch_data",
+    "cmi.completion_threshold",
+    "cmi.scaled_passing_score",
+    "cmi.max_time_allowed",
+    "cmi.time_limit_action",
+  ];
+
+  // Elements the SCO may write but never read
+  const WRITE_ONLY = ["cmi.exit", "cmi.session_time"];
+
+  // Simple top-level elements this runtime knows about. Indexed
+  // cmi.interactions.n.* / cmi.objectives.n.* elements are validated separately.
+  const KNOWN_ELEMENTS = READ_ONLY.concat(WRITE_ONLY, [
+    "cmi.location",
+    "cmi.suspend_data",
+    "cmi.completion_status",
+    "cmi.success_status",
+    "cmi.progress_measure",
+    "cmi.score.scaled",
+    "cmi.score.raw",
+    "cmi.score.min",
+    "cmi.score.max",
+    "cmi.score._children",
+    "cmi.interactions._children",
+    "cmi.interactions._count",
+    "cmi.objectives._children",
+    "cmi.objectives._count",
+    "cmi.comments_from_learner._count",
+    "cmi.comments_from_lms._count",
+    "cmi.learner_preference.audio_level",
+    "cmi.learner_preference.language",
+    "cmi.learner_preference.delivery_speed",
+    "cmi.learner_preference.audio_captioning",
+    "adl.nav.request",
+  ]);
+
+  const VOCABULARIES = {
+    "cmi.completion_status": [
+      "completed",
+      "incomplete",
+      "not attempted",
+      "unknown",
+    ],
+    "cmi.success_status": ["passed", "failed", "unknown"],
+    "cmi.exit": ["time-out", "suspend", "logout", "normal", ""],
+  };
+
+  const INTERACTION_TYPES = [
+    "true-false",
+    "choice",
+    "fill-in",
+    "long-fill-in",
+    "matching",
+    "performance",
+    "sequencing",
+    "likert",
+    "numeric",
+    "other",
+  ];
+
+  const INTERACTION_RESULTS = [
+    "correct",
+    "incorrect",
+    "unanticipated",
+    "neutral",
+  ];
+
+  const DEFAULTS = {
+    "cmi._version": "1.0",
+    "cmi.learner_id": "",
+    "cmi.learner_name": "",
+    "cmi.credit": "credit",
+    "cmi.entry": "ab-initio",
+    "cmi.mode": "normal",
+    "cmi.location": "",
+    "cmi.suspend_data": "",
+    "cmi.launch_data": "",
+    "cmi.completion_status": "unknown",
+    "cmi.success_status": "unknown",
+    "cmi.total_time": "PT0H0M0S",
+    "cmi.score._children": "scaled,raw,min,max",
+    "cmi.interactions._children":
+      "id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description",
+    "cmi.interactions._count": "0",
+    "cmi.objectives._children":
+      "id,score,success_status,completion_status,progress_measure,description",
+    "cmi.objectives._count": "0",
+    "cmi.comments_from_learner._count": "0",
+    "cmi.comments_from_lms._count": "0",
+  };
+
+  function setError(code) {
+    lastError = String(code || "0");
+  }
+
+  // Bridge captured for the current session
+  let sessionBridge = null;
+
+  function getBridge() {
+    return window.MyLMSScorm || null;
+  }
+
+  function isNumber(value) {
+    return value !== "" && Number.isFinite(Number(value));
+  }
+
+  // cmi.interactions.n.* / cmi.objectives.n.* (including nested collections)
+  function parseIndexed(key) {
+    const match = /^cmi\.(interactions|objectives)\.(\d+)\.(.+)$/.exec(key);
+    if (!match) return null;
+    return {
+      collection: match[1],
+      index: Number(match[2]),
+      field: match[3],
+    };
+  }
+
+  function isKnownElement(key) {
+    return KNOWN_ELEMENTS.includes(key) || parseIndexed(key) !== null;
+  }
+
+  // Returns an error code, or "0" when the value is acceptable
+  function validate(key, val) {
+    const vocab = VOCABULARIES[key];
+    if (vocab && !vocab.includes(val)) return "406";
+
+    if (key === "cmi.score.scaled") {
+      if (!isNumber(val)) return "406";
+      if (Number(val) < -1 || Number(val) > 1) return "407";
+    }
+    if (
+      key === "cmi.score.raw" ||
+      key === "cmi.score.min" ||
+      key === "cmi.score.max"
+    ) {
+      if (!isNumber(val)) return "406";
+    }
+    if (key === "cmi.progress_measure") {
+      if (!isNumber(val)) return "406";
+      if (Number(val) < 0 || Number(val) > 1) return "407";
+    }
+    if (key === "cmi.session_time" && !/^P/.test(val)) return "406";
+
+    const indexed = parseIndexed(key);
+    if (indexed) {
+      const countKey = "cmi." + indexed.collection + "._count";
+      const count = Number(cmi[countKey] || "0");
+      // Arrays must be filled in order (n can be at most _count)
+      if (indexed.index > count) return "351";
+      // A new entry must be created by setting its id first
+      if (indexed.index === count && indexed.field !== "id") return "408";
+
+      if (indexed.collection === "interactions") {
+        if (indexed.field === "type" && !INTERACTION_TYPES.includes(val)) {
+          return "406";
+        }
+        if (
+          indexed.field === "result" &&
+          !INTERACTION_RESULTS.includes(val) &&
+          !isNumber(val)
+        ) {
+          return "406";
+        }
+      }
+    }
+
+    return "0";
+  }
+
+  // Keep the _count elements in step with the indexed interactions/objectives
+  function updateCount(key) {
+    const indexed = parseIndexed(key);
+    if (!indexed) return;
+    const countKey = "cmi." + indexed.collection + "._count";
+    if (indexed.index + 1 > Number(cmi[countKey] || "0")) {
+      cmi[countKey] = String(indexed.index + 1);
+    }
+  }
+
+  function persist(isFinished) {
+    const bridge = sessionBridge;
+    if (!bridge || typeof bridge.commit !== "function") {
+      console.log("[SCORM 2004] No MyLMS bridge – runtime data not persisted");
+      return true;
+    }
+    try {
+      bridge.commit(Object.assign({}, cmi), { finished: isFinished });
+      return true;
+    } catch (err) {
+      console.error("[SCORM 2004] Failed to persist runtime data", err);
+      return false;
+    }
+  }
+
+  function Initialize(param) {
+    console.log("[SCORM 2004] Initialize");
+    if (param !== "" && param != null) {
+      setError("201");
+      return "false";
+    }
+    if (state === RUNNING) {
+      setError("103");
+      return "false";
+    }
+    if (state === TERMINATED) {
+      setError("104");
+      return "false";
+    }
+
+    const bridge = getBridge();
+    sessionBridge = bridge;
+    const saved =
+      bridge && typeof bridge.getInitialCmi === "function"
+        ? bridge.getInitialCmi() || {}
+        : {};
+
+    cmi = Object.assign({}, DEFAULTS, saved);
+    cmi["cmi.entry"] = cmi["cmi.suspend_data"] ? "resume" : "ab-initio";
+    delete cmi["cmi.exit"];
+    delete cmi["cmi.session_time"];
+
+    state = RUNNING;
+    setError("0");
+    return "true";
+  }
+
+  function Terminate(param) {
+    console.log("[SCORM 2004] Terminate");
+    if (param !== "" && param != null) {
+      setError("201");
+      return "false";
+    }
+    if (state === NOT_INITIALIZED) {
+      setError("112");
+      return "false";
+    }
+    if (state === TERMINATED) {
+      setError("113");
+      return "false";
+    }
+    // A SCO that never reported completion has at least been opened
+    if (
+      cmi["cmi.completion_status"] === "unknown" ||
+      cmi["cmi.completion_status"] === "not attempted"
+    ) {
+      cmi["cmi.completion_status"] = "incomplete";
+    }
+    state = TERMINATED;
+    if (!persist(true)) {
+      setError("111");
+      return "false";
+    }
+    setError("0");
+    return "true";
+  }
+
+  function GetValue(element) {
+    const key = String(element || "");
+    if (state === NOT_INITIALIZED) {
+      setError("122");
+      return "";
+    }
+    if (state === TERMINATED) {
+      setError("123");
+      return "";
+    }
+    if (!key) {
+      setError("301");
+      return "";
+    }
+    if (!isKnownElement(key)) {
+      setError("401");
+      return "";
+    }
+    if (WRITE_ONLY.includes(key)) {
+      setError("405");
+      return "";
+    }
+    if (!(key in cmi)) {
+      setError("403"); // Value not initialized
+      return "";
+    }
+    const value = cmi[key];
+    console.log("[SCORM 2004] GetValue", key, "=>", value);
+    setError("0");
+    return String(value);
+  }
+
+  function SetValue(element, value) {
+    const key = String(element || "");
+    const val = String(value ?? "");
+    if (state === NOT_INITIALIZED) {
+      setError("132");
+      return "false";
+    }
+    if (state === TERMINATED) {
+      setError("133");
+      return "false";
+    }
+    if (!key) {
+      setError("351");
+      return "false";
+    }
+    if (!isKnownElement(key)) {
+      setError("401");
+      return "false";
+    }
+    if (
+      READ_ONLY.includes(key) ||
+      key.endsWith("._children") ||
+      key.endsWith("._count")
+    ) {
+      setError("404");
+      return "false";
+    }
+    const validationError = validate(key, val);
+    if (validationError !== "0") {
+      setError(validationError);
+      return "false";
+    }
+    console.log("[SCORM 2004] SetValue", key, "=", val);
+    cmi[key] = val;
+    updateCount(key);
+    setError("0");
+    return "true";
+  }
+
+  function Commit(param) {
+    console.log("[SCORM 2004] Commit");
+    if (param !== "" && param != null) {
+      setError("201");
+      return "false";
+    }
+    if (state === NOT_INITIALIZED) {
+      setError("142");
+      return "false";
+    }
+    if (state === TERMINATED) {
+      setError("143");
+      return "false";
+    }
+    if (!persist(false)) {
+      setError("391");
+      return "false";
+    }
+    setError("0");
+    return "true";
+  }
+
+  function GetLastError() {
+    return lastError;
+  }
+
+  function GetErrorString(errorCode) {
+    return ERROR_STRINGS[String(errorCode)] || "Unknown error";
+  }
+
+  function GetDiagnostic(errorCode) {
+    const code = errorCode === "" || errorCode == null ? lastError : errorCode;
+    return ERROR_STRINGS[String(code)] || "";
+  }
+
+  window.API_1484_11 = {
+    Initialize,
+    Terminate,
+    GetValue,
+    SetValue,
+    Commit,
+    GetLastError,
+    GetErrorString,
+    GetDiagnostic,
+  };
+})();
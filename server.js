@@ -1,5 +1,7 @@
 const express = require('express');
 const path = require('path');
+const crypto = require('crypto');
+const { createClient } = require('@supabase/supabase-js');
 const app = express();
 const PORT = process.env.PORT || 8080;
 
@@ -33,6 +35,145 @@ app.get("/scorm/*", async (req, res) => {
   }
 });
 
+// --- xAPI (LRS) statements endpoint ---
+// Read-only xAPI 1.0.3 Statement API over the xapi_statements table, so
+// external analytics tools can pull learner activity.
+//   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY – used to read the statements
+//   XAPI_BASIC_AUTH_KEY / XAPI_BASIC_AUTH_SECRET – credentials clients send as HTTP Basic auth
+const XAPI_VERSION = "1.0.3";
+const XAPI_DEFAULT_LIMIT = 100;
+const XAPI_MAX_LIMIT = 500;
+const XAPI_UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const xapiSupabase =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+        auth: { persistSession: false },
+      })
+    : null;
+
+function xapiError(res, status, message) {
+  return res.status(status).json({ error: message });
+}
+
+function requireXapiAuth(req, res, next) {
+  res.setHeader("X-Experience-API-Version", XAPI_VERSION);
+
+  const key = process.env.XAPI_BASIC_AUTH_KEY;
+  const secret = process.env.XAPI_BASIC_AUTH_SECRET;
+  if (!key || !secret) {
+    return xapiError(res, 503, "xAPI endpoint is not configured");
+  }
+
+  const match = /^Basic\s+(.+)$/i.exec(req.headers.authorization || "");
+  const received = Buffer.from(match ? match[1].trim() : "", "base64");
+  const expected = Buffer.from(`${key}:${secret}`);
+  // Constant-time comparison so the credentials can't be guessed from timing
+  const valid =
+    received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  if (!match || !valid) {
+    res.setHeader("WWW-Authenticate", 'Basic realm="xAPI"');
+    return xapiError(res, 401, "Unauthorized");
+  }
+
+  next();
+}
+
+// The agent filter must identify a learner by account name (the user id)
+function parseAgentFilter(value) {
+  try {
+    const agent = JSON.parse(value);
+    return agent && agent.account && agent.account.name ? String(agent.account.name) : null;
+  } catch {
+    return null;
+  }
+}
+
+function withStored(row) {
+  return { ...row.statement, stored: row.stored };
+}
+
+app.get("/xapi/about", (req, res) => {
+  res.setHeader("X-Experience-API-Version", XAPI_VERSION);
+  res.json({ version: [XAPI_VERSION] });
+});
+
+app.get("/xapi/statements", requireXapiAuth, async (req, res) => {
+  if (!xapiSupabase) {
+    return xapiError(res, 503, "xAPI statement store is not configured");
+  }
+
+  try {
+    const { statementId, agent, verb, activity, since, until, ascending } = req.query;
+    const relatedActivities = req.query.related_activities === "true";
+
+    // Single statement lookup
+    if (statementId) {
+      // ids are uuids; anything else can't match (and would make the query fail)
+      if (!XAPI_UUID_PATTERN.test(String(statementId))) {
+        return xapiError(res, 400, "statementId must be a UUID");
+      }
+      const { data, error } = await xapiSupabase
+        .from("xapi_statements")
+        .select("statement, stored")
+        .eq("id", statementId)
+        .eq("voided", false)
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) return xapiError(res, 404, "Statement not found");
+      return res.json(withStored(data));
+    }
+
+    const limitParam = Number(req.query.limit);
+    const limit = limitParam > 0 ? Math.min(limitParam, XAPI_MAX_LIMIT) : XAPI_DEFAULT_LIMIT;
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    const isAscending = ascending === "true";
+
+    let query = xapiSupabase
+      .from("xapi_statements")
+      .select("statement, stored")
+      .eq("voided", false);
+
+    if (agent) {
+      const userId = parseAgentFilter(agent);
+      if (!userId) return xapiError(res, 400, "agent must be an Agent with an account");
+      query = query.eq("user_id", userId);
+    }
+    if (verb) query = query.eq("verb_id", verb);
+    if (activity) {
+      query = relatedActivities
+        ? query.contains("activity_ids", [activity])
+        : query.eq("object_id", activity);
+    }
+    if (since) query = query.gt("stored", since);
+    if (until) query = query.lte("stored", until);
+
+    // Fetch one extra row to know whether there is a next page
+    const { data, error } = await query
+      .order("stored", { ascending: isAscending })
+      .range(offset, offset + limit);
+    if (error) throw error;
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    let more = "";
+    if (hasMore) {
+      const params = new URLSearchParams(req.query);
+      params.set("offset", String(offset + limit));
+      params.set("limit", String(limit));
+      more = `/xapi/statements?${params.toString()}`;
+    }
+
+    res.json({
+      statements: rows.slice(0, limit).map(withStored),
+      more,
+    });
+  } catch (err) {
+    console.error("[xAPI] Failed to fetch statements:", err);
+    xapiError(res, 500, "Internal xAPI error");
+  }
+});
+
 // --- Serve frontend ---
 app.use(express.static(path.join(__dirname, 'dist')));
 
@@ -0,0 +1,441 @@
+import React from 'react';
+import type {
+  BaseFormField,
+  VisibilityCondition,
+  VisibilityConditionGroup,
+  VisibilityLogic,
+  VisibilityOperator,
+  VisibilityRule,
+} from '../types/forms';
+import {
+  isVisibilityConditionGroup,
+  VISIBILITY_OPERATOR_LABELS,
+} from '../lib/formVisibility';
+
+type VisibilityRulesEditorProps = {
+  // What the rules apply to, used in the copy ("field" / "section")
+  subject: string;
+  rules: VisibilityRule[];
+  logic: VisibilityLogic;
+  // Fields the conditions can refer to
+  sourceFields: BaseFormField[];
+  onChange: (rules: VisibilityRule[], logic: VisibilityLogic) => void;
+};
+
+// Field types that never hold an answer worth branching on
+const NON_SOURCE_FIELD_TYPES = [
+  'static_text',
+  'image',
+  'divider',
+  'group',
+  'file',
+  'signature',
+];
+
+const LIST_OPERATORS: VisibilityOperator[] = ['in', 'not_in'];
+
+export function isVisibilitySourceField(field: BaseFormField): boolean {
+  return !NON_SOURCE_FIELD_TYPES.includes(field.type);
+}
+
+function operatorsForField(
+  field: BaseFormField | undefined
+): VisibilityOperator[] {
+  switch (field?.type) {
+    case 'checkbox':
+      return ['equals', 'not_equals'];
+    case 'number':
+    case 'rating':
+    case 'date':
+      return ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte'];
+    default:
+      return ['equals', 'not_equals', 'in', 'not_in'];
+  }
+}
+
+function defaultValueFor(
+  field: BaseFormField | undefined,
+  operator: VisibilityOperator
+): VisibilityCondition['value'] {
+  if (field?.type === 'checkbox') return true;
+  const firstOption = field?.options?.[0]?.value;
+  if (LIST_OPERATORS.includes(operator)) {
+    return firstOption ? [firstOption] : [];
+  }
+  return firstOption ?? '';
+}
+
+function createCondition(sourceFields: BaseFormField[]): VisibilityCondition {
+  const field = sourceFields[0];
+  return {
+    fieldId: field?.id ?? '',
+    operator: 'equals',
+    value: defaultValueFor(field, 'equals'),
+  };
+}
+
+const inputClasses =
+  'rounded-md border border-gray-300 bg-white text-gray-900 px-2 py-1.5 text-xs focus:border-secondary focus:ring-2 focus:ring-secondary';
+
+const LogicSelect: React.FC<{
+  value: VisibilityLogic;
+  onChange: (logic: VisibilityLogic) => void;
+}> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as VisibilityLogic)}
+    className={inputClasses}
+  >
+    <option value="all">all</option>
+    <option value="any">any</option>
+  </select>
+);
+
+// ---------------------------------------------------------------------------
+// One condition: <field> <operator> <value>
+// ---------------------------------------------------------------------------
+
+const ConditionRow: React.FC<{
+  condition: VisibilityCondition;
+  sourceFields: BaseFormField[];
+  onChange: (condition: VisibilityCondition) => void;
+  onRemove: () => void;
+}> = ({ condition, sourceFields, onChange, onRemove }) => {
+  const field = sourceFields.find((item) => item.id === condition.fieldId);
+  const operators = operatorsForField(field);
+  const isList = LIST_OPERATORS.includes(condition.operator);
+  const options = field?.options ?? [];
+
+  const handleFieldChange = (fieldId: string) => {
+    const nextField = sourceFields.find((item) => item.id === fieldId);
+    onChange({
+      fieldId,
+      operator: 'equals',
+      value: defaultValueFor(nextField, 'equals'),
+    });
+  };
+
+  const handleOperatorChange = (operator: VisibilityOperator) => {
+    const wasList = LIST_OPERATORS.includes(condition.operator);
+    const willBeList = LIST_OPERATORS.includes(operator);
+    let value = condition.value;
+    if (wasList && !willBeList) {
+      value = Array.isArray(value) ? value[0] ?? '' : value;
+    } else if (!wasList && willBeList) {
+      value =
+        value === '' || value === undefined ? [] : [value as string | number];
+    }
+    onChange({ ...condition, operator, value });
+  };
+
+  const renderValueInput = () => {
+    if (field?.type === 'checkbox') {
+      return <span className="text-xs text-gray-700">checked</span>;
+    }
+
+    if (options.length > 0) {
+      if (isList) {
+        const selected = (
+          Array.isArray(condition.value) ? condition.value : []
+        ).map(String);
+        return (
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {options.map((opt) => (
+              <label
+                key={opt.value}
+                className="inline-flex items-center gap-1 text-xs text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(opt.value)}
+                  onChange={(e) =>
+                    onChange({
+                      ...condition,
+                      value: e.target.checked
+                        ? [...selected, opt.value]
+                        : selected.filter((value) => value !== opt.value),
+                    })
+                  }
+                  className="h-3.5 w-3.5 text-accent border-gray-300 rounded"
+                />
+                {opt.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      return (
+        <select
+          value={String(condition.value ?? '')}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={inputClasses}
+        >
+          {options.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    if (isList) {
+      return (
+        <input
+          type="text"
+          value={(Array.isArray(condition.value) ? condition.value : []).join(
+            ', '
+          )}
+          onChange={(e) =>
+            onChange({
+              ...condition,
+              value: e.target.value
+                .split(',')
+                .map((value) => value.trim())
+                .filter(Boolean),
+            })
+          }
+          placeholder="Comma-separated values"
+          className={`${inputClasses} flex-1 min-w-[8rem]`}
+        />
+      );
+    }
+
+    const inputType =
+      field?.type === 'date'
+        ? 'date'
+        : field?.type === 'number' || field?.type === 'rating'
+        ? 'number'
+        : 'text';
+    return (
+      <input
+        type={inputType}
+        value={String(condition.value ?? '')}
+        onChange={(e) =>
+          onChange({
+            ...condition,
+            value:
+              inputType === 'number' && e.target.value !== ''
+                ? Number(e.target.value)
+                : e.target.value,
+          })
+        }
+        placeholder="Value"
+        className={`${inputClasses} flex-1 min-w-[8rem]`}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={condition.fieldId}
+          onChange={(e) => handleFieldChange(e.target.value)}
+          className={`${inputClasses} max-w-[12rem]`}
+        >
+          {!field && <option value={condition.fieldId}>Deleted field</option>}
+          {sourceFields.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label || 'Untitled field'}
+            </option>
+          ))}
+        </select>
+        <select
+          value={condition.operator}
+          onChange={(e) =>
+            handleOperatorChange(e.target.value as VisibilityOperator)
+          }
+          className={inputClasses}
+        >
+          {operators.map((operator) => (
+            <option key={operator} value={operator}>
+              {VISIBILITY_OPERATOR_LABELS[operator]}
+            </option>
+          ))}
+        </select>
+        {renderValueInput()}
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label="Remove condition"
+          className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-100"
+        >
+          ✕
+        </button>
+      </div>
+      {!field && (
+        <p className="text-xs text-red-600">
+          This condition refers to a field that no longer exists.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// VisibilityRulesEditor
+// ---------------------------------------------------------------------------
+
+/**
+ * Condition builder for a field's or section's visibilityConditions.
+ * Top-level rules are single conditions or groups, each combined with
+ * all (AND) / any (OR).
+ */
+const VisibilityRulesEditor: React.FC<VisibilityRulesEditorProps> = ({
+  subject,
+  rules,
+  logic,
+  sourceFields,
+  onChange,
+}) => {
+  const updateRule = (index: number, rule: VisibilityRule) =>
+    onChange(
+      rules.map((item, i) => (i === index ? rule : item)),
+      logic
+    );
+
+  const removeRule = (index: number) =>
+    onChange(
+      rules.filter((_, i) => i !== index),
+      logic
+    );
+
+  const addCondition = () =>
+    onChange([...rules, createCondition(sourceFields)], logic);
+
+  const addGroup = () => {
+    const group: VisibilityConditionGroup = {
+      logic: 'any',
+      conditions: [
+        createCondition(sourceFields),
+        createCondition(sourceFields),
+      ],
+    };
+    onChange([...rules, group], logic);
+  };
+
+  if (sourceFields.length === 0 && rules.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">
+        Add a question (text, choice, number or date) elsewhere in the form to
+        show this {subject} conditionally.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 ? (
+        <p className="text-xs text-gray-500">This {subject} is always shown.</p>
+      ) : (
+        <div className="flex items-center gap-2 text-xs text-gray-700">
+          <span>Show this {subject} when</span>
+          <LogicSelect
+            value={logic}
+            onChange={(nextLogic) => onChange(rules, nextLogic)}
+          />
+          <span>of the following match:</span>
+        </div>
+      )}
+
+      {rules.map((rule, index) =>
+        isVisibilityConditionGroup(rule) ? (
+          <div
+            key={index}
+            className="rounded-md border border-gray-200 bg-gray-50 p-3 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-xs text-gray-700">
+                <LogicSelect
+                  value={rule.logic}
+                  onChange={(groupLogic) =>
+                    updateRule(index, { ...rule, logic: groupLogic })
+                  }
+                />
+                <span>of:</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => removeRule(index)}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove group
+              </button>
+            </div>
+            {rule.conditions.map((condition, conditionIndex) => (
+              <ConditionRow
+                key={conditionIndex}
+                condition={condition}
+                sourceFields={sourceFields}
+                onChange={(nextCondition) =>
+                  updateRule(index, {
+                    ...rule,
+                    conditions: rule.conditions.map((item, i) =>
+                      i === conditionIndex ? nextCondition : item
+                    ),
+                  })
+                }
+                onRemove={() => {
+                  const conditions = rule.conditions.filter(
+                    (_, i) => i !== conditionIndex
+                  );
+                  if (conditions.length === 0) {
+                    removeRule(index);
+                  } else {
+                    updateRule(index, { ...rule, conditions });
+                  }
+                }}
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                updateRule(index, {
+                  ...rule,
+                  conditions: [
+                    ...rule.conditions,
+                    createCondition(sourceFields),
+                  ],
+                })
+              }
+              disabled={sourceFields.length === 0}
+              className="text-xs text-secondary hover:underline disabled:opacity-40"
+            >
+              + Add condition to group
+            </button>
+          </div>
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={rule}
+            sourceFields={sourceFields}
+            onChange={(nextCondition) => updateRule(index, nextCondition)}
+            onRemove={() => removeRule(index)}
+          />
+        )
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={addCondition}
+          disabled={sourceFields.length === 0}
+          className="inline-flex items-center px-3 py-1.5 rounded-md border border-dashed border-gray-400 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40"
+        >
+          + Add condition
+        </button>
+        <button
+          type="button"
+          onClick={addGroup}
+          disabled={sourceFields.length === 0}
+          className="inline-flex items-center px-3 py-1.5 rounded-md border border-dashed border-gray-400 text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-40"
+        >
+          + Add group
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VisibilityRulesEditor;
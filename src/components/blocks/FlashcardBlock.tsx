@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { supabase } from "../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../lib/api/xapi";
 
 type FlashcardDisplayMode = "text" | "centeredImage" | "fullCardImage";
 
@@ -66,6 +67,26 @@ async function logFlashcardEvent(params: {
 
     if (error) {
       console.error("Failed to log flashcard flip event:", error);
+      return;
+    }
+
+    // The Edge Function stores the learning_events row; mirror it as xAPI
+    const { data: userData } = await supabase.auth.getUser();
+    if (userData.user) {
+      void recordLearningEventStatements({
+        user_id: userData.user.id,
+        module_id: params.moduleId,
+        page_id: params.pageId,
+        block_id: params.blockId,
+        event_type: "flashcard_flip",
+        event_time: new Date().toISOString(),
+        duration_ms: params.durationMs,
+        metadata: {
+          cardId: params.cardId,
+          flippedTo: params.side,
+          displayMode: params.displayMode,
+        },
+      });
     }
   } catch (err) {
     console.error("Failed to log flashcard flip event:", err);
@@ -0,0 +1,433 @@
+// src/components/blocks/chart/ChartEditor.tsx
+// Editor component for Chart blocks in the LessonBuilder
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type { ChartContent, ChartSettings, ChartType } from "./chart-types";
+import {
+  CHART_TYPE_LABELS,
+  formatChartValue,
+  getChartSettings,
+  parseChartValue,
+} from "./chart-utils";
+
+interface ChartEditorProps {
+  blockId: string;
+  content: ChartContent;
+  onChange: (updatedContent: ChartContent) => void;
+}
+
+const inputClass =
+  "w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200";
+
+const cellClass =
+  "w-full min-w-[6rem] bg-transparent px-2 py-1.5 text-sm text-slate-800 focus:outline-none focus:bg-orange-50";
+
+/**
+ * ChartEditor
+ *
+ * Editor for chart blocks. Allows admins to:
+ * - Switch between bar, line and pie charts
+ * - Edit the data in a spreadsheet-style grid (rows = categories, columns = series)
+ * - Paste a block of cells copied from Excel / Google Sheets
+ * - Set the title, axis labels and display options
+ */
+const ChartEditor: React.FC<ChartEditorProps> = ({
+  blockId,
+  content,
+  onChange,
+}) => {
+  const settings = getChartSettings(content);
+  const isPie = content.chartType === "pie";
+  // Pie charts plot a single series
+  const visibleSeries = isPie ? content.series.slice(0, 1) : content.series;
+
+  const update = (patch: Partial<ChartContent>) => {
+    onChange({ ...content, ...patch });
+  };
+
+  const updateSettings = (patch: Partial<ChartSettings>) => {
+    update({ settings: { ...settings, ...patch } });
+  };
+
+  // ---------- Grid Handlers ----------
+
+  const updateCell = (rowIndex: number, seriesIndex: number, raw: string) => {
+    update({
+      rows: content.rows.map((row, r) => {
+        if (r !== rowIndex) return row;
+        const values = [...row.values];
+        values[seriesIndex] = parseChartValue(raw);
+        return { ...row, values };
+      }),
+    });
+  };
+
+  const updateRowLabel = (rowIndex: number, label: string) => {
+    update({
+      rows: content.rows.map((row, r) =>
+        r === rowIndex ? { ...row, label } : row
+      ),
+    });
+  };
+
+  const updateSeriesName = (seriesIndex: number, name: string) => {
+    update({
+      series: content.series.map((s, i) =>
+        i === seriesIndex ? { ...s, name } : s
+      ),
+    });
+  };
+
+  const handleAddRow = () => {
+    update({
+      rows: [
+        ...content.rows,
+        {
+          id: crypto.randomUUID(),
+          label: `Row ${content.rows.length + 1}`,
+          values: content.series.map(() => null),
+        },
+      ],
+    });
+  };
+
+  const handleDeleteRow = (rowIndex: number) => {
+    update({ rows: content.rows.filter((_, r) => r !== rowIndex) });
+  };
+
+  const handleAddSeries = () => {
+    update({
+      series: [
+        ...content.series,
+        {
+          id: crypto.randomUUID(),
+          name: `Series ${content.series.length + 1}`,
+        },
+      ],
+      rows: content.rows.map((row) => ({
+        ...row,
+        values: [...row.values, null],
+      })),
+    });
+  };
+
+  const handleDeleteSeries = (seriesIndex: number) => {
+    update({
+      series: content.series.filter((_, i) => i !== seriesIndex),
+      rows: content.rows.map((row) => ({
+        ...row,
+        values: row.values.filter((_, i) => i !== seriesIndex),
+      })),
+    });
+  };
+
+  /**
+   * Paste tab-separated cells (as copied from a spreadsheet) starting at the
+   * focused cell. Column 0 is the row label; the grid grows to fit.
+   */
+  const handlePaste = (
+    e: React.ClipboardEvent<HTMLInputElement>,
+    startRow: number,
+    startCol: number
+  ) => {
+    const text = e.clipboardData.getData("text/plain");
+    if (!text.includes("\t") && !text.includes("\n")) return;
+    e.preventDefault();
+
+    const pasted = text
+      .replace(/\r/g, "")
+      .replace(/\n$/, "")
+      .split("\n")
+      .map((line) => line.split("\t"));
+
+    const maxCol = isPie
+      ? 1
+      : Math.max(
+          content.series.length,
+          startCol + Math.max(...pasted.map((cells) => cells.length)) - 1
+        );
+
+    const series = [...content.series];
+    while (series.length < maxCol) {
+      series.push({
+        id: crypto.randomUUID(),
+        name: `Series ${series.length + 1}`,
+      });
+    }
+
+    const rows = content.rows.map((row) => ({
+      ...row,
+      values: series.map((_, i) => row.values[i] ?? null),
+    }));
+    while (rows.length < startRow + pasted.length) {
+      rows.push({
+        id: crypto.randomUUID(),
+        label: `Row ${rows.length + 1}`,
+        values: series.map(() => null),
+      });
+    }
+
+    pasted.forEach((cells, r) => {
+      const row = rows[startRow + r];
+      cells.forEach((cell, c) => {
+        const col = startCol + c;
+        if (col === 0) {
+          row.label = cell.trim();
+        } else if (col <= series.length) {
+          row.values[col - 1] = parseChartValue(cell);
+        }
+      });
+    });
+
+    update({ series, rows });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Chart type */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-800">Chart type</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => update({ chartType: type })}
+              className={`px-3 py-2 rounded-md border text-xs font-medium transition-colors ${
+                type === content.chartType
+                  ? "border-[#ff7a00] bg-orange-50 text-[#ff7a00]"
+                  : "border-slate-200 text-slate-600 hover:border-slate-300"
+              }`}
+            >
+              {CHART_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Title & description */}
+      <div className="space-y-3">
+        <div className="space-y-1">
+          <label
+            htmlFor={`chart-title-${blockId}`}
+            className="text-xs font-semibold text-slate-700"
+          >
+            Title
+          </label>
+          <input
+            id={`chart-title-${blockId}`}
+            type="text"
+            value={content.title ?? ""}
+            onChange={(e) => update({ title: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label
+            htmlFor={`chart-description-${blockId}`}
+            className="text-xs font-semibold text-slate-700"
+          >
+            Description
+          </label>
+          <textarea
+            id={`chart-description-${blockId}`}
+            value={content.description ?? ""}
+            onChange={(e) => update({ description: e.target.value })}
+            rows={2}
+            placeholder="Summarise what the chart shows (read by screen readers)"
+            className={inputClass}
+          />
+        </div>
+        {!isPie && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-700">
+                X axis label
+              </label>
+              <input
+                type="text"
+                value={content.xAxisLabel ?? ""}
+                onChange={(e) => update({ xAxisLabel: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-semibold text-slate-700">
+                Y axis label
+              </label>
+              <input
+                type="text"
+                value={content.yAxisLabel ?? ""}
+                onChange={(e) => update({ yAxisLabel: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Data grid */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-slate-800">Data</h3>
+          <span className="text-xs text-slate-500">
+            Tip: paste cells straight from a spreadsheet
+          </span>
+        </div>
+        <div className="overflow-x-auto rounded-md border border-slate-200">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-slate-50">
+                <th className="border-b border-r border-slate-200 px-2 py-1.5 text-left text-xs font-semibold text-slate-500">
+                  {isPie ? "Slice" : "Label"}
+                </th>
+                {visibleSeries.map((s, seriesIndex) => (
+                  <th
+                    key={s.id}
+                    className="border-b border-r border-slate-200 p-0"
+                  >
+                    <div className="flex items-center">
+                      <input
+                        type="text"
+                        value={s.name}
+                        onChange={(e) =>
+                          updateSeriesName(seriesIndex, e.target.value)
+                        }
+                        aria-label={`Series ${seriesIndex + 1} name`}
+                        className={`${cellClass} font-semibold`}
+                      />
+                      {!isPie && content.series.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteSeries(seriesIndex)}
+                          className="p-1 text-slate-400 hover:text-red-500"
+                          title="Delete column"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  </th>
+                ))}
+                <th className="w-8 border-b border-slate-200" />
+              </tr>
+            </thead>
+            <tbody>
+              {content.rows.map((row, rowIndex) => (
+                <tr key={row.id} className="border-b border-slate-100">
+                  <td className="border-r border-slate-200 p-0">
+                    <input
+                      type="text"
+                      value={row.label}
+                      onChange={(e) => updateRowLabel(rowIndex, e.target.value)}
+                      onPaste={(e) => handlePaste(e, rowIndex, 0)}
+                      aria-label={`Row ${rowIndex + 1} label`}
+                      className={cellClass}
+                    />
+                  </td>
+                  {visibleSeries.map((s, seriesIndex) => (
+                    <td key={s.id} className="border-r border-slate-200 p-0">
+                      <input
+                        // Uncontrolled so partially typed numbers ("-", "1.") survive
+                        key={`${row.id}-${s.id}-${row.values[seriesIndex] ?? ""}`}
+                        type="text"
+                        inputMode="decimal"
+                        defaultValue={
+                          row.values[seriesIndex] === null ||
+                          row.values[seriesIndex] === undefined
+                            ? ""
+                            : String(row.values[seriesIndex])
+                        }
+                        onBlur={(e) =>
+                          updateCell(rowIndex, seriesIndex, e.target.value)
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                        }}
+                        onPaste={(e) =>
+                          handlePaste(e, rowIndex, seriesIndex + 1)
+                        }
+                        aria-label={`${row.label} – ${s.name}`}
+                        placeholder={formatChartValue(null)}
+                        className={`${cellClass} text-right tabular-nums`}
+                      />
+                    </td>
+                  ))}
+                  <td className="text-center">
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteRow(rowIndex)}
+                      className="p-1 text-slate-400 hover:text-red-500"
+                      title="Delete row"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            type="button"
+            onClick={handleAddRow}
+            className="inline-flex items-center gap-1 text-xs font-medium text-slate-600 hover:text-[#ff7a00]"
+          >
+            <Plus className="h-4 w-4" />
+            Add row
+          </button>
+          {!isPie && (
+            <button
+              type="button"
+              onClick={handleAddSeries}
+              className="inline-flex items-center gap-1 text-xs font-medium text-slate-600 hover:text-[#ff7a00]"
+            >
+              <Plus className="h-4 w-4" />
+              Add column
+            </button>
+          )}
+        </div>
+        {isPie && content.series.length > 1 && (
+          <p className="text-xs text-slate-500">
+            Pie charts show the first column only. Other columns are kept if you
+            switch back to a bar or line chart.
+          </p>
+        )}
+      </div>
+
+      {/* Display options */}
+      <div className="flex flex-wrap items-center gap-6 text-sm text-slate-700">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.showLegend}
+            onChange={(e) => updateSettings({ showLegend: e.target.checked })}
+          />
+          Show legend
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.showValues}
+            onChange={(e) => updateSettings({ showValues: e.target.checked })}
+          />
+          Show values
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.showDataTable}
+            onChange={(e) =>
+              updateSettings({ showDataTable: e.target.checked })
+            }
+          />
+          Open data table by default
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ChartEditor;
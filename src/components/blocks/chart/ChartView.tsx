@@ -0,0 +1,454 @@
+// src/components/blocks/chart/ChartView.tsx
+// Renders a Chart block as SVG (bar / line / pie) with a data-table fallback
+
+import React, { useEffect, useId, useState } from "react";
+import { Table } from "lucide-react";
+import { useTheme } from "../../../../theme/ThemeProvider";
+import type { ChartContent, ChartRow } from "./chart-types";
+import {
+  formatChartValue,
+  getChartPalette,
+  getChartSettings,
+  getContrastTextColor,
+  getNiceTicks,
+} from "./chart-utils";
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const MARGIN = { top: 16, right: 16, bottom: 56, left: 64 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+interface ChartShapeProps {
+  content: ChartContent;
+  colors: string[];
+  showValues: boolean;
+}
+
+// Shared axes for bar and line charts
+function getCartesianScale(rows: ChartRow[], seriesCount: number) {
+  const values = rows.flatMap((row) =>
+    row.values
+      .slice(0, seriesCount)
+      .filter((v): v is number => v !== null && v !== undefined)
+  );
+  const ticks = getNiceTicks(
+    values.length ? Math.min(...values) : 0,
+    values.length ? Math.max(...values) : 1
+  );
+  const minTick = ticks[0];
+  const maxTick = ticks[ticks.length - 1];
+  const y = (value: number) =>
+    MARGIN.top +
+    PLOT_HEIGHT -
+    ((value - minTick) / (maxTick - minTick)) * PLOT_HEIGHT;
+  const bandWidth = PLOT_WIDTH / Math.max(1, rows.length);
+  return { ticks, y, bandWidth };
+}
+
+const Axes: React.FC<{
+  content: ChartContent;
+  ticks: number[];
+  y: (value: number) => number;
+  bandWidth: number;
+}> = ({ content, ticks, y, bandWidth }) => (
+  <g fontSize={12} fill="#475569">
+    {ticks.map((tick) => (
+      <g key={tick}>
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={y(tick)}
+          y2={y(tick)}
+          stroke={tick === 0 ? "#94a3b8" : "#e2e8f0"}
+        />
+        <text
+          x={MARGIN.left - 8}
+          y={y(tick)}
+          textAnchor="end"
+          dominantBaseline="middle"
+        >
+          {formatChartValue(tick)}
+        </text>
+      </g>
+    ))}
+    {content.rows.map((row, i) => (
+      <text
+        key={row.id}
+        x={MARGIN.left + bandWidth * i + bandWidth / 2}
+        y={MARGIN.top + PLOT_HEIGHT + 18}
+        textAnchor="middle"
+      >
+        {row.label}
+      </text>
+    ))}
+    {content.xAxisLabel && (
+      <text
+        x={MARGIN.left + PLOT_WIDTH / 2}
+        y={HEIGHT - 8}
+        textAnchor="middle"
+        fontWeight={600}
+      >
+        {content.xAxisLabel}
+      </text>
+    )}
+    {content.yAxisLabel && (
+      <text
+        transform={`translate(14 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+        textAnchor="middle"
+        fontWeight={600}
+      >
+        {content.yAxisLabel}
+      </text>
+    )}
+  </g>
+);
+
+const BarChart: React.FC<ChartShapeProps> = ({
+  content,
+  colors,
+  showValues,
+}) => {
+  const seriesCount = content.series.length;
+  const { ticks, y, bandWidth } = getCartesianScale(content.rows, seriesCount);
+  const groupWidth = bandWidth * 0.8;
+  const barWidth = groupWidth / Math.max(1, seriesCount);
+  const baseline = y(Math.max(0, ticks[0]));
+
+  return (
+    <>
+      <Axes content={content} ticks={ticks} y={y} bandWidth={bandWidth} />
+      {content.rows.map((row, rowIndex) =>
+        content.series.map((series, seriesIndex) => {
+          const value = row.values[seriesIndex];
+          if (value === null || value === undefined) return null;
+          const x =
+            MARGIN.left +
+            bandWidth * rowIndex +
+            (bandWidth - groupWidth) / 2 +
+            barWidth * seriesIndex;
+          const top = Math.min(y(value), baseline);
+          const height = Math.abs(baseline - y(value));
+          return (
+            <g key={`${row.id}-${series.id}`}>
+              <rect
+                x={x}
+                y={top}
+                width={Math.max(1, barWidth - 2)}
+                height={height}
+                rx={2}
+                fill={colors[seriesIndex]}
+              />
+              {showValues && (
+                <text
+                  x={x + barWidth / 2}
+                  y={value >= 0 ? top - 4 : top + height + 12}
+                  textAnchor="middle"
+                  fontSize={11}
+                  fill="#334155"
+                >
+                  {formatChartValue(value)}
+                </text>
+              )}
+            </g>
+          );
+        })
+      )}
+    </>
+  );
+};
+
+const LineChart: React.FC<ChartShapeProps> = ({
+  content,
+  colors,
+  showValues,
+}) => {
+  const seriesCount = content.series.length;
+  const { ticks, y, bandWidth } = getCartesianScale(content.rows, seriesCount);
+  const x = (rowIndex: number) =>
+    MARGIN.left + bandWidth * rowIndex + bandWidth / 2;
+
+  return (
+    <>
+      <Axes content={content} ticks={ticks} y={y} bandWidth={bandWidth} />
+      {content.series.map((series, seriesIndex) => {
+        // Blank cells break the line into separate segments
+        const segments: string[][] = [[]];
+        content.rows.forEach((row, rowIndex) => {
+          const value = row.values[seriesIndex];
+          if (value === null || value === undefined) {
+            segments.push([]);
+          } else {
+            segments[segments.length - 1].push(`${x(rowIndex)},${y(value)}`);
+          }
+        });
+
+        return (
+          <g key={series.id}>
+            {segments
+              .filter((points) => points.length > 1)
+              .map((points, i) => (
+                <polyline
+                  key={i}
+                  points={points.join(" ")}
+                  fill="none"
+                  stroke={colors[seriesIndex]}
+                  strokeWidth={2.5}
+                  strokeLinejoin="round"
+                />
+              ))}
+            {content.rows.map((row, rowIndex) => {
+              const value = row.values[seriesIndex];
+              if (value === null || value === undefined) return null;
+              return (
+                <g key={row.id}>
+                  <circle
+                    cx={x(rowIndex)}
+                    cy={y(value)}
+                    r={4}
+                    fill="#ffffff"
+                    stroke={colors[seriesIndex]}
+                    strokeWidth={2}
+                  />
+                  {showValues && (
+                    <text
+                      x={x(rowIndex)}
+                      y={y(value) - 10}
+                      textAnchor="middle"
+                      fontSize={11}
+                      fill="#334155"
+                    >
+                      {formatChartValue(value)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+        );
+      })}
+    </>
+  );
+};
+
+const PieChart: React.FC<ChartShapeProps> = ({
+  content,
+  colors,
+  showValues,
+}) => {
+  const slices = content.rows
+    .map((row, i) => ({ row, value: row.values[0] ?? 0, color: colors[i] }))
+    .filter((slice) => slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const cx = WIDTH / 2;
+  const cy = HEIGHT / 2;
+  const radius = HEIGHT / 2 - 24;
+
+  if (total <= 0) {
+    return (
+      <text x={cx} y={cy} textAnchor="middle" fontSize={13} fill="#64748b">
+        Add positive values to draw the pie chart
+      </text>
+    );
+  }
+
+  let angle = -Math.PI / 2;
+  return (
+    <>
+      {slices.map((slice) => {
+        const sweep = (slice.value / total) * Math.PI * 2;
+        const start = angle;
+        const end = angle + sweep;
+        angle = end;
+        const mid = start + sweep / 2;
+        const percent = Math.round((slice.value / total) * 100);
+
+        const shape =
+          slices.length === 1 ? (
+            <circle cx={cx} cy={cy} r={radius} fill={slice.color} />
+          ) : (
+            <path
+              d={[
+                `M ${cx} ${cy}`,
+                `L ${cx + radius * Math.cos(start)} ${cy + radius * Math.sin(start)}`,
+                `A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${
+                  cx + radius * Math.cos(end)
+                } ${cy + radius * Math.sin(end)}`,
+                "Z",
+              ].join(" ")}
+              fill={slice.color}
+              stroke="#ffffff"
+              strokeWidth={2}
+            />
+          );
+
+        return (
+          <g key={slice.row.id}>
+            {shape}
+            {showValues && percent >= 5 && (
+              <text
+                x={cx + radius * 0.62 * Math.cos(mid)}
+                y={cy + radius * 0.62 * Math.sin(mid)}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fontSize={12}
+                fontWeight={600}
+                fill={getContrastTextColor(slice.color)}
+              >
+                {percent}%
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </>
+  );
+};
+
+interface ChartViewProps {
+  content: ChartContent;
+}
+
+export const ChartView: React.FC<ChartViewProps> = ({ content }) => {
+  const { theme } = useTheme();
+  const settings = getChartSettings(content);
+  const [isTableOpen, setIsTableOpen] = useState(settings.showDataTable);
+  useEffect(() => {
+    setIsTableOpen(settings.showDataTable);
+  }, [settings.showDataTable]);
+  const titleId = useId();
+  const descId = useId();
+
+  const isPie = content.chartType === "pie";
+  const series = isPie ? content.series.slice(0, 1) : content.series;
+  const colors = getChartPalette(
+    theme,
+    isPie ? content.rows.length : content.series.length
+  );
+  const legendItems = isPie
+    ? content.rows.map((row, i) => ({
+        id: row.id,
+        label: row.label,
+        color: colors[i],
+      }))
+    : content.series.map((s, i) => ({
+        id: s.id,
+        label: s.name,
+        color: colors[i],
+      }));
+
+  const chartProps: ChartShapeProps = {
+    content,
+    colors,
+    showValues: settings.showValues,
+  };
+
+  return (
+    <figure className="w-full">
+      {content.title && (
+        <h3 className="mb-3 text-lg font-semibold text-slate-900">
+          {content.title}
+        </h3>
+      )}
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-auto w-full"
+        role="img"
+        aria-labelledby={titleId}
+        aria-describedby={content.description ? descId : undefined}
+      >
+        <title id={titleId}>
+          {content.title || "Chart"} (data table available below)
+        </title>
+        {content.description && <desc id={descId}>{content.description}</desc>}
+        {content.chartType === "bar" && <BarChart {...chartProps} />}
+        {content.chartType === "line" && <LineChart {...chartProps} />}
+        {isPie && <PieChart {...chartProps} />}
+      </svg>
+
+      {settings.showLegend && legendItems.length > 0 && (
+        <ul className="mt-3 flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-slate-700">
+          {legendItems.map((item) => (
+            <li key={item.id} className="inline-flex items-center gap-2">
+              <span
+                className="h-3 w-3 rounded-sm"
+                style={{ backgroundColor: item.color }}
+                aria-hidden="true"
+              />
+              {item.label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {content.description && (
+        <figcaption className="mt-3 text-sm text-slate-600">
+          {content.description}
+        </figcaption>
+      )}
+
+      <div className="mt-4">
+        <button
+          type="button"
+          onClick={() => setIsTableOpen((open) => !open)}
+          aria-expanded={isTableOpen}
+          className="inline-flex items-center gap-2 text-xs font-medium text-slate-600 hover:text-slate-900"
+        >
+          <Table className="h-4 w-4" />
+          {isTableOpen ? "Hide data table" : "Show data table"}
+        </button>
+
+        {/* Always in the DOM so screen readers can reach the data */}
+        <div className={isTableOpen ? "mt-2 overflow-x-auto" : "sr-only"}>
+          <table className="w-full border-collapse text-sm">
+            <caption className="sr-only">
+              {content.title || "Chart data"}
+            </caption>
+            <thead>
+              <tr className="bg-slate-50">
+                <th
+                  scope="col"
+                  className="border border-slate-200 px-3 py-2 text-left font-semibold text-slate-700"
+                >
+                  {content.xAxisLabel || "Label"}
+                </th>
+                {series.map((s) => (
+                  <th
+                    key={s.id}
+                    scope="col"
+                    className="border border-slate-200 px-3 py-2 text-right font-semibold text-slate-700"
+                  >
+                    {s.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {content.rows.map((row) => (
+                <tr key={row.id}>
+                  <th
+                    scope="row"
+                    className="border border-slate-200 px-3 py-2 text-left font-normal text-slate-700"
+                  >
+                    {row.label}
+                  </th>
+                  {series.map((s, i) => (
+                    <td
+                      key={s.id}
+                      className="border border-slate-200 px-3 py-2 text-right tabular-nums text-slate-800"
+                    >
+                      {formatChartValue(row.values[i] ?? null)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </figure>
+  );
+};
+
+export default ChartView;
@@ -0,0 +1,34 @@
+// src/components/blocks/chart/chart-types.ts
+// Types for the Chart content block
+
+export type ChartType = "bar" | "line" | "pie";
+
+// One row of the data grid: a category label plus one value per series
+export interface ChartRow {
+  id: string; // e.g. "row-1"
+  label: string;
+  values: (number | null)[]; // same length as ChartContent.series
+}
+
+export interface ChartSeries {
+  id: string; // e.g. "series-1"
+  name: string;
+}
+
+export interface ChartSettings {
+  showLegend?: boolean; // default true
+  showValues?: boolean; // print values on bars / points / slices, default false
+  showDataTable?: boolean; // show the data table open by default, default false
+}
+
+export interface ChartContent {
+  chartType: ChartType;
+  title: string;
+  description?: string; // shown below the chart and used as the SVG description
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  // Pie charts only plot the first series
+  series: ChartSeries[];
+  rows: ChartRow[];
+  settings?: ChartSettings;
+}
@@ -0,0 +1,177 @@
+// src/components/blocks/chart/chart-utils.ts
+// Defaults, colours and scale helpers for Chart blocks
+
+import type { ChartContent, ChartSettings, ChartType } from "./chart-types";
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: "Bar chart",
+  line: "Line chart",
+  pie: "Pie chart",
+};
+
+export const DEFAULT_CHART_SETTINGS: Required<ChartSettings> = {
+  showLegend: true,
+  showValues: false,
+  showDataTable: false,
+};
+
+export function getChartSettings(
+  content: ChartContent
+): Required<ChartSettings> {
+  return { ...DEFAULT_CHART_SETTINGS, ...(content.settings ?? {}) };
+}
+
+export function getDefaultChartContent(chartType: ChartType): ChartContent {
+  if (chartType === "pie") {
+    return {
+      chartType,
+      title: "Incidents by type",
+      description: "",
+      series: [{ id: "series-1", name: "Incidents" }],
+      rows: [
+        { id: "row-1", label: "Slips and trips", values: [12] },
+        { id: "row-2", label: "Manual handling", values: [8] },
+        { id: "row-3", label: "Struck by object", values: [5] },
+      ],
+      settings: { ...DEFAULT_CHART_SETTINGS, showValues: true },
+    };
+  }
+
+  return {
+    chartType,
+    title: "Reported incidents",
+    description: "",
+    xAxisLabel: "Quarter",
+    yAxisLabel: "Incidents",
+    series: [
+      { id: "series-1", name: "Site A" },
+      { id: "series-2", name: "Site B" },
+    ],
+    rows: [
+      { id: "row-1", label: "Q1", values: [12, 9] },
+      { id: "row-2", label: "Q2", values: [10, 7] },
+      { id: "row-3", label: "Q3", values: [7, 6] },
+      { id: "row-4", label: "Q4", values: [4, 5] },
+    ],
+    settings: { ...DEFAULT_CHART_SETTINGS },
+  };
+}
+
+// Portal theme colours (see theme/ThemeProvider.tsx)
+export interface ChartThemeColors {
+  primary: string;
+  secondary: string;
+  accent: string;
+  neutral: string;
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value =
+    match[1].length === 3
+      ? match[1]
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : match[1];
+  const num = parseInt(value, 16);
+  return [(num >> 16) & 255, (num >> 8) & 255, num & 255];
+}
+
+// Blend a colour towards white (amount 0..1)
+function tint(hex: string, amount: number): string {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return hex;
+  const [r, g, b] = rgb.map((c) => Math.round(c + (255 - c) * amount));
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Series colours built from the portal theme: the three brand colours first,
+ * then lighter tints of them so larger charts stay on-brand.
+ */
+export function getChartPalette(
+  theme: ChartThemeColors,
+  count: number
+): string[] {
+  const base = [theme.primary, theme.secondary, theme.accent];
+  const palette: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const round = Math.floor(i / base.length);
+    palette.push(tint(base[i % base.length], Math.min(0.75, round * 0.35)));
+  }
+  return palette;
+}
+
+// Readable text colour for labels drawn on top of a fill colour
+export function getContrastTextColor(hex: string): string {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return "#ffffff";
+  const [r, g, b] = rgb;
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? "#0f172a" : "#ffffff";
+}
+
+// Parse a grid cell; blank or non-numeric input becomes null
+export function parseChartValue(raw: string): number | null {
+  const cleaned = raw.replace(/[, ]/g, "").trim();
+  if (!cleaned) return null;
+  const num = Number(cleaned);
+  return Number.isFinite(num) ? num : null;
+}
+
+export function formatChartValue(value: number | null): string {
+  if (value === null) return "–";
+  return Number.isInteger(value)
+    ? value.toLocaleString()
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Axis ticks from 0 (or the data minimum when negative) to a "nice" maximum.
+ */
+export function getNiceTicks(
+  minValue: number,
+  maxValue: number,
+  targetCount = 5
+): number[] {
+  const min = Math.min(0, minValue);
+  const max = Math.max(0, maxValue);
+  if (min === max) return [0, 1];
+
+  const rawStep = (max - min) / targetCount;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step =
+    [1, 2, 2.5, 5, 10].map((m) => m * magnitude).find((s) => s >= rawStep) ??
+    10 * magnitude;
+
+  const ticks: number[] = [];
+  for (
+    let tick = Math.floor(min / step) * step;
+    tick <= Math.ceil(max / step) * step + step / 2;
+    tick += step
+  ) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+  return ticks;
+}
+
+// Plain-text summary used for block metadata / AI tagging
+export function summariseChart(content: ChartContent): string {
+  const lines = [
+    `${CHART_TYPE_LABELS[content.chartType] ?? "Chart"}: ${content.title ?? ""}`,
+  ];
+  const series =
+    content.chartType === "pie" ? content.series.slice(0, 1) : content.series;
+  lines.push(`Columns: ${["Label", ...series.map((s) => s.name)].join(", ")}`);
+  content.rows.forEach((row) => {
+    lines.push(
+      [
+        row.label,
+        ...series.map((_, i) => formatChartValue(row.values[i] ?? null)),
+      ].join(", ")
+    );
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,13 @@
+export { ChartView } from "./ChartView";
+export { default as ChartEditor } from "./ChartEditor";
+export { ChartBlock } from "./ChartBlock";
+
+export type {
+  ChartContent,
+  ChartRow,
+  ChartSeries,
+  ChartSettings,
+  ChartType,
+} from "./chart-types";
+
+export { getDefaultChartContent, summariseChart } from "./chart-utils";
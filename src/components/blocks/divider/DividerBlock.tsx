@@ -0,0 +1,469 @@
+import React, { useState } from "react";
+import {
+  ChevronUp,
+  ChevronDown,
+  Copy,
+  BookmarkPlus,
+  Trash2,
+  PanelsLeftRight,
+  Palette,
+  Stars,
+  Database,
+  SlidersHorizontal,
+} from "lucide-react";
+import { BlockStyleMenu, type BlockStyle } from "../BlockStyleMenu";
+import {
+  BlockWrapper,
+  FormatPanel,
+  AppearancePanel,
+  BlockMetadataPopover,
+  getBlockStyleClasses,
+} from "../shared/LessonBuilderInternals";
+import {
+  DEFAULT_BLOCK_LAYOUT,
+  hasBlockMetadata,
+  type BlockLayout,
+  type BlockMetadata,
+} from "../../../types/blocks";
+import type {
+  AnimationDuration,
+  BlockAnimation,
+  LessonBlock,
+} from "../../../../pages/admin/content/LessonBuilder";
+import { DividerView } from "./DividerView";
+import {
+  DIVIDER_VARIANT_LABELS,
+  type DividerContent,
+  type DividerVariant,
+} from "./divider-types";
+
+const LINE_STYLE_OPTIONS: NonNullable<DividerContent["lineStyle"]>[] = [
+  "solid",
+  "dashed",
+  "dotted",
+];
+
+const SPACER_SIZE_OPTIONS: NonNullable<DividerContent["spacerSize"]>[] = [
+  "S",
+  "M",
+  "L",
+];
+
+const optionClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-md border text-xs font-medium capitalize transition-colors ${
+    active
+      ? "border-[#ff7a00] bg-orange-50 text-[#ff7a00]"
+      : "border-slate-200 text-slate-600 hover:border-slate-300"
+  }`;
+
+// DividerBlock component - line, spacer or numbered step between sections
+interface DividerBlockProps {
+  block: LessonBlock;
+  onChange: (updated: LessonBlock) => void;
+  onStyleChange: (style: BlockStyle, customBackgroundColor?: string) => void;
+  onLayoutChange: (layout: BlockLayout) => void;
+  onMetadataChange: (metadata: BlockMetadata) => void;
+  onMblMetadataCleared: () => void;
+  onMblMetadataUpdated: (mblMetadata: unknown) => void;
+  onAnimationChange: (animation: BlockAnimation) => void;
+  onDurationChange: (duration: AnimationDuration) => void;
+  onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
+  onDelete: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  isFormatPanelOpen: boolean;
+  onToggleFormatPanel: () => void;
+  isMetadataPanelOpen: boolean;
+  onToggleMetadataPanel: () => void;
+  isAppearancePanelOpen: boolean;
+  onToggleAppearancePanel: () => void;
+  moduleId?: string | null;
+  pageId?: string | null;
+}
+
+export const DividerBlock: React.FC<DividerBlockProps> = ({
+  block,
+  onChange,
+  onStyleChange,
+  onLayoutChange,
+  onMetadataChange,
+  onMblMetadataCleared,
+  onMblMetadataUpdated,
+  onAnimationChange,
+  onDurationChange,
+  onDuplicate,
+  onSaveToLibrary,
+  onDelete,
+  onMoveUp,
+  onMoveDown,
+  canMoveUp,
+  canMoveDown,
+  isFormatPanelOpen,
+  onToggleFormatPanel,
+  isMetadataPanelOpen,
+  onToggleMetadataPanel,
+  isAppearancePanelOpen,
+  onToggleAppearancePanel,
+  moduleId,
+  pageId,
+}) => {
+  const [styleMenuOpen, setStyleMenuOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  // Check if this block has metadata set
+  const blockHasMetadata = hasBlockMetadata(block.metadata);
+
+  const dividerContent = block.content as unknown as DividerContent;
+  const variant = dividerContent.variant ?? "line";
+
+  const handleContentChange = (patch: Partial<DividerContent>) => {
+    onChange({
+      ...block,
+      content: {
+        ...block.content,
+        ...patch,
+      },
+    });
+  };
+
+  // Compute inline background color for custom style
+  const inlineBackgroundColor =
+    block.style === "custom" && block.customBackgroundColor
+      ? block.customBackgroundColor
+      : undefined;
+
+  // Use block layout or fallback to defaults
+  const layout = block.layout || DEFAULT_BLOCK_LAYOUT;
+
+  return (
+    <div className="w-full group">
+      <div
+        className={`
+          relative w-full transition-all duration-300 ease-in-out
+          ${getBlockStyleClasses(block.style)}
+        `}
+        style={
+          inlineBackgroundColor
+            ? { backgroundColor: inlineBackgroundColor }
+            : undefined
+        }
+      >
+        {/* LEFT GUTTER TOOLBAR */}
+        <div className="absolute left-4 top-6 flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 shadow-md z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+          {/* Layout / Format */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleFormatPanel();
+            }}
+            aria-label="Block format"
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              isFormatPanelOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+          >
+            <PanelsLeftRight className="h-4 w-4" />
+          </button>
+
+          {/* Style (palette) */}
+          <button
+            type="button"
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              styleMenuOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+            title="Block style"
+            onClick={(e) => {
+              e.stopPropagation();
+              setStyleMenuOpen((prev) => !prev);
+            }}
+          >
+            <Palette className="h-4 w-4" />
+          </button>
+
+          {/* Divider settings */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              setSettingsOpen((prev) => !prev);
+            }}
+            aria-label="Divider settings"
+            title="Divider settings"
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              settingsOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </button>
+
+          {/* Appearance (animation) */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleAppearancePanel();
+            }}
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              isAppearancePanelOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : block.content.animation && block.content.animation !== "none"
+                  ? "text-purple-500 bg-purple-50"
+                  : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+            title="Block animation"
+          >
+            <Stars className="h-4 w-4" />
+          </button>
+
+          {/* Block metadata */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleMetadataPanel();
+            }}
+            aria-label="Block metadata (learning fingerprint)"
+            title="Block metadata (learning fingerprint)"
+            className={`relative inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              isMetadataPanelOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+          >
+            <Database className="h-4 w-4" />
+            {blockHasMetadata && !isMetadataPanelOpen && (
+              <span
+                className="pointer-events-none absolute -top-0.5 -right-0.5 h-2 w-2 rounded-full bg-[#ff7a00] ring-2 ring-white shadow-sm"
+                aria-hidden="true"
+              />
+            )}
+          </button>
+        </div>
+
+        {/* RIGHT GUTTER TOOLBAR */}
+        <div className="absolute right-4 top-6 flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 shadow-md z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+          {canMoveUp && (
+            <button
+              type="button"
+              onClick={onMoveUp}
+              aria-label="Move block up"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </button>
+          )}
+
+          {canMoveDown && (
+            <button
+              type="button"
+              onClick={onMoveDown}
+              aria-label="Move block down"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={onDuplicate}
+            aria-label="Duplicate block"
+            className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+          >
+            <Copy className="h-4 w-4" />
+          </button>
+
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={onDelete}
+            aria-label="Delete block"
+            className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-red-500 hover:bg-slate-50 rounded-full transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* Format Panel */}
+        {isFormatPanelOpen && (
+          <FormatPanel
+            layout={layout}
+            onChange={onLayoutChange}
+            onClose={onToggleFormatPanel}
+          />
+        )}
+
+        {/* Metadata Panel */}
+        {isMetadataPanelOpen && (
+          <BlockMetadataPopover
+            metadata={block.metadata}
+            onChange={onMetadataChange}
+            onClose={onToggleMetadataPanel}
+            blockId={block.id}
+            blockType={block.type}
+            blockContent={DIVIDER_VARIANT_LABELS[variant]}
+            savedToDb={block.savedToDb}
+            mblMetadata={block.mblMetadata}
+            onMblMetadataCleared={onMblMetadataCleared}
+            onMblMetadataUpdated={onMblMetadataUpdated}
+          />
+        )}
+
+        {/* Block Style Menu */}
+        <BlockStyleMenu
+          open={styleMenuOpen}
+          onClose={() => setStyleMenuOpen(false)}
+          style={block.style}
+          customBackgroundColor={block.customBackgroundColor}
+          onChange={(newStyle, customColor) => {
+            onStyleChange(newStyle, customColor);
+            if (newStyle !== "custom") {
+              setStyleMenuOpen(false);
+            }
+          }}
+          className="top-14 left-4"
+        />
+
+        {/* Appearance/Animation Panel */}
+        {isAppearancePanelOpen && (
+          <AppearancePanel
+            animation={block.content.animation ?? "none"}
+            duration={block.content.animationDuration ?? "normal"}
+            onChange={onAnimationChange}
+            onDurationChange={onDurationChange}
+            onClose={onToggleAppearancePanel}
+          />
+        )}
+
+        {/* Divider Settings Panel */}
+        {settingsOpen && (
+          <div
+            className="absolute top-14 left-4 z-20 w-72 space-y-4 rounded-xl border border-slate-200 bg-white p-4 text-slate-800 shadow-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="space-y-1.5">
+              <p className="text-xs font-semibold text-slate-700">Type</p>
+              <div className="flex flex-wrap gap-1.5">
+                {(Object.keys(DIVIDER_VARIANT_LABELS) as DividerVariant[]).map(
+                  (option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => handleContentChange({ variant: option })}
+                      className={optionClass(option === variant)}
+                    >
+                      {DIVIDER_VARIANT_LABELS[option]}
+                    </button>
+                  )
+                )}
+              </div>
+            </div>
+
+            {variant === "line" && (
+              <div className="space-y-1.5">
+                <p className="text-xs font-semibold text-slate-700">
+                  Line style
+                </p>
+                <div className="flex gap-1.5">
+                  {LINE_STYLE_OPTIONS.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => handleContentChange({ lineStyle: option })}
+                      className={optionClass(
+                        option === (dividerContent.lineStyle ?? "solid")
+                      )}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {variant === "spacer" && (
+              <div className="space-y-1.5">
+                <p className="text-xs font-semibold text-slate-700">Size</p>
+                <div className="flex gap-1.5">
+                  {SPACER_SIZE_OPTIONS.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() =>
+                        handleContentChange({ spacerSize: option })
+                      }
+                      className={optionClass(
+                        option === (dividerContent.spacerSize ?? "M")
+                      )}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {variant === "numbered" && (
+              <div className="grid grid-cols-[5rem_1fr] gap-2">
+                <label className="space-y-1">
+                  <span className="text-xs font-semibold text-slate-700">
+                    Step
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={dividerContent.stepNumber ?? 1}
+                    onChange={(e) =>
+                      handleContentChange({
+                        stepNumber: Math.max(1, Number(e.target.value) || 1),
+                      })
+                    }
+                    className="w-full rounded-md border border-slate-200 px-2 py-1 text-sm"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs font-semibold text-slate-700">
+                    Label
+                  </span>
+                  <input
+                    type="text"
+                    value={dividerContent.stepLabel ?? ""}
+                    onChange={(e) =>
+                      handleContentChange({ stepLabel: e.target.value })
+                    }
+                    placeholder="Optional"
+                    className="w-full rounded-md border border-slate-200 px-2 py-1 text-sm"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* INNER CONTENT COLUMN - Divider preview */}
+        <BlockWrapper layout={layout}>
+          <DividerView content={dividerContent} mode="builder" />
+        </BlockWrapper>
+      </div>
+    </div>
+  );
+};
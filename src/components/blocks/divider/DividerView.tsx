@@ -0,0 +1,76 @@
+// src/components/blocks/divider/DividerView.tsx
+// Renders a Divider block (line, spacer or numbered step marker)
+
+import React from "react";
+import type { DividerContent } from "./divider-types";
+
+const SPACER_HEIGHTS: Record<
+  NonNullable<DividerContent["spacerSize"]>,
+  string
+> = {
+  S: "h-6",
+  M: "h-12",
+  L: "h-24",
+};
+
+const LINE_STYLES: Record<NonNullable<DividerContent["lineStyle"]>, string> = {
+  solid: "border-solid",
+  dashed: "border-dashed",
+  dotted: "border-dotted",
+};
+
+interface DividerViewProps {
+  content: DividerContent;
+  // Builder shows an outline so empty spacers stay visible
+  mode?: "learner" | "builder";
+}
+
+export const DividerView: React.FC<DividerViewProps> = ({
+  content,
+  mode = "learner",
+}) => {
+  const variant = content?.variant ?? "line";
+
+  if (variant === "spacer") {
+    return (
+      <div
+        aria-hidden="true"
+        className={`${SPACER_HEIGHTS[content.spacerSize ?? "M"]} ${
+          mode === "builder"
+            ? "rounded border border-dashed border-current opacity-30"
+            : ""
+        }`}
+      />
+    );
+  }
+
+  if (variant === "numbered") {
+    const stepNumber = content.stepNumber ?? 1;
+    return (
+      <div className="flex items-center gap-4" role="separator">
+        <div className="flex-1 border-t border-current opacity-30" />
+        <div className="flex items-center gap-3">
+          <span className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-orange-500 text-sm font-semibold text-white">
+            {stepNumber}
+          </span>
+          {content.stepLabel && (
+            <span className="text-sm font-semibold uppercase tracking-wide">
+              {content.stepLabel}
+            </span>
+          )}
+        </div>
+        <div className="flex-1 border-t border-current opacity-30" />
+      </div>
+    );
+  }
+
+  return (
+    <hr
+      className={`border-0 border-t-2 border-current opacity-30 ${
+        LINE_STYLES[content.lineStyle ?? "solid"]
+      }`}
+    />
+  );
+};
+
+export default DividerView;
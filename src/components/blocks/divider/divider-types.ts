@@ -0,0 +1,28 @@
+// src/components/blocks/divider/divider-types.ts
+// Types and defaults for the Divider content block
+
+import type { DividerBlock } from "../../../types/blocks";
+
+export type DividerContent = DividerBlock["content"];
+
+export type DividerVariant = DividerContent["variant"];
+
+export const DIVIDER_VARIANT_LABELS: Record<DividerVariant, string> = {
+  line: "Line",
+  spacer: "Spacer",
+  numbered: "Numbered step",
+};
+
+export function getDefaultDividerContent(
+  variant: DividerVariant
+): DividerContent {
+  switch (variant) {
+    case "spacer":
+      return { variant, spacerSize: "M" };
+    case "numbered":
+      return { variant, stepNumber: 1, stepLabel: "" };
+    case "line":
+    default:
+      return { variant: "line", lineStyle: "solid" };
+  }
+}
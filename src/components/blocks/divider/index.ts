@@ -0,0 +1,9 @@
+export { DividerView } from "./DividerView";
+export { DividerBlock } from "./DividerBlock";
+
+export type { DividerContent, DividerVariant } from "./divider-types";
+
+export {
+  DIVIDER_VARIANT_LABELS,
+  getDefaultDividerContent,
+} from "./divider-types";
@@ -3,6 +3,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Palette,
   PanelsLeftRight,
@@ -52,6 +53,7 @@ interface ImageCenteredBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -77,6 +79,7 @@ export const ImageCenteredBlock: React.FC<ImageCenteredBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -352,6 +355,21 @@ export const ImageCenteredBlock: React.FC<ImageCenteredBlockProps> = ({
             <Copy className="h-4 w-4" />
           </button>
 
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSaveToLibrary();
+              }}
+              className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+              aria-label="Save block to library"
+              title="Save to library"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
           {/* Delete */}
           <button
             type="button"
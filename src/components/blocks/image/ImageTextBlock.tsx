@@ -3,6 +3,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Palette,
   PanelsLeftRight,
@@ -61,6 +62,7 @@ interface ImageTextBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -86,6 +88,7 @@ export const ImageTextBlock: React.FC<ImageTextBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -487,6 +490,20 @@ export const ImageTextBlock: React.FC<ImageTextBlockProps> = ({
           >
             <Copy className="h-4 w-4" />
           </button>
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSaveToLibrary();
+              }}
+              className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+              aria-label="Save block to library"
+              title="Save to library"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
           <button
             type="button"
             onClick={(e) => {
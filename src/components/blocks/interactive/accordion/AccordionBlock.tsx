@@ -3,6 +3,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Minus,
   Palette,
@@ -16,6 +17,7 @@ import TipTapEditor from "../../../editor/TipTapEditor";
 import type { AccordionContent, AccordionItem } from "./accordion-types";
 import type { LessonBlock } from "../../../../../pages/admin/content/LessonBuilder";
 import { supabase } from "../../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../../lib/api/xapi";
 import { ImageUploadAndLibrary } from "../../../media";
 import type { MediaAsset } from "../../../../lib/mediaAssets";
 import {
@@ -88,6 +90,7 @@ type AccordionBlockProps = {
   onAnimationChange?: (animation: BlockAnimation) => void;
   onDurationChange?: (duration: AnimationDuration) => void;
   onDuplicate?: () => void;
+  onSaveToLibrary?: () => void;
   onDelete?: () => void;
   onMoveUp?: () => void;
   onMoveDown?: () => void;
@@ -144,6 +147,7 @@ export const AccordionBlock: React.FC<AccordionBlockProps> = (props) => {
     onAnimationChange,
     onDurationChange,
     onDuplicate,
+    onSaveToLibrary,
     onDelete,
     onMoveUp,
     onMoveDown,
@@ -235,6 +239,8 @@ export const AccordionBlock: React.FC<AccordionBlockProps> = (props) => {
             "LEARNING EVENT INSERT ERROR (accordion_started)",
             error
           );
+        } else {
+          void recordLearningEventStatements(payload);
         }
       } catch (err) {
         console.error("Failed to save accordion_started learning event:", err);
@@ -324,6 +330,8 @@ export const AccordionBlock: React.FC<AccordionBlockProps> = (props) => {
             "LEARNING EVENT INSERT ERROR (accordion_toggle)",
             error
           );
+        } else {
+          void recordLearningEventStatements(payload);
         }
       } catch (err) {
         console.error("Failed to save accordion_toggle learning event:", err);
@@ -523,6 +531,17 @@ export const AccordionBlock: React.FC<AccordionBlockProps> = (props) => {
                 <Copy className="h-4 w-4" />
               </button>
 
+              {onSaveToLibrary && (
+                <button
+                  type="button"
+                  onClick={onSaveToLibrary}
+                  aria-label="Save block to library"
+                  className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+                >
+                  <BookmarkPlus className="h-4 w-4" />
+                </button>
+              )}
+
               <button
                 type="button"
                 onClick={onDelete}
@@ -3,6 +3,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Palette,
   PanelsLeftRight,
@@ -13,6 +14,7 @@ import {
   X,
 } from "lucide-react";
 import { supabase } from "../../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../../lib/api/xapi";
 import { ImageUploadAndLibrary } from "../../../media";
 import type { MediaAsset } from "../../../../lib/mediaAssets";
 import { BlockStyleMenu, type BlockStyle } from "../../BlockStyleMenu";
@@ -70,6 +72,7 @@ interface FlashcardsBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -167,6 +170,7 @@ const FlashcardsBlockInternal: React.FC<FlashcardsBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -513,6 +517,20 @@ const FlashcardsBlockInternal: React.FC<FlashcardsBlockProps> = ({
           >
             <Copy className="h-4 w-4" />
           </button>
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSaveToLibrary();
+              }}
+              className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+              aria-label="Save block to library"
+              title="Save to library"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
           <button
             type="button"
             onClick={(e) => {
@@ -1231,6 +1249,7 @@ const FlashcardsPreviewInternal: React.FC<{
         console.error("LEARNING EVENT INSERT ERROR", error);
       } else {
         console.log("Saved learning event to DB", data);
+        void recordLearningEventStatements(payload);
       }
     } catch (err) {
       console.error("Failed to save learning event:", err);
@@ -1333,6 +1352,7 @@ const FlashcardsPreviewInternal: React.FC<{
               rows.length,
               "rows"
             );
+            void recordLearningEventStatements(rows);
           }
         });
     };
@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { GripVertical } from "lucide-react";
 import { supabase } from "../../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../../lib/api/xapi";
 import type {
   ImageCompareContent,
   ImageCompareSettings,
@@ -135,6 +136,8 @@ export const ImageCompareLearner: React.FC<ImageCompareLearnerProps> = ({
             "LEARNING EVENT INSERT ERROR (image_compare_started)",
             error
           );
+        } else {
+          void recordLearningEventStatements(payload);
         }
       } catch (err) {
         console.error("Failed to save image_compare_started learning event:", err);
@@ -194,6 +197,8 @@ export const ImageCompareLearner: React.FC<ImageCompareLearnerProps> = ({
               "LEARNING EVENT INSERT ERROR (image_compare_interacted)",
               error
             );
+          } else {
+            void recordLearningEventStatements(payload);
           }
         } catch (err) {
           console.error(
@@ -240,6 +245,8 @@ export const ImageCompareLearner: React.FC<ImageCompareLearnerProps> = ({
               "LEARNING EVENT INSERT ERROR (image_compare_completed)",
               error
             );
+          } else {
+            void recordLearningEventStatements(payload);
           }
         } catch (err) {
           console.error(
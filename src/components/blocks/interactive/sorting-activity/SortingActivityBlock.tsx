@@ -3,6 +3,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Palette,
   PanelsLeftRight,
@@ -65,6 +66,7 @@ interface SortingActivityBlockInternalProps {
   onAnimationChange?: (animation: BlockAnimation) => void;
   onDurationChange?: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -91,6 +93,7 @@ const SortingActivityBlockInternal: React.FC<
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -309,6 +312,20 @@ const SortingActivityBlockInternal: React.FC<
         >
           <Copy className="h-4 w-4" />
         </button>
+        {onSaveToLibrary && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSaveToLibrary();
+            }}
+            className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+            aria-label="Save block to library"
+            title="Save to library"
+          >
+            <BookmarkPlus className="h-4 w-4" />
+          </button>
+        )}
         <button
           type="button"
           onClick={(e) => {
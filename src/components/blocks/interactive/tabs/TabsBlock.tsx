@@ -3,6 +3,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Palette,
   PanelsLeftRight,
@@ -48,6 +49,7 @@ type TabsBlockProps = {
   onAnimationChange?: (animation: BlockAnimation) => void;
   onDurationChange?: (duration: AnimationDuration) => void;
   onDuplicate?: () => void;
+  onSaveToLibrary?: () => void;
   onDelete?: () => void;
   onMoveUp?: () => void;
   onMoveDown?: () => void;
@@ -117,6 +119,7 @@ export const TabsBlock: React.FC<TabsBlockProps> = (props) => {
     onAnimationChange,
     onDurationChange,
     onDuplicate,
+    onSaveToLibrary,
     onDelete,
     onMoveUp,
     onMoveDown,
@@ -279,6 +282,16 @@ export const TabsBlock: React.FC<TabsBlockProps> = (props) => {
             >
               <Copy className="h-4 w-4" />
             </button>
+            {onSaveToLibrary && (
+              <button
+                type="button"
+                onClick={onSaveToLibrary}
+                aria-label="Save block to library"
+                className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </button>
+            )}
             <button
               type="button"
               onClick={onDelete}
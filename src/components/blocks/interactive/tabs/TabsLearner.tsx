@@ -2,6 +2,7 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import RichTextViewer from "../../../RichTextViewer";
 import type { TabsContent, TabsStyle } from "./tabs-types";
 import { supabase } from "../../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../../lib/api/xapi";
 
 export type TabsLearnerProps = {
   content: TabsContent;
@@ -153,6 +154,8 @@ export const TabsLearner: React.FC<TabsLearnerProps> = ({
         const { error } = await supabase.from("learning_events").insert(payload);
         if (error) {
           console.error("LEARNING EVENT INSERT ERROR (tabs_started)", error);
+        } else {
+          void recordLearningEventStatements(payload);
         }
       } catch (err) {
         console.error("Failed to save tabs_started learning event:", err);
@@ -230,6 +233,8 @@ export const TabsLearner: React.FC<TabsLearnerProps> = ({
             "LEARNING EVENT INSERT ERROR (tabs_tab_viewed)",
             error
           );
+        } else {
+          void recordLearningEventStatements(payload);
         }
       } catch (err) {
         console.error("Failed to save tabs_tab_viewed learning event:", err);
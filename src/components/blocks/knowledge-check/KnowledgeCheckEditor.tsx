@@ -0,0 +1,407 @@
+// src/components/blocks/knowledge-check/KnowledgeCheckEditor.tsx
+// Editor component for Knowledge Check blocks in the LessonBuilder
+
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import type {
+  KnowledgeCheckContent,
+  KnowledgeCheckOption,
+  KnowledgeCheckQuestionType,
+  KnowledgeCheckSettings,
+} from "./knowledge-check-types";
+import {
+  KNOWLEDGE_CHECK_TYPE_LABELS,
+  getDefaultKnowledgeCheckContent,
+  getKnowledgeCheckSettings,
+} from "./knowledge-check-utils";
+
+interface KnowledgeCheckEditorProps {
+  blockId: string;
+  content: KnowledgeCheckContent;
+  onChange: (updatedContent: KnowledgeCheckContent) => void;
+}
+
+/**
+ * KnowledgeCheckEditor
+ *
+ * Editor for knowledge check blocks. Allows admins to:
+ * - Switch the question type
+ * - Edit the question prompt and overall correct / incorrect feedback
+ * - Manage options (text, correct flag, per-option feedback) or accepted answers
+ * - Configure attempts and retry rules
+ */
+const KnowledgeCheckEditor: React.FC<KnowledgeCheckEditorProps> = ({
+  blockId,
+  content,
+  onChange,
+}) => {
+  const questionType = content.questionType ?? "multiple_choice";
+  const options = content.options ?? [];
+  const acceptedAnswers = content.acceptedAnswers ?? [];
+  const settings = getKnowledgeCheckSettings(content);
+  const isFillBlank = questionType === "fill_blank";
+  const isTrueFalse = questionType === "true_false";
+
+  // ---------- Question Type ----------
+
+  const handleQuestionTypeChange = (nextType: KnowledgeCheckQuestionType) => {
+    if (nextType === questionType) return;
+    const defaults = getDefaultKnowledgeCheckContent(nextType);
+
+    // Keep the prompt and feedback; options only carry over between
+    // multiple choice and multiple response
+    const keepOptions =
+      (questionType === "multiple_choice" ||
+        questionType === "multiple_response") &&
+      (nextType === "multiple_choice" || nextType === "multiple_response");
+
+    let nextOptions = keepOptions ? options : defaults.options;
+    if (keepOptions && nextType === "multiple_choice") {
+      // Single answer: keep only the first correct option marked correct
+      const firstCorrectId = options.find((o) => o.isCorrect)?.id;
+      nextOptions = options.map((o) => ({
+        ...o,
+        isCorrect: o.id === firstCorrectId,
+      }));
+    }
+
+    onChange({
+      ...content,
+      questionType: nextType,
+      options: nextOptions,
+      acceptedAnswers:
+        nextType === "fill_blank"
+          ? acceptedAnswers.length > 0
+            ? acceptedAnswers
+            : defaults.acceptedAnswers
+          : acceptedAnswers,
+    });
+  };
+
+  // ---------- Option Handlers ----------
+
+  const updateOption = (
+    optionId: string,
+    patch: Partial<KnowledgeCheckOption>
+  ) => {
+    onChange({
+      ...content,
+      options: options.map((o) => (o.id === optionId ? { ...o, ...patch } : o)),
+    });
+  };
+
+  const handleCorrectChange = (optionId: string) => {
+    if (questionType === "multiple_response") {
+      const option = options.find((o) => o.id === optionId);
+      updateOption(optionId, { isCorrect: !option?.isCorrect });
+      return;
+    }
+    // Single answer question types
+    onChange({
+      ...content,
+      options: options.map((o) => ({ ...o, isCorrect: o.id === optionId })),
+    });
+  };
+
+  const handleAddOption = () => {
+    onChange({
+      ...content,
+      options: [
+        ...options,
+        { id: crypto.randomUUID(), text: "", isCorrect: false },
+      ],
+    });
+  };
+
+  const handleDeleteOption = (optionId: string) => {
+    onChange({
+      ...content,
+      options: options.filter((o) => o.id !== optionId),
+    });
+  };
+
+  // ---------- Accepted Answer Handlers ----------
+
+  const updateAcceptedAnswers = (next: string[]) => {
+    onChange({ ...content, acceptedAnswers: next });
+  };
+
+  // ---------- Settings ----------
+
+  const updateSettings = (patch: Partial<KnowledgeCheckSettings>) => {
+    onChange({ ...content, settings: { ...settings, ...patch } });
+  };
+
+  const hasCorrectAnswer = isFillBlank
+    ? acceptedAnswers.some((a) => a.trim())
+    : options.some((o) => o.isCorrect);
+
+  return (
+    <div className="space-y-6">
+      {/* Question type */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-800">Question type</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {(
+            Object.keys(
+              KNOWLEDGE_CHECK_TYPE_LABELS
+            ) as KnowledgeCheckQuestionType[]
+          ).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => handleQuestionTypeChange(type)}
+              className={`px-3 py-2 rounded-md border text-xs font-medium transition-colors ${
+                type === questionType
+                  ? "border-[#ff7a00] bg-orange-50 text-[#ff7a00]"
+                  : "border-slate-200 text-slate-600 hover:border-slate-300"
+              }`}
+            >
+              {KNOWLEDGE_CHECK_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Prompt */}
+      <div className="space-y-2">
+        <label
+          htmlFor={`kc-prompt-${blockId}`}
+          className="text-sm font-semibold text-slate-800"
+        >
+          Question
+        </label>
+        <textarea
+          id={`kc-prompt-${blockId}`}
+          value={content.prompt ?? ""}
+          onChange={(e) => onChange({ ...content, prompt: e.target.value })}
+          rows={3}
+          placeholder="Type your question"
+          className="w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200"
+        />
+      </div>
+
+      {/* Options / accepted answers */}
+      {isFillBlank ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-800">
+              Accepted answers
+            </h3>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input
+                type="checkbox"
+                checked={settings.caseSensitive}
+                onChange={(e) =>
+                  updateSettings({ caseSensitive: e.target.checked })
+                }
+              />
+              Case sensitive
+            </label>
+          </div>
+          {acceptedAnswers.map((answer, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={answer}
+                onChange={(e) =>
+                  updateAcceptedAnswers(
+                    acceptedAnswers.map((a, i) =>
+                      i === idx ? e.target.value : a
+                    )
+                  )
+                }
+                placeholder="Accepted answer"
+                className="flex-1 rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  updateAcceptedAnswers(
+                    acceptedAnswers.filter((_, i) => i !== idx)
+                  )
+                }
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                title="Delete answer"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => updateAcceptedAnswers([...acceptedAnswers, ""])}
+            className="inline-flex items-center gap-1 text-xs font-medium text-slate-600 hover:text-[#ff7a00]"
+          >
+            <Plus className="h-4 w-4" />
+            Add accepted answer
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-slate-800">Options</h3>
+            <span className="text-xs text-slate-500">
+              {questionType === "multiple_response"
+                ? "Tick every correct option"
+                : "Select the correct option"}
+            </span>
+          </div>
+          {options.map((option) => (
+            <div
+              key={option.id}
+              className="rounded-md border border-slate-200 bg-white px-3 py-2 space-y-2"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type={
+                    questionType === "multiple_response" ? "checkbox" : "radio"
+                  }
+                  name={`kc-correct-${blockId}`}
+                  checked={option.isCorrect}
+                  onChange={() => handleCorrectChange(option.id)}
+                  aria-label="Correct option"
+                  title="Correct option"
+                />
+                <input
+                  type="text"
+                  value={option.text}
+                  onChange={(e) =>
+                    updateOption(option.id, { text: e.target.value })
+                  }
+                  placeholder="Option text"
+                  disabled={isTrueFalse}
+                  className="flex-1 bg-transparent border-none text-sm text-slate-800 focus:outline-none focus:ring-0 disabled:text-slate-600"
+                />
+                {!isTrueFalse && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteOption(option.id)}
+                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                    title="Delete option"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+              <input
+                type="text"
+                value={option.feedback ?? ""}
+                onChange={(e) =>
+                  updateOption(option.id, { feedback: e.target.value })
+                }
+                placeholder="Feedback when this option is chosen (optional)"
+                className="w-full rounded-md border border-slate-100 bg-slate-50 px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-1 focus:ring-orange-200"
+              />
+            </div>
+          ))}
+          {!isTrueFalse && (
+            <button
+              type="button"
+              onClick={handleAddOption}
+              className="inline-flex items-center gap-1 text-xs font-medium text-slate-600 hover:text-[#ff7a00]"
+            >
+              <Plus className="h-4 w-4" />
+              Add option
+            </button>
+          )}
+        </div>
+      )}
+
+      {!hasCorrectAnswer && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-700">
+            {isFillBlank
+              ? "Add at least one accepted answer."
+              : "Mark at least one option as correct."}
+          </p>
+        </div>
+      )}
+
+      {/* Overall feedback */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-slate-700">
+            Correct feedback
+          </label>
+          <input
+            type="text"
+            value={content.correctFeedback ?? ""}
+            onChange={(e) =>
+              onChange({ ...content, correctFeedback: e.target.value })
+            }
+            className="w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-slate-700">
+            Incorrect feedback
+          </label>
+          <input
+            type="text"
+            value={content.incorrectFeedback ?? ""}
+            onChange={(e) =>
+              onChange({ ...content, incorrectFeedback: e.target.value })
+            }
+            className="w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200"
+          />
+        </div>
+      </div>
+
+      {/* Retry rules */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-800">Attempts</h3>
+        <div className="flex flex-wrap items-center gap-6 text-sm text-slate-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.allowRetry}
+              onChange={(e) => updateSettings({ allowRetry: e.target.checked })}
+            />
+            Allow retry
+          </label>
+          <label className="flex items-center gap-2">
+            Max attempts
+            <input
+              type="number"
+              min={0}
+              value={settings.maxAttempts}
+              disabled={!settings.allowRetry}
+              onChange={(e) =>
+                updateSettings({
+                  maxAttempts: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+              className="w-16 rounded-md border border-slate-200 px-2 py-1 text-sm disabled:bg-slate-50"
+            />
+            <span className="text-xs text-slate-500">(0 = unlimited)</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.showCorrectAnswer}
+              onChange={(e) =>
+                updateSettings({ showCorrectAnswer: e.target.checked })
+              }
+            />
+            Reveal answer after last attempt
+          </label>
+          {!isFillBlank && !isTrueFalse && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.shuffleOptions}
+                onChange={(e) =>
+                  updateSettings({ shuffleOptions: e.target.checked })
+                }
+              />
+              Shuffle options
+            </label>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeCheckEditor;
@@ -0,0 +1,398 @@
+// src/components/blocks/knowledge-check/KnowledgeCheckLearner.tsx
+// Learner-facing component for Knowledge Check (quiz question) blocks
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Check, RotateCcw, X } from "lucide-react";
+import { supabase } from "../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../lib/api/xapi";
+import type {
+  KnowledgeCheckContent,
+  KnowledgeCheckResult,
+} from "./knowledge-check-types";
+import {
+  KNOWLEDGE_CHECK_TYPE_LABELS,
+  getKnowledgeCheckSettings,
+  scoreKnowledgeCheck,
+} from "./knowledge-check-utils";
+
+type LearningEventRow = {
+  user_id: string;
+  module_id: string | null;
+  page_id: string | null;
+  block_id: string;
+  event_type: "knowledge_check_answered" | "knowledge_check_completed";
+  event_time: string;
+  duration_ms: number | null;
+  metadata: Record<string, unknown>;
+};
+
+async function getCurrentUserId(): Promise<string | null> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) {
+    console.warn("Could not fetch current user for learning_events", error);
+    return null;
+  }
+  return data.user?.id ?? null;
+}
+
+/**
+ * Logs a knowledge check event to learning_events (and its xAPI statement).
+ * Fire-and-forget: errors are logged but never block the UI.
+ */
+async function logKnowledgeCheckEvent(
+  row: Omit<LearningEventRow, "user_id">
+): Promise<void> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      console.warn(
+        `No user_id available, skipping learning_events insert (${row.event_type})`
+      );
+      return;
+    }
+
+    const payload: LearningEventRow = { ...row, user_id: userId };
+    const { error } = await supabase.from("learning_events").insert(payload);
+    if (error) {
+      console.error(`LEARNING EVENT INSERT ERROR (${row.event_type})`, error);
+    } else {
+      void recordLearningEventStatements(payload);
+    }
+  } catch (err) {
+    console.error(`Failed to save ${row.event_type} learning event:`, err);
+  }
+}
+
+function shuffle<T>(list: T[]): T[] {
+  const copy = [...list];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+export interface KnowledgeCheckCompletion {
+  isCorrect: boolean;
+  score: number;
+  attempts: number;
+}
+
+interface KnowledgeCheckLearnerProps {
+  moduleId?: string | null;
+  pageId?: string | null;
+  blockId?: string | null;
+  content: KnowledgeCheckContent;
+  onComplete?: (completion: KnowledgeCheckCompletion) => void;
+  mode?: "learner" | "builder";
+}
+
+type Phase = "answering" | "feedback" | "done";
+
+export const KnowledgeCheckLearner: React.FC<KnowledgeCheckLearnerProps> = ({
+  moduleId,
+  pageId,
+  blockId,
+  content,
+  onComplete,
+  mode = "learner",
+}) => {
+  const isBuilderMode = mode === "builder";
+  const settings = getKnowledgeCheckSettings(content);
+  const questionType = content.questionType ?? "multiple_choice";
+  const isFillBlank = questionType === "fill_blank";
+  const isMultiSelect = questionType === "multiple_response";
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [textAnswer, setTextAnswer] = useState("");
+  const [attempts, setAttempts] = useState(0);
+  const [phase, setPhase] = useState<Phase>("answering");
+  const [result, setResult] = useState<KnowledgeCheckResult | null>(null);
+
+  const startedAtMsRef = useRef<number>(Date.now());
+  const lastAttemptAtMsRef = useRef<number>(Date.now());
+  const completedRef = useRef(false);
+
+  const options = useMemo(() => {
+    const list = content.options ?? [];
+    return settings.shuffleOptions && questionType !== "true_false"
+      ? shuffle(list)
+      : list;
+    // Shuffle once per option set, not on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [content.options, settings.shuffleOptions, questionType]);
+
+  // Reset when the author edits the question
+  useEffect(() => {
+    setSelectedIds([]);
+    setTextAnswer("");
+    setAttempts(0);
+    setPhase("answering");
+    setResult(null);
+    completedRef.current = false;
+  }, [content]);
+
+  const hasUnlimitedAttempts = settings.maxAttempts <= 0;
+  const canRetry =
+    settings.allowRetry &&
+    (hasUnlimitedAttempts || attempts < settings.maxAttempts);
+
+  const canSubmit =
+    !isBuilderMode &&
+    phase === "answering" &&
+    (isFillBlank ? textAnswer.trim().length > 0 : selectedIds.length > 0);
+
+  const toggleOption = (optionId: string) => {
+    if (isBuilderMode || phase !== "answering") return;
+    setSelectedIds((prev) => {
+      if (!isMultiSelect) return [optionId];
+      return prev.includes(optionId)
+        ? prev.filter((id) => id !== optionId)
+        : [...prev, optionId];
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+
+    const now = Date.now();
+    const attemptNumber = attempts + 1;
+    const scored = scoreKnowledgeCheck(content, {
+      selectedOptionIds: selectedIds,
+      text: textAnswer,
+    });
+    const outOfAttempts =
+      !settings.allowRetry ||
+      (!hasUnlimitedAttempts && attemptNumber >= settings.maxAttempts);
+    const isFinal = scored.isCorrect || outOfAttempts;
+
+    setAttempts(attemptNumber);
+    setResult(scored);
+    setPhase(isFinal ? "done" : "feedback");
+
+    if (!blockId || !moduleId) {
+      lastAttemptAtMsRef.current = now;
+    } else {
+      const eventTimeIso = new Date(now).toISOString();
+      void logKnowledgeCheckEvent({
+        module_id: moduleId,
+        page_id: pageId ?? null,
+        block_id: blockId,
+        event_type: "knowledge_check_answered",
+        event_time: eventTimeIso,
+        duration_ms: now - lastAttemptAtMsRef.current,
+        metadata: {
+          question_type: questionType,
+          attempt: attemptNumber,
+          max_attempts: settings.maxAttempts,
+          selected_option_ids: selectedIds,
+          response: isFillBlank ? textAnswer.trim() : selectedIds.join(","),
+          isCorrect: scored.isCorrect,
+          scoreScaled: scored.score,
+        },
+      });
+      lastAttemptAtMsRef.current = now;
+
+      if (isFinal) {
+        void logKnowledgeCheckEvent({
+          module_id: moduleId,
+          page_id: pageId ?? null,
+          block_id: blockId,
+          event_type: "knowledge_check_completed",
+          event_time: eventTimeIso,
+          duration_ms: now - startedAtMsRef.current,
+          metadata: {
+            question_type: questionType,
+            attempts: attemptNumber,
+            isCorrect: scored.isCorrect,
+            scoreScaled: scored.score,
+          },
+        });
+      }
+    }
+
+    if (isFinal && !completedRef.current) {
+      completedRef.current = true;
+      onComplete?.({
+        isCorrect: scored.isCorrect,
+        score: scored.score,
+        attempts: attemptNumber,
+      });
+    }
+  };
+
+  const handleRetry = () => {
+    setSelectedIds([]);
+    setTextAnswer("");
+    setResult(null);
+    setPhase("answering");
+  };
+
+  const revealAnswer =
+    phase === "done" && !result?.isCorrect && settings.showCorrectAnswer;
+
+  const getOptionClasses = (optionId: string, isCorrectOption: boolean) => {
+    const isSelected = selectedIds.includes(optionId);
+    if (phase !== "answering") {
+      if (revealAnswer && isCorrectOption) {
+        return "border-green-500 bg-green-50";
+      }
+      if (isSelected) {
+        return result?.isCorrect
+          ? "border-green-500 bg-green-50"
+          : "border-red-400 bg-red-50";
+      }
+      return "border-slate-200 bg-white opacity-70";
+    }
+    return isSelected
+      ? "border-orange-500 bg-orange-50"
+      : "border-slate-200 bg-white hover:border-slate-300";
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto py-4">
+      <div className="text-xs font-semibold uppercase tracking-widest text-slate-500">
+        {KNOWLEDGE_CHECK_TYPE_LABELS[questionType] ?? "Knowledge check"}
+      </div>
+      <p className="mt-2 text-lg font-semibold text-slate-900 whitespace-pre-line">
+        {content.prompt}
+      </p>
+      {isMultiSelect && phase === "answering" && (
+        <p className="mt-1 text-sm text-slate-500">Select all that apply.</p>
+      )}
+
+      {isFillBlank ? (
+        <div className="mt-5">
+          <label className="sr-only" htmlFor={`kc-answer-${blockId ?? "new"}`}>
+            Your answer
+          </label>
+          <input
+            id={`kc-answer-${blockId ?? "new"}`}
+            type="text"
+            value={textAnswer}
+            onChange={(e) => setTextAnswer(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSubmit();
+            }}
+            disabled={isBuilderMode || phase !== "answering"}
+            placeholder="Type your answer"
+            className={`w-full rounded-lg border px-4 py-3 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200 ${
+              phase === "answering"
+                ? "border-slate-300"
+                : result?.isCorrect
+                  ? "border-green-500 bg-green-50"
+                  : "border-red-400 bg-red-50"
+            }`}
+          />
+          {revealAnswer && (content.acceptedAnswers ?? []).length > 0 && (
+            <p className="mt-2 text-sm text-slate-600">
+              Correct answer:{" "}
+              <span className="font-semibold text-slate-800">
+                {(content.acceptedAnswers ?? [])[0]}
+              </span>
+            </p>
+          )}
+        </div>
+      ) : (
+        <div
+          className="mt-5 space-y-3"
+          role={isMultiSelect ? "group" : "radiogroup"}
+          aria-label={content.prompt}
+        >
+          {options.map((option) => {
+            const isSelected = selectedIds.includes(option.id);
+            return (
+              <button
+                key={option.id}
+                type="button"
+                role={isMultiSelect ? "checkbox" : "radio"}
+                aria-checked={isSelected}
+                onClick={() => toggleOption(option.id)}
+                disabled={isBuilderMode || phase !== "answering"}
+                className={`w-full flex items-center gap-3 rounded-lg border px-4 py-3 text-left text-sm text-slate-800 transition-colors ${getOptionClasses(
+                  option.id,
+                  option.isCorrect
+                )}`}
+              >
+                <span
+                  className={`flex h-5 w-5 shrink-0 items-center justify-center border ${
+                    isMultiSelect ? "rounded" : "rounded-full"
+                  } ${
+                    isSelected
+                      ? "border-orange-500 bg-orange-500 text-white"
+                      : "border-slate-300 bg-white"
+                  }`}
+                  aria-hidden="true"
+                >
+                  {isSelected && <Check className="h-3 w-3" />}
+                </span>
+                <span className="flex-1">{option.text}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Feedback */}
+      {result && phase !== "answering" && (
+        <div
+          className={`mt-5 rounded-lg border px-4 py-3 text-sm ${
+            result.isCorrect
+              ? "border-green-200 bg-green-50 text-green-800"
+              : "border-red-200 bg-red-50 text-red-800"
+          }`}
+          role="status"
+        >
+          <div className="flex items-center gap-2 font-semibold">
+            {result.isCorrect ? (
+              <Check className="h-4 w-4" />
+            ) : (
+              <X className="h-4 w-4" />
+            )}
+            {result.isCorrect
+              ? content.correctFeedback || "Correct"
+              : content.incorrectFeedback || "Incorrect"}
+          </div>
+          {result.feedback.map((text, idx) => (
+            <p key={idx} className="mt-1">
+              {text}
+            </p>
+          ))}
+          {phase === "done" && !result.isCorrect && (
+            <p className="mt-1 text-xs">No attempts remaining.</p>
+          )}
+        </div>
+      )}
+
+      <div className="mt-5 flex items-center gap-3">
+        {phase === "answering" && (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="px-5 py-2 rounded-lg text-sm font-semibold bg-orange-500 text-white hover:bg-orange-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Submit
+          </button>
+        )}
+        {phase === "feedback" && canRetry && (
+          <button
+            type="button"
+            onClick={handleRetry}
+            className="inline-flex items-center gap-2 px-5 py-2 rounded-lg text-sm font-semibold border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors"
+          >
+            <RotateCcw className="h-4 w-4" />
+            Try again
+          </button>
+        )}
+        {!hasUnlimitedAttempts && settings.allowRetry && attempts > 0 && (
+          <span className="text-xs text-slate-500">
+            Attempt {attempts} of {settings.maxAttempts}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeCheckLearner;
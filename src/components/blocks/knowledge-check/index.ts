@@ -0,0 +1,11 @@
+// src/components/blocks/knowledge-check/index.ts
+// Export all knowledge check related types and components
+
+export * from "./knowledge-check-types";
+export * from "./knowledge-check-utils";
+export {
+  KnowledgeCheckLearner,
+  default as KnowledgeCheckLearnerDefault,
+} from "./KnowledgeCheckLearner";
+export { default as KnowledgeCheckEditor } from "./KnowledgeCheckEditor";
+export { KnowledgeCheckBlock } from "./KnowledgeCheckBlock";
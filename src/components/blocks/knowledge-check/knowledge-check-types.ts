@@ -0,0 +1,47 @@
+// src/components/blocks/knowledge-check/knowledge-check-types.ts
+// Types for the Knowledge Check (quiz question) content block
+
+export type KnowledgeCheckQuestionType =
+  | "multiple_choice" // one correct option
+  | "multiple_response" // one or more correct options
+  | "true_false"
+  | "fill_blank";
+
+export interface KnowledgeCheckOption {
+  id: string; // e.g. "opt-1"
+  text: string;
+  isCorrect: boolean;
+  feedback?: string; // shown when the learner picks this option
+}
+
+export interface KnowledgeCheckSettings {
+  maxAttempts?: number; // 0 = unlimited, default 2
+  allowRetry?: boolean; // default true
+  showCorrectAnswer?: boolean; // reveal the answer once attempts run out, default true
+  shuffleOptions?: boolean; // default false (ignored for true/false)
+  caseSensitive?: boolean; // fill-in-the-blank only, default false
+}
+
+export interface KnowledgeCheckContent {
+  questionType: KnowledgeCheckQuestionType;
+  prompt: string;
+  // multiple choice / multiple response / true-false
+  options: KnowledgeCheckOption[];
+  // fill in the blank: any of these answers is accepted
+  acceptedAnswers?: string[];
+  correctFeedback?: string;
+  incorrectFeedback?: string;
+  settings?: KnowledgeCheckSettings;
+}
+
+// What the learner submitted for one attempt
+export interface KnowledgeCheckResponse {
+  selectedOptionIds: string[];
+  text?: string;
+}
+
+export interface KnowledgeCheckResult {
+  isCorrect: boolean;
+  score: number; // 0..1 (partial credit for multiple response)
+  feedback: string[]; // per-option feedback for the selected options
+}
@@ -0,0 +1,157 @@
+// src/components/blocks/knowledge-check/knowledge-check-utils.ts
+// Defaults and scoring for Knowledge Check blocks
+
+import type {
+  KnowledgeCheckContent,
+  KnowledgeCheckQuestionType,
+  KnowledgeCheckResponse,
+  KnowledgeCheckResult,
+  KnowledgeCheckSettings,
+} from "./knowledge-check-types";
+
+export const KNOWLEDGE_CHECK_TYPE_LABELS: Record<
+  KnowledgeCheckQuestionType,
+  string
+> = {
+  multiple_choice: "Multiple choice",
+  multiple_response: "Multiple response",
+  true_false: "True / False",
+  fill_blank: "Fill in the blank",
+};
+
+export const DEFAULT_KNOWLEDGE_CHECK_SETTINGS: Required<KnowledgeCheckSettings> =
+  {
+    maxAttempts: 2,
+    allowRetry: true,
+    showCorrectAnswer: true,
+    shuffleOptions: false,
+    caseSensitive: false,
+  };
+
+export function getKnowledgeCheckSettings(
+  content: KnowledgeCheckContent
+): Required<KnowledgeCheckSettings> {
+  return { ...DEFAULT_KNOWLEDGE_CHECK_SETTINGS, ...(content.settings ?? {}) };
+}
+
+export function getDefaultKnowledgeCheckContent(
+  questionType: KnowledgeCheckQuestionType
+): KnowledgeCheckContent {
+  const base = {
+    questionType,
+    correctFeedback: "That's right!",
+    incorrectFeedback: "That's not quite right.",
+    settings: { ...DEFAULT_KNOWLEDGE_CHECK_SETTINGS },
+  };
+
+  switch (questionType) {
+    case "true_false":
+      return {
+        ...base,
+        prompt: "Type your statement here.",
+        options: [
+          { id: "opt-true", text: "True", isCorrect: true },
+          { id: "opt-false", text: "False", isCorrect: false },
+        ],
+      };
+    case "fill_blank":
+      return {
+        ...base,
+        prompt: "Type your question here. The learner types the answer.",
+        options: [],
+        acceptedAnswers: ["Answer"],
+      };
+    case "multiple_response":
+      return {
+        ...base,
+        prompt: "Type your question here. Select all that apply.",
+        options: [
+          { id: "opt-1", text: "Correct option", isCorrect: true },
+          { id: "opt-2", text: "Another correct option", isCorrect: true },
+          { id: "opt-3", text: "Incorrect option", isCorrect: false },
+        ],
+      };
+    case "multiple_choice":
+    default:
+      return {
+        ...base,
+        questionType: "multiple_choice",
+        prompt: "Type your question here.",
+        options: [
+          { id: "opt-1", text: "Correct option", isCorrect: true },
+          { id: "opt-2", text: "Incorrect option", isCorrect: false },
+          { id: "opt-3", text: "Incorrect option", isCorrect: false },
+        ],
+      };
+  }
+}
+
+function normaliseAnswer(value: string, caseSensitive: boolean): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return caseSensitive ? trimmed : trimmed.toLowerCase();
+}
+
+/**
+ * Score one attempt. Multiple response questions earn partial credit
+ * (correct picks minus wrong picks, over the number of correct options) but
+ * only count as correct when the selection matches exactly.
+ */
+export function scoreKnowledgeCheck(
+  content: KnowledgeCheckContent,
+  response: KnowledgeCheckResponse
+): KnowledgeCheckResult {
+  const settings = getKnowledgeCheckSettings(content);
+
+  if (content.questionType === "fill_blank") {
+    const answer = normaliseAnswer(response.text ?? "", settings.caseSensitive);
+    const isCorrect =
+      answer.length > 0 &&
+      (content.acceptedAnswers ?? []).some(
+        (accepted) =>
+          normaliseAnswer(accepted, settings.caseSensitive) === answer
+      );
+    return { isCorrect, score: isCorrect ? 1 : 0, feedback: [] };
+  }
+
+  const options = content.options ?? [];
+  const selected = new Set(response.selectedOptionIds);
+  const correctIds = options.filter((o) => o.isCorrect).map((o) => o.id);
+  const feedback = options
+    .filter((o) => selected.has(o.id) && o.feedback?.trim())
+    .map((o) => o.feedback!.trim());
+
+  const correctPicks = correctIds.filter((id) => selected.has(id)).length;
+  const wrongPicks = selected.size - correctPicks;
+  const isCorrect =
+    correctIds.length > 0 &&
+    correctPicks === correctIds.length &&
+    wrongPicks === 0;
+
+  let score = isCorrect ? 1 : 0;
+  if (content.questionType === "multiple_response" && correctIds.length > 0) {
+    score = Math.max(0, (correctPicks - wrongPicks) / correctIds.length);
+  }
+
+  return { isCorrect, score, feedback };
+}
+
+// Plain-text summary used for block metadata / AI tagging
+export function summariseKnowledgeCheck(
+  content: KnowledgeCheckContent
+): string {
+  const parts = [
+    `${KNOWLEDGE_CHECK_TYPE_LABELS[content.questionType] ?? "Question"}: ${
+      content.prompt ?? ""
+    }`,
+  ];
+  if (content.questionType === "fill_blank") {
+    parts.push(
+      `Accepted answers: ${(content.acceptedAnswers ?? []).join(", ")}`
+    );
+  } else {
+    (content.options ?? []).forEach((o, idx) => {
+      parts.push(`${idx + 1}. ${o.text}${o.isCorrect ? " (correct)" : ""}`);
+    });
+  }
+  return parts.join("\n");
+}
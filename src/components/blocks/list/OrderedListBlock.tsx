@@ -5,6 +5,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   Hash,
   IndentIncrease,
@@ -325,6 +326,7 @@ interface NumberedListBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -349,6 +351,7 @@ export const NumberedListBlock: React.FC<NumberedListBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -657,6 +660,17 @@ export const NumberedListBlock: React.FC<NumberedListBlockProps> = ({
             <Copy className="h-4 w-4" />
           </button>
 
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
           {/* Delete */}
           <button
             type="button"
@@ -4,6 +4,7 @@ import {
   ChevronDown,
   ChevronUp,
   Copy,
+  BookmarkPlus,
   Database,
   IndentIncrease,
   Palette,
@@ -51,6 +52,7 @@ interface BulletListBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -75,6 +77,7 @@ export const BulletListBlock: React.FC<BulletListBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -354,6 +357,17 @@ export const BulletListBlock: React.FC<BulletListBlockProps> = ({
             <Copy className="h-4 w-4" />
           </button>
 
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
           <button
             type="button"
             onClick={onDelete}
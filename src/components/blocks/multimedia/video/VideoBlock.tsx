@@ -0,0 +1,420 @@
+import React, { useState } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  BookmarkPlus,
+  Database,
+  Palette,
+  PanelsLeftRight,
+  Pencil,
+  Stars,
+  Trash2,
+  X,
+} from "lucide-react";
+import { BlockStyleMenu, type BlockStyle } from "../../BlockStyleMenu";
+import {
+  AppearancePanel,
+  BlockMetadataPopover,
+  BlockWrapper,
+  FormatPanel,
+} from "../../shared/LessonBuilderInternals";
+import type { VideoContent } from "./video-types";
+import { VideoLearner } from "./VideoLearner";
+import VideoEditor from "./VideoEditor";
+import { summariseVideo } from "./video-utils";
+import {
+  DEFAULT_BLOCK_LAYOUT,
+  DEFAULT_BLOCK_METADATA,
+  hasBlockMetadata,
+  type BlockLayout,
+  type BlockMetadata,
+} from "../../../../types/blocks";
+import type {
+  AnimationDuration,
+  BlockAnimation,
+  LessonBlock,
+} from "../../../../../pages/admin/content/LessonBuilder";
+
+// VideoBlockInternal - Editor component for video blocks
+interface VideoBlockInternalProps {
+  block: LessonBlock;
+  onChange: (updated: LessonBlock) => void;
+  onStyleChange: (style: BlockStyle, customBackgroundColor?: string) => void;
+  onLayoutChange: (layout: BlockLayout) => void;
+  onMetadataChange: (metadata: BlockMetadata) => void;
+  onMblMetadataCleared?: () => void;
+  onMblMetadataUpdated?: (mblMetadata: unknown) => void;
+  onAnimationChange?: (animation: BlockAnimation) => void;
+  onDurationChange?: (duration: AnimationDuration) => void;
+  onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
+  onDelete: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  isFormatPanelOpen: boolean;
+  onToggleFormatPanel: () => void;
+  isMetadataPanelOpen: boolean;
+  onToggleMetadataPanel: () => void;
+  isAppearancePanelOpen: boolean;
+  onToggleAppearancePanel: () => void;
+  moduleId?: string | null;
+  pageId?: string | null;
+}
+
+const VideoBlockInternal: React.FC<VideoBlockInternalProps> = ({
+  block,
+  onChange,
+  onStyleChange,
+  onLayoutChange,
+  onMetadataChange,
+  onMblMetadataCleared,
+  onMblMetadataUpdated,
+  onAnimationChange,
+  onDurationChange,
+  onDuplicate,
+  onSaveToLibrary,
+  onDelete,
+  onMoveUp,
+  onMoveDown,
+  canMoveUp,
+  canMoveDown,
+  isFormatPanelOpen,
+  onToggleFormatPanel,
+  isMetadataPanelOpen,
+  onToggleMetadataPanel,
+  isAppearancePanelOpen,
+  onToggleAppearancePanel,
+  moduleId,
+  pageId,
+}) => {
+  const [styleMenuOpen, setStyleMenuOpen] = useState(false);
+  const [isEditingVideo, setIsEditingVideo] = useState(false);
+  const blockHasMetadata = hasBlockMetadata(block.metadata);
+
+  // Extract content from block
+  const videoContent = block.content as unknown as VideoContent;
+
+  // Handler to update content via onChange
+  const handleContentChange = (updatedContent: VideoContent) => {
+    onChange({
+      ...block,
+      content: { ...block.content, ...updatedContent },
+    });
+  };
+
+  // Get background style
+  const bgStyle = block.style || "light";
+  const customBgColor = block.customBackgroundColor;
+  const bgColorClass =
+    bgStyle === "light"
+      ? "bg-white"
+      : bgStyle === "gray"
+        ? "bg-slate-100"
+        : bgStyle === "theme"
+          ? "bg-orange-500"
+          : bgStyle === "themeTint"
+            ? "bg-orange-50"
+            : bgStyle === "dark"
+              ? "bg-slate-700"
+              : bgStyle === "black"
+                ? "bg-slate-900"
+                : bgStyle === "custom" && customBgColor
+                  ? ""
+                  : "bg-white";
+
+  const textColorClass =
+    bgStyle === "dark" || bgStyle === "black" || bgStyle === "theme"
+      ? "text-white"
+      : "text-slate-900";
+
+  // Use block layout or fallback to defaults
+  const layout = block.layout || DEFAULT_BLOCK_LAYOUT;
+
+  return (
+    <div
+      className={`group relative rounded-xl border border-gray-200 overflow-visible transition-shadow hover:shadow-md ${bgColorClass}`}
+      style={
+        bgStyle === "custom" && customBgColor
+          ? { backgroundColor: customBgColor }
+          : undefined
+      }
+    >
+      {/* LEFT GUTTER TOOLBAR (matching Flashcards) */}
+      <div className="absolute left-4 top-6 flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 shadow-md z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+        {/* Layout / Format */}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleFormatPanel();
+          }}
+          aria-label="Block format"
+          className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+            isFormatPanelOpen
+              ? "text-[#ff7a00] bg-orange-50"
+              : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+          }`}
+        >
+          <PanelsLeftRight className="h-4 w-4" />
+        </button>
+
+        {/* Style (palette) */}
+        <div className="relative">
+          <button
+            type="button"
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              styleMenuOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+            title="Block style"
+            onClick={(e) => {
+              e.stopPropagation();
+              setStyleMenuOpen((prev) => !prev);
+            }}
+          >
+            <Palette className="h-4 w-4" />
+          </button>
+          <BlockStyleMenu
+            open={styleMenuOpen}
+            onClose={() => setStyleMenuOpen(false)}
+            style={block.style}
+            customBackgroundColor={block.customBackgroundColor}
+            onChange={(newStyle, customColor) => {
+              onStyleChange(newStyle, customColor);
+              if (newStyle !== "custom") {
+                setStyleMenuOpen(false);
+              }
+            }}
+          />
+        </div>
+
+        {/* Appearance */}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleAppearancePanel();
+          }}
+          className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+            isAppearancePanelOpen
+              ? "text-[#ff7a00] bg-orange-50"
+              : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+          }`}
+          aria-label="Block appearance"
+          title="Appearance"
+        >
+          <Stars className="h-4 w-4" />
+        </button>
+
+        {/* MBL Metadata */}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleMetadataPanel();
+          }}
+          className={`relative inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+            isMetadataPanelOpen
+              ? "text-[#ff7a00] bg-orange-50"
+              : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+          }`}
+          aria-label="Block metadata (learning fingerprint)"
+          title="Metadata"
+        >
+          <Database className="h-4 w-4" />
+          {blockHasMetadata && !isMetadataPanelOpen && (
+            <span
+              className="pointer-events-none absolute -top-0.5 -right-0.5 h-2 w-2 rounded-full bg-[#ff7a00] ring-2 ring-white shadow-sm"
+              aria-hidden="true"
+            />
+          )}
+        </button>
+      </div>
+
+      {/* RIGHT GUTTER TOOLBAR (matching Flashcards) */}
+      <div className="absolute right-4 top-6 flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 shadow-md z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+        {canMoveUp && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onMoveUp();
+            }}
+            className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+            aria-label="Move block up"
+            title="Move up"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </button>
+        )}
+        {canMoveDown && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onMoveDown();
+            }}
+            className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+            aria-label="Move block down"
+            title="Move down"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsEditingVideo(true);
+          }}
+          className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+          aria-label="Edit video"
+          title="Edit video"
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDuplicate();
+          }}
+          className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+          aria-label="Duplicate block"
+          title="Duplicate"
+        >
+          <Copy className="h-4 w-4" />
+        </button>
+        {onSaveToLibrary && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSaveToLibrary();
+            }}
+            className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 transition-colors"
+            aria-label="Save block to library"
+            title="Save to library"
+          >
+            <BookmarkPlus className="h-4 w-4" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+          className="inline-flex items-center justify-center h-6 w-6 rounded-full text-slate-500 hover:text-red-600 hover:bg-red-50 transition-colors"
+          aria-label="Delete block"
+          title="Delete"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Format Panel */}
+      {isFormatPanelOpen && (
+        <FormatPanel
+          layout={layout}
+          onChange={onLayoutChange}
+          onClose={onToggleFormatPanel}
+        />
+      )}
+
+      {/* Metadata Panel */}
+      {isMetadataPanelOpen && (
+        <BlockMetadataPopover
+          metadata={block.metadata || DEFAULT_BLOCK_METADATA}
+          onChange={onMetadataChange}
+          onClose={onToggleMetadataPanel}
+          blockId={block.id}
+          blockType={block.type}
+          blockContent={summariseVideo(videoContent)}
+          savedToDb={!!block.savedToDb}
+          mblMetadata={block.mblMetadata}
+          onMblMetadataCleared={onMblMetadataCleared}
+          onMblMetadataUpdated={onMblMetadataUpdated}
+          moduleId={moduleId}
+          pageId={pageId}
+        />
+      )}
+
+      {/* Appearance Panel */}
+      {isAppearancePanelOpen && (
+        <AppearancePanel
+          animation={block.content.animation ?? "none"}
+          duration={block.content.animationDuration ?? "normal"}
+          onChange={(animation) => onAnimationChange?.(animation)}
+          onDurationChange={(duration) => onDurationChange?.(duration)}
+          onClose={onToggleAppearancePanel}
+        />
+      )}
+
+      {/* Block content matches learner preview (builder mode, non-interactive) */}
+      <BlockWrapper layout={layout}>
+        <VideoLearner
+          mode="builder"
+          content={videoContent}
+          moduleId={null}
+          pageId={null}
+          blockId={block.id}
+        />
+      </BlockWrapper>
+
+      {/* Video Editor Modal */}
+      {isEditingVideo && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/50"
+            onClick={() => setIsEditingVideo(false)}
+          />
+
+          {/* Modal */}
+          <div className="relative bg-white rounded-xl shadow-2xl w-[90vw] max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+            {/* Header */}
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Edit Video
+              </h2>
+              <button
+                type="button"
+                onClick={() => setIsEditingVideo(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {/* Content - Video Editor */}
+            <div className="flex-1 overflow-y-auto p-6">
+              <VideoEditor
+                blockId={block.id}
+                content={videoContent}
+                onChange={handleContentChange}
+              />
+            </div>
+
+            {/* Footer */}
+            <div className="px-6 py-4 border-t border-gray-100 bg-gray-50 flex justify-end">
+              <button
+                type="button"
+                onClick={() => setIsEditingVideo(false)}
+                className="px-4 py-2 rounded-lg font-medium text-sm bg-[#ff7a00] hover:bg-[#e56d00] text-white transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const VideoBlock = VideoBlockInternal;
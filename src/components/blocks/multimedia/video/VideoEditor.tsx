@@ -0,0 +1,388 @@
+// src/components/blocks/multimedia/video/VideoEditor.tsx
+// Editor component for Video blocks in the LessonBuilder
+
+import React, { useEffect, useRef, useState } from "react";
+import { Image as ImageIcon, Loader2, Trash2, Upload } from "lucide-react";
+import { ImageUploadAndLibrary } from "../../../media";
+import {
+  listMediaAssets,
+  uploadCaptionsFile,
+  uploadVideoAsset,
+  type MediaAsset,
+} from "../../../../lib/mediaAssets";
+import type { VideoContent, VideoProvider } from "./video-types";
+import {
+  VIDEO_PROVIDER_LABELS,
+  detectVideoProvider,
+  getVideoEmbedUrl,
+} from "./video-utils";
+
+interface VideoEditorProps {
+  blockId: string;
+  content: VideoContent;
+  onChange: (updatedContent: VideoContent) => void;
+}
+
+const inputClass =
+  "w-full rounded-md border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-2 focus:ring-orange-200";
+
+/**
+ * VideoEditor
+ *
+ * Editor for video blocks. Allows admins to:
+ * - Link a YouTube / Vimeo video or upload a video file
+ * - Attach WebVTT captions (uploads) and a transcript
+ * - Pick a poster image from the media library
+ * - Require the video to be watched before the lesson completes
+ */
+const VideoEditor: React.FC<VideoEditorProps> = ({
+  blockId,
+  content,
+  onChange,
+}) => {
+  const provider = content.provider ?? "youtube";
+  const [videoAssets, setVideoAssets] = useState<MediaAsset[]>([]);
+  const [uploadingKind, setUploadingKind] = useState<
+    "video" | "captions" | null
+  >(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isPosterLibraryOpen, setIsPosterLibraryOpen] = useState(false);
+
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const captionsInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (provider !== "upload") return;
+    listMediaAssets({ mimePrefix: "video/" })
+      .then(setVideoAssets)
+      .catch((err) => console.error("Failed to load video assets", err));
+  }, [provider]);
+
+  const update = (patch: Partial<VideoContent>) => {
+    onChange({ ...content, ...patch });
+  };
+
+  const handleProviderChange = (nextProvider: VideoProvider) => {
+    if (nextProvider === provider) return;
+    // Links and uploaded files are not interchangeable
+    update({
+      provider: nextProvider,
+      src: "",
+      mediaAssetId: null,
+      captionsUrl: nextProvider === "upload" ? content.captionsUrl : null,
+    });
+  };
+
+  const handleUrlChange = (url: string) => {
+    const detected = detectVideoProvider(url);
+    update({
+      src: url,
+      provider: detected && detected !== provider ? detected : provider,
+    });
+  };
+
+  const handleVideoFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError(null);
+    setUploadingKind("video");
+    try {
+      const asset = await uploadVideoAsset(file);
+      setVideoAssets((prev) => [
+        asset,
+        ...prev.filter((a) => a.id !== asset.id),
+      ]);
+      update({
+        provider: "upload",
+        src: asset.public_url,
+        mediaAssetId: asset.id,
+        title: content.title || asset.file_name,
+      });
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUploadingKind(null);
+      if (videoInputRef.current) videoInputRef.current.value = "";
+    }
+  };
+
+  const handleCaptionsFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError(null);
+    setUploadingKind("captions");
+    try {
+      const asset = await uploadCaptionsFile(file);
+      update({ captionsUrl: asset.public_url });
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setUploadingKind(null);
+      if (captionsInputRef.current) captionsInputRef.current.value = "";
+    }
+  };
+
+  const handleSelectPoster = (asset: MediaAsset) => {
+    update({ posterUrl: asset.public_url, posterMediaAssetId: asset.id });
+    setIsPosterLibraryOpen(false);
+  };
+
+  const isLinkInvalid =
+    provider !== "upload" &&
+    !!content.src?.trim() &&
+    getVideoEmbedUrl(content) === null;
+
+  return (
+    <div className="space-y-6">
+      {/* Source */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-800">Video source</h3>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(VIDEO_PROVIDER_LABELS) as VideoProvider[]).map(
+            (option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleProviderChange(option)}
+                className={`px-3 py-2 rounded-md border text-xs font-medium transition-colors ${
+                  option === provider
+                    ? "border-[#ff7a00] bg-orange-50 text-[#ff7a00]"
+                    : "border-slate-200 text-slate-600 hover:border-slate-300"
+                }`}
+              >
+                {VIDEO_PROVIDER_LABELS[option]}
+              </button>
+            )
+          )}
+        </div>
+
+        {provider === "upload" ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={content.mediaAssetId ?? ""}
+                onChange={(e) => {
+                  const asset = videoAssets.find(
+                    (a) => a.id === e.target.value
+                  );
+                  update({
+                    src: asset?.public_url ?? "",
+                    mediaAssetId: asset?.id ?? null,
+                  });
+                }}
+                className={inputClass}
+              >
+                <option value="">Choose an uploaded video…</option>
+                {videoAssets.map((asset) => (
+                  <option key={asset.id} value={asset.id}>
+                    {asset.title || asset.file_name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => videoInputRef.current?.click()}
+                disabled={uploadingKind !== null}
+                className="inline-flex shrink-0 items-center gap-1 rounded-md border border-slate-200 px-3 py-2 text-xs font-medium text-slate-700 hover:border-slate-300 disabled:opacity-50"
+              >
+                {uploadingKind === "video" ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4" />
+                )}
+                Upload
+              </button>
+              <input
+                ref={videoInputRef}
+                type="file"
+                accept="video/mp4,video/webm,video/quicktime"
+                className="hidden"
+                onChange={(e) => void handleVideoFile(e.target.files?.[0])}
+              />
+            </div>
+            <p className="text-xs text-slate-500">MP4, WebM or MOV.</p>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <input
+              id={`video-url-${blockId}`}
+              type="url"
+              value={content.src ?? ""}
+              onChange={(e) => handleUrlChange(e.target.value)}
+              placeholder={
+                provider === "vimeo"
+                  ? "https://vimeo.com/123456789"
+                  : "https://www.youtube.com/watch?v=…"
+              }
+              className={inputClass}
+            />
+            {isLinkInvalid && (
+              <p className="text-xs text-red-600">
+                This doesn't look like a {VIDEO_PROVIDER_LABELS[provider]} video
+                link.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Title & caption */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-slate-700">Title</label>
+          <input
+            type="text"
+            value={content.title ?? ""}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="Used for screen readers"
+            className={inputClass}
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-semibold text-slate-700">
+            Caption
+          </label>
+          <input
+            type="text"
+            value={content.caption ?? ""}
+            onChange={(e) => update({ caption: e.target.value })}
+            placeholder="Shown below the video"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* Poster */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-800">Poster image</h3>
+        <div className="flex items-center gap-3">
+          {content.posterUrl ? (
+            <img
+              src={content.posterUrl}
+              alt=""
+              className="h-16 w-28 rounded-md border border-slate-200 object-cover"
+            />
+          ) : (
+            <div className="flex h-16 w-28 items-center justify-center rounded-md border border-dashed border-slate-300 text-slate-400">
+              <ImageIcon className="h-5 w-5" />
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsPosterLibraryOpen((open) => !open)}
+            className="text-xs font-medium text-slate-600 hover:text-[#ff7a00]"
+          >
+            {isPosterLibraryOpen
+              ? "Close media library"
+              : "Choose from media library"}
+          </button>
+          {content.posterUrl && (
+            <button
+              type="button"
+              onClick={() =>
+                update({ posterUrl: null, posterMediaAssetId: null })
+              }
+              className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+              title="Remove poster"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {isPosterLibraryOpen && (
+          <div className="max-h-96 overflow-y-auto rounded-lg border border-slate-200 p-3">
+            <ImageUploadAndLibrary onSelectAsset={handleSelectPoster} />
+          </div>
+        )}
+      </div>
+
+      {/* Captions */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-800">Captions</h3>
+        {provider === "upload" ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => captionsInputRef.current?.click()}
+              disabled={uploadingKind !== null}
+              className="inline-flex items-center gap-1 rounded-md border border-slate-200 px-3 py-2 text-xs font-medium text-slate-700 hover:border-slate-300 disabled:opacity-50"
+            >
+              {uploadingKind === "captions" ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              {content.captionsUrl ? "Replace .vtt file" : "Upload .vtt file"}
+            </button>
+            <input
+              ref={captionsInputRef}
+              type="file"
+              accept=".vtt,text/vtt"
+              className="hidden"
+              onChange={(e) => void handleCaptionsFile(e.target.files?.[0])}
+            />
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              Language
+              <input
+                type="text"
+                value={content.captionsLanguage ?? "en"}
+                onChange={(e) => update({ captionsLanguage: e.target.value })}
+                className="w-16 rounded-md border border-slate-200 px-2 py-1 text-xs"
+              />
+            </label>
+            {content.captionsUrl && (
+              <button
+                type="button"
+                onClick={() => update({ captionsUrl: null })}
+                className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+                title="Remove captions"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">
+            Captions for {VIDEO_PROVIDER_LABELS[provider]} videos are managed on{" "}
+            {VIDEO_PROVIDER_LABELS[provider]}. Add a transcript below so
+            learners can read along.
+          </p>
+        )}
+      </div>
+
+      {/* Transcript */}
+      <div className="space-y-1">
+        <label
+          htmlFor={`video-transcript-${blockId}`}
+          className="text-sm font-semibold text-slate-800"
+        >
+          Transcript
+        </label>
+        <textarea
+          id={`video-transcript-${blockId}`}
+          value={content.transcript ?? ""}
+          onChange={(e) => update({ transcript: e.target.value })}
+          rows={5}
+          placeholder="Learners can expand the transcript below the video"
+          className={inputClass}
+        />
+      </div>
+
+      {/* Completion */}
+      <label className="flex items-center gap-2 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={!!content.requireFullWatch}
+          onChange={(e) => update({ requireFullWatch: e.target.checked })}
+        />
+        Learners must watch the video to complete the lesson
+      </label>
+
+      {uploadError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{uploadError}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoEditor;
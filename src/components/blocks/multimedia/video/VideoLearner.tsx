@@ -0,0 +1,445 @@
+// src/components/blocks/multimedia/video/VideoLearner.tsx
+// Learner-facing component for Video blocks (YouTube, Vimeo or uploaded file)
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, FileText, Play } from "lucide-react";
+import { supabase } from "../../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../../lib/api/xapi";
+import type { VideoContent, VideoWatchMilestone } from "./video-types";
+import {
+  createVideoWatchTracker,
+  getReachedMilestones,
+  getVideoEmbedUrl,
+  isVideoConfigured,
+} from "./video-utils";
+
+type LearningEventRow = {
+  user_id: string;
+  module_id: string | null;
+  page_id: string | null;
+  block_id: string;
+  event_type: "video_started" | "video_progress" | "video_completed";
+  event_time: string;
+  duration_ms: number | null;
+  metadata: Record<string, unknown>;
+};
+
+async function getCurrentUserId(): Promise<string | null> {
+  const { data, error } = await supabase.auth.getUser();
+  if (error) {
+    console.warn("Could not fetch current user for learning_events", error);
+    return null;
+  }
+  return data.user?.id ?? null;
+}
+
+/**
+ * Logs a video event to learning_events (and its xAPI statement).
+ * Fire-and-forget: errors are logged but never interrupt playback.
+ */
+async function logVideoEvent(
+  row: Omit<LearningEventRow, "user_id">
+): Promise<void> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      console.warn(
+        `No user_id available, skipping learning_events insert (${row.event_type})`
+      );
+      return;
+    }
+
+    const payload: LearningEventRow = { ...row, user_id: userId };
+    const { error } = await supabase.from("learning_events").insert(payload);
+    if (error) {
+      console.error(`LEARNING EVENT INSERT ERROR (${row.event_type})`, error);
+    } else {
+      void recordLearningEventStatements(payload);
+    }
+  } catch (err) {
+    console.error(`Failed to save ${row.event_type} learning event:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// YouTube IFrame API (loaded once, on demand)
+// ---------------------------------------------------------------------------
+
+interface YouTubePlayer {
+  getCurrentTime: () => number;
+  getDuration: () => number;
+}
+
+interface YouTubeApi {
+  Player: new (
+    element: HTMLIFrameElement,
+    options: {
+      events: {
+        onStateChange?: (event: {
+          data: number;
+          target: YouTubePlayer;
+        }) => void;
+      };
+    }
+  ) => YouTubePlayer;
+  PlayerState: { ENDED: number; PLAYING: number; PAUSED: number };
+}
+
+declare global {
+  interface Window {
+    YT?: YouTubeApi;
+    onYouTubeIframeAPIReady?: () => void;
+  }
+}
+
+let youTubeApiPromise: Promise<YouTubeApi> | null = null;
+
+function loadYouTubeApi(): Promise<YouTubeApi> {
+  if (window.YT?.Player) return Promise.resolve(window.YT);
+  if (youTubeApiPromise) return youTubeApiPromise;
+
+  youTubeApiPromise = new Promise((resolve, reject) => {
+    const previousReady = window.onYouTubeIframeAPIReady;
+    window.onYouTubeIframeAPIReady = () => {
+      previousReady?.();
+      if (window.YT) resolve(window.YT);
+    };
+    const script = document.createElement("script");
+    script.src = "https://www.youtube.com/iframe_api";
+    script.async = true;
+    script.onerror = () => {
+      youTubeApiPromise = null;
+      reject(new Error("Failed to load the YouTube IFrame API"));
+    };
+    document.head.appendChild(script);
+  });
+  return youTubeApiPromise;
+}
+
+// Vimeo player messages arrive as JSON strings or objects
+function parseVimeoMessage(
+  data: unknown
+): { event?: string; data?: { seconds?: number; duration?: number } } | null {
+  if (typeof data === "string") {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  return typeof data === "object" && data !== null
+    ? (data as { event?: string })
+    : null;
+}
+
+export interface VideoLearnerProps {
+  moduleId?: string | null;
+  pageId?: string | null;
+  blockId?: string | null;
+  content: VideoContent;
+  // Called once the learner has watched the whole video
+  onComplete?: () => void;
+  mode?: "learner" | "builder";
+}
+
+export const VideoLearner: React.FC<VideoLearnerProps> = ({
+  moduleId,
+  pageId,
+  blockId,
+  content,
+  onComplete,
+  mode = "learner",
+}) => {
+  const isBuilderMode = mode === "builder";
+  const provider = content.provider ?? "youtube";
+  const isEmbed = provider === "youtube" || provider === "vimeo";
+
+  // Embeds with a poster show the poster until the learner presses play
+  const [showEmbed, setShowEmbed] = useState(!content.posterUrl);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  const trackerRef = useRef(createVideoWatchTracker());
+  const startedRef = useRef(false);
+  const loggedMilestonesRef = useRef<Set<VideoWatchMilestone>>(new Set());
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // A different video starts tracking from scratch
+  useEffect(() => {
+    trackerRef.current = createVideoWatchTracker();
+    startedRef.current = false;
+    loggedMilestonesRef.current = new Set();
+    setShowEmbed(!content.posterUrl);
+  }, [content.src, content.provider, content.posterUrl]);
+
+  const logEvent = useCallback(
+    (
+      eventType: LearningEventRow["event_type"],
+      metadata: Record<string, unknown>
+    ) => {
+      if (isBuilderMode || !blockId) return;
+      void logVideoEvent({
+        module_id: moduleId ?? null,
+        page_id: pageId ?? null,
+        block_id: blockId,
+        event_type: eventType,
+        event_time: new Date().toISOString(),
+        duration_ms: null,
+        metadata: { provider, src: content.src, ...metadata },
+      });
+    },
+    [isBuilderMode, blockId, moduleId, pageId, provider, content.src]
+  );
+
+  const handleStarted = useCallback(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    logEvent("video_started", {});
+  }, [logEvent]);
+
+  const handleTimeUpdate = useCallback(
+    (currentTime: number, durationSeconds: number) => {
+      if (!durationSeconds || durationSeconds <= 0) return;
+      const tracker = trackerRef.current;
+      tracker.record(currentTime);
+      const watchedPercent = tracker.getWatchedPercent(durationSeconds);
+
+      getReachedMilestones(watchedPercent).forEach((milestone) => {
+        if (loggedMilestonesRef.current.has(milestone)) return;
+        loggedMilestonesRef.current.add(milestone);
+
+        const metadata = {
+          milestone,
+          watched_percent: Math.round(watchedPercent),
+          duration_seconds: Math.round(durationSeconds),
+        };
+        logEvent("video_progress", metadata);
+        if (milestone === 100) {
+          logEvent("video_completed", metadata);
+          onCompleteRef.current?.();
+        }
+      });
+    },
+    [logEvent]
+  );
+
+  const handleSegmentBreak = useCallback(() => {
+    trackerRef.current.breakSegment();
+  }, []);
+
+  // YouTube: follow playback through the IFrame API
+  useEffect(() => {
+    if (isBuilderMode || provider !== "youtube" || !showEmbed) return;
+    const iframe = iframeRef.current;
+    if (!iframe) return;
+
+    let cancelled = false;
+    let pollId: number | null = null;
+
+    const stopPolling = () => {
+      if (pollId !== null) {
+        window.clearInterval(pollId);
+        pollId = null;
+      }
+    };
+
+    loadYouTubeApi()
+      .then((YT) => {
+        if (cancelled) return;
+        new YT.Player(iframe, {
+          events: {
+            onStateChange: (event) => {
+              const player = event.target;
+              if (event.data === YT.PlayerState.PLAYING) {
+                handleStarted();
+                stopPolling();
+                pollId = window.setInterval(() => {
+                  handleTimeUpdate(
+                    player.getCurrentTime(),
+                    player.getDuration()
+                  );
+                }, 1000);
+              } else {
+                if (event.data === YT.PlayerState.ENDED) {
+                  handleTimeUpdate(player.getDuration(), player.getDuration());
+                }
+                stopPolling();
+                handleSegmentBreak();
+              }
+            },
+          },
+        });
+      })
+      .catch((err) => {
+        console.error("YouTube progress tracking unavailable", err);
+      });
+
+    return () => {
+      cancelled = true;
+      stopPolling();
+    };
+  }, [
+    isBuilderMode,
+    provider,
+    showEmbed,
+    content.src,
+    handleStarted,
+    handleTimeUpdate,
+    handleSegmentBreak,
+  ]);
+
+  // Vimeo: follow playback through the player's postMessage API
+  useEffect(() => {
+    if (isBuilderMode || provider !== "vimeo" || !showEmbed) return;
+
+    const post = (method: string, value?: string) => {
+      iframeRef.current?.contentWindow?.postMessage(
+        JSON.stringify({ method, value }),
+        "https://player.vimeo.com"
+      );
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== "https://player.vimeo.com") return;
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      const message = parseVimeoMessage(event.data);
+      if (!message?.event) return;
+
+      if (message.event === "ready") {
+        ["play", "pause", "seeked", "timeupdate", "ended"].forEach((name) =>
+          post("addEventListener", name)
+        );
+      } else if (message.event === "play") {
+        handleStarted();
+      } else if (message.event === "timeupdate") {
+        handleTimeUpdate(
+          message.data?.seconds ?? 0,
+          message.data?.duration ?? 0
+        );
+      } else if (message.event === "pause" || message.event === "seeked") {
+        handleSegmentBreak();
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [
+    isBuilderMode,
+    provider,
+    showEmbed,
+    handleStarted,
+    handleTimeUpdate,
+    handleSegmentBreak,
+  ]);
+
+  if (!isVideoConfigured(content)) {
+    return (
+      <div className="flex aspect-video w-full items-center justify-center rounded-xl border-2 border-dashed border-slate-300 bg-slate-50 text-sm text-slate-500">
+        {isBuilderMode
+          ? "Add a YouTube or Vimeo link, or upload a video"
+          : "This video is not available"}
+      </div>
+    );
+  }
+
+  const title = content.title || "Video";
+  const embedUrl = isEmbed
+    ? getVideoEmbedUrl(content, { autoplay: !!content.posterUrl })
+    : null;
+
+  return (
+    <figure className="w-full">
+      <div className="relative aspect-video w-full overflow-hidden rounded-xl bg-black">
+        {provider === "upload" ? (
+          <video
+            className="h-full w-full"
+            src={content.src}
+            poster={content.posterUrl ?? undefined}
+            controls
+            preload="metadata"
+            crossOrigin="anonymous"
+            onPlay={handleStarted}
+            onTimeUpdate={(e) =>
+              handleTimeUpdate(
+                e.currentTarget.currentTime,
+                e.currentTarget.duration
+              )
+            }
+            onPause={handleSegmentBreak}
+            onSeeking={handleSegmentBreak}
+          >
+            {content.captionsUrl && (
+              <track
+                kind="captions"
+                src={content.captionsUrl}
+                srcLang={content.captionsLanguage || "en"}
+                label="Captions"
+                default
+              />
+            )}
+          </video>
+        ) : showEmbed && embedUrl ? (
+          <iframe
+            ref={iframeRef}
+            className="h-full w-full"
+            src={embedUrl}
+            title={title}
+            allow="autoplay; fullscreen; picture-in-picture; encrypted-media"
+            allowFullScreen
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => !isBuilderMode && setShowEmbed(true)}
+            className="group absolute inset-0 h-full w-full"
+            aria-label={`Play ${title}`}
+          >
+            <img
+              src={content.posterUrl ?? ""}
+              alt=""
+              className="h-full w-full object-cover"
+            />
+            <span className="absolute left-1/2 top-1/2 flex h-16 w-16 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-black/60 text-white transition-transform group-hover:scale-105">
+              <Play className="ml-1 h-7 w-7" />
+            </span>
+          </button>
+        )}
+      </div>
+
+      {content.caption && (
+        <figcaption className="mt-3 text-center text-sm text-slate-600">
+          {content.caption}
+        </figcaption>
+      )}
+
+      {content.transcript?.trim() && (
+        <div className="mt-4 rounded-lg border border-slate-200 bg-white">
+          <button
+            type="button"
+            onClick={() => setIsTranscriptOpen((open) => !open)}
+            aria-expanded={isTranscriptOpen}
+            className="flex w-full items-center justify-between px-4 py-3 text-sm font-medium text-slate-700 hover:text-slate-900"
+          >
+            <span className="inline-flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Transcript
+            </span>
+            {isTranscriptOpen ? (
+              <ChevronUp className="h-4 w-4" />
+            ) : (
+              <ChevronDown className="h-4 w-4" />
+            )}
+          </button>
+          {isTranscriptOpen && (
+            <div className="max-h-72 overflow-y-auto whitespace-pre-line border-t border-slate-100 px-4 py-3 text-sm leading-relaxed text-slate-700">
+              {content.transcript}
+            </div>
+          )}
+        </div>
+      )}
+    </figure>
+  );
+};
+
+export default VideoLearner;
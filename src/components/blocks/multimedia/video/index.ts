@@ -0,0 +1,12 @@
+export { VideoLearner } from "./VideoLearner";
+export { default as VideoEditor } from "./VideoEditor";
+export { VideoBlock } from "./VideoBlock";
+
+export type {
+  VideoContent,
+  VideoProvider,
+  VideoWatchMilestone,
+} from "./video-types";
+
+export { getDefaultVideoContent } from "./video-types";
+export { summariseVideo } from "./video-utils";
@@ -0,0 +1,29 @@
+// src/components/blocks/multimedia/video/video-types.ts
+// Types for the Video content block
+
+import type { VideoBlock } from "../../../../types/blocks";
+
+export type VideoContent = VideoBlock["content"];
+
+export type VideoProvider = NonNullable<VideoContent["provider"]>;
+
+// Watch-progress milestones logged to learning_events
+export type VideoWatchMilestone = 25 | 50 | 75 | 100;
+
+export const VIDEO_WATCH_MILESTONES: VideoWatchMilestone[] = [25, 50, 75, 100];
+
+export function getDefaultVideoContent(): VideoContent {
+  return {
+    src: "",
+    provider: "youtube",
+    caption: "",
+    title: "",
+    mediaAssetId: null,
+    posterUrl: null,
+    posterMediaAssetId: null,
+    captionsUrl: null,
+    captionsLanguage: "en",
+    transcript: "",
+    requireFullWatch: false,
+  };
+}
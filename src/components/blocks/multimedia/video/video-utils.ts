@@ -0,0 +1,142 @@
+// src/components/blocks/multimedia/video/video-utils.ts
+// URL parsing and watch-progress helpers for Video blocks
+
+import type {
+  VideoContent,
+  VideoProvider,
+  VideoWatchMilestone,
+} from "./video-types";
+import { VIDEO_WATCH_MILESTONES } from "./video-types";
+
+export const VIDEO_PROVIDER_LABELS: Record<VideoProvider, string> = {
+  youtube: "YouTube",
+  vimeo: "Vimeo",
+  upload: "Upload",
+};
+
+// Accepts watch, short, embed and youtu.be URLs
+export function getYouTubeVideoId(url: string): string | null {
+  const match = url
+    .trim()
+    .match(
+      /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/)|youtu\.be\/)([A-Za-z0-9_-]{11})/
+    );
+  return match ? match[1] : null;
+}
+
+// Accepts vimeo.com/123, vimeo.com/channels/x/123 and player.vimeo.com/video/123
+export function getVimeoVideoId(url: string): string | null {
+  const match = url.trim().match(/vimeo\.com\/(?:.*\/)?(?:video\/)?(\d{6,})/);
+  return match ? match[1] : null;
+}
+
+// Guess the provider from a pasted URL
+export function detectVideoProvider(url: string): VideoProvider | null {
+  if (getYouTubeVideoId(url)) return "youtube";
+  if (getVimeoVideoId(url)) return "vimeo";
+  return null;
+}
+
+/**
+ * Embed URL for YouTube / Vimeo iframes, with the JS APIs enabled so the
+ * learner view can follow playback. Returns null for uploads or bad URLs.
+ */
+export function getVideoEmbedUrl(
+  content: VideoContent,
+  options: { autoplay?: boolean } = {}
+): string | null {
+  const autoplay = options.autoplay ? 1 : 0;
+
+  if (content.provider === "youtube") {
+    const id = getYouTubeVideoId(content.src ?? "");
+    if (!id) return null;
+    const origin =
+      typeof window !== "undefined"
+        ? `&origin=${encodeURIComponent(window.location.origin)}`
+        : "";
+    return `https://www.youtube-nocookie.com/embed/${id}?enablejsapi=1&rel=0&modestbranding=1&autoplay=${autoplay}${origin}`;
+  }
+
+  if (content.provider === "vimeo") {
+    const id = getVimeoVideoId(content.src ?? "");
+    if (!id) return null;
+    return `https://player.vimeo.com/video/${id}?api=1&dnt=1&autoplay=${autoplay}`;
+  }
+
+  return null;
+}
+
+export function isVideoConfigured(content: VideoContent): boolean {
+  if (!content?.src) return false;
+  if (content.provider === "upload") return true;
+  return getVideoEmbedUrl(content) !== null;
+}
+
+export interface VideoWatchTracker {
+  // Call on every time update while playing
+  record: (currentTime: number) => void;
+  // Call on pause / seek so the next update starts a new segment
+  breakSegment: () => void;
+  getWatchedPercent: (durationSeconds: number) => number;
+}
+
+/**
+ * Tracks which seconds of a video have actually been played, so seeking to
+ * the end does not count as watching it. Rewatching a section never adds
+ * more than once.
+ */
+export function createVideoWatchTracker(): VideoWatchTracker {
+  const watchedSeconds = new Set<number>();
+  let lastTime: number | null = null;
+
+  return {
+    record(currentTime) {
+      const second = Math.floor(currentTime);
+      if (lastTime !== null) {
+        const delta = currentTime - lastTime;
+        // Only fill the gap for normal playback, not seeks
+        if (delta > 0 && delta <= 2) {
+          for (let s = Math.floor(lastTime); s <= second; s++) {
+            watchedSeconds.add(s);
+          }
+        }
+      }
+      watchedSeconds.add(second);
+      lastTime = currentTime;
+    },
+    breakSegment() {
+      lastTime = null;
+    },
+    getWatchedPercent(durationSeconds) {
+      if (!durationSeconds || durationSeconds <= 0) return 0;
+      const total = Math.max(1, Math.ceil(durationSeconds));
+      return Math.min(100, (watchedSeconds.size / total) * 100);
+    },
+  };
+}
+
+// A few seconds of rounding or end credits should not block completion
+const FULL_WATCH_THRESHOLD = 95;
+
+export function getReachedMilestones(
+  watchedPercent: number
+): VideoWatchMilestone[] {
+  return VIDEO_WATCH_MILESTONES.filter((milestone) =>
+    milestone === 100
+      ? watchedPercent >= FULL_WATCH_THRESHOLD
+      : watchedPercent >= milestone
+  );
+}
+
+// Plain-text summary used for block metadata / AI tagging
+export function summariseVideo(content: VideoContent): string {
+  const provider = content.provider
+    ? VIDEO_PROVIDER_LABELS[content.provider]
+    : "Video";
+  const parts = [
+    `${provider} video${content.title ? `: ${content.title}` : ""}`,
+  ];
+  if (content.caption) parts.push(`Caption: ${content.caption}`);
+  if (content.transcript) parts.push(`Transcript: ${content.transcript}`);
+  return parts.join("\n");
+}
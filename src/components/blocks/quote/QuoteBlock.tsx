@@ -0,0 +1,477 @@
+import React, { useState } from "react";
+import {
+  ChevronUp,
+  ChevronDown,
+  Copy,
+  BookmarkPlus,
+  Trash2,
+  PanelsLeftRight,
+  Palette,
+  Stars,
+  Database,
+  AlignLeft,
+  AlignCenter,
+  UserCircle2,
+  X,
+} from "lucide-react";
+import TipTapEditor from "../../editor/TipTapEditor";
+import { BlockStyleMenu, type BlockStyle } from "../BlockStyleMenu";
+import {
+  BlockWrapper,
+  FormatPanel,
+  AppearancePanel,
+  BlockMetadataPopover,
+  getBlockStyleClasses,
+} from "../shared/LessonBuilderInternals";
+import {
+  DEFAULT_BLOCK_LAYOUT,
+  hasBlockMetadata,
+  type BlockLayout,
+  type BlockMetadata,
+} from "../../../types/blocks";
+import { ImageUploadAndLibrary } from "../../media";
+import type { MediaAsset } from "../../../lib/mediaAssets";
+import type {
+  AnimationDuration,
+  BlockAnimation,
+  LessonBlock,
+} from "../../../../pages/admin/content/LessonBuilder";
+import { summariseQuote, type QuoteContent } from "./quote-types";
+
+// QuoteBlock component - pull quote with optional author and avatar
+interface QuoteBlockProps {
+  block: LessonBlock;
+  onChange: (updated: LessonBlock) => void;
+  onStyleChange: (style: BlockStyle, customBackgroundColor?: string) => void;
+  onLayoutChange: (layout: BlockLayout) => void;
+  onMetadataChange: (metadata: BlockMetadata) => void;
+  onMblMetadataCleared: () => void;
+  onMblMetadataUpdated: (mblMetadata: unknown) => void;
+  onAnimationChange: (animation: BlockAnimation) => void;
+  onDurationChange: (duration: AnimationDuration) => void;
+  onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
+  onDelete: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  isFormatPanelOpen: boolean;
+  onToggleFormatPanel: () => void;
+  isMetadataPanelOpen: boolean;
+  onToggleMetadataPanel: () => void;
+  isAppearancePanelOpen: boolean;
+  onToggleAppearancePanel: () => void;
+  moduleId?: string | null;
+  pageId?: string | null;
+}
+
+export const QuoteBlock: React.FC<QuoteBlockProps> = ({
+  block,
+  onChange,
+  onStyleChange,
+  onLayoutChange,
+  onMetadataChange,
+  onMblMetadataCleared,
+  onMblMetadataUpdated,
+  onAnimationChange,
+  onDurationChange,
+  onDuplicate,
+  onSaveToLibrary,
+  onDelete,
+  onMoveUp,
+  onMoveDown,
+  canMoveUp,
+  canMoveDown,
+  isFormatPanelOpen,
+  onToggleFormatPanel,
+  isMetadataPanelOpen,
+  onToggleMetadataPanel,
+  isAppearancePanelOpen,
+  onToggleAppearancePanel,
+  moduleId,
+  pageId,
+}) => {
+  const [styleMenuOpen, setStyleMenuOpen] = useState(false);
+  const [isMediaLibraryOpen, setIsMediaLibraryOpen] = useState(false);
+
+  // Check if this block has metadata set
+  const blockHasMetadata = hasBlockMetadata(block.metadata);
+
+  const quoteContent = block.content as unknown as QuoteContent;
+  const isCentered = quoteContent.alignment === "center";
+
+  const handleContentChange = (patch: Partial<QuoteContent>) => {
+    onChange({
+      ...block,
+      content: {
+        ...block.content,
+        ...patch,
+      },
+    });
+  };
+
+  // Handle selecting an author photo from the media library
+  const handleSelectAsset = (asset: MediaAsset) => {
+    onChange({
+      ...block,
+      // Set FK link at block level for database relationship
+      media_asset_id: asset.id,
+      content: {
+        ...block.content,
+        avatarMediaAssetId: asset.id,
+        avatarUrl: asset.public_url,
+      },
+    });
+    setIsMediaLibraryOpen(false);
+  };
+
+  const handleRemoveAvatar = () => {
+    onChange({
+      ...block,
+      media_asset_id: null,
+      content: {
+        ...block.content,
+        avatarMediaAssetId: null,
+        avatarUrl: null,
+      },
+    });
+  };
+
+  // Compute inline background color for custom style
+  const inlineBackgroundColor =
+    block.style === "custom" && block.customBackgroundColor
+      ? block.customBackgroundColor
+      : undefined;
+
+  // Use block layout or fallback to defaults
+  const layout = block.layout || DEFAULT_BLOCK_LAYOUT;
+
+  return (
+    <div className="w-full group">
+      <div
+        className={`
+          relative w-full transition-all duration-300 ease-in-out
+          ${getBlockStyleClasses(block.style)}
+        `}
+        style={
+          inlineBackgroundColor
+            ? { backgroundColor: inlineBackgroundColor }
+            : undefined
+        }
+      >
+        {/* LEFT GUTTER TOOLBAR */}
+        <div className="absolute left-4 top-6 flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 shadow-md z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+          {/* Layout / Format */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleFormatPanel();
+            }}
+            aria-label="Block format"
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              isFormatPanelOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+          >
+            <PanelsLeftRight className="h-4 w-4" />
+          </button>
+
+          {/* Style (palette) */}
+          <button
+            type="button"
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              styleMenuOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+            title="Block style"
+            onClick={(e) => {
+              e.stopPropagation();
+              setStyleMenuOpen((prev) => !prev);
+            }}
+          >
+            <Palette className="h-4 w-4" />
+          </button>
+
+          {/* Alignment */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleContentChange({
+                alignment: isCentered ? "left" : "center",
+              });
+            }}
+            aria-label={isCentered ? "Align quote left" : "Center quote"}
+            title={isCentered ? "Align quote left" : "Center quote"}
+            className="inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+          >
+            {isCentered ? (
+              <AlignLeft className="h-4 w-4" />
+            ) : (
+              <AlignCenter className="h-4 w-4" />
+            )}
+          </button>
+
+          {/* Appearance (animation) */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleAppearancePanel();
+            }}
+            className={`inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              isAppearancePanelOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : block.content.animation && block.content.animation !== "none"
+                  ? "text-purple-500 bg-purple-50"
+                  : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+            title="Block animation"
+          >
+            <Stars className="h-4 w-4" />
+          </button>
+
+          {/* Block metadata */}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleMetadataPanel();
+            }}
+            aria-label="Block metadata (learning fingerprint)"
+            title="Block metadata (learning fingerprint)"
+            className={`relative inline-flex items-center justify-center h-6 w-6 rounded-full transition-colors ${
+              isMetadataPanelOpen
+                ? "text-[#ff7a00] bg-orange-50"
+                : "text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50"
+            }`}
+          >
+            <Database className="h-4 w-4" />
+            {blockHasMetadata && !isMetadataPanelOpen && (
+              <span
+                className="pointer-events-none absolute -top-0.5 -right-0.5 h-2 w-2 rounded-full bg-[#ff7a00] ring-2 ring-white shadow-sm"
+                aria-hidden="true"
+              />
+            )}
+          </button>
+        </div>
+
+        {/* RIGHT GUTTER TOOLBAR */}
+        <div className="absolute right-4 top-6 flex items-center gap-1 rounded-full border border-gray-200 bg-white px-3 py-1 shadow-md z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+          {canMoveUp && (
+            <button
+              type="button"
+              onClick={onMoveUp}
+              aria-label="Move block up"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <ChevronUp className="h-4 w-4" />
+            </button>
+          )}
+
+          {canMoveDown && (
+            <button
+              type="button"
+              onClick={onMoveDown}
+              aria-label="Move block down"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={onDuplicate}
+            aria-label="Duplicate block"
+            className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+          >
+            <Copy className="h-4 w-4" />
+          </button>
+
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
+          <button
+            type="button"
+            onClick={onDelete}
+            aria-label="Delete block"
+            className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-red-500 hover:bg-slate-50 rounded-full transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        {/* Format Panel */}
+        {isFormatPanelOpen && (
+          <FormatPanel
+            layout={layout}
+            onChange={onLayoutChange}
+            onClose={onToggleFormatPanel}
+          />
+        )}
+
+        {/* Metadata Panel */}
+        {isMetadataPanelOpen && (
+          <BlockMetadataPopover
+            metadata={block.metadata}
+            onChange={onMetadataChange}
+            onClose={onToggleMetadataPanel}
+            blockId={block.id}
+            blockType={block.type}
+            blockContent={summariseQuote(quoteContent)}
+            savedToDb={block.savedToDb}
+            mblMetadata={block.mblMetadata}
+            onMblMetadataCleared={onMblMetadataCleared}
+            onMblMetadataUpdated={onMblMetadataUpdated}
+          />
+        )}
+
+        {/* Block Style Menu */}
+        <BlockStyleMenu
+          open={styleMenuOpen}
+          onClose={() => setStyleMenuOpen(false)}
+          style={block.style}
+          customBackgroundColor={block.customBackgroundColor}
+          onChange={(newStyle, customColor) => {
+            onStyleChange(newStyle, customColor);
+            if (newStyle !== "custom") {
+              setStyleMenuOpen(false);
+            }
+          }}
+          className="top-14 left-4"
+        />
+
+        {/* Appearance/Animation Panel */}
+        {isAppearancePanelOpen && (
+          <AppearancePanel
+            animation={block.content.animation ?? "none"}
+            duration={block.content.animationDuration ?? "normal"}
+            onChange={onAnimationChange}
+            onDurationChange={onDurationChange}
+            onClose={onToggleAppearancePanel}
+          />
+        )}
+
+        {/* INNER CONTENT COLUMN - Quote and attribution */}
+        <BlockWrapper layout={layout}>
+          <div
+            className={`flex flex-col gap-6 ${
+              isCentered
+                ? "items-center text-center"
+                : "items-stretch text-left"
+            }`}
+          >
+            <div
+              className={`w-full ${
+                isCentered ? "" : "border-l-4 border-current pl-6"
+              }`}
+            >
+              <TipTapEditor
+                value={quoteContent.text || ""}
+                onChange={(text) => handleContentChange({ text })}
+                placeholder="Type a quote..."
+                editorClassName="focus:outline-none text-[26px] font-medium leading-snug [&_p]:my-0"
+                disableLists={true}
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              {quoteContent.avatarUrl ? (
+                <div className="relative group/avatar shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => setIsMediaLibraryOpen(true)}
+                    title="Change author photo"
+                  >
+                    <img
+                      src={quoteContent.avatarUrl}
+                      alt=""
+                      className="h-12 w-12 rounded-full object-cover"
+                    />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleRemoveAvatar}
+                    aria-label="Remove author photo"
+                    className="absolute -top-1 -right-1 hidden h-5 w-5 items-center justify-center rounded-full bg-white text-slate-500 shadow group-hover/avatar:flex hover:text-red-500"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setIsMediaLibraryOpen(true)}
+                  title="Add author photo"
+                  className="flex h-12 w-12 shrink-0 items-center justify-center rounded-full border border-dashed border-current opacity-50 hover:opacity-100 transition-opacity"
+                >
+                  <UserCircle2 className="h-6 w-6" />
+                </button>
+              )}
+              <div className={isCentered ? "text-center" : "text-left"}>
+                <input
+                  type="text"
+                  value={quoteContent.author ?? ""}
+                  onChange={(e) =>
+                    handleContentChange({ author: e.target.value })
+                  }
+                  placeholder="Author"
+                  className="block w-56 bg-transparent text-base font-semibold placeholder:opacity-50 focus:outline-none"
+                />
+                <input
+                  type="text"
+                  value={quoteContent.authorRole ?? ""}
+                  onChange={(e) =>
+                    handleContentChange({ authorRole: e.target.value })
+                  }
+                  placeholder="Role or organisation"
+                  className="block w-56 bg-transparent text-sm opacity-70 placeholder:opacity-50 focus:outline-none"
+                />
+              </div>
+            </div>
+          </div>
+        </BlockWrapper>
+      </div>
+
+      {/* Media Library Modal */}
+      {isMediaLibraryOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/50"
+            onClick={() => setIsMediaLibraryOpen(false)}
+          />
+          <div className="relative bg-white rounded-xl shadow-2xl w-[90vw] max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Select Author Photo
+              </h2>
+              <button
+                type="button"
+                onClick={() => setIsMediaLibraryOpen(false)}
+                className="h-8 w-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-200 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6">
+              <ImageUploadAndLibrary onSelectAsset={handleSelectAsset} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
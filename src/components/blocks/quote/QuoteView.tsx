@@ -0,0 +1,49 @@
+// src/components/blocks/quote/QuoteView.tsx
+// Learner-facing renderer for Quote blocks
+
+import React from "react";
+import type { QuoteContent } from "./quote-types";
+
+interface QuoteViewProps {
+  content: QuoteContent;
+}
+
+export const QuoteView: React.FC<QuoteViewProps> = ({ content }) => {
+  const isCentered = content.alignment === "center";
+
+  return (
+    <figure
+      className={`flex flex-col gap-6 ${
+        isCentered ? "items-center text-center" : "items-start text-left"
+      }`}
+    >
+      <blockquote
+        className={`text-[26px] font-medium leading-snug [&_p]:my-0 ${
+          isCentered ? "" : "border-l-4 border-current pl-6"
+        }`}
+        dangerouslySetInnerHTML={{ __html: content.text || "" }}
+      />
+      {(content.author || content.avatarUrl) && (
+        <figcaption className="flex items-center gap-3">
+          {content.avatarUrl && (
+            <img
+              src={content.avatarUrl}
+              alt=""
+              className="h-12 w-12 rounded-full object-cover"
+            />
+          )}
+          <div className={isCentered ? "text-center" : "text-left"}>
+            {content.author && (
+              <p className="text-base font-semibold">{content.author}</p>
+            )}
+            {content.authorRole && (
+              <p className="text-sm opacity-70">{content.authorRole}</p>
+            )}
+          </div>
+        </figcaption>
+      )}
+    </figure>
+  );
+};
+
+export default QuoteView;
@@ -0,0 +1,6 @@
+export { QuoteView } from "./QuoteView";
+export { QuoteBlock } from "./QuoteBlock";
+
+export type { QuoteAlignment, QuoteContent } from "./quote-types";
+
+export { getDefaultQuoteContent, summariseQuote } from "./quote-types";
@@ -0,0 +1,27 @@
+// src/components/blocks/quote/quote-types.ts
+// Types and defaults for the Quote content block
+
+import type { QuoteBlock } from "../../../types/blocks";
+
+export type QuoteContent = QuoteBlock["content"];
+
+export type QuoteAlignment = NonNullable<QuoteContent["alignment"]>;
+
+export function getDefaultQuoteContent(
+  alignment: QuoteAlignment = "left"
+): QuoteContent {
+  return {
+    text: "",
+    author: "",
+    authorRole: "",
+    avatarUrl: null,
+    avatarMediaAssetId: null,
+    alignment,
+  };
+}
+
+/** Plain-text summary used by the metadata popover */
+export function summariseQuote(content: QuoteContent): string {
+  const text = (content.text ?? "").replace(/<[^>]*>/g, " ").trim();
+  return content.author ? `${text} — ${content.author}` : text;
+}
@@ -0,0 +1,174 @@
+import React, { useEffect, useRef, useState } from "react";
+import type {
+  AnimationDuration,
+  BlockAnimation,
+} from "../../../../pages/admin/content/LessonBuilder";
+
+// Animation duration options
+const DURATION_OPTIONS: {
+  value: AnimationDuration;
+  label: string;
+  seconds: number;
+}[] = [
+  { value: "fast", label: "Fast", seconds: 0.3 },
+  { value: "normal", label: "Normal", seconds: 0.6 },
+  { value: "slow", label: "Slow", seconds: 1.0 },
+  { value: "very-slow", label: "Very Slow", seconds: 1.5 },
+];
+
+// Helper to get duration in seconds
+function getDurationSeconds(duration: AnimationDuration | undefined): number {
+  const option = DURATION_OPTIONS.find((d) => d.value === duration);
+  return option?.seconds ?? 0.6; // Default to normal (0.6s)
+}
+
+// CSS keyframe animations for block entrance effects
+export const ANIMATION_STYLES = `
+  @keyframes fadeIn {
+    from { opacity: 0; }
+    to { opacity: 1; }
+  }
+  @keyframes slideUp {
+    from { opacity: 0; transform: translateY(30px); }
+    to { opacity: 1; transform: translateY(0); }
+  }
+  @keyframes slideDown {
+    from { opacity: 0; transform: translateY(-30px); }
+    to { opacity: 1; transform: translateY(0); }
+  }
+  @keyframes slideLeft {
+    from { opacity: 0; transform: translateX(30px); }
+    to { opacity: 1; transform: translateX(0); }
+  }
+  @keyframes slideRight {
+    from { opacity: 0; transform: translateX(-30px); }
+    to { opacity: 1; transform: translateX(0); }
+  }
+  @keyframes zoomIn {
+    from { opacity: 0; transform: scale(0.9); }
+    to { opacity: 1; transform: scale(1); }
+  }
+  @keyframes bounce {
+    0% { opacity: 0; transform: translateY(30px); }
+    50% { transform: translateY(-10px); }
+    70% { transform: translateY(5px); }
+    100% { opacity: 1; transform: translateY(0); }
+  }
+  .animate-fade-in { animation: fadeIn 0.6s ease-out both; }
+  .animate-slide-up { animation: slideUp 0.6s ease-out both; }
+  .animate-slide-down { animation: slideDown 0.6s ease-out both; }
+  .animate-slide-left { animation: slideLeft 0.6s ease-out both; }
+  .animate-slide-right { animation: slideRight 0.6s ease-out both; }
+  .animate-zoom-in { animation: zoomIn 0.5s ease-out both; }
+  .animate-bounce { animation: bounce 0.8s ease-out both; }
+  
+  /* Staggered list item animation - slides in from right */
+  @keyframes listItemSlideIn {
+    from { opacity: 0; transform: translateX(50px); }
+    to { opacity: 1; transform: translateX(0); }
+  }
+  .animate-list-item {
+    opacity: 0;
+    animation: listItemSlideIn 0.8s ease-out both;
+  }
+`;
+
+// Helper to get animation class based on animation type
+function getAnimationClass(animation: BlockAnimation | undefined): string {
+  switch (animation) {
+    case "fade-in":
+      return "animate-fade-in";
+    case "slide-up":
+      return "animate-slide-up";
+    case "slide-down":
+      return "animate-slide-down";
+    case "slide-left":
+      return "animate-slide-left";
+    case "slide-right":
+      return "animate-slide-right";
+    case "zoom-in":
+      return "animate-zoom-in";
+    case "bounce":
+      return "animate-bounce";
+    default:
+      return "";
+  }
+}
+
+// Component that animates when it comes into view
+interface AnimateOnViewProps {
+  children: React.ReactNode;
+  animation: BlockAnimation | undefined;
+  duration?: AnimationDuration;
+  className?: string;
+  style?: React.CSSProperties;
+  onVisible?: () => void; // Fires once, the first time the element comes into view
+}
+
+export const AnimateOnView: React.FC<AnimateOnViewProps> = ({
+  children,
+  animation,
+  duration,
+  className = "",
+  style,
+  onVisible,
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const onVisibleRef = useRef(onVisible);
+  onVisibleRef.current = onVisible;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          // Only trigger once when element comes into view
+          if (entry.isIntersecting && !isVisible) {
+            setIsVisible(true);
+          }
+        });
+      },
+      {
+        threshold: 0.1, // Trigger when 10% of the element is visible
+        rootMargin: "0px 0px -50px 0px", // Trigger slightly before fully in view
+      }
+    );
+
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (isVisible) onVisibleRef.current?.();
+  }, [isVisible]);
+
+  const animationClass = isVisible ? getAnimationClass(animation) : "";
+  const durationSeconds = getDurationSeconds(duration);
+
+  // Start with opacity 0 if there's an animation, then animate in
+  const initialStyle: React.CSSProperties =
+    animation && animation !== "none" && !isVisible ? { opacity: 0 } : {};
+
+  // Apply custom animation duration and delay via CSS
+  // Delay of 300ms so animation is more noticeable after block comes into view
+  const animationStyle: React.CSSProperties =
+    isVisible && animation && animation !== "none"
+      ? { animationDuration: `${durationSeconds}s`, animationDelay: "0.3s" }
+      : {};
+
+  return (
+    <div
+      ref={ref}
+      className={`${className} ${animationClass}`}
+      style={{ ...style, ...initialStyle, ...animationStyle }}
+    >
+      {children}
+    </div>
+  );
+};
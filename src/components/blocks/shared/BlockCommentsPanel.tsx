@@ -0,0 +1,421 @@
+import React, { Fragment, useRef, useState } from "react";
+import {
+  CheckCircle2,
+  Loader2,
+  MessageSquare,
+  RotateCcw,
+  X,
+} from "lucide-react";
+import type {
+  ContentBlockCommentRow,
+  ContentBlockCommentThread,
+  ContentReviewer,
+} from "../../../lib/supabase/contentBlockComments";
+
+interface BlockCommentsPanelProps {
+  // Short description of the block the threads are anchored to
+  blockLabel: string;
+  threads: ContentBlockCommentThread[];
+  reviewers: ContentReviewer[];
+  currentUserId: string | null;
+  onCreate: (
+    body: string,
+    mentions: string[],
+    parentId: string | null
+  ) => Promise<void>;
+  onToggleResolved: (thread: ContentBlockCommentThread) => Promise<void>;
+  onClose: () => void;
+}
+
+const MAX_MENTION_SUGGESTIONS = 5;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function formatCommentDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+// Highlight the @mentions a comment was saved with
+function renderCommentBody(
+  comment: ContentBlockCommentRow,
+  reviewers: ContentReviewer[]
+): React.ReactNode {
+  const names = reviewers
+    .filter((reviewer) => (comment.mentions ?? []).includes(reviewer.user_id))
+    .map((reviewer) => `@${reviewer.name}`);
+  if (names.length === 0) return comment.body;
+
+  const pattern = new RegExp(`(${names.map(escapeRegExp).join("|")})`, "g");
+  return comment.body.split(pattern).map((part, index) =>
+    names.includes(part) ? (
+      <span key={index} className="font-medium text-[#ff7a00]">
+        {part}
+      </span>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    )
+  );
+}
+
+// ---------------------------------------------------------------------------
+// CommentComposer - textarea with @mention suggestions
+// ---------------------------------------------------------------------------
+
+interface CommentComposerProps {
+  reviewers: ContentReviewer[];
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  reviewers,
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState("");
+  const [mentioned, setMentioned] = useState<ContentReviewer[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : reviewers
+          .filter(
+            (reviewer) =>
+              reviewer.name.toLowerCase().includes(mentionQuery) ||
+              (reviewer.email ?? "").toLowerCase().includes(mentionQuery)
+          )
+          .slice(0, MAX_MENTION_SUGGESTIONS);
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = /(?:^|\s)@([^\s@]*)$/.exec(value.slice(0, caret));
+    setMentionQuery(match ? match[1].toLowerCase() : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const handlePickMention = (reviewer: ContentReviewer) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@[^\s@]*$/, "");
+    const inserted = `@${reviewer.name} `;
+    setBody(before + inserted + body.slice(caret));
+    setMentioned((prev) =>
+      prev.some((item) => item.user_id === reviewer.user_id)
+        ? prev
+        : [...prev, reviewer]
+    );
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      const position = before.length + inserted.length;
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = body.trim();
+    if (!trimmed || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      // Only keep mentions whose @name is still in the text
+      await onSubmit(
+        trimmed,
+        mentioned
+          .filter((reviewer) => trimmed.includes(`@${reviewer.name}`))
+          .map((reviewer) => reviewer.user_id)
+      );
+      setBody("");
+      setMentioned([]);
+      setMentionQuery(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={handleChange}
+        onKeyDown={(e) => {
+          if (e.key === "Escape" && mentionQuery !== null) {
+            e.stopPropagation();
+            setMentionQuery(null);
+          } else if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            void handleSubmit();
+          }
+        }}
+        rows={3}
+        placeholder={placeholder}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-800 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:border-orange-500"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 z-10 mt-1 rounded-lg border border-gray-200 bg-white shadow-lg py-1">
+          {suggestions.map((reviewer) => (
+            <li key={reviewer.user_id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  // Keep the textarea caret where it is
+                  e.preventDefault();
+                  handlePickMention(reviewer);
+                }}
+                className="w-full text-left px-3 py-1.5 text-sm hover:bg-orange-50"
+              >
+                <span className="font-medium text-gray-800">
+                  {reviewer.name}
+                </span>
+                {reviewer.email && (
+                  <span className="ml-2 text-xs text-gray-500">
+                    {reviewer.email}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+
+      <div className="mt-2 flex items-center justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => void handleSubmit()}
+          disabled={!body.trim() || isSubmitting}
+          className="inline-flex items-center gap-2 rounded-lg bg-orange-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-orange-600 disabled:opacity-60 transition-colors"
+        >
+          {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ---------------------------------------------------------------------------
+// BlockCommentsPanel
+// ---------------------------------------------------------------------------
+
+/**
+ * BlockCommentsPanel
+ *
+ * Slide-out review threads for one lesson block. Reviewers start threads,
+ * reply, @mention other admins, and resolve or reopen a thread.
+ */
+export const BlockCommentsPanel: React.FC<BlockCommentsPanelProps> = ({
+  blockLabel,
+  threads,
+  reviewers,
+  currentUserId,
+  onCreate,
+  onToggleResolved,
+  onClose,
+}) => {
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  const openThreads = threads.filter((thread) => !thread.root.resolved_at);
+  const resolvedThreads = threads.filter((thread) => thread.root.resolved_at);
+  const visibleThreads = showResolved ? threads : openThreads;
+
+  const handleToggleResolved = async (thread: ContentBlockCommentThread) => {
+    setTogglingId(thread.root.id);
+    try {
+      await onToggleResolved(thread);
+    } finally {
+      setTogglingId(null);
+    }
+  };
+
+  const renderComment = (comment: ContentBlockCommentRow) => {
+    const mentionsMe =
+      !!currentUserId && (comment.mentions ?? []).includes(currentUserId);
+    return (
+      <div
+        className={`rounded-md ${mentionsMe ? "bg-orange-50 -mx-2 px-2 py-1" : ""}`}
+      >
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="text-sm font-medium text-gray-800">
+            {comment.author_name || "Unknown"}
+          </span>
+          <span className="text-[11px] text-gray-400">
+            {formatCommentDate(comment.created_at)}
+          </span>
+        </div>
+        <p className="mt-0.5 text-sm text-gray-700 whitespace-pre-wrap break-words">
+          {renderCommentBody(comment, reviewers)}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-50 w-96 bg-white shadow-xl border-l border-gray-200 flex flex-col">
+      {/* Header */}
+      <div className="flex items-start justify-between px-4 py-4 border-b border-gray-200">
+        <div className="min-w-0">
+          <h2 className="flex items-center gap-2 text-base font-semibold text-gray-900">
+            <MessageSquare className="h-4 w-4 text-gray-500" />
+            Comments
+          </h2>
+          <p className="mt-0.5 text-xs text-gray-500 truncate">{blockLabel}</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close comments"
+          className="h-8 w-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Threads */}
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4">
+        {resolvedThreads.length > 0 && (
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+              className="rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+            />
+            Show resolved ({resolvedThreads.length})
+          </label>
+        )}
+
+        {visibleThreads.length === 0 && (
+          <p className="text-sm text-gray-500">
+            {threads.length === 0
+              ? "No comments on this block yet."
+              : "All comments on this block are resolved."}
+          </p>
+        )}
+
+        {visibleThreads.map((thread) => {
+          const isResolved = !!thread.root.resolved_at;
+          return (
+            <div
+              key={thread.root.id}
+              className={`rounded-lg border p-3 ${
+                isResolved
+                  ? "border-gray-200 bg-gray-50 opacity-75"
+                  : "border-gray-200 bg-white"
+              }`}
+            >
+              {renderComment(thread.root)}
+
+              {thread.replies.length > 0 && (
+                <div className="mt-3 ml-3 pl-3 border-l-2 border-gray-100 space-y-3">
+                  {thread.replies.map((reply) => (
+                    <Fragment key={reply.id}>{renderComment(reply)}</Fragment>
+                  ))}
+                </div>
+              )}
+
+              {isResolved && (
+                <p className="mt-2 text-[11px] text-gray-500">
+                  Resolved
+                  {thread.root.resolved_by_name
+                    ? ` by ${thread.root.resolved_by_name}`
+                    : ""}{" "}
+                  {formatCommentDate(thread.root.resolved_at as string)}
+                </p>
+              )}
+
+              {replyingToId === thread.root.id ? (
+                <div className="mt-3">
+                  <CommentComposer
+                    reviewers={reviewers}
+                    placeholder="Reply… type @ to mention an admin"
+                    submitLabel="Reply"
+                    onSubmit={async (body, mentions) => {
+                      await onCreate(body, mentions, thread.root.id);
+                      setReplyingToId(null);
+                    }}
+                    onCancel={() => setReplyingToId(null)}
+                  />
+                </div>
+              ) : (
+                <div className="mt-2 flex items-center gap-3">
+                  {!isResolved && (
+                    <button
+                      type="button"
+                      onClick={() => setReplyingToId(thread.root.id)}
+                      className="text-xs text-gray-600 hover:text-gray-900"
+                    >
+                      Reply
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => void handleToggleResolved(thread)}
+                    disabled={togglingId === thread.root.id}
+                    className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-60"
+                  >
+                    {togglingId === thread.root.id ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : isResolved ? (
+                      <RotateCcw className="h-3.5 w-3.5" />
+                    ) : (
+                      <CheckCircle2 className="h-3.5 w-3.5" />
+                    )}
+                    {isResolved ? "Reopen" : "Resolve"}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* New thread */}
+      <div className="border-t border-gray-200 px-4 py-4">
+        <CommentComposer
+          reviewers={reviewers}
+          placeholder="Add a comment… type @ to mention an admin"
+          submitLabel="Comment"
+          onSubmit={(body, mentions) => onCreate(body, mentions, null)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BlockCommentsPanel;
@@ -0,0 +1,123 @@
+import React from "react";
+import type {
+  LessonBlockDiffEntry,
+  LessonBlockDiffStatus,
+} from "../../../lib/lessonBlockDiff";
+
+const STATUS_BADGES: Record<
+  LessonBlockDiffStatus,
+  { label: string; className: string }
+> = {
+  unchanged: { label: "Unchanged", className: "bg-gray-100 text-gray-500" },
+  changed: { label: "Changed", className: "bg-amber-100 text-amber-700" },
+  moved: { label: "Moved", className: "bg-blue-100 text-blue-700" },
+  left_only: { label: "Removed", className: "bg-red-100 text-red-700" },
+  right_only: { label: "Added", className: "bg-green-100 text-green-700" },
+};
+
+function formatBlockType(type: string): string {
+  const label = type.replace(/[-_]/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+interface LessonBlockDiffViewProps {
+  entries: LessonBlockDiffEntry[];
+  leftLabel: string;
+  rightLabel: string;
+  // Unchanged blocks are collapsed into a count by default
+  showUnchanged?: boolean;
+}
+
+/**
+ * Side-by-side, block-by-block comparison of two versions of a lesson page.
+ * "Removed" / "Added" are relative to moving from the left to the right side.
+ */
+export const LessonBlockDiffView: React.FC<LessonBlockDiffViewProps> = ({
+  entries,
+  leftLabel,
+  rightLabel,
+  showUnchanged = false,
+}) => {
+  const visibleEntries = showUnchanged
+    ? entries
+    : entries.filter((entry) => entry.status !== "unchanged");
+  const hiddenCount = entries.length - visibleEntries.length;
+
+  if (visibleEntries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-gray-500">
+        No differences between these versions.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-3 px-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        <div>{leftLabel}</div>
+        <div>{rightLabel}</div>
+      </div>
+
+      {visibleEntries.map((entry) => {
+        const badge = STATUS_BADGES[entry.status];
+        return (
+          <div
+            key={entry.id}
+            className="rounded-lg border border-gray-200 overflow-hidden"
+          >
+            <div className="flex items-center justify-between gap-2 border-b border-gray-100 bg-gray-50 px-3 py-1.5">
+              <span className="text-xs font-medium text-gray-700">
+                {formatBlockType(entry.type)}
+              </span>
+              <span
+                className={`rounded-full px-2 py-0.5 text-[11px] font-medium ${badge.className}`}
+              >
+                {badge.label}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 divide-x divide-gray-100 text-sm">
+              <div
+                className={`px-3 py-2 whitespace-pre-wrap break-words ${
+                  entry.status === "left_only" || entry.status === "changed"
+                    ? "bg-red-50/60 text-gray-800"
+                    : "text-gray-600"
+                }`}
+              >
+                {entry.left ? (
+                  entry.leftText || (
+                    <span className="italic text-gray-400">No text</span>
+                  )
+                ) : (
+                  <span className="italic text-gray-400">Not present</span>
+                )}
+              </div>
+              <div
+                className={`px-3 py-2 whitespace-pre-wrap break-words ${
+                  entry.status === "right_only" || entry.status === "changed"
+                    ? "bg-green-50/60 text-gray-800"
+                    : "text-gray-600"
+                }`}
+              >
+                {entry.right ? (
+                  entry.rightText || (
+                    <span className="italic text-gray-400">No text</span>
+                  )
+                ) : (
+                  <span className="italic text-gray-400">Not present</span>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {hiddenCount > 0 && (
+        <p className="pt-1 text-xs text-gray-500">
+          {hiddenCount} unchanged block{hiddenCount === 1 ? "" : "s"} not shown.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LessonBlockDiffView;
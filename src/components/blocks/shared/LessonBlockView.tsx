@@ -0,0 +1,598 @@
+import React from "react";
+import type {
+  AnimationDuration,
+  BlockAnimation,
+  LessonBlock,
+} from "../../../../pages/admin/content/LessonBuilder";
+import { DEFAULT_BLOCK_LAYOUT } from "../../../types/blocks";
+import type { OrderedListStyle } from "../list/ordered-list/orderedListTypes";
+import {
+  getBlockStyleClasses,
+  getContentWidthClasses,
+} from "./LessonBuilderInternals";
+import { AnimateOnView } from "./AnimateOnView";
+import { TablePreview } from "../text/TablePreview";
+import { FlashcardsPreview } from "../interactive/flashcards/FlashcardsBlock";
+import { AccordionBlock } from "../interactive/accordion/AccordionBlock";
+import { TabsLearner } from "../interactive/tabs";
+import type { TabsContent } from "../interactive/tabs";
+import { ImageCompareLearner } from "../interactive/image-compare";
+import type { ImageCompareContent } from "../interactive/image-compare";
+import type { SortingActivityContent } from "../sorting/sorting-types";
+import { SortingActivityLearner } from "../sorting/SortingActivityLearner";
+import type { KnowledgeCheckContent } from "../knowledge-check/knowledge-check-types";
+import { KnowledgeCheckLearner } from "../knowledge-check/KnowledgeCheckLearner";
+import type { VideoContent } from "../multimedia/video/video-types";
+import type { ChartContent } from "../chart/chart-types";
+import { ChartView } from "../chart/ChartView";
+import type { QuoteContent } from "../quote/quote-types";
+import { QuoteView } from "../quote/QuoteView";
+import type { DividerContent } from "../divider/divider-types";
+import { DividerView } from "../divider/DividerView";
+import { VideoLearner } from "../multimedia/video/VideoLearner";
+
+type FlashcardsPreviewProps = React.ComponentProps<typeof FlashcardsPreview>;
+
+// Helper to convert a number to the appropriate list marker format
+function getListMarker(
+  num: number,
+  style: OrderedListStyle | undefined
+): string {
+  switch (style) {
+    case "lower-alpha":
+      // Convert 1 -> a, 2 -> b, etc. (wraps after z)
+      return String.fromCharCode(97 + ((num - 1) % 26));
+    case "upper-alpha":
+      // Convert 1 -> A, 2 -> B, etc. (wraps after Z)
+      return String.fromCharCode(65 + ((num - 1) % 26));
+    case "lower-roman":
+      return toRoman(num).toLowerCase();
+    case "upper-roman":
+      return toRoman(num);
+    case "decimal":
+    default:
+      return String(num);
+  }
+}
+
+// Helper to convert number to Roman numerals
+function toRoman(num: number): string {
+  if (num < 1 || num > 3999) return String(num);
+  const romanNumerals: [number, string][] = [
+    [1000, "M"],
+    [900, "CM"],
+    [500, "D"],
+    [400, "CD"],
+    [100, "C"],
+    [90, "XC"],
+    [50, "L"],
+    [40, "XL"],
+    [10, "X"],
+    [9, "IX"],
+    [5, "V"],
+    [4, "IV"],
+    [1, "I"],
+  ];
+  let result = "";
+  for (const [value, symbol] of romanNumerals) {
+    while (num >= value) {
+      result += symbol;
+      num -= value;
+    }
+  }
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// LessonBlockView - learner-facing render of a single lesson block.
+// Used by the Lesson Builder preview modal and the learner module player.
+// The host page must inject ANIMATION_STYLES once for entrance animations.
+// ---------------------------------------------------------------------------
+
+export interface LessonBlockViewProps {
+  block: LessonBlock;
+  moduleId: string | null;
+  pageId: string | null;
+  previewWidth?: "desktop" | "tablet" | "mobile";
+  // Progress tracking hooks used by the learner player
+  onSeen?: (blockId: string) => void;
+  onActivityCompleted?: (blockId: string) => void;
+}
+
+export const LessonBlockView: React.FC<LessonBlockViewProps> = ({
+  block,
+  moduleId,
+  pageId,
+  previewWidth = "desktop",
+  onSeen,
+  onActivityCompleted,
+}) => {
+  // Get style classes and inline color
+  const styleClasses = getBlockStyleClasses(block.style);
+  const inlineBgColor =
+    block.style === "custom" && block.customBackgroundColor
+      ? block.customBackgroundColor
+      : undefined;
+  const layout = block.layout || DEFAULT_BLOCK_LAYOUT;
+
+  return (
+    <AnimateOnView
+      animation={block.content.animation as BlockAnimation}
+      duration={block.content.animationDuration as AnimationDuration}
+      className={`w-full ${styleClasses}`}
+      style={inlineBgColor ? { backgroundColor: inlineBgColor } : undefined}
+      onVisible={onSeen ? () => onSeen(block.id) : undefined}
+    >
+      <div
+        className={
+          block.type === "image-fullwidth"
+            ? "w-full"
+            : `${getContentWidthClasses(layout.contentWidth)} px-8`
+        }
+        style={{
+          paddingTop: `${layout.paddingTop}px`,
+          paddingBottom: `${layout.paddingBottom}px`,
+        }}
+      >
+        {/* Heading */}
+        {block.type === "heading" && (
+          <div
+            className="text-[40px] font-semibold leading-tight"
+            dangerouslySetInnerHTML={{
+              __html: block.content.heading || "",
+            }}
+          />
+        )}
+
+        {/* Subheading */}
+        {block.type === "subheading" && (
+          <div
+            className="text-[30px] font-semibold leading-tight"
+            dangerouslySetInnerHTML={{
+              __html: block.content.subheading || "",
+            }}
+          />
+        )}
+
+        {/* Paragraph */}
+        {block.type === "paragraph" && (
+          <div
+            className="prose prose-lg max-w-none"
+            dangerouslySetInnerHTML={{
+              __html: block.content.html || "",
+            }}
+          />
+        )}
+
+        {/* Paragraph with Heading */}
+        {block.type === "paragraph-with-heading" && (
+          <div>
+            <div
+              className="text-[40px] font-semibold leading-tight mb-4"
+              dangerouslySetInnerHTML={{
+                __html: block.content.heading || "",
+              }}
+            />
+            <div
+              className="prose prose-lg max-w-none"
+              dangerouslySetInnerHTML={{
+                __html: block.content.html || "",
+              }}
+            />
+          </div>
+        )}
+
+        {/* Paragraph with Subheading */}
+        {block.type === "paragraph-with-subheading" && (
+          <div>
+            <div
+              className="text-[30px] font-semibold leading-tight mb-4"
+              dangerouslySetInnerHTML={{
+                __html: block.content.subheading || "",
+              }}
+            />
+            <div
+              className="prose prose-lg max-w-none"
+              dangerouslySetInnerHTML={{
+                __html: block.content.html || "",
+              }}
+            />
+          </div>
+        )}
+
+        {/* Columns */}
+        {block.type === "columns" && (
+          <div className="flex flex-col md:flex-row gap-6 md:gap-8">
+            <div
+              className="flex-1 prose prose-lg max-w-none"
+              dangerouslySetInnerHTML={{
+                __html: block.content.columnOneContent || "",
+              }}
+            />
+            <div
+              className="flex-1 prose prose-lg max-w-none"
+              dangerouslySetInnerHTML={{
+                __html: block.content.columnTwoContent || "",
+              }}
+            />
+          </div>
+        )}
+
+        {/* Table */}
+        {block.type === "table" && (
+          <div className="overflow-x-auto">
+            {block.content.tableContent ? (
+              <TablePreview content={block.content.tableContent} />
+            ) : (
+              <div className="text-gray-400 italic">Empty table</div>
+            )}
+          </div>
+        )}
+
+        {/* Ordered List (with nested support) */}
+        {block.type === "numbered-list" && (
+          <div className="space-y-4">
+            {(block.content.listItems ?? []).map((item, idx) => {
+              const startNum = block.content.startNumber ?? 1;
+              const marker = getListMarker(
+                startNum + idx,
+                block.content.listStyle
+              );
+              // Staggered delay: each item waits longer (0.35s per item)
+              const itemDelay = 0.4 + idx * 0.35;
+              return (
+                <div
+                  key={idx}
+                  className="animate-list-item"
+                  style={{
+                    animationDelay: `${itemDelay}s`,
+                  }}
+                >
+                  {/* Top-level item with badge */}
+                  <div className="flex items-start gap-4">
+                    <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-orange-500 text-white font-semibold text-sm">
+                      {marker}
+                    </div>
+                    <div className="flex-1 pt-2">
+                      <div
+                        className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-800"
+                        dangerouslySetInnerHTML={{
+                          __html: item.body,
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Nested children (level 2) */}
+                  {item.children && item.children.length > 0 && (
+                    <div className="ml-14 mt-3 space-y-3">
+                      {item.children.map((child, childIdx) => {
+                        const childMarker = getListMarker(
+                          childIdx + 1,
+                          block.content.subStyle ?? "lower-alpha"
+                        );
+                        // Child items also stagger after parent
+                        const childDelay = itemDelay + 0.2 + childIdx * 0.25;
+                        return (
+                          <div
+                            key={childIdx}
+                            className="flex items-start gap-3 animate-list-item"
+                            style={{
+                              animationDelay: `${childDelay}s`,
+                            }}
+                          >
+                            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-orange-400 text-white font-medium text-xs">
+                              {childMarker}
+                            </div>
+                            <div className="flex-1 pt-1">
+                              <div
+                                className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-700"
+                                dangerouslySetInnerHTML={{
+                                  __html: child.body,
+                                }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Bullet List */}
+        {block.type === "bullet-list" && (
+          <div className="space-y-4">
+            {(block.content.bulletItems ?? []).map((item, idx) => {
+              // Staggered delay: each item waits longer
+              const itemDelay = 0.4 + idx * 0.35;
+              return (
+                <div
+                  key={idx}
+                  className="animate-list-item"
+                  style={{
+                    animationDelay: `${itemDelay}s`,
+                  }}
+                >
+                  {/* Top-level item with bullet */}
+                  <div className="flex items-start gap-4">
+                    <div
+                      className="flex h-4 w-4 mt-1.5 shrink-0 items-center justify-center rounded-full"
+                      style={{
+                        backgroundColor: block.content.bulletColor || "#f97316",
+                      }}
+                    />
+                    <div className="flex-1">
+                      <div
+                        className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-800"
+                        dangerouslySetInnerHTML={{
+                          __html: item.body,
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Nested children (level 2) */}
+                  {item.children && item.children.length > 0 && (
+                    <div className="ml-8 mt-3 space-y-3">
+                      {item.children.map((child, childIdx) => {
+                        // Child items also stagger after parent
+                        const childDelay = itemDelay + 0.2 + childIdx * 0.25;
+                        return (
+                          <div
+                            key={childIdx}
+                            className="flex items-start gap-3 animate-list-item"
+                            style={{
+                              animationDelay: `${childDelay}s`,
+                            }}
+                          >
+                            <div
+                              className="flex h-3 w-3 mt-1.5 shrink-0 items-center justify-center rounded-full opacity-70"
+                              style={{
+                                backgroundColor:
+                                  block.content.bulletColor || "#f97316",
+                              }}
+                            />
+                            <div className="flex-1">
+                              <div
+                                className="prose prose-sm max-w-none [&>p]:m-0 [&>p:not(:last-child)]:mb-2 text-gray-700"
+                                dangerouslySetInnerHTML={{
+                                  __html: child.body,
+                                }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Image Centered */}
+        {block.type === "image-centered" && (
+          <div className="flex flex-col items-center">
+            {block.content.public_url ? (
+              <>
+                <img
+                  src={block.content.public_url as string}
+                  alt={(block.content.alt_text as string) || "Image"}
+                  className="max-w-[600px] w-full h-auto rounded-lg"
+                />
+                {block.content.caption && (
+                  <p className="mt-2 text-sm text-gray-600 italic text-center">
+                    {block.content.caption as string}
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="py-4 text-center text-gray-400 italic text-sm">
+                Image not selected
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Image Full Width */}
+        {block.type === "image-fullwidth" && (
+          <div className="w-full">
+            {block.content.public_url ? (
+              <>
+                <img
+                  src={block.content.public_url as string}
+                  alt={(block.content.alt_text as string) || "Image"}
+                  className="w-full h-auto object-cover rounded-md"
+                />
+                {block.content.caption && (
+                  <p className="mt-2 text-sm text-gray-600 italic text-center">
+                    {block.content.caption as string}
+                  </p>
+                )}
+              </>
+            ) : (
+              <div className="py-4 text-center text-gray-400 italic text-sm">
+                Image not selected
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Image + Text */}
+        {block.type === "image-text" &&
+          (() => {
+            const imagePosition =
+              (block.content.layout as any)?.imagePosition || "left";
+            const imageWidth = (block.content.layout as any)?.imageWidth || 50;
+            const textContent = block.content.text as
+              { heading: string; body: string } | undefined;
+            const heading = textContent?.heading || "";
+            const body = textContent?.body || "";
+
+            const getImageWidthClass = () => {
+              switch (imageWidth) {
+                case 25:
+                  return "w-1/4";
+                case 75:
+                  return "w-3/4";
+                default:
+                  return "w-1/2";
+              }
+            };
+            const getTextWidthClass = () => {
+              switch (imageWidth) {
+                case 25:
+                  return "w-3/4";
+                case 75:
+                  return "w-1/4";
+                default:
+                  return "w-1/2";
+              }
+            };
+
+            const imageElement = block.content.public_url ? (
+              <img
+                src={block.content.public_url as string}
+                alt={(block.content.alt_text as string) || "Image"}
+                className="w-full h-auto object-cover rounded-lg"
+              />
+            ) : (
+              <div className="w-full h-32 bg-gray-200 rounded-lg flex items-center justify-center">
+                <span className="text-gray-400 text-sm">No image</span>
+              </div>
+            );
+
+            const textElement = (
+              <div className="flex flex-col">
+                {body && (
+                  <div
+                    className="prose prose-sm max-w-none text-gray-700"
+                    dangerouslySetInnerHTML={{
+                      __html: body,
+                    }}
+                  />
+                )}
+              </div>
+            );
+
+            return (
+              <div
+                className={`flex gap-6 ${
+                  imagePosition === "right" ? "flex-row-reverse" : "flex-row"
+                }`}
+              >
+                <div className={getImageWidthClass()}>{imageElement}</div>
+                <div className={`${getTextWidthClass()} flex items-center`}>
+                  {textElement}
+                </div>
+              </div>
+            );
+          })()}
+
+        {/* Flashcards */}
+        {block.type === "flashcards" && (
+          <FlashcardsPreview
+            cards={block.content.cards as FlashcardsPreviewProps["cards"]}
+            previewWidth={previewWidth}
+            blockId={block.id}
+            pageId={pageId ?? undefined}
+          />
+        )}
+
+        {/* Sorting Activity */}
+        {block.type === "sorting_activity" && (
+          <SortingActivityLearner
+            moduleId={moduleId}
+            pageId={pageId}
+            blockId={block.id}
+            content={block.content as SortingActivityContent}
+            onComplete={
+              onActivityCompleted
+                ? () => onActivityCompleted(block.id)
+                : undefined
+            }
+          />
+        )}
+
+        {/* Chart */}
+        {block.type === "chart" && (
+          <ChartView content={block.content as unknown as ChartContent} />
+        )}
+
+        {/* Quote */}
+        {block.type === "quote" && (
+          <QuoteView content={block.content as unknown as QuoteContent} />
+        )}
+
+        {/* Divider */}
+        {block.type === "divider" && (
+          <DividerView content={block.content as unknown as DividerContent} />
+        )}
+
+        {/* Video */}
+        {block.type === "video" && (
+          <VideoLearner
+            moduleId={moduleId}
+            pageId={pageId}
+            blockId={block.id}
+            content={block.content as unknown as VideoContent}
+            onComplete={
+              onActivityCompleted
+                ? () => onActivityCompleted(block.id)
+                : undefined
+            }
+          />
+        )}
+
+        {/* Knowledge Check */}
+        {block.type === "knowledge_check" && (
+          <KnowledgeCheckLearner
+            moduleId={moduleId}
+            pageId={pageId}
+            blockId={block.id}
+            content={block.content as unknown as KnowledgeCheckContent}
+            onComplete={
+              onActivityCompleted
+                ? () => onActivityCompleted(block.id)
+                : undefined
+            }
+          />
+        )}
+
+        {/* Accordion */}
+        {block.type === "accordion" && (
+          <AccordionBlock
+            block={block}
+            onChange={() => {}}
+            isPreviewMode
+            moduleId={moduleId}
+            pageId={pageId}
+          />
+        )}
+
+        {/* Tabs */}
+        {block.type === "tabs" && moduleId && (
+          <TabsLearner
+            content={block.content as TabsContent}
+            blockId={block.id}
+            moduleId={moduleId}
+            lessonId={pageId ?? undefined}
+          />
+        )}
+
+        {/* Image Compare */}
+        {block.type === "image_compare" && (
+          <ImageCompareLearner
+            blockId={block.id}
+            content={block.content as ImageCompareContent}
+          />
+        )}
+      </div>
+    </AnimateOnView>
+  );
+};
@@ -0,0 +1,329 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { History, Loader2, RotateCcw, X } from "lucide-react";
+import {
+  getContentModulePageRevision,
+  listContentModulePageRevisions,
+  type ContentModulePageRevision,
+  type ContentModulePageRevisionSummary,
+} from "../../../lib/supabase/contentModulePageRevisions";
+import { hydrateLessonBlocks } from "../../../lib/lessonBlocks";
+import { diffLessonBlocks } from "../../../lib/lessonBlockDiff";
+import { LessonBlockDiffView } from "./LessonBlockDiffView";
+import type { LessonBlock } from "../../../../pages/admin/content/LessonBuilder";
+
+type CompareMode = "previous" | "current";
+
+interface LessonHistoryModalProps {
+  pageId: string;
+  currentBlocks: LessonBlock[];
+  // Bumped by the builder after each save so the list stays current
+  refreshKey: number;
+  onRestore: (
+    revision: ContentModulePageRevision,
+    blocks: LessonBlock[]
+  ) => void;
+  onClose: () => void;
+}
+
+function formatRevisionDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/**
+ * LessonHistoryModal
+ *
+ * Lists the saved revisions of a lesson page, shows a side-by-side diff of
+ * the selected revision against the one before it (or the current lesson)
+ * and restores a revision into the builder.
+ */
+export const LessonHistoryModal: React.FC<LessonHistoryModalProps> = ({
+  pageId,
+  currentBlocks,
+  refreshKey,
+  onRestore,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<
+    ContentModulePageRevisionSummary[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+  const [liveAt, setLiveAt] = useState("");
+  const [loadedRevisions, setLoadedRevisions] = useState<
+    Record<string, ContentModulePageRevision>
+  >({});
+  const loadingIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    listContentModulePageRevisions(pageId)
+      .then((rows) => {
+        setRevisions(rows);
+        setSelectedId((prev) => prev ?? rows[0]?.id ?? null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : String(err))
+      )
+      .finally(() => setLoading(false));
+  }, [pageId, refreshKey]);
+
+  const selectedIndex = revisions.findIndex((r) => r.id === selectedId);
+  const selectedSummary = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  // Revisions are newest first, so the previous one is the next in the list
+  const previousSummary =
+    selectedIndex >= 0 ? revisions[selectedIndex + 1] ?? null : null;
+
+  // Load full snapshots for the selected revision and the one it's compared to
+  useEffect(() => {
+    const ids = [selectedSummary?.id, previousSummary?.id].filter(
+      (id): id is string => !!id
+    );
+    ids.forEach((id) => {
+      if (loadedRevisions[id] || loadingIds.current.has(id)) return;
+      loadingIds.current.add(id);
+      getContentModulePageRevision(id)
+        .then((revision) => {
+          if (revision) {
+            setLoadedRevisions((prev) => ({ ...prev, [id]: revision }));
+          }
+        })
+        .catch((err) =>
+          setError(err instanceof Error ? err.message : String(err))
+        )
+        .finally(() => loadingIds.current.delete(id));
+    });
+  }, [selectedSummary?.id, previousSummary?.id, loadedRevisions]);
+
+  const selectedRevision = selectedSummary
+    ? loadedRevisions[selectedSummary.id] ?? null
+    : null;
+  const previousRevision = previousSummary
+    ? loadedRevisions[previousSummary.id] ?? null
+    : null;
+
+  const selectedBlocks = useMemo(
+    () =>
+      selectedRevision ? hydrateLessonBlocks(selectedRevision.blocks) : null,
+    [selectedRevision]
+  );
+
+  const diffEntries = useMemo(() => {
+    if (!selectedBlocks) return null;
+    if (compareMode === "current") {
+      return diffLessonBlocks(selectedBlocks, currentBlocks);
+    }
+    if (!previousSummary) {
+      // First revision: everything was added
+      return diffLessonBlocks([], selectedBlocks);
+    }
+    if (!previousRevision) return null;
+    return diffLessonBlocks(
+      hydrateLessonBlocks(previousRevision.blocks),
+      selectedBlocks
+    );
+  }, [
+    selectedBlocks,
+    compareMode,
+    currentBlocks,
+    previousSummary,
+    previousRevision,
+  ]);
+
+  const handleLiveAtChange = (value: string) => {
+    setLiveAt(value);
+    if (!value) return;
+    const at = new Date(value).getTime();
+    const live = revisions.find((r) => new Date(r.created_at).getTime() <= at);
+    if (live) setSelectedId(live.id);
+  };
+
+  const handleRestore = () => {
+    if (!selectedRevision || !selectedBlocks) return;
+    const confirmed = window.confirm(
+      `Restore version ${selectedRevision.version}? The current lesson is kept in the history and can be restored again.`
+    );
+    if (confirmed) {
+      onRestore(selectedRevision, selectedBlocks);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-xl shadow-2xl w-[95vw] max-w-6xl h-[85vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <History className="h-5 w-5 text-gray-500" />
+            Version History
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="h-8 w-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-200 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Revision list */}
+          <div className="w-72 shrink-0 border-r border-gray-200 flex flex-col">
+            <div className="px-4 py-3 border-b border-gray-100 space-y-1">
+              <label
+                htmlFor="lesson-history-live-at"
+                className="text-xs font-semibold text-gray-600"
+              >
+                Version live at
+              </label>
+              <input
+                id="lesson-history-live-at"
+                type="datetime-local"
+                value={liveAt}
+                onChange={(e) => handleLiveAtChange(e.target.value)}
+                className="w-full rounded-md border border-gray-200 px-2 py-1 text-sm text-gray-700"
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {loading && revisions.length === 0 ? (
+                <div className="flex items-center justify-center py-10 text-gray-400">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              ) : revisions.length === 0 ? (
+                <p className="px-4 py-6 text-sm text-gray-500">
+                  No saved versions yet. A version is recorded every time the
+                  lesson is saved.
+                </p>
+              ) : (
+                <ul>
+                  {revisions.map((revision, index) => (
+                    <li key={revision.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(revision.id)}
+                        className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                          revision.id === selectedId
+                            ? "bg-orange-50"
+                            : "hover:bg-gray-50"
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span
+                            className={`text-sm font-medium ${
+                              revision.id === selectedId
+                                ? "text-[#ff7a00]"
+                                : "text-gray-900"
+                            }`}
+                          >
+                            Version {revision.version}
+                          </span>
+                          {index === 0 && (
+                            <span className="rounded-full bg-green-100 px-2 py-0.5 text-[11px] font-medium text-green-700">
+                              Latest
+                            </span>
+                          )}
+                        </div>
+                        <div className="mt-0.5 text-xs text-gray-500">
+                          {formatRevisionDate(revision.created_at)}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {revision.created_by_name || "Unknown author"}
+                        </div>
+                        {revision.restored_from_revision_id && (
+                          <div className="mt-1 text-xs text-purple-600">
+                            Restored from version{" "}
+                            {revisions.find(
+                              (r) => r.id === revision.restored_from_revision_id
+                            )?.version ?? "?"}
+                          </div>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-gray-100">
+              <div className="flex items-center gap-1 text-xs">
+                <span className="mr-1 font-semibold text-gray-600">
+                  Compare with
+                </span>
+                {(
+                  [
+                    ["previous", "Previous version"],
+                    ["current", "Current lesson"],
+                  ] as [CompareMode, string][]
+                ).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setCompareMode(mode)}
+                    className={`px-2.5 py-1 rounded-md border font-medium transition-colors ${
+                      compareMode === mode
+                        ? "border-[#ff7a00] bg-orange-50 text-[#ff7a00]"
+                        : "border-gray-200 text-gray-600 hover:border-gray-300"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={handleRestore}
+                disabled={!selectedBlocks}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-orange-500 hover:bg-orange-600 text-white disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Restore this version
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              {error ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              ) : !selectedSummary ? null : !diffEntries ? (
+                <div className="flex items-center justify-center py-10 text-gray-400">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              ) : (
+                <LessonBlockDiffView
+                  entries={diffEntries}
+                  leftLabel={
+                    compareMode === "current"
+                      ? `Version ${selectedSummary.version}`
+                      : previousSummary
+                        ? `Version ${previousSummary.version}`
+                        : "Before first save"
+                  }
+                  rightLabel={
+                    compareMode === "current"
+                      ? "Current lesson"
+                      : `Version ${selectedSummary.version}`
+                  }
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonHistoryModal;
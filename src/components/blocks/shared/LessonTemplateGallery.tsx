@@ -0,0 +1,111 @@
+import React from "react";
+import { LayoutTemplate, Loader2, X } from "lucide-react";
+import {
+  LESSON_TEMPLATES,
+  type LessonTemplate,
+} from "../../../lib/lessonTemplates";
+
+interface LessonTemplateGalleryProps {
+  // Title of the lesson the template will be applied to
+  lessonTitle: string;
+  // Id of the template being instantiated, while the lesson is created
+  creatingTemplateId: string | null;
+  onSelect: (template: LessonTemplate) => void;
+  onClose: () => void;
+}
+
+/**
+ * LessonTemplateGallery
+ *
+ * Lets an author start a new lesson from one of the pre-built layouts in
+ * LESSON_TEMPLATES instead of an empty page.
+ */
+export const LessonTemplateGallery: React.FC<LessonTemplateGalleryProps> = ({
+  lessonTitle,
+  creatingTemplateId,
+  onSelect,
+  onClose,
+}) => {
+  const isCreating = creatingTemplateId !== null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={() => !isCreating && onClose()}
+      />
+
+      {/* Modal */}
+      <div className="relative bg-white rounded-xl shadow-2xl w-[95vw] max-w-4xl max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <div>
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+              <LayoutTemplate className="h-5 w-5 text-gray-500" />
+              Lesson Templates
+            </h2>
+            <p className="text-sm text-gray-500">
+              Start &ldquo;{lessonTitle || "Untitled lesson"}&rdquo; from a
+              pre-built layout. Everything can be edited afterwards.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isCreating}
+            className="h-8 w-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-200 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          {LESSON_TEMPLATES.map((template) => (
+            <div
+              key={template.id}
+              className="flex flex-col rounded-lg border border-gray-200 overflow-hidden hover:border-orange-500 hover:shadow-sm transition-all"
+            >
+              {/* Outline preview */}
+              <ol className="bg-gray-100 border-b border-gray-200 px-4 py-3 space-y-1.5">
+                {template.outline.map((section, index) => (
+                  <li
+                    key={section}
+                    className="flex items-center gap-2 text-xs text-gray-600"
+                  >
+                    <span className="h-4 w-4 shrink-0 rounded-full bg-orange-400 text-[10px] font-semibold text-white flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                    {section}
+                  </li>
+                ))}
+              </ol>
+              <div className="flex-1 px-4 py-3">
+                <div className="text-sm font-medium text-gray-900">
+                  {template.title}
+                </div>
+                <div className="mt-1 text-xs text-gray-500 leading-relaxed">
+                  {template.description}
+                </div>
+              </div>
+              <div className="px-4 pb-4">
+                <button
+                  type="button"
+                  onClick={() => onSelect(template)}
+                  disabled={isCreating}
+                  className="w-full inline-flex items-center justify-center gap-2 rounded-lg bg-orange-500 px-3 py-2 text-sm font-medium text-white hover:bg-orange-600 disabled:opacity-60 transition-colors"
+                >
+                  {creatingTemplateId === template.id && (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  )}
+                  Use template
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonTemplateGallery;
@@ -0,0 +1,163 @@
+import React, { useState } from "react";
+import { BookmarkPlus, X } from "lucide-react";
+
+export interface SaveBlockToLibraryValues {
+  name: string;
+  tags: string[];
+  // Turn the block being saved into a linked instance of the new entry
+  linked: boolean;
+}
+
+interface SaveBlockToLibraryModalProps {
+  defaultName: string;
+  onSave: (values: SaveBlockToLibraryValues) => Promise<void>;
+  onClose: () => void;
+}
+
+function parseTags(value: string): string[] {
+  return [
+    ...new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Name and tag a block before saving it to the shared saved-blocks library.
+ */
+export const SaveBlockToLibraryModal: React.FC<
+  SaveBlockToLibraryModalProps
+> = ({ defaultName, onSave, onClose }) => {
+  const [name, setName] = useState(defaultName);
+  const [tags, setTags] = useState("");
+  const [linked, setLinked] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Give the block a name.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ name: name.trim(), tags: parseTags(tags), linked });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={() => !saving && onClose()}
+      />
+
+      {/* Modal */}
+      <form
+        onSubmit={handleSubmit}
+        className="relative bg-white rounded-xl shadow-2xl w-full max-w-md mx-4 overflow-hidden"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+            <BookmarkPlus className="h-5 w-5 text-gray-500" />
+            Save to library
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="h-8 w-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-200 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4">
+          <div>
+            <label
+              htmlFor="saved-block-name"
+              className="block mb-1 text-sm font-medium text-gray-700"
+            >
+              Name
+            </label>
+            <input
+              id="saved-block-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:border-orange-500 focus:outline-none"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="saved-block-tags"
+              className="block mb-1 text-sm font-medium text-gray-700"
+            >
+              Tags{" "}
+              <span className="font-normal text-gray-400">
+                (comma separated)
+              </span>
+            </label>
+            <input
+              id="saved-block-tags"
+              type="text"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. disclaimer, safety"
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 focus:border-orange-500 focus:outline-none"
+            />
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={linked}
+              onChange={(e) => setLinked(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-orange-500 focus:ring-orange-500"
+            />
+            <span>
+              Keep this block linked
+              <span className="block text-xs text-gray-500">
+                Edits to this block will update the saved block and every lesson
+                that uses it.
+              </span>
+            </span>
+          </label>
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        <div className="px-6 py-4 bg-gray-50 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-orange-500 rounded-lg hover:bg-orange-600 disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save block"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SaveBlockToLibraryModal;
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link2, Loader2, Search, Trash2 } from "lucide-react";
+import {
+  deleteContentSavedBlock,
+  listContentSavedBlocks,
+  type ContentSavedBlockRow,
+} from "../../../lib/supabase/contentSavedBlocks";
+import { createLessonBlockFromSaved } from "../../../lib/lessonBlocks";
+import { getLessonBlockPlainText } from "../../../lib/lessonBlockDiff";
+
+interface SavedBlocksPanelProps {
+  // Bumped by the builder after a block is saved so the list stays current
+  refreshKey: number;
+  onInsert: (saved: ContentSavedBlockRow, linked: boolean) => void;
+}
+
+function formatBlockType(type: string): string {
+  const label = type.replace(/[-_]/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * SavedBlocksPanel
+ *
+ * "Saved Blocks" category of the Block Library: search and filter the shared
+ * library by name or tag, and insert an entry as a copy or a linked instance.
+ */
+export const SavedBlocksPanel: React.FC<SavedBlocksPanelProps> = ({
+  refreshKey,
+  onInsert,
+}) => {
+  const [savedBlocks, setSavedBlocks] = useState<ContentSavedBlockRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    listContentSavedBlocks()
+      .then(setSavedBlocks)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : String(err))
+      )
+      .finally(() => setLoading(false));
+  }, [refreshKey]);
+
+  const allTags = useMemo(
+    () => [...new Set(savedBlocks.flatMap((saved) => saved.tags ?? []))].sort(),
+    [savedBlocks]
+  );
+
+  const previews = useMemo(
+    () =>
+      new Map(
+        savedBlocks.map((saved) => [
+          saved.id,
+          getLessonBlockPlainText(
+            createLessonBlockFromSaved(saved, { linked: false })
+          ),
+        ])
+      ),
+    [savedBlocks]
+  );
+
+  const query = search.trim().toLowerCase();
+  const visibleBlocks = savedBlocks.filter((saved) => {
+    if (activeTag && !(saved.tags ?? []).includes(activeTag)) return false;
+    if (!query) return true;
+    return (
+      saved.name.toLowerCase().includes(query) ||
+      (saved.tags ?? []).some((tag) => tag.toLowerCase().includes(query))
+    );
+  });
+
+  const handleDelete = async (saved: ContentSavedBlockRow) => {
+    const confirmed = window.confirm(
+      `Delete "${saved.name}" from the library? Lessons that use it keep their current content as an unlinked copy.`
+    );
+    if (!confirmed) return;
+    try {
+      await deleteContentSavedBlock(saved.id);
+      setSavedBlocks((prev) => prev.filter((b) => b.id !== saved.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search saved blocks..."
+          className="w-full rounded-md border border-gray-200 bg-white pl-8 pr-3 py-1.5 text-sm text-gray-700 focus:border-orange-500 focus:outline-none"
+        />
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() =>
+                setActiveTag((prev) => (prev === tag ? null : tag))
+              }
+              className={`rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                activeTag === tag
+                  ? "border-[#ff7a00] bg-orange-50 text-[#ff7a00]"
+                  : "border-gray-200 bg-white text-gray-600 hover:border-gray-300"
+              }`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10 text-gray-400">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : savedBlocks.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          No saved blocks yet. Use the bookmark button on any block to save it
+          here.
+        </p>
+      ) : visibleBlocks.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          No saved blocks match your search.
+        </p>
+      ) : (
+        visibleBlocks.map((saved) => (
+          <div
+            key={saved.id}
+            className="bg-white rounded-lg border border-gray-200 overflow-hidden"
+          >
+            <div className="px-3 py-2.5">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">
+                    {saved.name}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatBlockType(saved.block_type)}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(saved)}
+                  aria-label="Delete saved block"
+                  className="shrink-0 inline-flex items-center justify-center h-6 w-6 text-gray-400 hover:text-red-500 hover:bg-gray-50 rounded-full transition-colors"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              {previews.get(saved.id) && (
+                <p className="mt-1 text-xs text-gray-500 leading-relaxed line-clamp-2">
+                  {previews.get(saved.id)}
+                </p>
+              )}
+              {(saved.tags ?? []).length > 0 && (
+                <div className="mt-1.5 flex flex-wrap gap-1">
+                  {saved.tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="rounded-full bg-gray-100 px-1.5 py-0.5 text-[11px] text-gray-600"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex border-t border-gray-100 text-xs font-medium">
+              <button
+                type="button"
+                onClick={() => onInsert(saved, false)}
+                className="flex-1 px-3 py-2 text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Insert copy
+              </button>
+              <button
+                type="button"
+                onClick={() => onInsert(saved, true)}
+                title="Stays in sync with the saved block"
+                className="flex-1 inline-flex items-center justify-center gap-1 px-3 py-2 border-l border-gray-100 text-[#ff7a00] hover:bg-orange-50 transition-colors"
+              >
+                <Link2 className="h-3.5 w-3.5" />
+                Insert linked
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default SavedBlocksPanel;
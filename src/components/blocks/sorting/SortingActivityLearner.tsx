@@ -10,6 +10,7 @@ import {
 } from "@hello-pangea/dnd";
 import { GripVertical, Check, X, RotateCcw } from "lucide-react";
 import { supabase } from "../../../../lib/supabaseClient";
+import { recordLearningEventStatements } from "../../../lib/api/xapi";
 
 import type { SortingActivityContent, SortingItem } from "./sorting-types";
 
@@ -25,7 +26,29 @@ async function logSortingEvent(body: any) {
         body,
       }
     );
-    if (error) console.error("log-sorting-activity-event error", error);
+    if (error) {
+      console.error("log-sorting-activity-event error", error);
+      return data;
+    }
+
+    // The Edge Function stores the learning_events row; mirror it as xAPI
+    const { moduleId, pageId, blockId, eventType, ...metadata } = body ?? {};
+    const { data: userData } = await supabase.auth.getUser();
+    if (userData.user && eventType) {
+      void recordLearningEventStatements({
+        user_id: userData.user.id,
+        module_id: moduleId ?? null,
+        page_id: pageId ?? null,
+        block_id: blockId ?? null,
+        event_type: eventType,
+        event_time: new Date().toISOString(),
+        duration_ms:
+          typeof metadata.time_to_complete_ms === "number"
+            ? metadata.time_to_complete_ms
+            : null,
+        metadata,
+      });
+    }
     return data;
   } catch (err) {
     console.error("log-sorting-activity-event unexpected error", err);
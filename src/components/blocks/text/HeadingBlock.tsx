@@ -3,6 +3,7 @@ import {
   ChevronUp,
   ChevronDown,
   Copy,
+  BookmarkPlus,
   Trash2,
   PanelsLeftRight,
   Palette,
@@ -42,6 +43,7 @@ interface HeadingBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -68,6 +70,7 @@ export const HeadingBlock: React.FC<HeadingBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -235,6 +238,17 @@ export const HeadingBlock: React.FC<HeadingBlockProps> = ({
             <Copy className="h-4 w-4" />
           </button>
 
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
           <button
             type="button"
             onClick={onDelete}
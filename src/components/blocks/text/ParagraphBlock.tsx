@@ -7,6 +7,7 @@ import {
   ChevronUp,
   ChevronDown,
   Copy,
+  BookmarkPlus,
   Trash2,
 } from "lucide-react";
 import TipTapEditor from "../../editor/TipTapEditor";
@@ -42,6 +43,7 @@ interface ParagraphBlockProps {
   onAnimationChange: (animation: BlockAnimation) => void;
   onDurationChange: (duration: AnimationDuration) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -68,6 +70,7 @@ export const ParagraphBlock: React.FC<ParagraphBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -249,6 +252,17 @@ export const ParagraphBlock: React.FC<ParagraphBlockProps> = ({
             <Copy className="h-4 w-4" />
           </button>
 
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
           {/* Delete */}
           <button
             type="button"
@@ -3,6 +3,7 @@ import {
   ChevronUp,
   ChevronDown,
   Copy,
+  BookmarkPlus,
   Trash2,
   PanelsLeftRight,
   Palette,
@@ -41,6 +42,7 @@ interface ParagraphWithHeadingBlockProps {
   onMblMetadataUpdated: (mblMetadata: unknown) => void;
   onAnimationChange: (animation: BlockAnimation) => void;
   onDuplicate: () => void;
+  onSaveToLibrary?: () => void;
   onDelete: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
@@ -66,6 +68,7 @@ const ParagraphWithHeadingBlock: React.FC<ParagraphWithHeadingBlockProps> = ({
   onAnimationChange,
   onDurationChange,
   onDuplicate,
+  onSaveToLibrary,
   onDelete,
   onMoveUp,
   onMoveDown,
@@ -249,6 +252,17 @@ const ParagraphWithHeadingBlock: React.FC<ParagraphWithHeadingBlockProps> = ({
             <Copy className="h-4 w-4" />
           </button>
 
+          {onSaveToLibrary && (
+            <button
+              type="button"
+              onClick={onSaveToLibrary}
+              aria-label="Save block to library"
+              className="inline-flex items-center justify-center h-6 w-6 text-slate-500 hover:text-[#ff7a00] hover:bg-slate-50 rounded-full transition-colors"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+            </button>
+          )}
+
           <button
             type="button"
             onClick={onDelete}
@@ -0,0 +1,123 @@
+import React from "react";
+
+// Helper component for table preview
+export const TablePreview: React.FC<{ content: unknown }> = ({ content }) => {
+  // Render TipTap table JSON as HTML
+  if (!content || typeof content !== "object") return null;
+
+  const renderNode = (node: any): React.ReactNode => {
+    if (!node) return null;
+
+    // Handle doc wrapper (TipTap wraps content in a doc node)
+    if (node.type === "doc") {
+      return (
+        <>
+          {node.content?.map((child: any, i: number) =>
+            renderNode({ ...child, key: i })
+          )}
+        </>
+      );
+    }
+
+    if (node.type === "table") {
+      return (
+        <table
+          key={node.key}
+          className="border-collapse border border-gray-300 w-full"
+        >
+          <tbody>
+            {node.content?.map((row: any, i: number) =>
+              renderNode({ ...row, key: i })
+            )}
+          </tbody>
+        </table>
+      );
+    }
+
+    if (node.type === "tableRow") {
+      return (
+        <tr key={node.key}>
+          {node.content?.map((cell: any, i: number) =>
+            renderNode({ ...cell, key: i })
+          )}
+        </tr>
+      );
+    }
+
+    if (node.type === "tableHeader") {
+      return (
+        <th
+          key={node.key}
+          className="border border-gray-300 px-4 py-2 bg-orange-500 text-white font-semibold"
+          style={
+            node.attrs?.backgroundColor
+              ? { backgroundColor: node.attrs.backgroundColor }
+              : undefined
+          }
+        >
+          {node.content?.map((p: any, i: number) =>
+            renderNode({ ...p, key: i })
+          )}
+        </th>
+      );
+    }
+
+    if (node.type === "tableCell") {
+      return (
+        <td
+          key={node.key}
+          className="border border-gray-300 px-4 py-2"
+          style={
+            node.attrs?.backgroundColor
+              ? { backgroundColor: node.attrs.backgroundColor }
+              : undefined
+          }
+        >
+          {node.content?.map((p: any, i: number) =>
+            renderNode({ ...p, key: i })
+          )}
+        </td>
+      );
+    }
+
+    if (node.type === "paragraph") {
+      return (
+        <p key={node.key} className="m-0">
+          {node.content?.map((t: any, i: number) =>
+            renderNode({ ...t, key: i })
+          ) || <br />}
+        </p>
+      );
+    }
+
+    if (node.type === "text") {
+      let text: React.ReactNode = node.text;
+      // Apply marks (bold, italic, etc.)
+      if (node.marks) {
+        for (const mark of node.marks) {
+          if (mark.type === "bold") {
+            text = <strong>{text}</strong>;
+          } else if (mark.type === "italic") {
+            text = <em>{text}</em>;
+          } else if (mark.type === "underline") {
+            text = <u>{text}</u>;
+          } else if (mark.type === "strike") {
+            text = <s>{text}</s>;
+          } else if (mark.type === "textStyle" && mark.attrs?.color) {
+            text = <span style={{ color: mark.attrs.color }}>{text}</span>;
+          }
+        }
+      }
+      return <span key={node.key}>{text}</span>;
+    }
+
+    // Handle hardBreak
+    if (node.type === "hardBreak") {
+      return <br key={node.key} />;
+    }
+
+    return null;
+  };
+
+  return <>{renderNode(content)}</>;
+};
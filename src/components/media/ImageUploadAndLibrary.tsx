@@ -60,7 +60,7 @@ export function ImageUploadAndLibrary({
   const loadAssets = useCallback(async () => {
     setIsLoadingAssets(true);
     try {
-      const fetchedAssets = await listMediaAssets();
+      const fetchedAssets = await listMediaAssets({ mimePrefix: "image/" });
       setAssets(fetchedAssets);
     } catch (err) {
       console.error("[ImageUploadAndLibrary] Failed to load assets:", err);
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '../../lib/supabaseClient';
+import {
+  getContentModuleProgress,
+  recordLessonCompleted,
+  recordLessonViewed,
+  type ContentModulePageProgressRow,
+  type ContentModuleProgressRow,
+} from '../lib/supabase/contentModuleProgress';
+import type { LessonBlock } from '../../pages/admin/content/LessonBuilder';
+
+// Block types that must be finished (not just scrolled past) before a lesson
+// counts as completed.
+const ACTIVITY_BLOCK_TYPES: string[] = ['sorting_activity', 'knowledge_check'];
+
+function isActivityBlock(block: LessonBlock): boolean {
+  if (ACTIVITY_BLOCK_TYPES.includes(block.type)) return true;
+  // Videos only gate completion when the author asks for a full watch
+  return block.type === 'video' && block.content.requireFullWatch === true;
+}
+
+interface UseContentModuleProgressParams {
+  moduleId: string | undefined;
+  pageId: string | undefined;
+  totalPages: number;
+  // Published version being played, stored when the learner starts
+  moduleVersionId: string | undefined;
+  // Blocks of the current lesson, or null while they are still loading
+  blocks: LessonBlock[] | null;
+}
+
+/**
+ * Tracks learner progress through a content module:
+ *  - records a lesson as viewed (and moves the resume pointer) when it opens
+ *  - marks the lesson completed once every block has been seen and every
+ *    activity block has been finished
+ *  - rolls completed lessons up to module completion
+ *  - remembers which published version the learner started on
+ */
+export function useContentModuleProgress({
+  moduleId,
+  pageId,
+  totalPages,
+  moduleVersionId,
+  blocks,
+}: UseContentModuleProgressParams) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [moduleProgress, setModuleProgress] = useState<ContentModuleProgressRow | null>(null);
+  const [pageProgress, setPageProgress] = useState<Record<string, ContentModulePageProgressRow['status']>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [seenBlockIds, setSeenBlockIds] = useState<Set<string>>(() => new Set());
+  const [completedActivityIds, setCompletedActivityIds] = useState<Set<string>>(() => new Set());
+  const completingPageIdRef = useRef<string | null>(null);
+  // Progress writes run one at a time: each recalculates the module rollup
+  // from what it reads, so an overlapping "viewed" write could otherwise
+  // overwrite a "completed" rollup with "in_progress"
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Load the learner's existing progress for this module
+  useEffect(() => {
+    if (!moduleId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.auth.getUser();
+        if (error || !data.user) {
+          console.warn('No user available, learner progress will not be saved', error);
+          return;
+        }
+        if (cancelled) return;
+        setUserId(data.user.id);
+
+        const progress = await getContentModuleProgress(data.user.id, moduleId);
+        if (cancelled) return;
+        setModuleProgress(progress.module);
+        setPageProgress(
+          Object.fromEntries(progress.pages.map((p) => [p.page_id, p.status]))
+        );
+      } catch (err) {
+        console.error('Failed to load learner progress', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [moduleId]);
+
+  // Reset per-lesson tracking when the learner changes lesson
+  useEffect(() => {
+    setSeenBlockIds(new Set());
+    setCompletedActivityIds(new Set());
+    completingPageIdRef.current = null;
+  }, [pageId]);
+
+  // Record the lesson as viewed / resume pointer
+  useEffect(() => {
+    if (!userId || !moduleId || !pageId || totalPages <= 0) return;
+
+    setPageProgress((prev) =>
+      prev[pageId] ? prev : { ...prev, [pageId]: 'in_progress' }
+    );
+
+    saveChainRef.current = saveChainRef.current
+      .then(async () => {
+        await recordLessonViewed({ userId, moduleId, pageId, totalPages, moduleVersionId });
+      })
+      .catch((err) => {
+        console.error('Failed to record lesson view', err);
+      });
+  }, [userId, moduleId, pageId, totalPages, moduleVersionId]);
+
+  const markBlockSeen = useCallback((blockId: string) => {
+    setSeenBlockIds((prev) => {
+      if (prev.has(blockId)) return prev;
+      const next = new Set(prev);
+      next.add(blockId);
+      return next;
+    });
+  }, []);
+
+  const markActivityCompleted = useCallback((blockId: string) => {
+    setCompletedActivityIds((prev) => {
+      if (prev.has(blockId)) return prev;
+      const next = new Set(prev);
+      next.add(blockId);
+      return next;
+    });
+  }, []);
+
+  const isCurrentLessonRequirementsMet = useMemo(() => {
+    if (!blocks) return false;
+    return blocks.every((block) => {
+      if (!seenBlockIds.has(block.id)) return false;
+      if (isActivityBlock(block)) {
+        return completedActivityIds.has(block.id);
+      }
+      return true;
+    });
+  }, [blocks, seenBlockIds, completedActivityIds]);
+
+  // Complete the lesson once its requirements are met
+  useEffect(() => {
+    if (!userId || !moduleId || !pageId || totalPages <= 0) return;
+    if (!isCurrentLessonRequirementsMet) return;
+    if (pageProgress[pageId] === 'completed') return;
+    if (completingPageIdRef.current === pageId) return;
+    completingPageIdRef.current = pageId;
+
+    setPageProgress((prev) => ({ ...prev, [pageId]: 'completed' }));
+
+    saveChainRef.current = saveChainRef.current
+      .then(async () => {
+        const row = await recordLessonCompleted({ userId, moduleId, pageId, totalPages, moduleVersionId });
+        setModuleProgress(row);
+      })
+      .catch((err) => {
+        console.error('Failed to record lesson completion', err);
+        completingPageIdRef.current = null;
+      });
+  }, [userId, moduleId, pageId, totalPages, moduleVersionId, isCurrentLessonRequirementsMet, pageProgress]);
+
+  return {
+    loading,
+    moduleProgress,
+    pageProgress,
+    resumePageId: moduleProgress?.last_page_id ?? null,
+    startedVersionId: moduleProgress?.module_version_id ?? null,
+    isModuleCompleted: moduleProgress?.status === 'completed',
+    markBlockSeen,
+    markActivityCompleted,
+  };
+}
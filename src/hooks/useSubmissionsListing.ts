@@ -80,6 +80,7 @@ export function useSubmissionsListing(initialPageSize = 25) {
   return {
     rows, total, loading, error,
     search, setSearch,
+    debouncedSearch, // the search the current rows were loaded with
     statusFilter, setStatusFilter,
     sort, dir, setSortKey,
     page, setPage,
@@ -0,0 +1,139 @@
+import { useCallback, useState } from 'react';
+
+type Updater<T> = T | ((prev: T) => T);
+
+export interface UndoableSetOptions {
+  /**
+   * Consecutive updates with the same key inside the coalesce window are
+   * merged into one history entry (e.g. typing into the same block).
+   */
+  coalesceKey?: string;
+}
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+  // Bumped whenever present is replaced from outside the normal edit flow
+  // (undo, redo, reset) so uncontrolled editors can remount
+  revision: number;
+}
+
+function resolve<T>(updater: Updater<T>, prev: T): T {
+  return typeof updater === 'function'
+    ? (updater as (prev: T) => T)(prev)
+    : updater;
+}
+
+/**
+ * useState with a bounded undo/redo history.
+ *
+ * - `set` records the previous value (unless coalesced with the last edit)
+ * - `undo` / `redo` step through the history
+ * - `reset` replaces the value and clears the history
+ * - `patchHistory` rewrites every entry without recording a step, for changes
+ *   that must hold whichever entry is restored (e.g. ids assigned on save)
+ */
+export function useUndoableState<T>(
+  initialValue: T,
+  {
+    limit = 100,
+    coalesceMs = 1000,
+  }: { limit?: number; coalesceMs?: number } = {}
+) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initialValue,
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+    revision: 0,
+  });
+
+  const set = useCallback(
+    (updater: Updater<T>, options: UndoableSetOptions = {}) => {
+      setHistory((h) => {
+        const next = resolve(updater, h.present);
+        if (Object.is(next, h.present)) return h;
+
+        const now = Date.now();
+        const coalesce =
+          !!options.coalesceKey &&
+          options.coalesceKey === h.lastKey &&
+          now - h.lastAt < coalesceMs;
+
+        return {
+          ...h,
+          past: coalesce ? h.past : [...h.past, h.present].slice(-limit),
+          present: next,
+          future: [],
+          lastKey: options.coalesceKey ?? null,
+          lastAt: now,
+        };
+      });
+    },
+    [limit, coalesceMs]
+  );
+
+  const undo = useCallback(() => {
+    setHistory((h) => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        lastKey: null,
+        lastAt: 0,
+        revision: h.revision + 1,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        lastKey: null,
+        lastAt: 0,
+        revision: h.revision + 1,
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory((h) => ({
+      past: [],
+      present: value,
+      future: [],
+      lastKey: null,
+      lastAt: 0,
+      revision: h.revision + 1,
+    }));
+  }, []);
+
+  const patchHistory = useCallback((patch: (value: T) => T) => {
+    setHistory((h) => ({
+      ...h,
+      past: h.past.map(patch),
+      present: patch(h.present),
+      future: h.future.map(patch),
+    }));
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    patchHistory,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    revision: history.revision,
+  };
+}
@@ -18,4 +18,261 @@ export async function listScormModules(): Promise<ScormModuleSummary[]> {
   }
 
   return data ?? [];
-}
\ No newline at end of file
+}
+// ---------------------------------------------------------------------------
+// SCORM attempts (runtime data persisted by the SCORM API shim)
+// ---------------------------------------------------------------------------
+// Table (to be created in Supabase):
+//
+// create table scorm_attempts (
+//   id uuid primary key default gen_random_uuid(),
+//   user_id uuid not null references auth.users(id) on delete cascade,
+//   module_id uuid not null references modules(id) on delete cascade,
+//   lesson_location text,
+//   suspend_data text,
+//   lesson_status text not null default 'not attempted',
+//   score_raw numeric,
+//   score_min numeric,
+//   score_max numeric,
+//   total_time text not null default '0000:00:00.00',
+//   cmi jsonb not null default '{}'::jsonb, -- full cmi snapshot from the SCO
+//   started_at timestamptz not null default now(),
+//   updated_at timestamptz not null default now(),
+//   completed_at timestamptz
+// );
+//
+// alter table scorm_attempts
+//   add column scorm_version text not null default '1.2', -- '1.2' | '2004'
+//   add column score_scaled numeric; -- SCORM 2004 cmi.score.scaled (-1..1)
+//
+// alter table scorm_attempts
+//   add column sco_identifier text; -- manifest <item identifier>, null for single-SCO packages
+//
+// For SCORM 2004 attempts lesson_location holds cmi.location, total_time is an
+// ISO 8601 duration and lesson_status holds cmi.success_status when known,
+// otherwise cmi.completion_status.
+//
+// RLS: learners can select/insert/update their own rows (user_id = auth.uid()).
+
+export interface ScormAttempt {
+  id: string;
+  user_id: string;
+  module_id: string;
+  sco_identifier: string | null;
+  scorm_version: "1.2" | "2004" | null;
+  lesson_location: string | null;
+  suspend_data: string | null;
+  lesson_status: string;
+  score_raw: number | null;
+  score_min: number | null;
+  score_max: number | null;
+  score_scaled: number | null;
+  total_time: string;
+  cmi: Record<string, string>;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export async function getLatestScormAttempt(
+  userId: string,
+  moduleId: string,
+  scoIdentifier: string | null = null
+): Promise<ScormAttempt | null> {
+  let query = supabase
+    .from("scorm_attempts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("module_id", moduleId);
+
+  query = scoIdentifier
+    ? query.eq("sco_identifier", scoIdentifier)
+    : query.is("sco_identifier", null);
+
+  const { data, error } = await query
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getLatestScormAttempt error", error);
+    throw error;
+  }
+
+  return (data ?? null) as ScormAttempt | null;
+}
+
+// Every attempt a learner has for a module (all SCOs), newest first
+export async function listScormAttempts(
+  userId: string,
+  moduleId: string
+): Promise<ScormAttempt[]> {
+  const { data, error } = await supabase
+    .from("scorm_attempts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("module_id", moduleId)
+    .order("started_at", { ascending: false });
+
+  if (error) {
+    console.error("listScormAttempts error", error);
+    throw error;
+  }
+
+  return (data ?? []) as ScormAttempt[];
+}
+
+export interface SaveScormAttemptParams {
+  attemptId?: string | null; // if provided → update, otherwise insert
+  userId: string;
+  moduleId: string;
+  scoIdentifier?: string | null;
+  scormVersion: "1.2" | "2004";
+  lessonLocation: string | null;
+  suspendData: string | null;
+  lessonStatus: string;
+  scoreRaw: number | null;
+  scoreMin: number | null;
+  scoreMax: number | null;
+  scoreScaled: number | null;
+  totalTime: string;
+  cmi: Record<string, string>;
+  completedAt: string | null;
+}
+
+export async function saveScormAttempt(
+  params: SaveScormAttemptParams
+): Promise<ScormAttempt> {
+  const payload = {
+    user_id: params.userId,
+    module_id: params.moduleId,
+    sco_identifier: params.scoIdentifier ?? null,
+    scorm_version: params.scormVersion,
+    lesson_location: params.lessonLocation,
+    suspend_data: params.suspendData,
+    lesson_status: params.lessonStatus,
+    score_raw: params.scoreRaw,
+    score_min: params.scoreMin,
+    score_max: params.scoreMax,
+    score_scaled: params.scoreScaled,
+    total_time: params.totalTime,
+    cmi: params.cmi,
+    completed_at: params.completedAt,
+    updated_at: new Date().toISOString(),
+  };
+
+  const query = params.attemptId
+    ? supabase
+        .from("scorm_attempts")
+        .update(payload)
+        .eq("id", params.attemptId)
+        .select()
+        .single()
+    : supabase.from("scorm_attempts").insert(payload).select().single();
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("saveScormAttempt error", error);
+    throw error;
+  }
+
+  return data as ScormAttempt;
+}
+
+// ---------------------------------------------------------------------------
+// SCORM module progress (rollup of the per-SCO attempt statuses)
+// ---------------------------------------------------------------------------
+// Table (to be created in Supabase):
+//
+// create table scorm_module_progress (
+//   id uuid primary key default gen_random_uuid(),
+//   user_id uuid not null references auth.users(id) on delete cascade,
+//   module_id uuid not null references modules(id) on delete cascade,
+//   status text not null default 'in_progress', -- 'in_progress' | 'completed'
+//   completed_scos integer not null default 0,
+//   total_scos integer not null default 0,
+//   last_sco_identifier text,
+//   started_at timestamptz not null default now(),
+//   updated_at timestamptz not null default now(),
+//   completed_at timestamptz,
+//   unique (user_id, module_id)
+// );
+//
+// RLS: learners can select/insert/update their own rows (user_id = auth.uid()).
+
+export interface ScormModuleProgress {
+  id: string;
+  user_id: string;
+  module_id: string;
+  status: "in_progress" | "completed";
+  completed_scos: number;
+  total_scos: number;
+  last_sco_identifier: string | null;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export async function getScormModuleProgress(
+  userId: string,
+  moduleId: string
+): Promise<ScormModuleProgress | null> {
+  const { data, error } = await supabase
+    .from("scorm_module_progress")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("module_id", moduleId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("getScormModuleProgress error", error);
+    throw error;
+  }
+
+  return (data ?? null) as ScormModuleProgress | null;
+}
+
+export interface SaveScormModuleProgressParams {
+  userId: string;
+  moduleId: string;
+  completedScos: number;
+  totalScos: number;
+  lastScoIdentifier: string | null;
+  // completed_at of an existing completed rollup; completion is never undone
+  previousCompletedAt?: string | null;
+}
+
+export async function saveScormModuleProgress(
+  params: SaveScormModuleProgressParams
+): Promise<ScormModuleProgress> {
+  const now = new Date().toISOString();
+  const isCompleted =
+    !!params.previousCompletedAt ||
+    (params.totalScos > 0 && params.completedScos >= params.totalScos);
+
+  const { data, error } = await supabase
+    .from("scorm_module_progress")
+    .upsert(
+      {
+        user_id: params.userId,
+        module_id: params.moduleId,
+        status: isCompleted ? "completed" : "in_progress",
+        completed_scos: params.completedScos,
+        total_scos: params.totalScos,
+        last_sco_identifier: params.lastScoIdentifier,
+        updated_at: now,
+        completed_at: isCompleted ? params.previousCompletedAt ?? now : null,
+      },
+      { onConflict: "user_id,module_id" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("saveScormModuleProgress error", error);
+    throw error;
+  }
+
+  return data as ScormModuleProgress;
+}
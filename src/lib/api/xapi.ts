@@ -0,0 +1,110 @@
+import { supabase } from "../../../lib/supabaseClient";
+import {
+  buildLearningEventStatement,
+  getBlockActivityId,
+  getModuleActivityId,
+  getPageActivityId,
+  type LearningEventRecord,
+  type XapiStatement,
+} from "../xapi/statements";
+
+// ---------------------------------------------------------------------------
+// xAPI statements (local LRS store, served by GET /xapi/statements)
+// ---------------------------------------------------------------------------
+// Table (to be created in Supabase):
+//
+// create table xapi_statements (
+//   id uuid primary key,                     -- statement.id
+//   user_id uuid references auth.users(id) on delete cascade,
+//   verb_id text not null,
+//   object_id text not null,                 -- statement.object.id
+//   activity_ids text[] not null default '{}', -- object + context activities
+//   module_id uuid,
+//   page_id uuid,
+//   block_id text,
+//   statement jsonb not null,
+//   timestamp timestamptz not null,
+//   stored timestamptz not null default now(),
+//   voided boolean not null default false
+// );
+// create index xapi_statements_stored_idx on xapi_statements (stored);
+// create index xapi_statements_activity_ids_idx on xapi_statements using gin (activity_ids);
+//
+// RLS: learners can insert rows where user_id = auth.uid(). Reads go through
+// server.js with the service role key.
+
+export interface XapiStatementRow {
+  id: string;
+  user_id: string | null;
+  verb_id: string;
+  object_id: string;
+  activity_ids: string[];
+  module_id: string | null;
+  page_id: string | null;
+  block_id: string | null;
+  statement: XapiStatement;
+  timestamp: string;
+  stored: string;
+  voided: boolean;
+}
+
+function toStatementRow(
+  statement: XapiStatement,
+  event: LearningEventRecord
+): Omit<XapiStatementRow, "stored" | "voided"> {
+  const activityIds = [statement.object.id];
+  if (event.page_id) activityIds.push(getPageActivityId(event.page_id));
+  if (event.module_id) activityIds.push(getModuleActivityId(event.module_id));
+  if (event.block_id) activityIds.push(getBlockActivityId(event.block_id));
+
+  return {
+    id: statement.id,
+    user_id: event.user_id,
+    verb_id: statement.verb.id,
+    object_id: statement.object.id,
+    activity_ids: Array.from(new Set(activityIds)),
+    module_id: event.module_id,
+    page_id: event.page_id,
+    block_id: event.block_id ?? null,
+    statement,
+    timestamp: statement.timestamp,
+  };
+}
+
+export async function insertXapiStatements(
+  events: LearningEventRecord[]
+): Promise<XapiStatement[]> {
+  const statements = events.map((event) => buildLearningEventStatement(event));
+  const rows = statements.map((statement, idx) =>
+    toStatementRow(statement, events[idx])
+  );
+
+  const { error } = await supabase.from("xapi_statements").insert(rows);
+
+  if (error) {
+    console.error("insertXapiStatements error", error);
+    throw error;
+  }
+
+  return statements;
+}
+
+/**
+ * Record the xAPI statements for learning_events rows that were just saved.
+ * Fire-and-forget like the learning_events inserts: errors are logged but
+ * never reach the UI.
+ */
+export async function recordLearningEventStatements(
+  events: LearningEventRecord | LearningEventRecord[]
+): Promise<void> {
+  const list = (Array.isArray(events) ? events : [events]).filter(
+    (event) => !!event.user_id
+  );
+  if (list.length === 0) return;
+
+  try {
+    await insertXapiStatements(list);
+  } catch (err) {
+    console.error("Failed to record xAPI statements", err);
+  }
+}
@@ -0,0 +1,619 @@
+import JSZip from "jszip";
+import { supabase } from "../../lib/supabaseClient";
+import {
+  MEDIA_IMAGES_BASE_URL,
+  removeMediaAssets,
+  uploadMediaAssetWithMetadata,
+  type MediaAsset,
+} from "./mediaAssets";
+import {
+  getContentModuleBlocksByPageId,
+  type ContentModuleBlockRow,
+} from "./supabase/contentModuleBlocks";
+import { resolveLinkedBlockRows } from "./supabase/contentSavedBlocks";
+import { hydrateLessonBlock, SUPPORTED_BLOCK_DB_TYPES } from "./lessonBlocks";
+import { TEXT_BLOCK_TYPES } from "../constants/textBlockTypes";
+
+// ---------------------------------------------------------------------------
+// Content module packages - move a module between Supabase projects
+// ---------------------------------------------------------------------------
+// A package is a zip containing:
+//
+//   module.json           ContentModulePackageManifest (module, pages, blocks)
+//   media/<id>/<file>     every media_assets file the blocks reference
+//
+// IDs in the package are those of the exporting project. Import creates new
+// rows for everything, uploads the media files (re-using assets that already
+// exist in the target project, matched by checksum) and rewrites every
+// media_asset_id and media URL in the block content to the new assets.
+// Linked saved blocks are exported with their current content and imported
+// as plain copies.
+
+export const CONTENT_MODULE_PACKAGE_FORMAT = "mylms-content-module";
+export const CONTENT_MODULE_PACKAGE_VERSION = 1;
+
+const MANIFEST_PATH = "module.json";
+
+export interface ContentModulePackageBlock {
+  type: string;
+  order_index: number;
+  content_json: ContentModuleBlockRow["content_json"];
+  learning_goal: string | null;
+  media_type: string;
+  difficulty_level: number;
+  is_core: boolean;
+  mbl_metadata: unknown | null;
+  media_asset_id: string | null;
+}
+
+export interface ContentModulePackagePage {
+  title: string;
+  description: string | null;
+  order_index: number;
+  difficulty_level: string | null;
+  is_core: boolean | null;
+  blocks: ContentModulePackageBlock[];
+}
+
+export interface ContentModulePackageMedia {
+  id: string;
+  s3_key: string;
+  file_name: string;
+  mime_type: string;
+  alt_text: string | null;
+  title: string | null;
+  description: string | null;
+  tags: string[] | null;
+  // Location of the file inside the zip
+  path: string;
+}
+
+export interface ContentModulePackageManifest {
+  format: typeof CONTENT_MODULE_PACKAGE_FORMAT;
+  version: number;
+  exported_at: string;
+  module: {
+    title: string;
+    description: string | null;
+  };
+  pages: ContentModulePackagePage[];
+  media: ContentModulePackageMedia[];
+}
+
+// ---------------------------------------------------------------------------
+// Media reference helpers
+// ---------------------------------------------------------------------------
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MEDIA_URL_PATTERN = new RegExp(
+  `${MEDIA_IMAGES_BASE_URL.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/([^"'\\s?#)]+)`,
+  "g"
+);
+
+function mediaUrl(s3Key: string): string {
+  return `${MEDIA_IMAGES_BASE_URL}/${s3Key}`;
+}
+
+/**
+ * Collect every string in a block's content that could point at a media
+ * asset: UUIDs (media_asset_id, mediaAssetId, image ids, ...) and the S3 keys
+ * of media URLs embedded in fields or HTML.
+ */
+function collectMediaCandidates(
+  value: unknown,
+  ids: Set<string>,
+  s3Keys: Set<string>
+): void {
+  if (typeof value === "string") {
+    if (UUID_PATTERN.test(value)) ids.add(value);
+    for (const match of value.matchAll(MEDIA_URL_PATTERN)) {
+      s3Keys.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectMediaCandidates(item, ids, s3Keys));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) =>
+      collectMediaCandidates(item, ids, s3Keys)
+    );
+  }
+}
+
+function remapMediaReferences(
+  value: unknown,
+  assetIds: Map<string, string>,
+  urls: Map<string, string>
+): unknown {
+  if (typeof value === "string") {
+    const newId = assetIds.get(value);
+    if (newId) return newId;
+
+    let result = value;
+    urls.forEach((newUrl, oldUrl) => {
+      if (newUrl !== oldUrl) result = result.split(oldUrl).join(newUrl);
+    });
+    return result;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => remapMediaReferences(item, assetIds, urls));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        remapMediaReferences(item, assetIds, urls),
+      ])
+    );
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a zip package of a module's current draft: its pages, blocks and the
+ * media files the blocks reference.
+ */
+export async function exportContentModulePackage(
+  moduleId: string
+): Promise<Blob> {
+  const { data: module, error: moduleError } = await supabase
+    .from("content_modules")
+    .select("title, description")
+    .eq("id", moduleId)
+    .single();
+
+  if (moduleError) {
+    console.error("Error fetching content_modules", moduleError);
+    throw moduleError;
+  }
+
+  const { data: pageRows, error: pagesError } = await supabase
+    .from("content_module_pages")
+    .select("id, title, description, order_index, difficulty_level, is_core")
+    .eq("module_id", moduleId)
+    .order("order_index", { ascending: true });
+
+  if (pagesError) {
+    console.error("Error fetching content_module_pages", pagesError);
+    throw pagesError;
+  }
+
+  const candidateIds = new Set<string>();
+  const candidateS3Keys = new Set<string>();
+  const pages: ContentModulePackagePage[] = [];
+
+  for (const page of pageRows ?? []) {
+    const blockRows = await getContentModuleBlocksByPageId(page.id).then(
+      resolveLinkedBlockRows
+    );
+
+    const blocks = blockRows.map((row) => {
+      if (row.media_asset_id) candidateIds.add(row.media_asset_id);
+      collectMediaCandidates(row.content_json, candidateIds, candidateS3Keys);
+      return {
+        type: row.type,
+        order_index: row.order_index,
+        content_json: row.content_json,
+        learning_goal: row.learning_goal,
+        media_type: row.media_type,
+        difficulty_level: row.difficulty_level,
+        is_core: row.is_core,
+        mbl_metadata: row.mbl_metadata,
+        media_asset_id: row.media_asset_id,
+      };
+    });
+
+    pages.push({
+      title: page.title,
+      description: page.description ?? null,
+      order_index: page.order_index,
+      difficulty_level: page.difficulty_level ?? null,
+      is_core: page.is_core ?? null,
+      blocks,
+    });
+  }
+
+  // Most UUID candidates are card/tab/item ids; keep the ones that are assets
+  const assets = new Map<string, Omit<MediaAsset, "public_url">>();
+  const lookups: [string, string[]][] = [
+    ["id", [...candidateIds]],
+    ["s3_key", [...candidateS3Keys]],
+  ];
+  for (const [column, values] of lookups) {
+    if (values.length === 0) continue;
+
+    const { data, error } = await supabase
+      .from("media_assets")
+      .select("*")
+      .in(column, values);
+
+    if (error) {
+      console.error("Error fetching media_assets", error);
+      throw error;
+    }
+
+    for (const asset of data ?? []) assets.set(asset.id, asset);
+  }
+
+  const zip = new JSZip();
+  const media: ContentModulePackageMedia[] = [];
+
+  for (const asset of assets.values()) {
+    const path = `media/${asset.id}/${asset.file_name}`;
+    const response = await fetch(mediaUrl(asset.s3_key));
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download "${asset.file_name}": ${response.status} ${response.statusText}`
+      );
+    }
+    zip.file(path, await response.blob());
+
+    media.push({
+      id: asset.id,
+      s3_key: asset.s3_key,
+      file_name: asset.file_name,
+      mime_type: asset.mime_type,
+      alt_text: asset.alt_text,
+      title: asset.title,
+      description: asset.description,
+      tags: asset.tags,
+      path,
+    });
+  }
+
+  const manifest: ContentModulePackageManifest = {
+    format: CONTENT_MODULE_PACKAGE_FORMAT,
+    version: CONTENT_MODULE_PACKAGE_VERSION,
+    exported_at: new Date().toISOString(),
+    module: {
+      title: module.title ?? "",
+      description: module.description ?? null,
+    },
+    pages,
+    media,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function validateBlock(
+  block: unknown,
+  location: string,
+  mediaIds: Set<string>
+): string[] {
+  if (!isObject(block)) return [`${location} is not an object.`];
+
+  const errors: string[] = [];
+  const { type, content_json: contentJson } = block;
+
+  if (typeof type !== "string" || !SUPPORTED_BLOCK_DB_TYPES.includes(type)) {
+    errors.push(`${location} has an unsupported type "${String(type)}".`);
+  }
+  if (typeof block.order_index !== "number") {
+    errors.push(`${location} is missing order_index.`);
+  }
+
+  if (!isObject(contentJson)) {
+    errors.push(`${location} is missing content_json.`);
+    return errors;
+  }
+  if (
+    type === "text" &&
+    (typeof contentJson.blockType !== "string" ||
+      !TEXT_BLOCK_TYPES.includes(contentJson.blockType))
+  ) {
+    errors.push(
+      `${location} has an unknown text block type "${String(contentJson.blockType)}".`
+    );
+  }
+  if (
+    typeof contentJson.content !== "string" &&
+    !isObject(contentJson.content)
+  ) {
+    errors.push(`${location} has no content.`);
+  }
+  if (contentJson.metadata != null && !isObject(contentJson.metadata)) {
+    errors.push(`${location} has invalid metadata.`);
+  }
+  if (
+    block.media_asset_id != null &&
+    !mediaIds.has(String(block.media_asset_id))
+  ) {
+    errors.push(`${location} references media that isn't in the package.`);
+  }
+
+  if (errors.length === 0) {
+    try {
+      hydrateLessonBlock({
+        ...(block as unknown as ContentModulePackageBlock),
+        id: "package-block",
+        page_id: "package-page",
+      });
+    } catch (err) {
+      errors.push(
+        `${location} can't be read: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check a parsed module.json (and the files it lists) before anything is
+ * written. Returns a list of human-readable problems; empty when valid.
+ */
+export function validateContentModulePackage(
+  manifest: unknown,
+  zip: JSZip
+): string[] {
+  if (
+    !isObject(manifest) ||
+    manifest.format !== CONTENT_MODULE_PACKAGE_FORMAT
+  ) {
+    return ["This file isn't a content module package."];
+  }
+  if (
+    typeof manifest.version !== "number" ||
+    manifest.version > CONTENT_MODULE_PACKAGE_VERSION
+  ) {
+    return [
+      `Package version ${String(manifest.version)} isn't supported. Update the app and try again.`,
+    ];
+  }
+
+  const errors: string[] = [];
+
+  if (!isObject(manifest.module) || typeof manifest.module.title !== "string") {
+    errors.push("The module is missing a title.");
+  }
+
+  const media = Array.isArray(manifest.media) ? manifest.media : [];
+  const mediaIds = new Set<string>();
+  media.forEach((item, index) => {
+    if (
+      !isObject(item) ||
+      typeof item.id !== "string" ||
+      typeof item.path !== "string" ||
+      typeof item.mime_type !== "string"
+    ) {
+      errors.push(`Media file ${index + 1} is invalid.`);
+      return;
+    }
+    if (!zip.file(item.path)) {
+      errors.push(`Media file "${item.path}" is missing from the package.`);
+    }
+    mediaIds.add(item.id);
+  });
+
+  if (!Array.isArray(manifest.pages)) {
+    errors.push("The package has no lessons.");
+    return errors;
+  }
+
+  manifest.pages.forEach((page, pageIndex) => {
+    const pageLabel = `Lesson ${pageIndex + 1}`;
+    if (!isObject(page) || typeof page.title !== "string") {
+      errors.push(`${pageLabel} is missing a title.`);
+      return;
+    }
+    if (!Array.isArray(page.blocks)) {
+      errors.push(`${pageLabel} has no blocks list.`);
+      return;
+    }
+    page.blocks.forEach((block, blockIndex) => {
+      errors.push(
+        ...validateBlock(
+          block,
+          `${pageLabel} ("${page.title}"), block ${blockIndex + 1}`,
+          mediaIds
+        )
+      );
+    });
+  });
+
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// Undo a failed import. Errors are only logged so the original one is thrown.
+async function removeImportedModule(
+  moduleId: string,
+  pageIds: string[]
+): Promise<void> {
+  if (pageIds.length > 0) {
+    const { error: blocksError } = await supabase
+      .from("content_module_blocks")
+      .delete()
+      .in("page_id", pageIds);
+    if (blocksError) {
+      console.error("Error removing imported content_module_blocks", blocksError);
+    }
+
+    const { error: pagesError } = await supabase
+      .from("content_module_pages")
+      .delete()
+      .in("id", pageIds);
+    if (pagesError) {
+      console.error("Error removing imported content_module_pages", pagesError);
+    }
+  }
+
+  const { error } = await supabase
+    .from("content_modules")
+    .delete()
+    .eq("id", moduleId);
+  if (error) {
+    console.error("Error removing imported content_modules", error);
+  }
+}
+
+/**
+ * Recreate a packaged module as a new draft module in this project and return
+ * the new module's id. The package is validated in full before any media is
+ * uploaded or rows are created, and a failed import removes what it created.
+ */
+export async function importContentModulePackage(file: File): Promise<string> {
+  const zip = await JSZip.loadAsync(file);
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    throw new Error(
+      `This file isn't a content module package (${MANIFEST_PATH} is missing).`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await manifestFile.async("string"));
+  } catch {
+    throw new Error(`${MANIFEST_PATH} isn't valid JSON.`);
+  }
+
+  const errors = validateContentModulePackage(parsed, zip);
+  if (errors.length > 0) {
+    throw new Error(
+      `The package can't be imported:\n${errors.slice(0, 10).join("\n")}${
+        errors.length > 10 ? `\n…and ${errors.length - 10} more` : ""
+      }`
+    );
+  }
+  const manifest = parsed as ContentModulePackageManifest;
+
+  // 1) Upload media, mapping old asset ids/URLs to the new ones. Assets that
+  // already existed in this project are reused and left alone on failure.
+  const assetIds = new Map<string, string>();
+  const urls = new Map<string, string>();
+  const createdAssetIds: string[] = [];
+
+  try {
+    for (const item of manifest.media) {
+      const blob = await zip.file(item.path)!.async("blob");
+      const { asset, created } = await uploadMediaAssetWithMetadata(
+        new File([blob], item.file_name, { type: item.mime_type }),
+        {
+          alt_text: item.alt_text,
+          title: item.title,
+          description: item.description,
+          tags: item.tags,
+        }
+      );
+      if (created) createdAssetIds.push(asset.id);
+      assetIds.set(item.id, asset.id);
+      urls.set(mediaUrl(item.s3_key), asset.public_url);
+    }
+  } catch (err) {
+    await removeMediaAssets(createdAssetIds);
+    throw err;
+  }
+
+  // 2) Module
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: newModule, error: insertModuleError } = await supabase
+    .from("content_modules")
+    .insert({
+      title: manifest.module.title,
+      description: manifest.module.description ?? null,
+      status: "draft",
+      created_by: user?.id ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (insertModuleError) {
+    console.error(
+      "Error inserting imported content_modules",
+      insertModuleError
+    );
+    await removeMediaAssets(createdAssetIds);
+    throw insertModuleError;
+  }
+
+  // 3) Pages and their blocks. On failure the new module and everything
+  // created so far is removed again, so a failed import leaves nothing behind.
+  const newPageIds: string[] = [];
+  try {
+    for (const page of manifest.pages) {
+      const { data: newPage, error: insertPageError } = await supabase
+        .from("content_module_pages")
+        .insert({
+          module_id: newModule.id,
+          title: page.title,
+          description: page.description ?? null,
+          order_index: page.order_index,
+          status: "draft",
+          difficulty_level: page.difficulty_level ?? "standard",
+          is_core: page.is_core ?? true,
+        })
+        .select("id")
+        .single();
+
+      if (insertPageError) {
+        console.error(
+          "Error inserting imported content_module_pages",
+          insertPageError
+        );
+        throw insertPageError;
+      }
+      newPageIds.push(newPage.id);
+
+      if (page.blocks.length === 0) continue;
+
+      const { error: insertBlocksError } = await supabase
+        .from("content_module_blocks")
+        .insert(
+          page.blocks.map((block) => ({
+            page_id: newPage.id,
+            type: block.type,
+            order_index: block.order_index,
+            content_json: remapMediaReferences(
+              block.content_json,
+              assetIds,
+              urls
+            ),
+            learning_goal: block.learning_goal ?? null,
+            media_type: block.media_type ?? "text",
+            difficulty_level: block.difficulty_level ?? 0,
+            is_core: block.is_core ?? true,
+            mbl_metadata: block.mbl_metadata ?? null,
+            media_asset_id: block.media_asset_id
+              ? assetIds.get(block.media_asset_id) ?? null
+              : null,
+          }))
+        );
+
+      if (insertBlocksError) {
+        console.error(
+          "Error inserting imported content_module_blocks",
+          insertBlocksError
+        );
+        throw insertBlocksError;
+      }
+    }
+  } catch (err) {
+    await removeImportedModule(newModule.id, newPageIds);
+    await removeMediaAssets(createdAssetIds);
+    throw err;
+  }
+
+  return newModule.id as string;
+}
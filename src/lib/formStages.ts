@@ -0,0 +1,114 @@
+import type {
+  BaseFormField,
+  FormRole,
+  FormSchema,
+  FormSection,
+  FormStage,
+} from '../types/forms';
+
+// ---------------------------------------------------------------------------
+// Multi-stage forms
+// ---------------------------------------------------------------------------
+// A form with `stages` is filled in turn: the assignee completes the first
+// stage's sections and submits, then each later stage is routed to holders of
+// its role, who see earlier answers read-only and fill their own sections.
+// Sections without a (valid) stageId belong to the first stage. Forms without
+// stages behave as before: one person fills everything.
+
+export const FORM_ROLE_LABELS: Record<FormRole, string> = {
+  user: 'User',
+  admin: 'Admin',
+  subadmin: 'Sub Admin',
+  security: 'Security',
+};
+
+// profiles.role / profiles.roles use 'sub_admin' where forms use 'subadmin'
+const PROFILE_ROLE_BY_FORM_ROLE: Record<FormRole, string> = {
+  user: 'user',
+  admin: 'admin',
+  subadmin: 'sub_admin',
+  security: 'security',
+};
+
+export function hasFormRole(profileRoles: string[], role: FormRole): boolean {
+  return profileRoles.includes(PROFILE_ROLE_BY_FORM_ROLE[role]);
+}
+
+export function getFormStages(schema: FormSchema): FormStage[] {
+  return Array.isArray(schema.stages) ? schema.stages : [];
+}
+
+export function isMultiStageForm(schema: FormSchema): boolean {
+  return getFormStages(schema).length > 1;
+}
+
+export function getFormStage(
+  schema: FormSchema,
+  stageId: string | null | undefined
+): FormStage | null {
+  return getFormStages(schema).find((stage) => stage.id === stageId) ?? null;
+}
+
+/**
+ * Position of the stage that fills a section (0 when the form has no stages).
+ */
+export function getSectionStageIndex(
+  schema: FormSchema,
+  section: FormSection
+): number {
+  const index = getFormStages(schema).findIndex(
+    (stage) => stage.id === section.stageId
+  );
+  return index === -1 ? 0 : index;
+}
+
+export function getStageIndex(
+  schema: FormSchema,
+  stageId: string | null | undefined
+): number {
+  const index = getFormStages(schema).findIndex(
+    (stage) => stage.id === stageId
+  );
+  return index === -1 ? 0 : index;
+}
+
+export function getNextFormStage(
+  schema: FormSchema,
+  stageId: string | null | undefined
+): FormStage | null {
+  const stages = getFormStages(schema);
+  return stages[getStageIndex(schema, stageId) + 1] ?? null;
+}
+
+/**
+ * Fields restricted with `visibleToRoles` are only shown to holders of one
+ * of those roles.
+ */
+export function canViewFormField(
+  field: BaseFormField,
+  profileRoles: string[]
+): boolean {
+  const roles = field.visibleToRoles ?? [];
+  return (
+    roles.length === 0 || roles.some((role) => hasFormRole(profileRoles, role))
+  );
+}
+
+/**
+ * Whether the current user may change a field while `activeStageIndex` is
+ * being filled. `canCompleteStage` says whether they hold the stage's role
+ * (always true for the assignee filling the first stage).
+ */
+export function isFormFieldEditable(
+  schema: FormSchema,
+  section: FormSection,
+  field: BaseFormField,
+  activeStageIndex: number,
+  canCompleteStage: boolean
+): boolean {
+  return (
+    canCompleteStage &&
+    !field.readOnly &&
+    getSectionStageIndex(schema, section) === activeStageIndex
+  );
+}
@@ -0,0 +1,231 @@
+import type {
+  BaseFormField,
+  FormSchema,
+  SignatureAnswer,
+} from '../types/forms';
+// Explicit extensions: the submit-form Edge Function imports this module under Deno
+import { canViewFormField, isFormFieldEditable } from './formStages.ts';
+import { getFormVisibility, type VisibilityAnswers } from './formVisibility.ts';
+
+// ---------------------------------------------------------------------------
+// Answer validation
+// ---------------------------------------------------------------------------
+// One validator for a FormSchema, used by UserFillForm for inline messages and
+// by the submit-form Edge Function, which rejects anything that fails it before
+// a submission is marked submitted. It checks required fields, the field's
+// FormFieldValidation (min / max / maxLength / pattern) and that answers have
+// the right shape for their field type (e.g. option values that exist).
+
+// Field id -> message
+export type FormValidationErrors = Record<string, string>;
+
+export interface FormValidationOptions {
+  // Workflow stage being filled; only that stage's fields are checked
+  stageIndex?: number;
+  // Roles of the person filling the form, for fields with visibleToRoles.
+  // When omitted every field counts as visible.
+  profileRoles?: string[];
+  // Set by submit-form: signatures must already be uploaded, to this user's
+  // folder for this form in the signatures bucket (see uploadSignature)
+  signatureOwner?: SignatureOwner;
+}
+
+export interface SignatureOwner {
+  userId: string;
+  formId: string;
+}
+
+// Upper bound for text answers without their own maxLength
+export const MAX_TEXT_ANSWER_LENGTH = 10000;
+
+const NON_INPUT_FIELD_TYPES = ['static_text', 'image', 'divider', 'group'];
+
+function isEmptyAnswer(answer: unknown): boolean {
+  return (
+    answer === null ||
+    answer === undefined ||
+    answer === '' ||
+    (Array.isArray(answer) && answer.length === 0)
+  );
+}
+
+function fieldName(field: BaseFormField): string {
+  return field.label || 'This field';
+}
+
+function optionValues(field: BaseFormField): string[] {
+  return (field.options ?? []).map((option) => option.value);
+}
+
+function validateText(field: BaseFormField, answer: unknown): string | null {
+  if (typeof answer !== 'string') {
+    return `${fieldName(field)} must be text.`;
+  }
+  const maxLength =
+    field.validation?.maxLength ?? field.maxLength ?? MAX_TEXT_ANSWER_LENGTH;
+  if (answer.length > maxLength) {
+    return `${fieldName(field)} must be at most ${maxLength} characters.`;
+  }
+  const pattern = field.validation?.pattern;
+  if (pattern) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(pattern);
+    } catch {
+      // An invalid pattern in the schema shouldn't block the person filling it
+      regex = null;
+    }
+    if (regex && !regex.test(answer)) {
+      return `${fieldName(field)} is not in the expected format.`;
+    }
+  }
+  return null;
+}
+
+function validateSignature(
+  field: BaseFormField,
+  answer: unknown,
+  owner: SignatureOwner | undefined
+): string | null {
+  // A drawn signature (data URL) before upload, or the stored image after
+  if (typeof answer === 'string') {
+    return !owner && answer.startsWith('data:image/png;base64,')
+      ? null
+      : `${fieldName(field)} must be a signature.`;
+  }
+  const stored = answer as Partial<SignatureAnswer> | null;
+  if (
+    typeof stored !== 'object' ||
+    stored === null ||
+    typeof stored.storagePath !== 'string'
+  ) {
+    return `${fieldName(field)} must be a signature.`;
+  }
+  if (
+    owner &&
+    (stored.storageBucket !== 'signatures' ||
+      !stored.storagePath.startsWith(`${owner.userId}/${owner.formId}/`) ||
+      stored.storagePath.includes('..'))
+  ) {
+    return `${fieldName(field)} must be a signature.`;
+  }
+  return null;
+}
+
+function validateNumber(field: BaseFormField, answer: unknown): string | null {
+  const value = typeof answer === 'string' ? Number(answer) : answer;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${fieldName(field)} must be a number.`;
+  }
+  const { min, max } = field.validation ?? {};
+  if (min !== undefined && value < min) {
+    return `${fieldName(field)} must be at least ${min}.`;
+  }
+  if (max !== undefined && value > max) {
+    return `${fieldName(field)} must be at most ${max}.`;
+  }
+  return null;
+}
+
+/**
+ * Check one answer against its field. Returns the message to show, or null.
+ */
+export function validateFormField(
+  field: BaseFormField,
+  answer: unknown,
+  signatureOwner?: SignatureOwner
+): string | null {
+  if (NON_INPUT_FIELD_TYPES.includes(field.type)) return null;
+
+  if (isEmptyAnswer(answer)) {
+    return field.required ? `${fieldName(field)} is required.` : null;
+  }
+
+  switch (field.type) {
+    case 'short_text':
+    case 'long_text':
+      return validateText(field, answer);
+    case 'number':
+    case 'rating':
+      return validateNumber(field, answer);
+    case 'date':
+      return typeof answer === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(answer)
+        ? null
+        : `${fieldName(field)} must be a valid date.`;
+    case 'dropdown':
+    case 'radio':
+      return optionValues(field).includes(String(answer))
+        ? null
+        : `${fieldName(field)} has an option that isn't available.`;
+    case 'checkbox_group': {
+      const options = optionValues(field);
+      if (
+        !Array.isArray(answer) ||
+        !answer.every((value) => options.includes(String(value)))
+      ) {
+        return `${fieldName(field)} has an option that isn't available.`;
+      }
+      const { min, max } = field.validation ?? {};
+      if (min !== undefined && answer.length < min) {
+        return `Select at least ${min} options for ${fieldName(field)}.`;
+      }
+      if (max !== undefined && answer.length > max) {
+        return `Select at most ${max} options for ${fieldName(field)}.`;
+      }
+      return null;
+    }
+    case 'checkbox':
+      if (typeof answer !== 'boolean') {
+        return `${fieldName(field)} must be checked or unchecked.`;
+      }
+      return field.required && !answer
+        ? `${fieldName(field)} is required.`
+        : null;
+    case 'signature':
+      return validateSignature(field, answer, signatureOwner);
+    case 'file':
+      if (!Array.isArray(answer)) {
+        return `${fieldName(field)} must be an uploaded file.`;
+      }
+      return !field.allowMultiple && answer.length > 1
+        ? `Only one file can be uploaded for ${fieldName(field)}.`
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate the answers for the fields filled in a stage (the first stage by
+ * default). Fields hidden by conditional logic or visibleToRoles, read-only
+ * fields and other stages' fields are skipped.
+ */
+export function validateFormAnswers(
+  schema: FormSchema,
+  answers: VisibilityAnswers,
+  options: FormValidationOptions = {}
+): FormValidationErrors {
+  const { stageIndex = 0, profileRoles, signatureOwner } = options;
+  const { hiddenFieldIds } = getFormVisibility(schema, answers);
+  const errors: FormValidationErrors = {};
+
+  for (const section of schema.sections ?? []) {
+    for (const field of section.fields ?? []) {
+      if (
+        hiddenFieldIds.has(field.id) ||
+        !isFormFieldEditable(schema, section, field, stageIndex, true) ||
+        (profileRoles && !canViewFormField(field, profileRoles))
+      ) {
+        continue;
+      }
+      const message = validateFormField(
+        field,
+        answers[field.id],
+        signatureOwner
+      );
+      if (message) errors[field.id] = message;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,246 @@
+import type {
+  BaseFormField,
+  FormSchema,
+  FormSection,
+  VisibilityCondition,
+  VisibilityConditionGroup,
+  VisibilityLogic,
+  VisibilityOperator,
+  VisibilityRule,
+} from '../types/forms';
+
+// ---------------------------------------------------------------------------
+// Conditional visibility for form fields and sections
+// ---------------------------------------------------------------------------
+// Fields and sections carry `visibilityConditions` (conditions, or groups of
+// conditions) combined with `visibilityLogic` ('all' by default). Everything
+// here is pure and only depends on the form types, so the form filler, the
+// read-only views and PDF output can all agree on what is shown.
+//
+// A hidden field counts as unanswered, so fields that depend on it are
+// hidden too, and everything inside a hidden section is hidden.
+
+// Answers as held by the form filler (may still contain File objects etc.)
+export type VisibilityAnswers = Record<string, unknown>;
+
+export const VISIBILITY_OPERATOR_LABELS: Record<VisibilityOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  in: 'is one of',
+  not_in: 'is not one of',
+  gt: 'is greater than',
+  lt: 'is less than',
+  gte: 'is at least',
+  lte: 'is at most',
+};
+
+export interface FormVisibility {
+  hiddenSectionIds: Set<string>;
+  hiddenFieldIds: Set<string>;
+}
+
+export function isVisibilityConditionGroup(
+  rule: VisibilityRule
+): rule is VisibilityConditionGroup {
+  return Array.isArray((rule as VisibilityConditionGroup).conditions);
+}
+
+function isEmptyAnswer(answer: unknown): boolean {
+  return (
+    answer === null ||
+    answer === undefined ||
+    answer === '' ||
+    (Array.isArray(answer) && answer.length === 0)
+  );
+}
+
+// Checkbox groups answer with an array; a condition matches if any of the
+// selected values does
+function answerValues(answer: unknown): string[] {
+  if (isEmptyAnswer(answer)) return [];
+  if (Array.isArray(answer)) return answer.map((item) => String(item));
+  return [String(answer)];
+}
+
+function conditionValues(value: VisibilityCondition['value']): string[] {
+  return (Array.isArray(value) ? value : [value]).map((item) => String(item));
+}
+
+// Numbers compare numerically; anything else (e.g. ISO dates) as strings
+function compareValues(
+  answer: unknown,
+  value: VisibilityCondition['value']
+): number | null {
+  if (isEmptyAnswer(answer) || Array.isArray(answer) || Array.isArray(value)) {
+    return null;
+  }
+  const answerNumber = Number(answer);
+  const valueNumber = Number(value);
+  if (
+    typeof answer !== 'boolean' &&
+    String(answer).trim() !== '' &&
+    String(value).trim() !== '' &&
+    Number.isFinite(answerNumber) &&
+    Number.isFinite(valueNumber)
+  ) {
+    return answerNumber - valueNumber;
+  }
+  const a = String(answer);
+  const b = String(value);
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+export function evaluateVisibilityCondition(
+  condition: VisibilityCondition,
+  answers: VisibilityAnswers
+): boolean {
+  const answer = answers[condition.fieldId];
+  const selected = answerValues(answer);
+  const expected = conditionValues(condition.value);
+
+  switch (condition.operator) {
+    case 'equals':
+      return selected.includes(String(condition.value));
+    case 'not_equals':
+      return !selected.includes(String(condition.value));
+    case 'in':
+      return selected.some((item) => expected.includes(item));
+    case 'not_in':
+      return !selected.some((item) => expected.includes(item));
+    case 'gt':
+    case 'lt':
+    case 'gte':
+    case 'lte': {
+      const diff = compareValues(answer, condition.value);
+      if (diff === null) return false;
+      if (condition.operator === 'gt') return diff > 0;
+      if (condition.operator === 'lt') return diff < 0;
+      if (condition.operator === 'gte') return diff >= 0;
+      return diff <= 0;
+    }
+    default:
+      return true;
+  }
+}
+
+function combine<T>(
+  items: T[],
+  logic: VisibilityLogic | undefined,
+  test: (item: T) => boolean
+): boolean {
+  // No rules means always visible
+  if (items.length === 0) return true;
+  return logic === 'any' ? items.some(test) : items.every(test);
+}
+
+export function evaluateVisibilityRules(
+  rules: VisibilityRule[] | undefined,
+  logic: VisibilityLogic | undefined,
+  answers: VisibilityAnswers
+): boolean {
+  return combine(rules ?? [], logic, (rule) =>
+    isVisibilityConditionGroup(rule)
+      ? combine(rule.conditions, rule.logic, (condition) =>
+          evaluateVisibilityCondition(condition, answers)
+        )
+      : evaluateVisibilityCondition(rule, answers)
+  );
+}
+
+/**
+ * Work out which sections and fields are hidden for the given answers.
+ * Repeats until stable so that hiding a field also hides the fields whose
+ * conditions depend on it.
+ */
+export function getFormVisibility(
+  schema: FormSchema,
+  answers: VisibilityAnswers
+): FormVisibility {
+  const sections = schema.sections ?? [];
+  const fieldCount = sections.reduce(
+    (total, section) => total + (section.fields ?? []).length,
+    0
+  );
+
+  let hiddenSectionIds = new Set<string>();
+  let hiddenFieldIds = new Set<string>();
+
+  for (let pass = 0; pass <= fieldCount + sections.length; pass++) {
+    const effectiveAnswers: VisibilityAnswers = { ...answers };
+    hiddenFieldIds.forEach((fieldId) => {
+      effectiveAnswers[fieldId] = null;
+    });
+
+    const nextSections = new Set<string>();
+    const nextFields = new Set<string>();
+    for (const section of sections) {
+      const sectionHidden = !evaluateVisibilityRules(
+        section.visibilityConditions,
+        section.visibilityLogic,
+        effectiveAnswers
+      );
+      if (sectionHidden) nextSections.add(section.id);
+
+      for (const field of section.fields ?? []) {
+        if (
+          sectionHidden ||
+          !evaluateVisibilityRules(
+            field.visibilityConditions,
+            field.visibilityLogic,
+            effectiveAnswers
+          )
+        ) {
+          nextFields.add(field.id);
+        }
+      }
+    }
+
+    const stable =
+      nextSections.size === hiddenSectionIds.size &&
+      nextFields.size === hiddenFieldIds.size &&
+      [...nextFields].every((fieldId) => hiddenFieldIds.has(fieldId)) &&
+      [...nextSections].every((sectionId) => hiddenSectionIds.has(sectionId));
+
+    hiddenSectionIds = nextSections;
+    hiddenFieldIds = nextFields;
+    if (stable) break;
+  }
+
+  return { hiddenSectionIds, hiddenFieldIds };
+}
+
+/**
+ * Sections and fields currently shown, for read-only views and PDF output.
+ */
+export function getVisibleFormSections(
+  schema: FormSchema,
+  answers: VisibilityAnswers
+): FormSection[] {
+  const { hiddenSectionIds, hiddenFieldIds } = getFormVisibility(
+    schema,
+    answers
+  );
+  return (schema.sections ?? [])
+    .filter((section) => !hiddenSectionIds.has(section.id))
+    .map((section) => ({
+      ...section,
+      fields: (section.fields ?? []).filter(
+        (field: BaseFormField) => !hiddenFieldIds.has(field.id)
+      ),
+    }));
+}
+
+/**
+ * Drop the answers of hidden fields, so stale answers the user can no longer
+ * see aren't submitted.
+ */
+export function omitHiddenAnswers<T extends VisibilityAnswers>(
+  answers: T,
+  visibility: FormVisibility
+): T {
+  const visibleAnswers = { ...answers };
+  visibility.hiddenFieldIds.forEach((fieldId) => {
+    delete visibleAnswers[fieldId];
+  });
+  return visibleAnswers;
+}
@@ -0,0 +1,153 @@
+import { serializeLessonBlock } from "./lessonBlocks";
+import type { LessonBlock } from "../../pages/admin/content/LessonBuilder";
+
+// ---------------------------------------------------------------------------
+// Comparing two versions of a lesson page block by block
+// ---------------------------------------------------------------------------
+
+export type LessonBlockDiffStatus =
+  "unchanged" | "changed" | "moved" | "left_only" | "right_only";
+
+export interface LessonBlockDiffEntry {
+  id: string;
+  type: string;
+  status: LessonBlockDiffStatus;
+  left: LessonBlock | null;
+  right: LessonBlock | null;
+  leftText: string;
+  rightText: string;
+}
+
+// Keys in block content that hold ids/urls rather than author-visible text
+const NON_TEXT_KEYS = new Set([
+  "id",
+  "media_asset_id",
+  "mediaAssetId",
+  "avatarMediaAssetId",
+  "posterMediaAssetId",
+  "url",
+  "public_url",
+  "src",
+  "avatarUrl",
+  "posterUrl",
+  "captionsUrl",
+]);
+
+function collectText(value: unknown, out: string[], key?: string) {
+  if (key && NON_TEXT_KEYS.has(key)) return;
+  if (typeof value === "string") {
+    const text = value
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (text) out.push(text);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectText(item, out));
+  } else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([k, v]) => collectText(v, out, k));
+  }
+}
+
+/**
+ * Plain-text rendering of a block's saved content, used for diff previews.
+ */
+export function getLessonBlockPlainText(block: LessonBlock): string {
+  const out: string[] = [];
+  collectText(serializeLessonBlock(block, "").contentJson?.content, out);
+  return out.join(" · ");
+}
+
+// Everything that is persisted except position and page
+function getComparableBlock(block: LessonBlock): string {
+  const { contentJson, type, mediaAssetId } = serializeLessonBlock(block, "");
+  return JSON.stringify({ type, contentJson, mediaAssetId });
+}
+
+/**
+ * Compare two block lists (e.g. local vs server, or revision vs current).
+ * Entries follow the order of `right`, with blocks that only exist on the
+ * left inserted where they used to be.
+ */
+export function diffLessonBlocks(
+  left: LessonBlock[],
+  right: LessonBlock[]
+): LessonBlockDiffEntry[] {
+  const sortedLeft = [...left].sort((a, b) => a.orderIndex - b.orderIndex);
+  const sortedRight = [...right].sort((a, b) => a.orderIndex - b.orderIndex);
+  const leftIds = new Set(sortedLeft.map((b) => b.id));
+  const rightIds = new Set(sortedRight.map((b) => b.id));
+
+  // Positions among the blocks both sides share, so an insert or delete
+  // elsewhere doesn't mark every following block as moved
+  const sharedLeft = sortedLeft.filter((b) => rightIds.has(b.id));
+  const sharedLeftIndex = new Map(sharedLeft.map((b, i) => [b.id, i]));
+  const leftBlockById = new Map(sortedLeft.map((b) => [b.id, b]));
+
+  // Left-only blocks, keyed by the shared block they used to follow
+  const leftOnlyAfter = new Map<string | null, LessonBlock[]>();
+  let previousSharedId: string | null = null;
+  sortedLeft.forEach((block) => {
+    if (rightIds.has(block.id)) {
+      previousSharedId = block.id;
+      return;
+    }
+    const group = leftOnlyAfter.get(previousSharedId) ?? [];
+    group.push(block);
+    leftOnlyAfter.set(previousSharedId, group);
+  });
+
+  const entries: LessonBlockDiffEntry[] = [];
+
+  const pushLeftOnly = (afterId: string | null) => {
+    (leftOnlyAfter.get(afterId) ?? []).forEach((block) => {
+      entries.push({
+        id: block.id,
+        type: block.type,
+        status: "left_only",
+        left: block,
+        right: null,
+        leftText: getLessonBlockPlainText(block),
+        rightText: "",
+      });
+    });
+  };
+
+  pushLeftOnly(null);
+
+  let sharedRightIndex = 0;
+  sortedRight.forEach((rightBlock) => {
+    if (!leftIds.has(rightBlock.id)) {
+      entries.push({
+        id: rightBlock.id,
+        type: rightBlock.type,
+        status: "right_only",
+        left: null,
+        right: rightBlock,
+        leftText: "",
+        rightText: getLessonBlockPlainText(rightBlock),
+      });
+      return;
+    }
+
+    const leftBlock = leftBlockById.get(rightBlock.id)!;
+    const changed =
+      getComparableBlock(leftBlock) !== getComparableBlock(rightBlock);
+    const moved = sharedLeftIndex.get(rightBlock.id) !== sharedRightIndex;
+    sharedRightIndex += 1;
+
+    entries.push({
+      id: rightBlock.id,
+      type: rightBlock.type,
+      status: changed ? "changed" : moved ? "moved" : "unchanged",
+      left: leftBlock,
+      right: rightBlock,
+      leftText: getLessonBlockPlainText(leftBlock),
+      rightText: getLessonBlockPlainText(rightBlock),
+    });
+
+    pushLeftOnly(rightBlock.id);
+  });
+
+  return entries;
+}
@@ -0,0 +1,1139 @@
+import type {
+  ContentModuleBlockRow,
+  UpsertContentModuleBlockParams,
+} from "./supabase/contentModuleBlocks";
+import type { ContentSavedBlockRow } from "./supabase/contentSavedBlocks";
+import { TEXT_BLOCK_TYPES } from "../constants/textBlockTypes";
+import type { TextBlockContentJson } from "../types/contentBlocks";
+import { DEFAULT_BLOCK_LAYOUT } from "../types/blocks";
+import type { BlockStyle } from "../components/blocks/BlockStyleMenu";
+import type { TabsContent } from "../components/blocks/interactive/tabs";
+import {
+  getDefaultImageCompareContent,
+  type ImageCompareContent,
+} from "../components/blocks/interactive/image-compare";
+import type { AccordionContent } from "../components/blocks/interactive/accordion/accordion-types";
+import type { SortingActivityContent } from "../components/blocks/sorting/sorting-types";
+import type { KnowledgeCheckContent } from "../components/blocks/knowledge-check";
+import type { VideoContent } from "../components/blocks/multimedia/video";
+import type { ChartContent } from "../components/blocks/chart";
+import type { QuoteContent } from "../components/blocks/quote";
+import type { DividerContent } from "../components/blocks/divider";
+import type {
+  AnimationDuration,
+  BlockAnimation,
+  FlashcardItem,
+  LessonBlock,
+  LessonBlockType,
+} from "../../pages/admin/content/LessonBuilder";
+
+// ---------------------------------------------------------------------------
+// Hydrating content_module_blocks rows into LessonBlock objects
+// ---------------------------------------------------------------------------
+
+/**
+ * DB block types (content_module_blocks.type) that can be turned back into a
+ * LessonBlock. All text-based blocks are stored with type "text" and keep
+ * their internal type in content_json.blockType.
+ */
+export const SUPPORTED_BLOCK_DB_TYPES: string[] = [
+  "text",
+  "numbered-list",
+  "bullet-list",
+  "image-centered",
+  "image-fullwidth",
+  "image-text",
+  "flashcards",
+  "sorting_activity",
+  "accordion",
+  "tabs",
+  "image_compare",
+  "knowledge_check",
+  "video",
+  "chart",
+  "quote",
+  "divider",
+];
+
+/**
+ * Convert a single content_module_blocks row into the LessonBlock shape used
+ * by the Lesson Builder and the learner player.
+ */
+export function hydrateLessonBlock(row: ContentModuleBlockRow): LessonBlock {
+  const json = row.content_json as TextBlockContentJson | null;
+
+  // ---------------------------------------------------------------
+  // Handle image block types directly (they use DB type as-is)
+  // ---------------------------------------------------------------
+  if (row.type === "image-centered" || row.type === "image-fullwidth") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    // Read style from content_json.style, falling back to "light"
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    // Read animation settings from content_json
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: row.type as LessonBlockType, // "image-centered" or "image-fullwidth"
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      media_asset_id: row.media_asset_id ?? null,
+      content: {
+        // Spread content from DB (media_asset_id, alt_text, caption, public_url, image, etc.)
+        media_asset_id:
+          (rawContent as any).media_asset_id ?? row.media_asset_id ?? null,
+        alt_text: (rawContent as any).alt_text ?? "",
+        caption: (rawContent as any).caption ?? null,
+        public_url: (rawContent as any).public_url ?? null,
+        image: (rawContent as any).image ?? null,
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle image-text blocks
+  // ---------------------------------------------------------------
+  if (row.type === "image-text") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    // Read style from content_json.style, falling back to "light"
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    // Read animation settings from content_json
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    // Extract body HTML from content.text.body (primary) or content.body (fallback)
+    const savedText = (rawContent as any).text;
+    const bodyHtml: string =
+      (typeof savedText === "object" && savedText?.body) ||
+      (rawContent as any).body ||
+      "";
+
+    // Extract layout content
+    const savedLayout = (rawContent as any).layout ?? {};
+    const rawImagePosition = savedLayout.imagePosition ?? "left";
+    const rawImageWidth = savedLayout.imageWidth ?? 50;
+
+    // Convert imageWidth from decimal (0.25, 0.5, 0.75) to integer (25, 50, 75) if needed
+    const imageWidthInt: 25 | 50 | 75 =
+      rawImageWidth <= 1
+        ? rawImageWidth === 0.25
+          ? 25
+          : rawImageWidth === 0.75
+            ? 75
+            : 50
+        : rawImageWidth === 25
+          ? 25
+          : rawImageWidth === 75
+            ? 75
+            : 50;
+
+    // Extract image URL from content.image.url (primary) or content.public_url (fallback)
+    const imageUrl: string | null =
+      (rawContent as any).image?.url || (rawContent as any).public_url || null;
+
+    return {
+      id: row.id,
+      type: "image-text" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      media_asset_id: row.media_asset_id ?? null,
+      content: {
+        media_asset_id:
+          (rawContent as any).media_asset_id ?? row.media_asset_id ?? null,
+        // Use imageUrl which reads from both content.image.url and content.public_url
+        public_url: imageUrl,
+        alt_text: (rawContent as any).alt_text ?? "",
+        layout: {
+          imagePosition: rawImagePosition as "left" | "right",
+          imageWidth: imageWidthInt,
+        },
+        text: {
+          heading: "",
+          body: bodyHtml,
+        },
+        ai_metadata: (rawContent as any).ai_metadata ?? null,
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle flashcards blocks
+  // ---------------------------------------------------------------
+  if (row.type === "flashcards") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    // Read style from content_json.style, falling back to "light"
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    // Read animation settings from content_json
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    // Extract cards array from content
+    const savedCards = (rawContent as any).cards ?? [];
+    const savedTitle = (rawContent as any).title ?? "Flashcards";
+
+    return {
+      id: row.id,
+      type: "flashcards" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        title: savedTitle,
+        cards: savedCards.map((card: any) => ({
+          id: card.id,
+          frontHtml: card.frontHtml ?? "",
+          backHtml: card.backHtml ?? "",
+          frontDisplayMode: card.frontDisplayMode ?? "text",
+          backDisplayMode: card.backDisplayMode ?? "text",
+          frontImage: card.frontImage ?? null,
+          backImage: card.backImage ?? null,
+        })),
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle sorting activity blocks
+  // ---------------------------------------------------------------
+  if (row.type === "sorting_activity") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    const categories = (rawContent as any).categories ?? [];
+    const items = (rawContent as any).items ?? [];
+    const settings = (rawContent as any).settings ?? {};
+
+    return {
+      id: row.id,
+      type: "sorting_activity" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        title: (rawContent as any).title ?? "",
+        instructions: (rawContent as any).instructions ?? "",
+        categories,
+        items,
+        settings,
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle chart blocks
+  // ---------------------------------------------------------------
+  if (row.type === "chart") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: "chart" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        chartType: (rawContent as any).chartType ?? "bar",
+        title: (rawContent as any).title ?? "",
+        description: (rawContent as any).description ?? "",
+        xAxisLabel: (rawContent as any).xAxisLabel ?? "",
+        yAxisLabel: (rawContent as any).yAxisLabel ?? "",
+        series: (rawContent as any).series ?? [],
+        rows: (rawContent as any).rows ?? [],
+        settings: (rawContent as any).settings ?? {},
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+  if (row.type === "quote") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: "quote" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      media_asset_id: row.media_asset_id ?? null,
+      content: {
+        text: (rawContent as any).text ?? "",
+        author: (rawContent as any).author ?? "",
+        authorRole: (rawContent as any).authorRole ?? "",
+        avatarUrl: (rawContent as any).avatarUrl ?? null,
+        avatarMediaAssetId: (rawContent as any).avatarMediaAssetId ?? null,
+        alignment: (rawContent as any).alignment ?? "left",
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+  if (row.type === "divider") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: "divider" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        variant: (rawContent as any).variant ?? "line",
+        lineStyle: (rawContent as any).lineStyle ?? "solid",
+        spacerSize: (rawContent as any).spacerSize ?? "M",
+        stepNumber: (rawContent as any).stepNumber ?? 1,
+        stepLabel: (rawContent as any).stepLabel ?? "",
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle video blocks
+  // ---------------------------------------------------------------
+  if (row.type === "video") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: "video" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        src: (rawContent as any).src ?? "",
+        provider: (rawContent as any).provider ?? "youtube",
+        caption: (rawContent as any).caption ?? "",
+        title: (rawContent as any).title ?? "",
+        mediaAssetId: (rawContent as any).mediaAssetId ?? null,
+        posterUrl: (rawContent as any).posterUrl ?? null,
+        posterMediaAssetId: (rawContent as any).posterMediaAssetId ?? null,
+        captionsUrl: (rawContent as any).captionsUrl ?? null,
+        captionsLanguage: (rawContent as any).captionsLanguage ?? "en",
+        transcript: (rawContent as any).transcript ?? "",
+        requireFullWatch: (rawContent as any).requireFullWatch ?? false,
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle knowledge check blocks
+  // ---------------------------------------------------------------
+  if (row.type === "knowledge_check") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: "knowledge_check" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        questionType: (rawContent as any).questionType ?? "multiple_choice",
+        prompt: (rawContent as any).prompt ?? "",
+        options: (rawContent as any).options ?? [],
+        acceptedAnswers: (rawContent as any).acceptedAnswers ?? [],
+        correctFeedback: (rawContent as any).correctFeedback ?? "",
+        incorrectFeedback: (rawContent as any).incorrectFeedback ?? "",
+        settings: (rawContent as any).settings ?? {},
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle accordion blocks
+  // ---------------------------------------------------------------
+  if (row.type === "accordion") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    return {
+      id: row.id,
+      type: "accordion" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        ...(rawContent as any),
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle tabs blocks
+  // ---------------------------------------------------------------
+  if (row.type === "tabs") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    const rawTabs = (rawContent as any).tabs ?? [];
+    const rawSettings = (rawContent as any).settings ?? {};
+
+    const normalizedTabs = Array.isArray(rawTabs)
+      ? rawTabs.map((t: any, idx: number) => ({
+          id: t?.id ?? `tab-${idx + 1}`,
+          title: t?.title ?? "",
+          content: t?.content ?? "",
+          image: t?.image ?? null,
+        }))
+      : [];
+
+    const tabsContent: TabsContent & Record<string, unknown> = {
+      title: (rawContent as any).title ?? "",
+      tabs: normalizedTabs,
+      settings: {
+        style: rawSettings?.style ?? "light",
+        allowKeyboardNav: rawSettings?.allowKeyboardNav ?? true,
+      },
+    };
+
+    return {
+      id: row.id,
+      type: "tabs" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        ...tabsContent,
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle image_compare blocks
+  // ---------------------------------------------------------------
+  if (row.type === "image_compare") {
+    const rawContent =
+      typeof json?.content === "object" && json?.content !== null
+        ? json.content
+        : {};
+
+    const savedStyle = json?.style?.style ?? "light";
+    const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+    const savedAnimation = (json as any)?.animation ?? "none";
+    const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+    const defaults = getDefaultImageCompareContent();
+
+    const compareContent: ImageCompareContent & Record<string, unknown> = {
+      ...defaults,
+      ...(rawContent as any),
+      settings: {
+        ...(defaults.settings ?? {}),
+        ...(((rawContent as any).settings as any) ?? {}),
+      },
+    };
+
+    return {
+      id: row.id,
+      type: "image_compare" as LessonBlockType,
+      orderIndex: row.order_index,
+      style: savedStyle as BlockStyle,
+      customBackgroundColor: savedCustomColor,
+      layout: { ...DEFAULT_BLOCK_LAYOUT },
+      metadata: {
+        behaviourTag: json?.metadata?.behaviourTag ?? null,
+        cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+        learningPattern: json?.metadata?.learningPattern ?? null,
+        difficulty: json?.metadata?.difficulty ?? null,
+        notes: json?.metadata?.notes ?? null,
+        source: json?.metadata?.source ?? null,
+        fieldSources: json?.metadata?.fieldSources ?? undefined,
+        aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+        aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+      },
+      mblMetadata: row.mbl_metadata,
+      savedToDb: true,
+      content: {
+        ...compareContent,
+        animation: savedAnimation as BlockAnimation,
+        animationDuration: savedAnimationDuration as AnimationDuration,
+      },
+    };
+  }
+
+  // ---------------------------------------------------------------
+  // Handle text-based blocks (row.type === "text")
+  // ---------------------------------------------------------------
+  // Determine internal block type from content_json.blockType
+  const internalType = (json?.blockType ?? "paragraph") as LessonBlockType;
+
+  // Build the content object based on block type
+  // Handle both old format (string) and new format (structured object)
+  const content: LessonBlock["content"] = {};
+  const rawContent = json?.content;
+  const isStructured = typeof rawContent === "object" && rawContent !== null;
+
+  if (internalType === "paragraph") {
+    content.html = typeof rawContent === "string" ? rawContent : "";
+  } else if (internalType === "heading") {
+    content.heading = typeof rawContent === "string" ? rawContent : "";
+  } else if (internalType === "subheading") {
+    content.subheading = typeof rawContent === "string" ? rawContent : "";
+  } else if (internalType === "paragraph-with-heading") {
+    if (isStructured) {
+      // New format: structured content with heading and body
+      content.heading = (rawContent as any).heading ?? "";
+      content.html = (rawContent as any).body ?? "";
+    } else {
+      // Old format: combined string (legacy)
+      content.heading = "";
+      content.html = typeof rawContent === "string" ? rawContent : "";
+    }
+  } else if (internalType === "paragraph-with-subheading") {
+    if (isStructured) {
+      // New format: structured content with subheading and body
+      content.subheading = (rawContent as any).subheading ?? "";
+      content.html = (rawContent as any).body ?? "";
+    } else {
+      // Old format: combined string (legacy)
+      content.subheading = "";
+      content.html = typeof rawContent === "string" ? rawContent : "";
+    }
+  } else if (internalType === "columns") {
+    if (isStructured) {
+      // New format: structured content with columnOne and columnTwo
+      content.columnOneContent = (rawContent as any).columnOne ?? "";
+      content.columnTwoContent = (rawContent as any).columnTwo ?? "";
+    } else {
+      // Old format: combined string (legacy)
+      content.columnOneContent =
+        typeof rawContent === "string" ? rawContent : "";
+      content.columnTwoContent = "";
+    }
+  } else if (internalType === "table") {
+    // Load table content from database
+    if (isStructured) {
+      content.tableContent = (rawContent as any).tableContent ?? null;
+      content.borderMode = (rawContent as any).borderMode ?? "normal";
+    } else {
+      // Legacy/fallback
+      content.tableContent = null;
+      content.borderMode = "normal";
+    }
+  } else if (internalType === "numbered-list") {
+    // Load numbered list content from database
+    if (isStructured) {
+      content.listItems = (rawContent as any).items ?? [];
+      content.startNumber = (rawContent as any).startNumber ?? 1;
+      content.listStyle = (rawContent as any).listStyle ?? "decimal";
+      content.subStyle = (rawContent as any).subStyle ?? "lower-alpha";
+      content.numberColor = (rawContent as any).numberColor ?? "#f97316";
+    } else {
+      // Legacy/fallback - create one empty item
+      content.listItems = [{ body: "<p>List item...</p>" }];
+      content.startNumber = 1;
+      content.listStyle = "decimal";
+      content.subStyle = "lower-alpha";
+      content.numberColor = "#f97316";
+    }
+  } else if (internalType === "bullet-list") {
+    // Load bullet list content from database
+    if (isStructured) {
+      content.bulletItems = (rawContent as any).bulletItems ?? [];
+      content.bulletStyle = (rawContent as any).bulletStyle ?? "disc";
+      content.bulletSubStyle = (rawContent as any).bulletSubStyle ?? "disc";
+      content.bulletColor = (rawContent as any).bulletColor ?? "#f97316";
+    } else {
+      // Legacy/fallback - create one empty item
+      content.bulletItems = [{ body: "<p>Bullet point content...</p>" }];
+      content.bulletStyle = "disc";
+      content.bulletSubStyle = "disc";
+      content.bulletColor = "#f97316";
+    }
+  } else {
+    // Fallback
+    content.html = typeof rawContent === "string" ? rawContent : "";
+  }
+
+  // Read style from content_json.style, falling back to "light" for legacy blocks
+  const savedStyle = json?.style?.style ?? "light";
+  const savedCustomColor = json?.style?.customBackgroundColor ?? undefined;
+  // Read animation settings from content_json
+  const savedAnimation = (json as any)?.animation ?? "none";
+  const savedAnimationDuration = (json as any)?.animationDuration ?? "normal";
+
+  return {
+    id: row.id,
+    type: internalType,
+    orderIndex: row.order_index,
+    style: savedStyle as BlockStyle,
+    customBackgroundColor: savedCustomColor,
+    layout: { ...DEFAULT_BLOCK_LAYOUT },
+    metadata: {
+      behaviourTag: json?.metadata?.behaviourTag ?? null,
+      cognitiveSkill: json?.metadata?.cognitiveSkill ?? null,
+      learningPattern: json?.metadata?.learningPattern ?? null,
+      difficulty: json?.metadata?.difficulty ?? null,
+      notes: json?.metadata?.notes ?? null,
+      source: json?.metadata?.source ?? null,
+      fieldSources: json?.metadata?.fieldSources ?? undefined,
+      aiExplanations: json?.metadata?.aiExplanations ?? undefined,
+      aiConfidenceScores: json?.metadata?.aiConfidenceScores ?? undefined,
+    },
+    mblMetadata: row.mbl_metadata, // Raw AI-generated metadata from database
+    savedToDb: true,
+    content: {
+      ...content,
+      animation: savedAnimation as BlockAnimation,
+      animationDuration: savedAnimationDuration as AnimationDuration,
+    },
+  };
+}
+
+/**
+ * Hydrate all supported rows for a page, skipping block types we can't render.
+ */
+export function hydrateLessonBlocks(
+  rows: ContentModuleBlockRow[]
+): LessonBlock[] {
+  return rows
+    .filter((row) => SUPPORTED_BLOCK_DB_TYPES.includes(row.type))
+    .map((row) => ({
+      ...hydrateLessonBlock(row),
+      savedBlockId: row.saved_block_id ?? null,
+    }));
+}
+
+/**
+ * Build a new, unsaved LessonBlock from a saved-blocks library entry, either
+ * as an independent copy or as an instance linked to the saved block.
+ */
+export function createLessonBlockFromSaved(
+  saved: ContentSavedBlockRow,
+  { linked }: { linked: boolean }
+): LessonBlock {
+  const row: ContentModuleBlockRow = {
+    id: crypto.randomUUID(),
+    page_id: "",
+    type: TEXT_BLOCK_TYPES.includes(saved.block_type)
+      ? "text"
+      : saved.block_type,
+    order_index: 0,
+    content_json: saved.content_json,
+    learning_goal: null,
+    media_type: "text",
+    difficulty_level: 0,
+    is_core: false,
+    mbl_metadata: null,
+    media_asset_id: saved.media_asset_id,
+  };
+
+  return {
+    ...hydrateLessonBlock(row),
+    savedToDb: false,
+    savedBlockId: linked ? saved.id : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Serialising LessonBlock objects into content_module_blocks rows
+// ---------------------------------------------------------------------------
+
+/**
+ * Internal block types that are persisted to content_module_blocks.
+ */
+export const SAVED_BLOCK_TYPES: LessonBlockType[] = [
+  "paragraph",
+  "heading",
+  "subheading",
+  "paragraph-with-heading",
+  "paragraph-with-subheading",
+  "columns",
+  "table",
+  "numbered-list",
+  "bullet-list",
+  "image-centered",
+  "image-fullwidth",
+  "image-text",
+  "flashcards",
+  "sorting_activity",
+  "accordion",
+  "tabs",
+  "image_compare",
+  "knowledge_check",
+  "video",
+  "chart",
+  "quote",
+  "divider",
+];
+
+/**
+ * Build the upsertContentModuleBlock params for a LessonBlock (the inverse of
+ * hydrateLessonBlock). The result is deterministic, so serialised params can
+ * be compared to tell whether a block changed since it was last saved.
+ */
+export function serializeLessonBlock(
+  block: LessonBlock,
+  pageId: string
+): UpsertContentModuleBlockParams {
+  // Build the content based on block type
+  // For simple blocks, content is a string
+  // For compound blocks, content is a StructuredBlockContent object (or custom content for interactive blocks)
+  let blockContent: any = "";
+
+  if (block.type === "paragraph") {
+    blockContent = block.content.html ?? "";
+  } else if (block.type === "heading") {
+    blockContent = block.content.heading ?? "";
+  } else if (block.type === "subheading") {
+    blockContent = block.content.subheading ?? "";
+  } else if (block.type === "paragraph-with-heading") {
+    // Store heading and body separately
+    blockContent = {
+      heading: block.content.heading ?? "",
+      body: block.content.html ?? "",
+    };
+  } else if (block.type === "paragraph-with-subheading") {
+    // Store subheading and body separately
+    blockContent = {
+      subheading: block.content.subheading ?? "",
+      body: block.content.html ?? "",
+    };
+  } else if (block.type === "columns") {
+    // Store columns separately
+    blockContent = {
+      columnOne: block.content.columnOneContent ?? "",
+      columnTwo: block.content.columnTwoContent ?? "",
+    };
+  } else if (block.type === "table") {
+    // Store table content and settings
+    blockContent = {
+      tableContent: block.content.tableContent ?? null,
+      borderMode: block.content.borderMode ?? "normal",
+    };
+  } else if (block.type === "numbered-list") {
+    // Store numbered list items, start number, list styles, and number color
+    blockContent = {
+      items: block.content.listItems ?? [],
+      startNumber: block.content.startNumber ?? 1,
+      listStyle: block.content.listStyle ?? "decimal",
+      subStyle: block.content.subStyle ?? "lower-alpha",
+      numberColor: block.content.numberColor ?? "#f97316",
+    };
+  } else if (block.type === "bullet-list") {
+    // Store bullet list items and bullet color
+    blockContent = {
+      bulletItems: block.content.bulletItems ?? [],
+      bulletStyle: block.content.bulletStyle ?? "disc",
+      bulletSubStyle: block.content.bulletSubStyle ?? "disc",
+      bulletColor: block.content.bulletColor ?? "#f97316",
+    };
+  } else if (block.type === "image-centered") {
+    // Store image content - includes both flat fields and structured image object
+    blockContent = {
+      media_asset_id:
+        block.media_asset_id ?? block.content.media_asset_id ?? null,
+      alt_text: block.content.alt_text ?? "",
+      caption: block.content.caption ?? null,
+      public_url: block.content.public_url ?? null,
+      // Structured image object with full asset info
+      image: block.content.image ?? {
+        media_asset_id:
+          block.media_asset_id ?? block.content.media_asset_id ?? null,
+        url: block.content.public_url ?? null,
+        alt_text: block.content.alt_text ?? "",
+        title: "",
+        description: "",
+      },
+    };
+  } else if (block.type === "image-fullwidth") {
+    // Store image content - includes both flat fields and structured image object
+    blockContent = {
+      media_asset_id:
+        block.media_asset_id ?? block.content.media_asset_id ?? null,
+      alt_text: block.content.alt_text ?? "",
+      caption: block.content.caption ?? null,
+      public_url: block.content.public_url ?? null,
+      // Structured image object with full asset info
+      image: block.content.image ?? {
+        media_asset_id:
+          block.media_asset_id ?? block.content.media_asset_id ?? null,
+        url: block.content.public_url ?? null,
+        alt_text: block.content.alt_text ?? "",
+        title: "",
+        description: "",
+      },
+    };
+  } else if (block.type === "image-text") {
+    // Store image-text content
+    // Extract text content - handle both object and string formats
+    const textContent = block.content.text;
+    const textObject =
+      typeof textContent === "object" && textContent !== null
+        ? textContent
+        : {
+            heading: "",
+            body: typeof textContent === "string" ? textContent : "",
+          };
+
+    // Extract layout content
+    const layoutContent = block.content.layout;
+    const layoutObject =
+      typeof layoutContent === "object" && layoutContent !== null
+        ? layoutContent
+        : { imagePosition: "left" as const, imageWidth: 50 as const };
+
+    blockContent = {
+      media_asset_id:
+        block.media_asset_id ?? block.content.media_asset_id ?? null,
+      public_url: block.content.public_url ?? null,
+      alt_text: block.content.alt_text ?? "",
+      layout: {
+        imagePosition: layoutObject.imagePosition ?? "left",
+        imageWidth: layoutObject.imageWidth ?? 50,
+      },
+      text: {
+        heading: textObject.heading ?? "",
+        body: textObject.body ?? "",
+      },
+      ai_metadata: block.content.ai_metadata ?? null,
+    };
+  } else if (block.type === "flashcards") {
+    // Store flashcards content - includes title and cards array
+    const flashcardsContent = block.content as {
+      cards?: FlashcardItem[];
+      title?: string;
+    };
+    blockContent = {
+      title: flashcardsContent?.title ?? null,
+      cards: (flashcardsContent?.cards ?? []).map((card) => ({
+        id: card.id,
+        frontHtml: card.frontHtml ?? "",
+        backHtml: card.backHtml ?? "",
+        frontDisplayMode: card.frontDisplayMode ?? "text",
+        backDisplayMode: card.backDisplayMode ?? "text",
+        frontImage: card.frontImage ?? null,
+        backImage: card.backImage ?? null,
+      })),
+    };
+  } else if (block.type === "sorting_activity") {
+    // Store sorting activity content (categories/items/settings)
+    blockContent = block.content as unknown as SortingActivityContent;
+  } else if (block.type === "accordion") {
+    // Store accordion content (items/settings)
+    blockContent = block.content as AccordionContent;
+  } else if (block.type === "tabs") {
+    // Store tabs content (tabs/settings)
+    blockContent = block.content as unknown as TabsContent;
+  } else if (block.type === "image_compare") {
+    // Store image compare content
+    blockContent = block.content as unknown as ImageCompareContent;
+  } else if (block.type === "knowledge_check") {
+    // Store knowledge check content (question/options/settings)
+    blockContent = block.content as unknown as KnowledgeCheckContent;
+  } else if (block.type === "video") {
+    // Store video content (source/poster/captions/transcript)
+    blockContent = block.content as unknown as VideoContent;
+  } else if (block.type === "chart") {
+    // Store chart content (series/rows/settings)
+    blockContent = block.content as unknown as ChartContent;
+  } else if (block.type === "quote") {
+    // Store quote text, attribution and avatar
+    blockContent = block.content as unknown as QuoteContent;
+  } else if (block.type === "divider") {
+    // Store divider variant and its settings
+    blockContent = block.content as unknown as DividerContent;
+  }
+
+  // Build the TextBlockContentJson object
+  const contentJson: TextBlockContentJson = {
+    blockType: block.type,
+    content: blockContent,
+    metadata: {
+      behaviourTag: block.metadata?.behaviourTag ?? null,
+      cognitiveSkill: block.metadata?.cognitiveSkill ?? null,
+      learningPattern: block.metadata?.learningPattern ?? null,
+      difficulty: block.metadata?.difficulty ?? null,
+      notes: block.metadata?.notes ?? null,
+      source: block.metadata?.source ?? null,
+      fieldSources: block.metadata?.fieldSources ?? null,
+      aiExplanations: block.metadata?.aiExplanations ?? null,
+      aiConfidenceScores: block.metadata?.aiConfidenceScores ?? null,
+    },
+    // Include style data so block appearance persists
+    style: {
+      style: block.style ?? null,
+      customBackgroundColor: block.customBackgroundColor ?? null,
+    },
+    // Include animation settings
+    animation: block.content.animation ?? "none",
+    animationDuration: block.content.animationDuration ?? "normal",
+  };
+
+  // Assume all IDs are valid and let upsert handle insert vs update
+  return {
+    id: block.id,
+    pageId: pageId,
+    type: block.type,
+    orderIndex: block.orderIndex,
+    contentJson,
+    learningGoal: null,
+    mediaType:
+      block.type === "image-centered" ||
+      block.type === "image-fullwidth" ||
+      block.type === "image-text"
+        ? "image"
+        : null,
+    isCore: null,
+    difficultyLevel: null,
+    // Pass media_asset_id for image blocks and quote avatars (FK to media_assets)
+    mediaAssetId:
+      block.type === "image-centered" ||
+      block.type === "image-fullwidth" ||
+      block.type === "image-text" ||
+      block.type === "quote"
+        ? block.media_asset_id ?? null
+        : null,
+    savedBlockId: block.savedBlockId ?? null,
+  };
+}
@@ -0,0 +1,151 @@
+import { DEFAULT_BLOCK_LAYOUT, DEFAULT_BLOCK_METADATA } from "../types/blocks";
+import { getDefaultKnowledgeCheckContent } from "../components/blocks/knowledge-check";
+import { getDefaultQuoteContent } from "../components/blocks/quote";
+import { getDefaultDividerContent } from "../components/blocks/divider";
+import type {
+  LessonBlock,
+  LessonBlockType,
+} from "../../pages/admin/content/LessonBuilder";
+
+// ---------------------------------------------------------------------------
+// Lesson templates - pre-built lesson layouts authors can start a lesson from
+// ---------------------------------------------------------------------------
+
+export interface LessonTemplate {
+  id: string;
+  title: string;
+  description: string;
+  // Short outline of the sections, shown in the template gallery
+  outline: string[];
+  createBlocks: () => LessonBlock[];
+}
+
+function makeBlock(
+  type: LessonBlockType,
+  content: LessonBlock["content"],
+  style: LessonBlock["style"] = "light"
+): LessonBlock {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    orderIndex: 0, // set by buildBlocks
+    style,
+    customBackgroundColor: undefined,
+    layout: { ...DEFAULT_BLOCK_LAYOUT },
+    metadata: { ...DEFAULT_BLOCK_METADATA },
+    content,
+  };
+}
+
+function buildBlocks(blocks: LessonBlock[]): LessonBlock[] {
+  return blocks.map((block, index) => ({ ...block, orderIndex: index }));
+}
+
+function introBlocks(): LessonBlock[] {
+  return [
+    makeBlock("heading", { heading: "<p>Introduction</p>" }),
+    makeBlock("paragraph", {
+      html: "<p>Set the scene: why this lesson matters and what the learner will be able to do by the end of it.</p>",
+    }),
+  ];
+}
+
+function objectivesBlocks(): LessonBlock[] {
+  return [
+    makeBlock("subheading", { subheading: "<p>Learning objectives</p>" }),
+    makeBlock("bullet-list", {
+      bulletItems: [
+        { body: "<p>Describe the first key concept</p>" },
+        { body: "<p>Apply the second key concept</p>" },
+        { body: "<p>Recognise when to use each</p>" },
+      ],
+      bulletStyle: "check",
+      bulletColor: "#f97316", // orange-500
+    }),
+  ];
+}
+
+export const LESSON_TEMPLATES: LessonTemplate[] = [
+  {
+    id: "standard",
+    title: "Standard lesson",
+    description:
+      "Introduction, learning objectives, two content sections and a knowledge check.",
+    outline: [
+      "Introduction",
+      "Learning objectives",
+      "Content",
+      "Knowledge check",
+    ],
+    createBlocks: () =>
+      buildBlocks([
+        ...introBlocks(),
+        ...objectivesBlocks(),
+        makeBlock("paragraph-with-heading", {
+          heading: "<p>Key concept one</p>",
+          html: "<p>Explain the first concept in plain language, with an example from the learner's work.</p>",
+        }),
+        makeBlock("paragraph-with-heading", {
+          heading: "<p>Key concept two</p>",
+          html: "<p>Build on the first concept and show how the two fit together.</p>",
+        }),
+        makeBlock("knowledge_check", {
+          ...getDefaultKnowledgeCheckContent("multiple_choice"),
+        }),
+      ]),
+  },
+  {
+    id: "procedure",
+    title: "Step-by-step procedure",
+    description:
+      "Walk learners through a process one numbered step at a time, then check their understanding.",
+    outline: [
+      "Introduction",
+      "Learning objectives",
+      "Numbered steps",
+      "Knowledge check",
+    ],
+    createBlocks: () =>
+      buildBlocks([
+        ...introBlocks(),
+        ...objectivesBlocks(),
+        ...[1, 2, 3].flatMap((step) => [
+          makeBlock("divider", {
+            ...getDefaultDividerContent("numbered"),
+            stepNumber: step,
+            stepLabel: `Step ${step}`,
+          }),
+          makeBlock("paragraph", {
+            html: "<p>Describe what the learner does in this step and what they should see when it's done correctly.</p>",
+          }),
+        ]),
+        makeBlock("knowledge_check", {
+          ...getDefaultKnowledgeCheckContent("true_false"),
+        }),
+      ]),
+  },
+  {
+    id: "key_message",
+    title: "Key message",
+    description:
+      "A short lesson built around one key message, with a highlighted takeaway and a quick check.",
+    outline: [
+      "Introduction",
+      "Learning objectives",
+      "Content + key takeaway",
+      "Knowledge check",
+    ],
+    createBlocks: () =>
+      buildBlocks([
+        ...introBlocks(),
+        ...objectivesBlocks(),
+        makeBlock("paragraph", {
+          html: "<p>Present the message and the evidence or story behind it.</p>",
+        }),
+        makeBlock("quote", { ...getDefaultQuoteContent("center") }, "gray"),
+        makeBlock("knowledge_check", {
+          ...getDefaultKnowledgeCheckContent("multiple_response"),
+        }),
+      ]),
+  },
+];
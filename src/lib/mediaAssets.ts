@@ -220,12 +220,20 @@ export async function uploadImageWithAI(file: File): Promise<MediaAsset> {
 // List media assets for the current user
 // ============================================================================
 
-export async function listMediaAssets(): Promise<MediaAsset[]> {
-  const { data, error } = await supabase
+export async function listMediaAssets(
+  options: { mimePrefix?: string } = {}
+): Promise<MediaAsset[]> {
+  let query = supabase
     .from("media_assets")
     .select("*")
-    .eq("is_deleted", false)
-    .order("created_at", { ascending: false });
+    .eq("is_deleted", false);
+
+  // e.g. "image/" or "video/"
+  if (options.mimePrefix) {
+    query = query.like("mime_type", `${options.mimePrefix}%`);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false });
 
   if (error) {
     console.error("[listMediaAssets] Error fetching media assets:", error);
@@ -234,3 +242,184 @@ export async function listMediaAssets(): Promise<MediaAsset[]> {
 
   return (data ?? []).map((asset) => withPublicUrl(asset as Omit<MediaAsset, "public_url">));
 }
+
+// ============================================================================
+// Upload video / captions files (no AI metadata step)
+// ============================================================================
+
+const ALLOWED_VIDEO_MIME_TYPES = [
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+] as const;
+
+const ALLOWED_CAPTIONS_MIME_TYPES = ["text/vtt"] as const;
+
+type PresignFunctionName = "presign-image-upload" | "presign-video-upload";
+
+// `created` is false when the library already had a file with the same checksum
+export interface UploadedMediaAsset {
+  asset: MediaAsset;
+  created: boolean;
+}
+
+async function uploadMediaFile(
+  file: File,
+  mimeType: string,
+  presignFunction: PresignFunctionName = "presign-video-upload"
+): Promise<UploadedMediaAsset> {
+  const checksum = await computeFileChecksum(file);
+
+  const { data, error } = await supabase.functions.invoke<PresignResponse>(
+    presignFunction,
+    {
+      body: {
+        fileName: file.name,
+        mimeType,
+        fileSizeBytes: file.size,
+        checksum,
+      },
+    }
+  );
+
+  if (error) {
+    console.error(`[uploadMediaFile] ${presignFunction} error:`, error);
+    throw new Error(`Failed to request upload URL: ${error.message}`);
+  }
+
+  if (!data || !data.status || !data.asset) {
+    console.error(`[uploadMediaFile] Invalid response from ${presignFunction}:`, data);
+    throw new Error(`Invalid response from ${presignFunction}`);
+  }
+
+  if (data.status === "exists") {
+    return { asset: withPublicUrl(data.asset), created: false };
+  }
+
+  if (!data.uploadUrl) {
+    console.error("[uploadMediaFile] No uploadUrl in response:", data);
+    throw new Error("No upload URL provided in response");
+  }
+
+  const uploadResponse = await fetch(data.uploadUrl, {
+    method: "PUT",
+    headers: {
+      "Content-Type": mimeType,
+      "x-amz-content-sha256": "UNSIGNED-PAYLOAD",
+    },
+    body: file,
+  });
+
+  if (!uploadResponse.ok) {
+    console.error(
+      "[uploadMediaFile] S3 upload failed:",
+      uploadResponse.status,
+      uploadResponse.statusText
+    );
+    throw new Error(
+      `Failed to upload file to storage: ${uploadResponse.status} ${uploadResponse.statusText}`
+    );
+  }
+
+  // Files uploaded here skip AI processing, so the asset is ready as soon as it is stored
+  const { data: readyAsset, error: updateError } = await supabase
+    .from("media_assets")
+    .update({ status: "ready" })
+    .eq("id", data.asset.id)
+    .select("*")
+    .single();
+
+  if (updateError) {
+    console.error("[uploadMediaFile] Failed to mark asset ready:", updateError);
+    throw updateError;
+  }
+
+  return {
+    asset: withPublicUrl(readyAsset as Omit<MediaAsset, "public_url">),
+    created: true,
+  };
+}
+
+export async function uploadVideoAsset(file: File): Promise<MediaAsset> {
+  if (!ALLOWED_VIDEO_MIME_TYPES.includes(file.type as (typeof ALLOWED_VIDEO_MIME_TYPES)[number])) {
+    throw new Error(
+      `Invalid file type: "${file.type}". Allowed types are: MP4, WebM and MOV.`
+    );
+  }
+  return (await uploadMediaFile(file, file.type)).asset;
+}
+
+export async function uploadCaptionsFile(file: File): Promise<MediaAsset> {
+  // Browsers often report an empty type for .vtt files
+  const mimeType = file.type || (file.name.toLowerCase().endsWith(".vtt") ? "text/vtt" : "");
+  if (!ALLOWED_CAPTIONS_MIME_TYPES.includes(mimeType as (typeof ALLOWED_CAPTIONS_MIME_TYPES)[number])) {
+    throw new Error("Captions must be a WebVTT (.vtt) file.");
+  }
+  return (await uploadMediaFile(file, mimeType)).asset;
+}
+
+// ============================================================================
+// Upload a file that already has metadata (content module import)
+// ============================================================================
+
+export type MediaAssetMetadata = Pick<
+  MediaAsset,
+  "alt_text" | "title" | "description" | "tags"
+>;
+
+/**
+ * Upload an image, video or captions file whose metadata is already known,
+ * skipping AI metadata generation. If the file is already in the library
+ * (same checksum) the existing asset is returned and its metadata is kept.
+ */
+export async function uploadMediaAssetWithMetadata(
+  file: File,
+  metadata: MediaAssetMetadata
+): Promise<UploadedMediaAsset> {
+  const isImage = ALLOWED_MIME_TYPES.includes(file.type as AllowedMimeType);
+  const { asset, created } = await uploadMediaFile(
+    file,
+    file.type,
+    isImage ? "presign-image-upload" : "presign-video-upload"
+  );
+
+  if (asset.alt_text || asset.title || asset.description || asset.tags?.length) {
+    return { asset, created };
+  }
+
+  const { data, error } = await supabase
+    .from("media_assets")
+    .update(metadata)
+    .eq("id", asset.id)
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("[uploadMediaAssetWithMetadata] Failed to set metadata:", error);
+    if (created) await removeMediaAssets([asset.id]);
+    throw error;
+  }
+
+  return {
+    asset: withPublicUrl(data as Omit<MediaAsset, "public_url">),
+    created,
+  };
+}
+
+/**
+ * Delete media_assets rows created by an upload that is being rolled back.
+ * Failures are only logged. The stored file is keyed by its checksum, so
+ * uploading the same file again reuses the same key.
+ */
+export async function removeMediaAssets(assetIds: string[]): Promise<void> {
+  if (assetIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("media_assets")
+    .delete()
+    .in("id", assetIds);
+
+  if (error) {
+    console.error("[removeMediaAssets] Failed to delete media assets:", error);
+  }
+}
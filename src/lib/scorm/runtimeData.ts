@@ -0,0 +1,246 @@
+import type { ScormAttempt } from "../api/scorm";
+
+// ---------------------------------------------------------------------------
+// Helpers shared by the SCORM 1.2 and SCORM 2004 runtimes.
+// The runtimes themselves live in public/scorm-api-1_2.js and
+// public/scorm-api-2004.js; these helpers translate between their flat cmi
+// snapshots and the scorm_attempts table.
+// ---------------------------------------------------------------------------
+
+export type ScormVersion = "1.2" | "2004";
+
+export const SCORM_RUNTIME_SCRIPTS: Record<ScormVersion, string> = {
+  "1.2": "/scorm-api-1_2.js",
+  "2004": "/scorm-api-2004.js",
+};
+
+export const EMPTY_TOTAL_TIME: Record<ScormVersion, string> = {
+  "1.2": "0000:00:00.00",
+  "2004": "PT0H0M0S",
+};
+
+/**
+ * Work out the SCORM version from an imsmanifest.xml document.
+ * 1.2 manifests declare <schemaversion>1.2</schemaversion>; 2004 manifests
+ * declare "CAM 1.3" or "2004 nth Edition". Defaults to 1.2 when unsure.
+ */
+export function detectScormVersionFromManifest(xml: string): ScormVersion {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const schemaVersion =
+    doc.getElementsByTagName("schemaversion")[0]?.textContent?.trim() ?? "";
+
+  if (/2004|cam\s*1\.3/i.test(schemaVersion)) return "2004";
+  if (schemaVersion === "1.2") return "1.2";
+
+  // Fall back to the ADL namespaces used by the manifest
+  if (/adlcp_v1p3|imscp_v1p1.*adlseq|adlnav/i.test(xml)) return "2004";
+  return "1.2";
+}
+
+// Parse a SCORM score element ("" when unset) into a number or null
+export function parseScore(value: string | undefined): number | null {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// SCORM 1.2 CMITimespan (HHHH:MM:SS.SS) → seconds
+function cmiTimespanToSeconds(value: string): number {
+  const [h = "0", m = "0", s = "0"] = value.split(":");
+  const total = Number(h) * 3600 + Number(m) * 60 + Number(s);
+  return Number.isFinite(total) ? total : 0;
+}
+
+// SCORM 2004 ISO 8601 duration (e.g. PT1H2M3.5S) → seconds
+function isoDurationToSeconds(value: string): number {
+  const match =
+    /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(
+      value
+    );
+  if (!match) return 0;
+  const [, y, mo, d, h, mi, s] = match.map((part) => Number(part ?? 0));
+  return (
+    y * 365 * 86400 +
+    mo * 30 * 86400 +
+    d * 86400 +
+    h * 3600 +
+    mi * 60 +
+    s
+  );
+}
+
+function formatCmiTimespan(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds - hours * 3600 - minutes * 60;
+  return `${String(hours).padStart(4, "0")}:${String(minutes).padStart(
+    2,
+    "0"
+  )}:${seconds.toFixed(2).padStart(5, "0")}`;
+}
+
+function formatIsoDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds =
+    Math.round((totalSeconds - hours * 3600 - minutes * 60) * 100) / 100;
+  return `PT${hours}H${minutes}M${seconds}S`;
+}
+
+// Add a session time onto the stored total time, in the version's format
+export function addScormTimes(
+  version: ScormVersion,
+  total: string,
+  session: string
+): string {
+  if (version === "2004") {
+    return formatIsoDuration(
+      isoDurationToSeconds(total) + isoDurationToSeconds(session)
+    );
+  }
+  return formatCmiTimespan(
+    cmiTimespanToSeconds(total) + cmiTimespanToSeconds(session)
+  );
+}
+
+export interface ScormLearner {
+  id: string;
+  name: string; // "Last, First" (or email when no profile name)
+}
+
+/**
+ * Build the cmi values the runtime should start with for a learner, from
+ * their latest saved attempt (if any).
+ */
+export function buildInitialCmi(
+  version: ScormVersion,
+  attempt: ScormAttempt | null,
+  learner: ScormLearner | null
+): Record<string, string> {
+  // Only resume snapshots written by the same runtime version
+  const canResume =
+    attempt !== null && (attempt.scorm_version ?? "1.2") === version;
+  const totalTime = canResume ? attempt.total_time : EMPTY_TOTAL_TIME[version];
+  const savedCmi = canResume ? attempt.cmi ?? {} : {};
+
+  if (version === "2004") {
+    return {
+      ...savedCmi,
+      "cmi.learner_id": learner?.id ?? "",
+      "cmi.learner_name": learner?.name ?? "",
+      "cmi.total_time": totalTime,
+    };
+  }
+
+  return {
+    ...savedCmi,
+    "cmi.core.student_id": learner?.id ?? "",
+    "cmi.core.student_name": learner?.name ?? "",
+    "cmi.core.total_time": totalTime,
+  };
+}
+
+export interface ScormCmiSummary {
+  lessonLocation: string | null;
+  suspendData: string | null;
+  // SCORM 1.2 lesson_status, or for 2004 the success status when known and
+  // otherwise the completion status
+  lessonStatus: string;
+  scoreRaw: number | null;
+  scoreMin: number | null;
+  scoreMax: number | null;
+  scoreScaled: number | null;
+  sessionTime: string | null;
+  isCompleted: boolean;
+}
+
+// Pull the columns stored on scorm_attempts out of a runtime cmi snapshot
+export function summariseCmi(
+  version: ScormVersion,
+  cmi: Record<string, string>
+): ScormCmiSummary {
+  if (version === "2004") {
+    const completion = cmi["cmi.completion_status"] || "unknown";
+    const success = cmi["cmi.success_status"] || "unknown";
+    return {
+      lessonLocation: cmi["cmi.location"] || null,
+      suspendData: cmi["cmi.suspend_data"] || null,
+      lessonStatus: success !== "unknown" ? success : completion,
+      scoreRaw: parseScore(cmi["cmi.score.raw"]),
+      scoreMin: parseScore(cmi["cmi.score.min"]),
+      scoreMax: parseScore(cmi["cmi.score.max"]),
+      scoreScaled: parseScore(cmi["cmi.score.scaled"]),
+      sessionTime: cmi["cmi.session_time"] || null,
+      isCompleted: completion === "completed" || success === "passed",
+    };
+  }
+
+  const lessonStatus = cmi["cmi.core.lesson_status"] || "not attempted";
+  return {
+    lessonLocation: cmi["cmi.core.lesson_location"] || null,
+    suspendData: cmi["cmi.suspend_data"] || null,
+    lessonStatus,
+    scoreRaw: parseScore(cmi["cmi.core.score.raw"]),
+    scoreMin: parseScore(cmi["cmi.core.score.min"]),
+    scoreMax: parseScore(cmi["cmi.core.score.max"]),
+    scoreScaled: null,
+    sessionTime: cmi["cmi.core.session_time"] || null,
+    isCompleted: lessonStatus === "completed" || lessonStatus === "passed",
+  };
+}
+
+// Element holding the total time for a version (read-only to the SCO)
+export function getTotalTimeElement(version: ScormVersion): string {
+  return version === "2004" ? "cmi.total_time" : "cmi.core.total_time";
+}
+
+// ---------------------------------------------------------------------------
+// Multi-SCO packages
+// modules.scos / modules.toc are written by the finalize-scorm-upload edge
+// function from the manifest's default organization.
+// ---------------------------------------------------------------------------
+
+export interface ScormSco {
+  identifier: string;
+  title: string;
+  resource_identifier: string;
+  href: string; // relative to the package root
+  mastery_score: number | null;
+}
+
+export interface ScormTocItem {
+  identifier: string;
+  title: string;
+  depth: number;
+  sco_identifier: string | null; // null for container items
+}
+
+// Table of contents for the player. Packages uploaded before the organization
+// tree was stored fall back to a flat list of their SCOs.
+export function buildScormToc(
+  scos: ScormSco[],
+  toc: ScormTocItem[] | null
+): ScormTocItem[] {
+  if (toc && toc.length > 0) return toc;
+  return scos.map((sco) => ({
+    identifier: sco.identifier,
+    title: sco.title,
+    depth: 0,
+    sco_identifier: sco.identifier,
+  }));
+}
+
+export function isCompletedLessonStatus(status: string | undefined): boolean {
+  return status === "completed" || status === "passed";
+}
+
+// Latest lesson_status per SCO identifier ("" for single-SCO attempts), from
+// attempts ordered newest first
+export function getScoStatuses(attempts: ScormAttempt[]): Record<string, string> {
+  const statuses: Record<string, string> = {};
+  for (const attempt of attempts) {
+    const key = attempt.sco_identifier ?? "";
+    if (!(key in statuses)) statuses[key] = attempt.lesson_status;
+  }
+  return statuses;
+}
@@ -0,0 +1,551 @@
+import type {
+  FlashcardItem,
+  LessonBlock,
+} from "../../pages/admin/content/LessonBuilder";
+import type {
+  BulletListItem,
+  OrderedListItem,
+  OrderedListStyleType,
+} from "../types/contentBlocks";
+import type { AccordionContent } from "../components/blocks/interactive/accordion/accordion-types";
+import type { TabsContent } from "../components/blocks/interactive/tabs";
+import type { ImageCompareContent } from "../components/blocks/interactive/image-compare";
+import type { SortingActivityContent } from "../components/blocks/sorting/sorting-types";
+import type { KnowledgeCheckContent } from "../components/blocks/knowledge-check";
+import { getKnowledgeCheckSettings } from "../components/blocks/knowledge-check/knowledge-check-utils";
+import type { VideoContent } from "../components/blocks/multimedia/video";
+import {
+  getVimeoVideoId,
+  getYouTubeVideoId,
+} from "../components/blocks/multimedia/video/video-utils";
+import type { ChartContent } from "../components/blocks/chart";
+import { formatChartValue } from "../components/blocks/chart/chart-utils";
+import type { QuoteContent } from "../components/blocks/quote";
+import type { DividerContent } from "../components/blocks/divider";
+
+// ---------------------------------------------------------------------------
+// Static HTML renders of lesson blocks, used for SCORM packages.
+// ---------------------------------------------------------------------------
+// Author HTML from the rich text editors is inserted as-is; plain-text fields
+// are escaped. Interactive blocks render their markup here and get their
+// behaviour from the package runtime (see scormRuntime.ts), which finds them
+// by their data-scorm-* attributes. Charts are rendered as their data table.
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// JSON for a <script type="application/json"> tag
+function jsonScript(value: unknown): string {
+  return `<script type="application/json">${JSON.stringify(value).replace(
+    /</g,
+    "\\u003c"
+  )}</script>`;
+}
+
+function image(url: unknown, alt: unknown, className = ""): string {
+  if (!url) return "";
+  return `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}"${
+    className ? ` class="${className}"` : ""
+  } />`;
+}
+
+// ---------------------------------------------------------------------------
+// Text blocks
+// ---------------------------------------------------------------------------
+
+// Only known keywords reach the inline style; lesson JSON could hold anything
+const ORDERED_LIST_STYLE_TYPES: OrderedListStyleType[] = [
+  "decimal",
+  "lower-alpha",
+  "upper-alpha",
+  "lower-roman",
+  "upper-roman",
+];
+
+function renderListItems(
+  items: (OrderedListItem | BulletListItem)[] | undefined,
+  tag: "ol" | "ul",
+  listStyle: string | undefined,
+  subStyle: string | undefined,
+  start?: number
+): string {
+  if (!items || items.length === 0) return "";
+  const styleAttr = listStyle ? ` data-style="${escapeHtml(listStyle)}"` : "";
+  const startAttr = start && start !== 1 ? ` start="${start}"` : "";
+  const typeAttr =
+    tag === "ol" &&
+    ORDERED_LIST_STYLE_TYPES.includes(listStyle as OrderedListStyleType)
+      ? ` style="list-style-type: ${listStyle}"`
+      : "";
+  return `<${tag}${styleAttr}${startAttr}${typeAttr}>${items
+    .map(
+      (item) =>
+        `<li>${item.body ?? ""}${renderListItems(
+          item.children,
+          tag,
+          subStyle,
+          subStyle
+        )}</li>`
+    )
+    .join("")}</${tag}>`;
+}
+
+interface TableNode {
+  type?: string;
+  text?: string;
+  attrs?: {
+    backgroundColor?: string | null;
+    colspan?: number;
+    rowspan?: number;
+  };
+  marks?: { type: string; attrs?: { href?: string } }[];
+  content?: TableNode[];
+}
+
+// TipTap table JSON -> HTML (mirrors TablePreview)
+function renderTableNode(node: TableNode | undefined): string {
+  if (!node) return "";
+  const children = (node.content ?? []).map(renderTableNode).join("");
+  const span = [
+    node.attrs?.colspan && node.attrs.colspan > 1
+      ? ` colspan="${node.attrs.colspan}"`
+      : "",
+    node.attrs?.rowspan && node.attrs.rowspan > 1
+      ? ` rowspan="${node.attrs.rowspan}"`
+      : "",
+    node.attrs?.backgroundColor
+      ? ` style="background-color: ${escapeHtml(node.attrs.backgroundColor)}"`
+      : "",
+  ].join("");
+
+  switch (node.type) {
+    case "doc":
+      return children;
+    case "table":
+      return `<table><tbody>${children}</tbody></table>`;
+    case "tableRow":
+      return `<tr>${children}</tr>`;
+    case "tableHeader":
+      return `<th${span}>${children}</th>`;
+    case "tableCell":
+      return `<td${span}>${children}</td>`;
+    case "paragraph":
+      return `<p>${children}</p>`;
+    case "hardBreak":
+      return "<br />";
+    case "text":
+      return (node.marks ?? []).reduce((html, mark) => {
+        if (mark.type === "bold") return `<strong>${html}</strong>`;
+        if (mark.type === "italic") return `<em>${html}</em>`;
+        if (mark.type === "underline") return `<u>${html}</u>`;
+        if (mark.type === "link" && mark.attrs?.href) {
+          return `<a href="${escapeHtml(mark.attrs.href)}" target="_blank" rel="noopener">${html}</a>`;
+        }
+        return html;
+      }, escapeHtml(node.text));
+    default:
+      return children;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Interactive blocks
+// ---------------------------------------------------------------------------
+
+function renderFlashcards(block: LessonBlock): string {
+  const cards = (block.content.cards as FlashcardItem[] | undefined) ?? [];
+  const face = (
+    html: string,
+    mode: string | undefined,
+    img: FlashcardItem["frontImage"]
+  ) => {
+    if (mode === "fullCardImage" && img?.url) {
+      return image(img.url, img.alt, "flashcard-full-image");
+    }
+    return `${mode === "centeredImage" && img?.url ? image(img.url, img.alt) : ""}${html}`;
+  };
+
+  return `<div class="flashcards">${cards
+    .map(
+      (
+        card
+      ) => `<button type="button" class="flashcard" data-scorm-flashcard aria-pressed="false">
+  <span class="flashcard-face flashcard-front">${face(card.frontHtml, card.frontDisplayMode, card.frontImage)}</span>
+  <span class="flashcard-face flashcard-back">${face(card.backHtml, card.backDisplayMode, card.backImage)}</span>
+</button>`
+    )
+    .join("")}</div><p class="hint">Select a card to turn it over.</p>`;
+}
+
+function renderAccordion(content: AccordionContent): string {
+  return `${content.title ? `<h3>${escapeHtml(content.title)}</h3>` : ""}${
+    content.instructions
+      ? `<p class="hint">${escapeHtml(content.instructions)}</p>`
+      : ""
+  }<div class="accordion">${(content.items ?? [])
+    .map(
+      (item) =>
+        `<details${item.isOpenByDefault ? " open" : ""}><summary>${escapeHtml(
+          item.title
+        )}</summary><div class="accordion-body">${image(
+          item.imageUrl,
+          item.imageAlt
+        )}${item.bodyHtml ?? ""}</div></details>`
+    )
+    .join("")}</div>`;
+}
+
+function renderTabs(content: TabsContent, blockId: string): string {
+  const tabs = content.tabs ?? [];
+  return `<div class="tabs tabs-${escapeHtml(
+    content.settings?.style ?? "light"
+  )}" data-scorm-tabs><div class="tab-list" role="tablist">${tabs
+    .map(
+      (tab, index) =>
+        `<button type="button" role="tab" id="tab-${blockId}-${index}" aria-controls="panel-${blockId}-${index}" aria-selected="${
+          index === 0
+        }">${escapeHtml(tab.title)}</button>`
+    )
+    .join("")}</div>${tabs
+    .map(
+      (tab, index) =>
+        `<div class="tab-panel" role="tabpanel" id="panel-${blockId}-${index}" aria-labelledby="tab-${blockId}-${index}"${
+          index === 0 ? "" : " hidden"
+        }>${image(tab.image?.url, tab.image?.alt)}${tab.content ?? ""}</div>`
+    )
+    .join("")}</div>`;
+}
+
+function renderImageCompare(content: ImageCompareContent): string {
+  if (!content.topImageUrl || !content.bottomImageUrl) return "";
+  const percent = Math.min(100, Math.max(0, content.initialPercent ?? 50));
+  const labels = content.settings?.showLabels
+    ? `<span class="compare-label compare-label-top">${escapeHtml(
+        content.settings.topLabel
+      )}</span><span class="compare-label compare-label-bottom">${escapeHtml(
+        content.settings.bottomLabel
+      )}</span>`
+    : "";
+  return `<div class="image-compare" data-scorm-compare style="--compare: ${percent}%">
+  ${image(content.bottomImageUrl, content.bottomImageAlt, "compare-bottom")}
+  ${image(content.topImageUrl, content.topImageAlt, "compare-top")}
+  ${labels}
+  <input type="range" min="0" max="100" value="${percent}" aria-label="Comparison position" />
+</div>`;
+}
+
+function renderSortingActivity(
+  content: SortingActivityContent,
+  blockId: string
+): string {
+  const categories = content.categories ?? [];
+  const items = content.items ?? [];
+  const answers = {
+    type: "sorting",
+    items: items.map((item) => ({
+      id: item.id,
+      correctCategoryId: item.correctCategoryId,
+      feedbackCorrect: item.feedbackCorrect ?? "",
+      feedbackIncorrect: item.feedbackIncorrect ?? "",
+    })),
+    allowRetry: content.settings?.allowRetry ?? true,
+    showPerItemFeedback: content.settings?.showPerItemFeedback ?? true,
+  };
+
+  return `<form class="activity" data-scorm-activity="${escapeHtml(blockId)}">
+${content.title ? `<h3>${escapeHtml(content.title)}</h3>` : ""}${
+    content.instructions
+      ? `<p class="hint">${escapeHtml(content.instructions)}</p>`
+      : ""
+  }<ul class="sorting-items">${items
+    .map(
+      (item) => `<li data-item-id="${escapeHtml(item.id)}">
+  <label>${image(item.imageUrl, item.altText)}<span>${escapeHtml(item.text)}</span>
+    <select name="${escapeHtml(item.id)}">
+      <option value="">Choose a category…</option>${categories
+        .map(
+          (category) =>
+            `<option value="${escapeHtml(category.id)}">${escapeHtml(category.label)}</option>`
+        )
+        .join("")}
+    </select>
+  </label>
+  <p class="item-feedback" aria-live="polite"></p>
+</li>`
+    )
+    .join("")}</ul>
+<button type="submit" class="check-button">Check answers</button>
+<p class="feedback" aria-live="polite"></p>
+${jsonScript(answers)}
+</form>`;
+}
+
+function renderKnowledgeCheck(
+  content: KnowledgeCheckContent,
+  blockId: string
+): string {
+  const settings = getKnowledgeCheckSettings(content);
+  const answers = {
+    type: content.questionType,
+    options: (content.options ?? []).map((option) => ({
+      id: option.id,
+      isCorrect: option.isCorrect,
+      feedback: option.feedback ?? "",
+    })),
+    acceptedAnswers: content.acceptedAnswers ?? [],
+    correctFeedback: content.correctFeedback ?? "",
+    incorrectFeedback: content.incorrectFeedback ?? "",
+    settings,
+  };
+
+  const inputType =
+    content.questionType === "multiple_response" ? "checkbox" : "radio";
+  const fields =
+    content.questionType === "fill_blank"
+      ? `<input type="text" name="answer" class="text-answer" autocomplete="off" aria-label="Your answer" />`
+      : `<ul class="options">${(content.options ?? [])
+          .map(
+            (option) =>
+              `<li data-option-id="${escapeHtml(option.id)}"><label><input type="${inputType}" name="answer" value="${escapeHtml(
+                option.id
+              )}" /> <span>${escapeHtml(option.text)}</span></label></li>`
+          )
+          .join("")}</ul>`;
+
+  return `<form class="activity knowledge-check" data-scorm-question="${escapeHtml(blockId)}">
+<div class="prompt">${content.prompt ?? ""}</div>
+${content.questionType === "multiple_response" ? `<p class="hint">Select all that apply.</p>` : ""}
+${fields}
+<button type="submit" class="check-button">Check answer</button>
+<p class="feedback" aria-live="polite"></p>
+${jsonScript(answers)}
+</form>`;
+}
+
+// ---------------------------------------------------------------------------
+// Media and other blocks
+// ---------------------------------------------------------------------------
+
+function renderVideo(content: VideoContent): string {
+  if (!content.src) return "";
+  const title = escapeHtml(content.title || "Video");
+  let player = "";
+
+  if (content.provider === "youtube") {
+    const id = getYouTubeVideoId(content.src);
+    if (id) {
+      player = `<iframe src="https://www.youtube-nocookie.com/embed/${id}?rel=0&amp;modestbranding=1" title="${title}" allowfullscreen></iframe>`;
+    }
+  } else if (content.provider === "vimeo") {
+    const id = getVimeoVideoId(content.src);
+    if (id) {
+      player = `<iframe src="https://player.vimeo.com/video/${id}?dnt=1" title="${title}" allowfullscreen></iframe>`;
+    }
+  } else {
+    player = `<video controls preload="metadata" src="${escapeHtml(content.src)}"${
+      content.posterUrl ? ` poster="${escapeHtml(content.posterUrl)}"` : ""
+    }>${
+      content.captionsUrl
+        ? `<track kind="captions" src="${escapeHtml(content.captionsUrl)}" srclang="${escapeHtml(
+            content.captionsLanguage ?? "en"
+          )}" label="Captions" default />`
+        : ""
+    }</video>`;
+  }
+
+  return `<figure class="video">${player ? `<div class="video-frame">${player}</div>` : ""}${
+    content.caption
+      ? `<figcaption>${escapeHtml(content.caption)}</figcaption>`
+      : ""
+  }${
+    content.transcript
+      ? `<details class="transcript"><summary>Transcript</summary><p>${escapeHtml(
+          content.transcript
+        ).replace(/\n/g, "<br />")}</p></details>`
+      : ""
+  }</figure>`;
+}
+
+function renderChart(content: ChartContent): string {
+  const series =
+    content.chartType === "pie" ? content.series.slice(0, 1) : content.series;
+  return `<figure class="chart">${
+    content.title ? `<h3>${escapeHtml(content.title)}</h3>` : ""
+  }<table><thead><tr><th scope="col">${escapeHtml(
+    content.xAxisLabel || "Label"
+  )}</th>${series
+    .map((s) => `<th scope="col">${escapeHtml(s.name)}</th>`)
+    .join("")}</tr></thead><tbody>${content.rows
+    .map(
+      (row) =>
+        `<tr><th scope="row">${escapeHtml(row.label)}</th>${series
+          .map(
+            (_s, i) =>
+              `<td>${escapeHtml(formatChartValue(row.values[i] ?? null))}</td>`
+          )
+          .join("")}</tr>`
+    )
+    .join("")}</tbody></table>${
+    content.description
+      ? `<figcaption>${escapeHtml(content.description)}</figcaption>`
+      : ""
+  }</figure>`;
+}
+
+function renderQuote(content: QuoteContent): string {
+  const author = content.author
+    ? `<footer>${image(content.avatarUrl, content.author, "quote-avatar")}<cite>${escapeHtml(
+        content.author
+      )}</cite>${
+        content.authorRole
+          ? `<span class="quote-role">${escapeHtml(content.authorRole)}</span>`
+          : ""
+      }</footer>`
+    : "";
+  return `<blockquote class="quote quote-${escapeHtml(
+    content.alignment ?? "left"
+  )}">${content.text ?? ""}${author}</blockquote>`;
+}
+
+function renderDivider(content: DividerContent): string {
+  if (content.variant === "spacer") {
+    return `<div class="spacer spacer-${escapeHtml(content.spacerSize ?? "M")}"></div>`;
+  }
+  if (content.variant === "numbered") {
+    return `<div class="step-divider"><span class="step-number">${escapeHtml(
+      content.stepNumber ?? 1
+    )}</span>${
+      content.stepLabel
+        ? `<span class="step-label">${escapeHtml(content.stepLabel)}</span>`
+        : ""
+    }</div>`;
+  }
+  return `<hr class="line-${escapeHtml(content.lineStyle ?? "solid")}" />`;
+}
+
+// ---------------------------------------------------------------------------
+// Block dispatcher
+// ---------------------------------------------------------------------------
+
+function renderBlockBody(block: LessonBlock): string {
+  const { content } = block;
+
+  switch (block.type) {
+    case "heading":
+      return `<div class="heading">${content.heading ?? ""}</div>`;
+    case "subheading":
+      return `<div class="subheading">${content.subheading ?? ""}</div>`;
+    case "paragraph":
+      return content.html ?? "";
+    case "paragraph-with-heading":
+      return `<div class="heading">${content.heading ?? ""}</div>${content.html ?? ""}`;
+    case "paragraph-with-subheading":
+      return `<div class="subheading">${content.subheading ?? ""}</div>${content.html ?? ""}`;
+    case "columns":
+      return `<div class="columns"><div>${content.columnOneContent ?? ""}</div><div>${
+        content.columnTwoContent ?? ""
+      }</div></div>`;
+    case "table":
+      return `<div class="table table-${escapeHtml(content.borderMode ?? "normal")}">${renderTableNode(
+        content.tableContent as TableNode | undefined
+      )}</div>`;
+    case "numbered-list":
+      return renderListItems(
+        content.listItems as OrderedListItem[] | undefined,
+        "ol",
+        content.listStyle,
+        content.subStyle,
+        content.startNumber
+      );
+    case "bullet-list":
+      return `<div class="bullets"${
+        content.bulletColor
+          ? ` style="--bullet-color: ${escapeHtml(content.bulletColor)}"`
+          : ""
+      }>${renderListItems(
+        content.bulletItems as BulletListItem[] | undefined,
+        "ul",
+        content.bulletStyle,
+        content.bulletSubStyle
+      )}</div>`;
+    case "image-centered":
+    case "image-fullwidth": {
+      const url =
+        (content.image as { url?: string | null } | null)?.url ??
+        content.public_url;
+      if (!url) return "";
+      return `<figure class="${block.type}">${image(url, content.alt_text)}${
+        content.caption
+          ? `<figcaption>${escapeHtml(content.caption)}</figcaption>`
+          : ""
+      }</figure>`;
+    }
+    case "image-text": {
+      const layout = content.layout ?? {
+        imagePosition: "left",
+        imageWidth: 50,
+      };
+      const text = content.text;
+      return `<div class="image-text image-${layout.imagePosition}" style="--image-width: ${
+        layout.imageWidth
+      }%"><div class="image-text-image">${image(
+        content.public_url,
+        content.alt_text
+      )}</div><div class="image-text-body">${
+        typeof text === "object" ? text.body : (text ?? "")
+      }</div></div>`;
+    }
+    case "flashcards":
+      return renderFlashcards(block);
+    case "accordion":
+      return renderAccordion(content as unknown as AccordionContent);
+    case "tabs":
+      return renderTabs(content as unknown as TabsContent, block.id);
+    case "image_compare":
+      return renderImageCompare(content as unknown as ImageCompareContent);
+    case "sorting_activity":
+      return renderSortingActivity(
+        content as unknown as SortingActivityContent,
+        block.id
+      );
+    case "knowledge_check":
+      return renderKnowledgeCheck(
+        content as unknown as KnowledgeCheckContent,
+        block.id
+      );
+    case "video":
+      return renderVideo(content as unknown as VideoContent);
+    case "chart":
+      return renderChart(content as unknown as ChartContent);
+    case "quote":
+      return renderQuote(content as unknown as QuoteContent);
+    case "divider":
+      return renderDivider(content as unknown as DividerContent);
+    default:
+      return "";
+  }
+}
+
+/**
+ * Render one block as a <section>, with its background style and width.
+ */
+export function renderLessonBlockHtml(block: LessonBlock): string {
+  const body = renderBlockBody(block);
+  if (!body) return "";
+
+  const background =
+    block.style === "custom" && block.customBackgroundColor
+      ? ` style="background-color: ${escapeHtml(block.customBackgroundColor)}"`
+      : "";
+  return `<section class="block block-${escapeHtml(block.style)} block-type-${escapeHtml(
+    block.type
+  )}"${background}><div class="block-inner width-${escapeHtml(
+    block.layout?.contentWidth ?? "M"
+  )}">${body}</div></section>`;
+}
@@ -0,0 +1,246 @@
+import JSZip from "jszip";
+import { supabase } from "../../lib/supabaseClient";
+import { MEDIA_IMAGES_BASE_URL } from "./mediaAssets";
+import { getContentModuleVersion } from "./supabase/contentModuleVersions";
+import { hydrateLessonBlocks } from "./lessonBlocks";
+import { escapeHtml, renderLessonBlockHtml } from "./scormBlockHtml";
+import { SCORM_RUNTIME_JS, SCORM_STYLES_CSS } from "./scormRuntime";
+
+// ---------------------------------------------------------------------------
+// SCORM package export
+// ---------------------------------------------------------------------------
+// Builds a single-SCO SCORM 1.2 or SCORM 2004 (4th edition) zip from the
+// module's published version, so clients get exactly what our learners see:
+//
+//   imsmanifest.xml
+//   index.html           every lesson, rendered to static HTML
+//   assets/runtime.js    SCORM API wrapper + interactive blocks
+//   assets/styles.css
+//   media/...            images and captions from our media bucket
+//
+// Uploaded videos and YouTube/Vimeo embeds stay on their original URLs.
+
+export type ScormVersion = "1.2" | "2004";
+
+export interface ScormExportOptions {
+  version: ScormVersion;
+  // Percentage (0-100) needed to pass when the module has scored activities
+  passingScore: number;
+}
+
+export const DEFAULT_SCORM_PASSING_SCORE = 80;
+
+// Media we copy into the package; videos are too large to bundle
+const BUNDLED_MEDIA_PATTERN = new RegExp(
+  `${MEDIA_IMAGES_BASE_URL.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/([^"'\\s?#)]+\\.(?:png|jpe?g|webp|gif|svg|vtt))`,
+  "gi"
+);
+
+interface ScormLesson {
+  title: string;
+  html: string;
+}
+
+function renderIndexHtml(
+  title: string,
+  lessons: ScormLesson[],
+  options: ScormExportOptions
+): string {
+  const nav = lessons
+    .map(
+      (lesson, index) =>
+        `<li><a href="#lesson-${index + 1}" data-scorm-nav>${escapeHtml(lesson.title)}</a></li>`
+    )
+    .join("\n        ");
+  const articles = lessons
+    .map(
+      (
+        lesson,
+        index
+      ) => `<article id="lesson-${index + 1}" data-scorm-lesson${index === 0 ? "" : " hidden"}>
+        <h2 class="lesson-title">${escapeHtml(lesson.title)}</h2>
+        ${lesson.html}
+      </article>`
+    )
+    .join("\n      ");
+
+  return `<!DOCTYPE html>
+<html lang="en" data-scorm-version="${options.version}" data-passing-score="${options.passingScore}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <link rel="stylesheet" href="assets/styles.css" />
+  </head>
+  <body>
+    <div class="layout">
+      <nav class="sidebar" aria-label="Lessons">
+        <h1>${escapeHtml(title)}</h1>
+        <ol>
+        ${nav}
+        </ol>
+      </nav>
+      <main>
+      ${articles}
+        <div class="pager">
+          <button type="button" data-scorm-prev>Previous</button>
+          <span data-scorm-counter></span>
+          <button type="button" data-scorm-next>Next</button>
+        </div>
+      </main>
+    </div>
+    <script src="assets/runtime.js"></script>
+  </body>
+</html>
+`;
+}
+
+function renderManifest(
+  identifier: string,
+  title: string,
+  files: string[],
+  version: ScormVersion
+): string {
+  const fileList = files
+    .map((file) => `      <file href="${escapeHtml(file)}" />`)
+    .join("\n");
+  const safeTitle = escapeHtml(title);
+
+  if (version === "2004") {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3"
+  xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${safeTitle}</title>
+      <item identifier="item-1" identifierref="resource-1">
+        <title>${safeTitle}</title>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource-1" type="webcontent" adlcp:scormType="sco" href="index.html">
+${fileList}
+    </resource>
+  </resources>
+</manifest>
+`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.imsglobal.org/xsd/imsmd_rootv1p2p1 imsmd_rootv1p2p1.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org-1">
+    <organization identifier="org-1">
+      <title>${safeTitle}</title>
+      <item identifier="item-1" identifierref="resource-1">
+        <title>${safeTitle}</title>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="resource-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${fileList}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/**
+ * Build a SCORM zip of the module's published version.
+ */
+export async function exportScormPackage(
+  moduleId: string,
+  options: ScormExportOptions
+): Promise<Blob> {
+  const { data: module, error: moduleError } = await supabase
+    .from("content_modules")
+    .select("title, published_version_id")
+    .eq("id", moduleId)
+    .single();
+
+  if (moduleError) {
+    console.error("Error fetching content_modules", moduleError);
+    throw moduleError;
+  }
+
+  if (!module.published_version_id) {
+    throw new Error("Publish this module before exporting it as SCORM.");
+  }
+
+  const version = await getContentModuleVersion(module.published_version_id);
+  if (!version) {
+    throw new Error("The published version of this module couldn't be found.");
+  }
+
+  const title = version.snapshot.title || module.title || "Module";
+  const lessons: ScormLesson[] = [...version.snapshot.pages]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map((page) => ({
+      title: page.title,
+      html: hydrateLessonBlocks(page.blocks)
+        .sort((a, b) => a.orderIndex - b.orderIndex)
+        .map(renderLessonBlockHtml)
+        .join("\n"),
+    }));
+
+  if (lessons.length === 0) {
+    throw new Error("This module has no lessons to export.");
+  }
+
+  let indexHtml = renderIndexHtml(title, lessons, options);
+
+  // Bundle images/captions and point the HTML at the packaged copies
+  const zip = new JSZip();
+  const mediaFiles: string[] = [];
+  const s3Keys = new Set(
+    [...indexHtml.matchAll(BUNDLED_MEDIA_PATTERN)].map((match) => match[1])
+  );
+
+  for (const s3Key of s3Keys) {
+    const url = `${MEDIA_IMAGES_BASE_URL}/${s3Key}`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download media "${s3Key}": ${response.status} ${response.statusText}`
+      );
+    }
+    const path = `media/${s3Key}`;
+    zip.file(path, await response.blob());
+    mediaFiles.push(path);
+    indexHtml = indexHtml.split(url).join(path);
+  }
+
+  zip.file("index.html", indexHtml);
+  zip.file("assets/runtime.js", SCORM_RUNTIME_JS);
+  zip.file("assets/styles.css", SCORM_STYLES_CSS);
+  zip.file(
+    "imsmanifest.xml",
+    renderManifest(
+      `mylms-${moduleId}-v${version.version_number}`,
+      title,
+      ["index.html", "assets/runtime.js", "assets/styles.css", ...mediaFiles],
+      options.version
+    )
+  );
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
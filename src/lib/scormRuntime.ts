@@ -0,0 +1,549 @@
+// ---------------------------------------------------------------------------
+// Runtime and styles bundled into SCORM packages (see scormPackage.ts)
+// ---------------------------------------------------------------------------
+// The runtime is plain ES5 so it runs in any LMS player. It:
+//   - finds the SCORM 1.2 (API) or 2004 (API_1484_11) object in a parent or
+//     opener window and keeps working without one (e.g. opened locally),
+//   - shows one lesson at a time and bookmarks the current lesson,
+//   - makes the interactive blocks rendered by scormBlockHtml.ts work,
+//   - scores knowledge checks (same rules as scoreKnowledgeCheck) and sorting
+//     activities, records them as interactions and reports the score,
+//   - reports completion once every lesson has been viewed and every scored
+//     activity answered, then passed/failed against the passing score.
+// Progress is kept in suspend_data so learners can resume.
+
+export const SCORM_RUNTIME_JS = String.raw`(function () {
+  "use strict";
+
+  var root = document.documentElement;
+  var VERSION = root.getAttribute("data-scorm-version") === "2004" ? "2004" : "1.2";
+  var PASSING_SCORE = Number(root.getAttribute("data-passing-score") || "80");
+
+  // -------------------------------------------------------------------------
+  // SCORM API wrapper
+  // -------------------------------------------------------------------------
+
+  function findApi(win, name) {
+    for (var tries = 0; win && tries < 10; tries++) {
+      try {
+        if (win[name]) return win[name];
+      } catch (e) {
+        return null; // cross-origin parent
+      }
+      if (!win.parent || win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  var apiName = VERSION === "2004" ? "API_1484_11" : "API";
+  var api = findApi(window, apiName) || (window.opener ? findApi(window.opener, apiName) : null);
+
+  var KEYS = VERSION === "2004"
+    ? {
+        location: "cmi.location",
+        suspend: "cmi.suspend_data",
+        scoreRaw: "cmi.score.raw",
+        scoreMin: "cmi.score.min",
+        scoreMax: "cmi.score.max",
+        exit: "cmi.exit",
+        interactions: "cmi.interactions",
+        response: "learner_response",
+        wrong: "incorrect"
+      }
+    : {
+        location: "cmi.core.lesson_location",
+        suspend: "cmi.suspend_data",
+        scoreRaw: "cmi.core.score.raw",
+        scoreMin: "cmi.core.score.min",
+        scoreMax: "cmi.core.score.max",
+        exit: "cmi.core.exit",
+        interactions: "cmi.interactions",
+        response: "student_response",
+        wrong: "wrong"
+      };
+
+  var scorm = {
+    started: false,
+    init: function () {
+      if (!api) return;
+      var result = VERSION === "2004" ? api.Initialize("") : api.LMSInitialize("");
+      this.started = String(result) === "true";
+    },
+    get: function (key) {
+      if (!this.started) return "";
+      return String((VERSION === "2004" ? api.GetValue(key) : api.LMSGetValue(key)) || "");
+    },
+    set: function (key, value) {
+      if (!this.started) return;
+      if (VERSION === "2004") api.SetValue(key, String(value));
+      else api.LMSSetValue(key, String(value));
+    },
+    commit: function () {
+      if (!this.started) return;
+      if (VERSION === "2004") api.Commit("");
+      else api.LMSCommit("");
+    },
+    finish: function () {
+      if (!this.started) return;
+      this.started = false;
+      if (VERSION === "2004") api.Terminate("");
+      else api.LMSFinish("");
+    }
+  };
+
+  // -------------------------------------------------------------------------
+  // Learner state (persisted in suspend_data)
+  // -------------------------------------------------------------------------
+
+  var lessons = Array.prototype.slice.call(document.querySelectorAll("[data-scorm-lesson]"));
+  var navLinks = Array.prototype.slice.call(document.querySelectorAll("[data-scorm-nav]"));
+  var scored = Array.prototype.slice.call(
+    document.querySelectorAll("[data-scorm-question], [data-scorm-activity]")
+  );
+
+  // v: visited lesson indexes, s: score (0..1) per activity, a: attempts used
+  var state = { v: [], s: {}, a: {} };
+  var current = 0;
+  var interactionCount = 0;
+
+  function saveState() {
+    scorm.set(KEYS.suspend, JSON.stringify(state));
+    scorm.set(KEYS.location, String(current));
+    scorm.commit();
+  }
+
+  function restoreState() {
+    try {
+      var saved = JSON.parse(scorm.get(KEYS.suspend) || "null");
+      if (saved && saved.v && saved.s && saved.a) state = saved;
+    } catch (e) {
+      // Unreadable suspend_data: start fresh
+    }
+    var location = parseInt(scorm.get(KEYS.location), 10);
+    if (location >= 0 && location < lessons.length) current = location;
+    interactionCount = parseInt(scorm.get(KEYS.interactions + "._count"), 10) || 0;
+  }
+
+  scorm.init();
+  restoreState();
+
+  function activityId(el) {
+    return el.getAttribute("data-scorm-question") || el.getAttribute("data-scorm-activity");
+  }
+
+  // -------------------------------------------------------------------------
+  // Status and score reporting
+  // -------------------------------------------------------------------------
+
+  function reportStatus() {
+    var answered = 0;
+    var total = 0;
+    scored.forEach(function (el) {
+      var id = activityId(el);
+      if (Object.prototype.hasOwnProperty.call(state.s, id)) {
+        answered += 1;
+        total += state.s[id];
+      }
+    });
+
+    var allViewed = state.v.length >= lessons.length;
+    var allAnswered = answered === scored.length;
+    var percent = scored.length > 0 ? Math.round((total / scored.length) * 100) : null;
+
+    if (percent !== null && answered > 0) {
+      scorm.set(KEYS.scoreMin, "0");
+      scorm.set(KEYS.scoreMax, "100");
+      scorm.set(KEYS.scoreRaw, String(percent));
+      if (VERSION === "2004") scorm.set("cmi.score.scaled", String(percent / 100));
+    }
+
+    var complete = allViewed && allAnswered;
+    var passed = percent === null || percent >= PASSING_SCORE;
+
+    if (VERSION === "2004") {
+      scorm.set("cmi.completion_status", complete ? "completed" : "incomplete");
+      if (complete && percent !== null) {
+        scorm.set("cmi.success_status", passed ? "passed" : "failed");
+      }
+    } else if (complete) {
+      scorm.set("cmi.core.lesson_status", percent === null ? "completed" : passed ? "passed" : "failed");
+    } else {
+      scorm.set("cmi.core.lesson_status", "incomplete");
+    }
+
+    saveState();
+  }
+
+  function recordInteraction(id, type, response, correct) {
+    var prefix = KEYS.interactions + "." + interactionCount + ".";
+    interactionCount += 1;
+    scorm.set(prefix + "id", id);
+    scorm.set(prefix + "type", type);
+    if (response) scorm.set(prefix + KEYS.response, response);
+    scorm.set(prefix + "result", correct ? "correct" : KEYS.wrong);
+  }
+
+  // -------------------------------------------------------------------------
+  // Lesson navigation
+  // -------------------------------------------------------------------------
+
+  var prevButton = document.querySelector("[data-scorm-prev]");
+  var nextButton = document.querySelector("[data-scorm-next]");
+  var counter = document.querySelector("[data-scorm-counter]");
+
+  function showLesson(index) {
+    current = Math.max(0, Math.min(lessons.length - 1, index));
+    lessons.forEach(function (lesson, i) {
+      lesson.hidden = i !== current;
+    });
+    navLinks.forEach(function (link, i) {
+      link.setAttribute("aria-current", i === current ? "page" : "false");
+      if (state.v.indexOf(i) !== -1) link.classList.add("is-visited");
+    });
+    if (state.v.indexOf(current) === -1) {
+      state.v.push(current);
+      if (navLinks[current]) navLinks[current].classList.add("is-visited");
+    }
+    if (prevButton) prevButton.disabled = current === 0;
+    if (nextButton) nextButton.disabled = current === lessons.length - 1;
+    if (counter) counter.textContent = "Lesson " + (current + 1) + " of " + lessons.length;
+    window.scrollTo(0, 0);
+    reportStatus();
+  }
+
+  navLinks.forEach(function (link, i) {
+    link.addEventListener("click", function (e) {
+      e.preventDefault();
+      showLesson(i);
+    });
+  });
+  if (prevButton) prevButton.addEventListener("click", function () { showLesson(current - 1); });
+  if (nextButton) nextButton.addEventListener("click", function () { showLesson(current + 1); });
+
+  // -------------------------------------------------------------------------
+  // Interactive blocks
+  // -------------------------------------------------------------------------
+
+  function readAnswers(form) {
+    var script = form.querySelector('script[type="application/json"]');
+    return script ? JSON.parse(script.textContent || "{}") : {};
+  }
+
+  function setFeedback(form, text, correct) {
+    var el = form.querySelector(".feedback");
+    if (!el) return;
+    el.textContent = text;
+    el.className = "feedback " + (correct ? "is-correct" : "is-incorrect");
+  }
+
+  function lockForm(form) {
+    Array.prototype.forEach.call(form.querySelectorAll("input, select, button"), function (el) {
+      el.disabled = true;
+    });
+  }
+
+  function normalise(value, caseSensitive) {
+    var trimmed = String(value || "").trim().replace(/\s+/g, " ");
+    return caseSensitive ? trimmed : trimmed.toLowerCase();
+  }
+
+  // Mirrors scoreKnowledgeCheck in knowledge-check-utils.ts
+  function scoreQuestion(answers, selectedIds, text) {
+    if (answers.type === "fill_blank") {
+      var caseSensitive = answers.settings && answers.settings.caseSensitive;
+      var answer = normalise(text, caseSensitive);
+      var ok = answer.length > 0 && answers.acceptedAnswers.some(function (accepted) {
+        return normalise(accepted, caseSensitive) === answer;
+      });
+      return { isCorrect: ok, score: ok ? 1 : 0 };
+    }
+    var correctIds = answers.options.filter(function (o) { return o.isCorrect; }).map(function (o) { return o.id; });
+    var correctPicks = correctIds.filter(function (id) { return selectedIds.indexOf(id) !== -1; }).length;
+    var wrongPicks = selectedIds.length - correctPicks;
+    var isCorrect = correctIds.length > 0 && correctPicks === correctIds.length && wrongPicks === 0;
+    var score = isCorrect ? 1 : 0;
+    if (answers.type === "multiple_response" && correctIds.length > 0) {
+      score = Math.max(0, (correctPicks - wrongPicks) / correctIds.length);
+    }
+    return { isCorrect: isCorrect, score: score };
+  }
+
+  function trueFalseResponse(value) {
+    if (VERSION === "2004") return value ? "true" : "false";
+    return value ? "t" : "f";
+  }
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-scorm-question]"), function (form) {
+    var id = form.getAttribute("data-scorm-question");
+    var answers = readAnswers(form);
+    var settings = answers.settings || {};
+    var maxAttempts = settings.allowRetry === false ? 1 : settings.maxAttempts || 0;
+
+    function revealAnswer() {
+      if (settings.showCorrectAnswer === false) return;
+      answers.options.forEach(function (option) {
+        var item = form.querySelector('[data-option-id="' + option.id + '"]');
+        if (item && option.isCorrect) item.classList.add("is-answer");
+      });
+      if (answers.type === "fill_blank" && answers.acceptedAnswers.length > 0) {
+        setFeedback(form, "Answer: " + answers.acceptedAnswers[0], false);
+      }
+    }
+
+    if (Object.prototype.hasOwnProperty.call(state.s, id) &&
+        (state.s[id] === 1 || (maxAttempts > 0 && state.a[id] >= maxAttempts))) {
+      lockForm(form);
+      setFeedback(form, "You've already answered this question.", state.s[id] === 1);
+      return;
+    }
+
+    form.addEventListener("submit", function (e) {
+      e.preventDefault();
+      var selected = Array.prototype.slice
+        .call(form.querySelectorAll('input[name="answer"]:checked'))
+        .map(function (input) { return input.value; });
+      var textInput = form.querySelector('input[type="text"]');
+      var text = textInput ? textInput.value : "";
+      if (selected.length === 0 && !text.trim()) {
+        setFeedback(form, "Choose an answer first.", false);
+        return;
+      }
+
+      var result = scoreQuestion(answers, selected, text);
+      state.a[id] = (state.a[id] || 0) + 1;
+      state.s[id] = Math.max(state.s[id] || 0, result.score);
+
+      // SCORM choice responses use single-letter option identifiers
+      var letters = selected.map(function (optionId) {
+        var index = answers.options.map(function (o) { return o.id; }).indexOf(optionId);
+        return String.fromCharCode(97 + Math.max(0, index) % 26);
+      });
+      recordInteraction(
+        id,
+        answers.type === "fill_blank" ? "fill-in" : answers.type === "true_false" ? "true-false" : "choice",
+        answers.type === "fill_blank"
+          ? text.trim().slice(0, 250)
+          : answers.type === "true_false"
+            ? trueFalseResponse(selected[0] === "opt-true")
+            : letters.join(VERSION === "2004" ? "[,]" : ","),
+        result.isCorrect
+      );
+
+      var optionFeedback = answers.options
+        .filter(function (o) { return selected.indexOf(o.id) !== -1 && o.feedback; })
+        .map(function (o) { return o.feedback; });
+      var message = (result.isCorrect ? answers.correctFeedback || "Correct!" : answers.incorrectFeedback || "Not quite.") +
+        (optionFeedback.length ? " " + optionFeedback.join(" ") : "");
+
+      var outOfAttempts = maxAttempts > 0 && state.a[id] >= maxAttempts;
+      if (result.isCorrect || outOfAttempts) {
+        lockForm(form);
+        setFeedback(form, message, result.isCorrect);
+        if (!result.isCorrect) revealAnswer();
+      } else {
+        setFeedback(form, message + (maxAttempts > 0 ? " Try again." : ""), false);
+      }
+      reportStatus();
+    });
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-scorm-activity]"), function (form) {
+    var id = form.getAttribute("data-scorm-activity");
+    var answers = readAnswers(form);
+
+    if (Object.prototype.hasOwnProperty.call(state.s, id) && (state.s[id] === 1 || !answers.allowRetry)) {
+      lockForm(form);
+      setFeedback(form, "You've already completed this activity.", state.s[id] === 1);
+      return;
+    }
+
+    form.addEventListener("submit", function (e) {
+      e.preventDefault();
+      var correct = 0;
+      var unanswered = 0;
+      answers.items.forEach(function (item) {
+        var select = form.querySelector('select[name="' + item.id + '"]');
+        var row = form.querySelector('[data-item-id="' + item.id + '"]');
+        if (!select || !select.value) {
+          unanswered += 1;
+          return;
+        }
+        var ok = select.value === item.correctCategoryId;
+        if (ok) correct += 1;
+        if (row && answers.showPerItemFeedback) {
+          row.className = ok ? "is-correct" : "is-incorrect";
+          var feedback = row.querySelector(".item-feedback");
+          if (feedback) feedback.textContent = ok ? item.feedbackCorrect : item.feedbackIncorrect;
+        }
+      });
+      if (unanswered > 0) {
+        setFeedback(form, "Sort every item before checking.", false);
+        return;
+      }
+
+      var score = answers.items.length > 0 ? correct / answers.items.length : 1;
+      state.a[id] = (state.a[id] || 0) + 1;
+      state.s[id] = Math.max(state.s[id] || 0, score);
+      recordInteraction(id, VERSION === "2004" ? "other" : "performance", correct + "/" + answers.items.length, score === 1);
+
+      setFeedback(form, correct + " of " + answers.items.length + " sorted correctly.", score === 1);
+      if (score === 1 || !answers.allowRetry) lockForm(form);
+      reportStatus();
+    });
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-scorm-flashcard]"), function (card) {
+    card.addEventListener("click", function () {
+      var flipped = card.classList.toggle("is-flipped");
+      card.setAttribute("aria-pressed", String(flipped));
+    });
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-scorm-tabs]"), function (tabs) {
+    var buttons = Array.prototype.slice.call(tabs.querySelectorAll('[role="tab"]'));
+    var panels = Array.prototype.slice.call(tabs.querySelectorAll('[role="tabpanel"]'));
+    buttons.forEach(function (button, i) {
+      button.addEventListener("click", function () {
+        buttons.forEach(function (b, j) { b.setAttribute("aria-selected", String(i === j)); });
+        panels.forEach(function (p, j) { p.hidden = i !== j; });
+      });
+    });
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-scorm-compare]"), function (compare) {
+    var range = compare.querySelector('input[type="range"]');
+    if (!range) return;
+    range.addEventListener("input", function () {
+      compare.style.setProperty("--compare", range.value + "%");
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // Start / exit
+  // -------------------------------------------------------------------------
+
+  showLesson(current);
+
+  function exit() {
+    scorm.set(KEYS.exit, state.v.length >= lessons.length && Object.keys(state.s).length === scored.length ? "" : "suspend");
+    saveState();
+    scorm.finish();
+  }
+  window.addEventListener("pagehide", exit);
+  window.addEventListener("beforeunload", exit);
+})();
+`;
+
+export const SCORM_STYLES_CSS = `*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; color: #111827; background: #fff; line-height: 1.6; }
+img, video, iframe { max-width: 100%; }
+a { color: #ea580c; }
+
+.layout { display: flex; min-height: 100vh; }
+.sidebar { width: 260px; flex-shrink: 0; border-right: 1px solid #e5e7eb; background: #f9fafb; padding: 24px 16px; }
+.sidebar h1 { font-size: 1.1rem; margin: 0 0 16px; }
+.sidebar ol { list-style: none; margin: 0; padding: 0; }
+.sidebar a { display: block; padding: 8px 12px; border-radius: 6px; color: #374151; text-decoration: none; font-size: 0.9rem; }
+.sidebar a:hover { background: #f3f4f6; }
+.sidebar a[aria-current="page"] { background: #ffedd5; color: #c2410c; font-weight: 600; }
+.sidebar a.is-visited::after { content: " ✓"; color: #16a34a; }
+main { flex: 1; min-width: 0; }
+.lesson-title { max-width: 48rem; margin: 0 auto; padding: 40px 24px 8px; font-size: 2rem; font-weight: 300; }
+.pager { display: flex; align-items: center; justify-content: space-between; max-width: 48rem; margin: 0 auto; padding: 24px; }
+.pager button { padding: 8px 20px; border-radius: 999px; border: 0; background: #111827; color: #fff; font-weight: 600; cursor: pointer; }
+.pager button:disabled { opacity: 0.4; cursor: default; }
+@media (max-width: 768px) { .layout { flex-direction: column; } .sidebar { width: auto; border-right: 0; border-bottom: 1px solid #e5e7eb; } }
+
+.block { padding: 48px 24px; }
+.block-inner { margin: 0 auto; }
+.width-S { max-width: 42rem; } .width-M { max-width: 48rem; } .width-L { max-width: 64rem; }
+.block-light { background: #f9fafb; } .block-gray { background: #e5e7eb; }
+.block-theme { background: #ff7a1a; color: #fff; } .block-themeTint { background: #ffe2cc; }
+.block-dark { background: #262626; color: #fff; } .block-black { background: #000; color: #fff; }
+.block-image { background: linear-gradient(135deg, #4b5563, #1f2937); color: #fff; }
+.heading { font-size: 2rem; font-weight: 700; line-height: 1.25; }
+.subheading { font-size: 1.4rem; font-weight: 600; line-height: 1.3; }
+.heading p, .subheading p { margin: 0 0 12px; }
+.columns { display: grid; grid-template-columns: 1fr 1fr; gap: 32px; }
+@media (max-width: 640px) { .columns { grid-template-columns: 1fr; } }
+.table table { width: 100%; border-collapse: collapse; }
+.table th, .table td { border: 1px solid #d1d5db; padding: 8px 12px; text-align: left; }
+.table th { background: #f97316; color: #fff; }
+.table-dashed th, .table-dashed td { border-style: dashed; }
+.table-alternate tr:nth-child(even) td { background: #f3f4f6; }
+.bullets ul { padding-left: 1.4em; }
+.bullets li::marker { color: var(--bullet-color, #f97316); }
+.bullets ul[data-style="check"] { list-style: none; padding-left: 0; }
+.bullets ul[data-style="check"] > li::before { content: "✓ "; color: var(--bullet-color, #f97316); font-weight: 700; }
+.bullets ul[data-style="dash"] { list-style: none; }
+.bullets ul[data-style="dash"] > li::before { content: "– "; color: var(--bullet-color, #f97316); }
+figure { margin: 0; }
+figcaption { margin-top: 8px; font-size: 0.9rem; color: #6b7280; }
+.image-centered { text-align: center; }
+.image-fullwidth img { width: 100%; }
+.image-text { display: flex; gap: 32px; align-items: center; }
+.image-text.image-right { flex-direction: row-reverse; }
+.image-text-image { flex: 0 0 var(--image-width, 50%); }
+.image-text-body { flex: 1; }
+@media (max-width: 640px) { .image-text, .image-text.image-right { flex-direction: column; } }
+
+.hint { font-size: 0.9rem; color: #6b7280; }
+.flashcards { display: grid; grid-template-columns: repeat(auto-fill, minmax(220px, 1fr)); gap: 16px; }
+.flashcard { position: relative; min-height: 200px; border: 1px solid #e5e7eb; border-radius: 12px; background: #fff; color: #111827; padding: 20px; cursor: pointer; font: inherit; text-align: center; }
+.flashcard-face { display: block; }
+.flashcard-back { display: none; }
+.flashcard.is-flipped { background: #fff7ed; }
+.flashcard.is-flipped .flashcard-front { display: none; }
+.flashcard.is-flipped .flashcard-back { display: block; }
+.flashcard-full-image { width: 100%; height: 100%; object-fit: cover; border-radius: 8px; }
+.accordion details { border: 1px solid #e5e7eb; border-radius: 8px; background: #fff; color: #111827; margin-bottom: 8px; }
+.accordion summary { padding: 12px 16px; font-weight: 600; cursor: pointer; }
+.accordion-body { padding: 0 16px 12px; }
+.tab-list { display: flex; flex-wrap: wrap; gap: 4px; border-bottom: 1px solid #e5e7eb; }
+.tab-list button { border: 0; background: none; padding: 10px 16px; font: inherit; cursor: pointer; color: inherit; border-bottom: 3px solid transparent; }
+.tab-list button[aria-selected="true"] { border-bottom-color: #f97316; font-weight: 600; }
+.tab-panel { padding: 16px 0; }
+.tabs-dark { background: #1f2937; color: #fff; padding: 16px; border-radius: 8px; }
+.image-compare { position: relative; overflow: hidden; border-radius: 8px; }
+.image-compare img { display: block; width: 100%; }
+.image-compare .compare-top { position: absolute; inset: 0; height: 100%; object-fit: cover; clip-path: inset(0 calc(100% - var(--compare)) 0 0); }
+.image-compare input[type="range"] { position: absolute; left: 0; right: 0; bottom: 8px; width: 100%; }
+.compare-label { position: absolute; top: 8px; padding: 2px 8px; border-radius: 4px; background: rgba(0, 0, 0, 0.6); color: #fff; font-size: 0.8rem; }
+.compare-label-top { left: 8px; } .compare-label-bottom { right: 8px; }
+
+.activity { border: 1px solid #e5e7eb; border-radius: 12px; background: #fff; color: #111827; padding: 24px; }
+.prompt { font-size: 1.1rem; font-weight: 600; }
+.options, .sorting-items { list-style: none; padding: 0; margin: 16px 0; }
+.options li, .sorting-items li { border: 1px solid #e5e7eb; border-radius: 8px; padding: 10px 14px; margin-bottom: 8px; }
+.options label, .sorting-items label { display: flex; align-items: center; gap: 8px; cursor: pointer; flex-wrap: wrap; }
+.sorting-items select { margin-left: auto; padding: 4px 8px; }
+.sorting-items img { max-width: 80px; }
+.options li.is-answer, .sorting-items li.is-correct { border-color: #16a34a; background: #f0fdf4; }
+.sorting-items li.is-incorrect { border-color: #dc2626; background: #fef2f2; }
+.item-feedback { margin: 4px 0 0; font-size: 0.85rem; color: #6b7280; }
+.text-answer { width: 100%; padding: 10px 12px; border: 1px solid #d1d5db; border-radius: 8px; font: inherit; margin: 16px 0; }
+.check-button { padding: 8px 20px; border: 0; border-radius: 999px; background: #f97316; color: #fff; font-weight: 600; cursor: pointer; }
+.check-button:disabled { opacity: 0.5; cursor: default; }
+.feedback { font-weight: 600; }
+.feedback.is-correct { color: #16a34a; } .feedback.is-incorrect { color: #dc2626; }
+
+.video-frame { position: relative; padding-top: 56.25%; }
+.video-frame iframe, .video-frame video { position: absolute; inset: 0; width: 100%; height: 100%; border: 0; background: #000; }
+.transcript { margin-top: 12px; }
+.chart table { width: 100%; border-collapse: collapse; }
+.chart th, .chart td { border: 1px solid #e5e7eb; padding: 6px 10px; }
+.chart td { text-align: right; }
+.quote { margin: 0; padding-left: 24px; border-left: 4px solid #f97316; font-size: 1.25rem; font-style: italic; }
+.quote-center { border-left: 0; padding-left: 0; text-align: center; }
+.quote footer { margin-top: 12px; font-size: 0.95rem; font-style: normal; display: flex; align-items: center; gap: 8px; }
+.quote-center footer { justify-content: center; }
+.quote-avatar { width: 40px; height: 40px; border-radius: 50%; object-fit: cover; }
+.quote-role { color: #6b7280; }
+hr { border: 0; border-top: 2px solid #d1d5db; }
+hr.line-dashed { border-top-style: dashed; } hr.line-dotted { border-top-style: dotted; }
+.spacer-S { height: 16px; } .spacer-M { height: 40px; } .spacer-L { height: 80px; }
+.step-divider { display: flex; align-items: center; gap: 12px; }
+.step-number { display: inline-flex; align-items: center; justify-content: center; width: 40px; height: 40px; border-radius: 50%; background: #f97316; color: #fff; font-weight: 700; }
+.step-label { font-weight: 600; }
+`;
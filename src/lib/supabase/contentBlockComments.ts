@@ -0,0 +1,209 @@
+import { supabase } from "../../../lib/supabaseClient";
+
+// ---------------------------------------------------------------------------
+// Block comments (review threads in the Lesson Builder)
+// ---------------------------------------------------------------------------
+// Table (to be created in Supabase):
+//
+// create table content_block_comments (
+//   id uuid primary key default gen_random_uuid(),
+//   page_id uuid not null references content_module_pages(id) on delete cascade,
+//   block_id uuid not null, -- LessonBlock id (content_module_blocks.id once saved)
+//   parent_id uuid references content_block_comments(id) on delete cascade,
+//   body text not null,
+//   mentions uuid[] not null default '{}', -- profiles.user_id of @mentioned admins
+//   author_id uuid references auth.users(id) on delete set null,
+//   author_name text,
+//   resolved_at timestamptz,
+//   resolved_by uuid references auth.users(id) on delete set null,
+//   resolved_by_name text,
+//   created_at timestamptz not null default now()
+// );
+//
+// create index content_block_comments_page_id_idx on content_block_comments(page_id);
+//
+// A thread is a top-level comment (parent_id null) plus its replies. Only the
+// top-level comment carries the resolved state. block_id isn't a foreign key
+// because blocks only get a row once the lesson is saved; threads on a block
+// that is later deleted are simply no longer shown.
+
+export interface ContentBlockCommentRow {
+  id: string;
+  page_id: string;
+  block_id: string;
+  parent_id: string | null;
+  body: string;
+  mentions: string[];
+  author_id: string | null;
+  author_name: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolved_by_name: string | null;
+  created_at: string;
+}
+
+export interface ContentBlockCommentThread {
+  root: ContentBlockCommentRow;
+  replies: ContentBlockCommentRow[];
+}
+
+// Admin who can be @mentioned in a comment
+export interface ContentReviewer {
+  user_id: string;
+  name: string;
+  email: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// List comments for a lesson page (oldest first)
+// ---------------------------------------------------------------------------
+
+export async function listContentBlockComments(
+  pageId: string
+): Promise<ContentBlockCommentRow[]> {
+  const { data, error } = await supabase
+    .from("content_block_comments")
+    .select("*")
+    .eq("page_id", pageId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching content_block_comments", error);
+    throw error;
+  }
+
+  return (data ?? []) as ContentBlockCommentRow[];
+}
+
+/**
+ * Group a page's comments into threads per block, in the order they started.
+ */
+export function groupContentBlockCommentThreads(
+  comments: ContentBlockCommentRow[]
+): Map<string, ContentBlockCommentThread[]> {
+  const threadsById = new Map<string, ContentBlockCommentThread>();
+  const threadsByBlock = new Map<string, ContentBlockCommentThread[]>();
+
+  for (const comment of comments) {
+    if (comment.parent_id) continue;
+    const thread: ContentBlockCommentThread = { root: comment, replies: [] };
+    threadsById.set(comment.id, thread);
+    threadsByBlock.set(comment.block_id, [
+      ...(threadsByBlock.get(comment.block_id) ?? []),
+      thread,
+    ]);
+  }
+
+  for (const comment of comments) {
+    if (!comment.parent_id) continue;
+    threadsById.get(comment.parent_id)?.replies.push(comment);
+  }
+
+  return threadsByBlock;
+}
+
+// ---------------------------------------------------------------------------
+// Create / resolve
+// ---------------------------------------------------------------------------
+
+export interface CreateContentBlockCommentParams {
+  pageId: string;
+  blockId: string;
+  parentId?: string | null;
+  body: string;
+  mentions: string[];
+  authorName?: string | null;
+}
+
+export async function createContentBlockComment(
+  params: CreateContentBlockCommentParams
+): Promise<ContentBlockCommentRow> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_block_comments")
+    .insert({
+      page_id: params.pageId,
+      block_id: params.blockId,
+      parent_id: params.parentId ?? null,
+      body: params.body.trim(),
+      mentions: params.mentions,
+      author_id: user?.id ?? null,
+      author_name: params.authorName ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error inserting content_block_comments", error);
+    throw error;
+  }
+
+  return data as ContentBlockCommentRow;
+}
+
+/**
+ * Resolve or reopen a thread (by its top-level comment id).
+ */
+export async function setContentBlockCommentResolved(
+  commentId: string,
+  resolved: boolean,
+  resolvedByName?: string | null
+): Promise<ContentBlockCommentRow> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_block_comments")
+    .update(
+      resolved
+        ? {
+            resolved_at: new Date().toISOString(),
+            resolved_by: user?.id ?? null,
+            resolved_by_name: resolvedByName ?? null,
+          }
+        : { resolved_at: null, resolved_by: null, resolved_by_name: null }
+    )
+    .eq("id", commentId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating content_block_comments", error);
+    throw error;
+  }
+
+  return data as ContentBlockCommentRow;
+}
+
+// ---------------------------------------------------------------------------
+// Reviewers (admins that can be @mentioned)
+// ---------------------------------------------------------------------------
+
+export async function listContentReviewers(): Promise<ContentReviewer[]> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id, first_name, last_name, email")
+    // `role` is only the role currently switched to; `roles` holds them all
+    .overlaps("roles", ["admin", "sub_admin"])
+    .order("first_name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching reviewer profiles", error);
+    throw error;
+  }
+
+  return (data ?? []).map((profile) => {
+    const name = [profile.first_name, profile.last_name]
+      .filter(Boolean)
+      .join(" ");
+    return {
+      user_id: profile.user_id as string,
+      name: name || profile.email || "Unknown admin",
+      email: profile.email ?? null,
+    };
+  });
+}
@@ -18,6 +18,7 @@ export interface ContentModuleBlockRow {
   is_core: boolean;
   mbl_metadata: unknown | null;
   media_asset_id: string | null; // FK to media_assets for image blocks
+  saved_block_id?: string | null; // FK to content_saved_blocks for linked instances
 }
 
 // ---------------------------------------------------------------------------
@@ -56,6 +57,7 @@ export interface UpsertContentModuleBlockParams {
   isCore?: boolean | null;
   difficultyLevel?: number | null;
   mediaAssetId?: string | null; // FK to media_assets for image blocks
+  savedBlockId?: string | null; // FK to content_saved_blocks for linked instances
 }
 
 export async function upsertContentModuleBlock(
@@ -72,10 +74,14 @@ export async function upsertContentModuleBlock(
     isCore = null,
     difficultyLevel = null,
     mediaAssetId = null,
+    savedBlockId = null,
   } = params;
 
   // Map internal block types to DB enum values
-  // All text-based blocks map to "text" for the content_block_type enum
+  // All text-based blocks map to "text" for the content_block_type enum.
+  // Other types are stored as-is and need a matching enum value, e.g.:
+  //   alter type content_block_type add value if not exists 'quote';
+  //   alter type content_block_type add value if not exists 'divider';
   const dbType = TEXT_BLOCK_TYPES.includes(type) ? "text" : type;
 
   // Default media_type to "text" if not provided
@@ -98,6 +104,7 @@ export async function upsertContentModuleBlock(
     is_core: resolvedIsCore,
     difficulty_level: resolvedDifficultyLevel,
     media_asset_id: mediaAssetId, // FK to media_assets for image blocks
+    saved_block_id: savedBlockId, // FK to content_saved_blocks for linked instances
   };
 
   if (id) {
@@ -0,0 +1,181 @@
+import { supabase } from "../../../lib/supabaseClient";
+import type { ContentModuleBlockRow } from "./contentModuleBlocks";
+
+// ---------------------------------------------------------------------------
+// Lesson page revisions
+// ---------------------------------------------------------------------------
+// Table (to be created in Supabase):
+//
+// create table content_module_page_revisions (
+//   id uuid primary key default gen_random_uuid(),
+//   page_id uuid not null references content_module_pages(id) on delete cascade,
+//   module_id uuid references content_modules(id) on delete cascade,
+//   version integer not null,
+//   blocks jsonb not null, -- content_module_blocks rows as saved
+//   restored_from_revision_id uuid references content_module_page_revisions(id),
+//   created_by uuid references auth.users(id) on delete set null,
+//   created_by_name text,
+//   created_at timestamptz not null default now()
+// );
+// create index on content_module_page_revisions (page_id, created_at desc);
+//
+// Revisions are immutable: RLS allows admins to select and insert, and there
+// are no update/delete policies. Every Lesson Builder save writes one
+// revision with a full snapshot of the page's blocks, so the wording live on
+// any date can be recovered with getContentModulePageRevisionAt.
+
+export interface ContentModulePageRevisionSummary {
+  id: string;
+  page_id: string;
+  module_id: string | null;
+  version: number;
+  restored_from_revision_id: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface ContentModulePageRevision extends ContentModulePageRevisionSummary {
+  blocks: ContentModuleBlockRow[];
+}
+
+const REVISION_SUMMARY_COLUMNS =
+  "id, page_id, module_id, version, restored_from_revision_id, created_by, created_by_name, created_at";
+
+// ---------------------------------------------------------------------------
+// Record a revision after a save
+// ---------------------------------------------------------------------------
+
+export interface CreateContentModulePageRevisionParams {
+  pageId: string;
+  moduleId?: string | null;
+  version: number;
+  blocks: ContentModuleBlockRow[];
+  restoredFromRevisionId?: string | null;
+  createdByName?: string | null;
+}
+
+export async function createContentModulePageRevision(
+  params: CreateContentModulePageRevisionParams
+): Promise<ContentModulePageRevisionSummary> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_module_page_revisions")
+    .insert({
+      page_id: params.pageId,
+      module_id: params.moduleId ?? null,
+      version: params.version,
+      blocks: params.blocks,
+      restored_from_revision_id: params.restoredFromRevisionId ?? null,
+      created_by: user?.id ?? null,
+      created_by_name: params.createdByName ?? null,
+    })
+    .select(REVISION_SUMMARY_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Error inserting content_module_page_revisions", error);
+    throw error;
+  }
+
+  return data as ContentModulePageRevisionSummary;
+}
+
+// ---------------------------------------------------------------------------
+// Read revisions
+// ---------------------------------------------------------------------------
+
+export async function listContentModulePageRevisions(
+  pageId: string,
+  limit = 100
+): Promise<ContentModulePageRevisionSummary[]> {
+  const { data, error } = await supabase
+    .from("content_module_page_revisions")
+    .select(REVISION_SUMMARY_COLUMNS)
+    .eq("page_id", pageId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching content_module_page_revisions", error);
+    throw error;
+  }
+
+  return (data ?? []) as ContentModulePageRevisionSummary[];
+}
+
+export async function getContentModulePageRevision(
+  revisionId: string
+): Promise<ContentModulePageRevision | null> {
+  const { data, error } = await supabase
+    .from("content_module_page_revisions")
+    .select(`${REVISION_SUMMARY_COLUMNS}, blocks`)
+    .eq("id", revisionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching content_module_page_revision", error);
+    throw error;
+  }
+
+  return (data ?? null) as ContentModulePageRevision | null;
+}
+
+/**
+ * The revision that was current at a point in time, i.e. the wording a
+ * learner would have seen on that date. Null if the page had not been saved
+ * yet.
+ */
+export async function getContentModulePageRevisionAt(
+  pageId: string,
+  at: Date
+): Promise<ContentModulePageRevision | null> {
+  const { data, error } = await supabase
+    .from("content_module_page_revisions")
+    .select(`${REVISION_SUMMARY_COLUMNS}, blocks`)
+    .eq("page_id", pageId)
+    .lte("created_at", at.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching content_module_page_revision", error);
+    throw error;
+  }
+
+  return (data ?? null) as ContentModulePageRevision | null;
+}
+
+/**
+ * Latest revision of every page in a module, as of a point in time.
+ */
+export async function getContentModuleRevisionsAt(
+  moduleId: string,
+  at: Date
+): Promise<ContentModulePageRevision[]> {
+  const { data, error } = await supabase
+    .from("content_module_page_revisions")
+    .select(`${REVISION_SUMMARY_COLUMNS}, blocks`)
+    .eq("module_id", moduleId)
+    .lte("created_at", at.toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching content_module_page_revisions", error);
+    throw error;
+  }
+
+  // Rows are newest first, so the first one seen per page wins
+  const latestByPage = new Map<string, ContentModulePageRevision>();
+  for (const row of (data ?? []) as ContentModulePageRevision[]) {
+    if (!latestByPage.has(row.page_id)) {
+      latestByPage.set(row.page_id, row);
+    }
+  }
+
+  return [...latestByPage.values()];
+}
@@ -0,0 +1,287 @@
+import { supabase } from "../../../lib/supabaseClient";
+
+// ---------------------------------------------------------------------------
+// Learner progress for content modules
+// ---------------------------------------------------------------------------
+// Tables (to be created in Supabase):
+//
+// create table content_module_page_progress (
+//   id uuid primary key default gen_random_uuid(),
+//   user_id uuid not null references auth.users(id) on delete cascade,
+//   module_id uuid not null references content_modules(id) on delete cascade,
+//   page_id uuid not null references content_module_pages(id) on delete cascade,
+//   status text not null default 'in_progress', -- 'in_progress' | 'completed'
+//   first_viewed_at timestamptz not null default now(),
+//   last_viewed_at timestamptz not null default now(),
+//   completed_at timestamptz,
+//   unique (user_id, page_id)
+// );
+//
+// create table content_module_progress (
+//   id uuid primary key default gen_random_uuid(),
+//   user_id uuid not null references auth.users(id) on delete cascade,
+//   module_id uuid not null references content_modules(id) on delete cascade,
+//   status text not null default 'in_progress', -- 'in_progress' | 'completed'
+//   last_page_id uuid references content_module_pages(id) on delete set null,
+//   completed_pages integer not null default 0,
+//   total_pages integer not null default 0,
+//   started_at timestamptz not null default now(),
+//   updated_at timestamptz not null default now(),
+//   completed_at timestamptz,
+//   unique (user_id, module_id)
+// );
+//
+// RLS: learners can select/insert/update rows where user_id = auth.uid();
+// admins can select all rows for reporting.
+//
+// content_module_progress.module_version_id records the published version the
+// learner started on (see contentModuleVersions.ts).
+//
+// The module rollup is currently computed client-side after each lesson
+// completion. If learners should not be able to write their own rollup,
+// move recordLessonCompleted into an RPC (e.g. complete_content_module_page)
+// that performs the same upsert + count in a single transaction.
+// ---------------------------------------------------------------------------
+
+export type ContentProgressStatus = "in_progress" | "completed";
+
+export interface ContentModulePageProgressRow {
+  id: string;
+  user_id: string;
+  module_id: string;
+  page_id: string;
+  status: ContentProgressStatus;
+  first_viewed_at: string;
+  last_viewed_at: string;
+  completed_at: string | null;
+}
+
+export interface ContentModuleProgressRow {
+  id: string;
+  user_id: string;
+  module_id: string;
+  status: ContentProgressStatus;
+  last_page_id: string | null;
+  module_version_id: string | null;
+  completed_pages: number;
+  total_pages: number;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface ContentModuleProgress {
+  module: ContentModuleProgressRow | null;
+  pages: ContentModulePageProgressRow[];
+}
+
+// ---------------------------------------------------------------------------
+// Fetch a learner's progress for one module
+// ---------------------------------------------------------------------------
+
+export async function getContentModuleProgress(
+  userId: string,
+  moduleId: string
+): Promise<ContentModuleProgress> {
+  const [moduleResult, pagesResult] = await Promise.all([
+    supabase
+      .from("content_module_progress")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("module_id", moduleId)
+      .maybeSingle(),
+    supabase
+      .from("content_module_page_progress")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("module_id", moduleId),
+  ]);
+
+  if (moduleResult.error) {
+    console.error("Error fetching content_module_progress", moduleResult.error);
+    throw moduleResult.error;
+  }
+  if (pagesResult.error) {
+    console.error(
+      "Error fetching content_module_page_progress",
+      pagesResult.error
+    );
+    throw pagesResult.error;
+  }
+
+  return {
+    module: (moduleResult.data ?? null) as ContentModuleProgressRow | null,
+    pages: (pagesResult.data ?? []) as ContentModulePageProgressRow[],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Record that a learner opened a lesson (also moves the resume pointer)
+// ---------------------------------------------------------------------------
+
+export interface RecordLessonProgressParams {
+  userId: string;
+  moduleId: string;
+  pageId: string;
+  totalPages: number;
+  // Published version the learner is viewing; only stored on the first view
+  moduleVersionId?: string | null;
+}
+
+export async function recordLessonViewed(
+  params: RecordLessonProgressParams
+): Promise<void> {
+  const { userId, moduleId, pageId, totalPages, moduleVersionId } = params;
+  const now = new Date().toISOString();
+
+  // Insert the page row on first view only; never downgrade a completed page
+  const { error: insertError } = await supabase
+    .from("content_module_page_progress")
+    .upsert(
+      {
+        user_id: userId,
+        module_id: moduleId,
+        page_id: pageId,
+        status: "in_progress",
+        first_viewed_at: now,
+        last_viewed_at: now,
+      },
+      { onConflict: "user_id,page_id", ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    console.error("Error inserting content_module_page_progress", insertError);
+    throw insertError;
+  }
+
+  const { error: touchError } = await supabase
+    .from("content_module_page_progress")
+    .update({ last_viewed_at: now })
+    .eq("user_id", userId)
+    .eq("page_id", pageId);
+
+  if (touchError) {
+    console.error("Error updating content_module_page_progress", touchError);
+    throw touchError;
+  }
+
+  await upsertModuleRollup(
+    userId,
+    moduleId,
+    totalPages,
+    pageId,
+    moduleVersionId
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Record that a learner completed a lesson and roll up to the module
+// ---------------------------------------------------------------------------
+
+export async function recordLessonCompleted(
+  params: RecordLessonProgressParams
+): Promise<ContentModuleProgressRow> {
+  const { userId, moduleId, pageId, totalPages, moduleVersionId } = params;
+  const now = new Date().toISOString();
+
+  const { error } = await supabase.from("content_module_page_progress").upsert(
+    {
+      user_id: userId,
+      module_id: moduleId,
+      page_id: pageId,
+      status: "completed",
+      last_viewed_at: now,
+      completed_at: now,
+    },
+    { onConflict: "user_id,page_id" }
+  );
+
+  if (error) {
+    console.error("Error completing content_module_page_progress", error);
+    throw error;
+  }
+
+  return upsertModuleRollup(
+    userId,
+    moduleId,
+    totalPages,
+    pageId,
+    moduleVersionId
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Recalculate the module-level rollup from the page rows
+// ---------------------------------------------------------------------------
+
+async function upsertModuleRollup(
+  userId: string,
+  moduleId: string,
+  totalPages: number,
+  lastPageId: string,
+  moduleVersionId?: string | null
+): Promise<ContentModuleProgressRow> {
+  const { count, error: countError } = await supabase
+    .from("content_module_page_progress")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("module_id", moduleId)
+    .eq("status", "completed");
+
+  if (countError) {
+    console.error("Error counting completed lessons", countError);
+    throw countError;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("content_module_progress")
+    .select("status, completed_at, module_version_id")
+    .eq("user_id", userId)
+    .eq("module_id", moduleId)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error("Error fetching content_module_progress", existingError);
+    throw existingError;
+  }
+
+  const now = new Date().toISOString();
+  const completedPages = count ?? 0;
+  // Once a module is completed it stays completed, even if lessons are
+  // added to it later.
+  const alreadyCompleted = existing?.status === "completed";
+  const isCompleted =
+    alreadyCompleted || (totalPages > 0 && completedPages >= totalPages);
+
+  const { data, error } = await supabase
+    .from("content_module_progress")
+    .upsert(
+      {
+        user_id: userId,
+        module_id: moduleId,
+        status: isCompleted ? "completed" : "in_progress",
+        last_page_id: lastPageId,
+        // Keep the learner on the version they started
+        module_version_id:
+          existing?.module_version_id ?? moduleVersionId ?? null,
+        completed_pages: completedPages,
+        total_pages: totalPages,
+        updated_at: now,
+        completed_at: alreadyCompleted
+          ? (existing?.completed_at ?? now)
+          : isCompleted
+            ? now
+            : null,
+      },
+      { onConflict: "user_id,module_id" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error upserting content_module_progress", error);
+    throw error;
+  }
+
+  return data as ContentModuleProgressRow;
+}
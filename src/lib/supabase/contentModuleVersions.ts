@@ -0,0 +1,207 @@
+import { supabase } from "../../../lib/supabaseClient";
+import {
+  getContentModuleById,
+  getContentModulePagesByModuleId,
+} from "./contentModules";
+import {
+  getContentModuleBlocksByPageId,
+  type ContentModuleBlockRow,
+} from "./contentModuleBlocks";
+import { resolveLinkedBlockRows } from "./contentSavedBlocks";
+
+// ---------------------------------------------------------------------------
+// Published versions of content modules
+// ---------------------------------------------------------------------------
+// Table + columns (to be created in Supabase):
+//
+// create table content_module_versions (
+//   id uuid primary key default gen_random_uuid(),
+//   module_id uuid not null references content_modules(id) on delete cascade,
+//   version_number integer not null,
+//   snapshot jsonb not null, -- ContentModuleVersionSnapshot
+//   change_note text,
+//   published_by uuid references auth.users(id) on delete set null,
+//   published_by_name text,
+//   published_at timestamptz not null default now(),
+//   unique (module_id, version_number)
+// );
+//
+// alter table content_modules
+//   add column if not exists published_version_id uuid references content_module_versions(id) on delete set null,
+//   add column if not exists published_at timestamptz;
+//
+// alter table content_module_progress
+//   add column if not exists module_version_id uuid references content_module_versions(id) on delete set null;
+//
+// Versions are immutable: RLS allows admins to insert, any authenticated
+// user to select, and there are no update/delete policies.
+//
+// content_module_pages / content_module_blocks are the author's draft. Learners
+// only ever read a version snapshot, and content_module_progress.module_version_id
+// pins a learner to the version they started, so later publishes don't change
+// a module underneath someone half way through it. Because a pinned version
+// can still contain a lesson that was since deleted from the draft, the
+// page_id foreign key on content_module_page_progress and last_page_id on
+// content_module_progress should be dropped (or made "on delete set null" for
+// last_page_id) rather than cascading.
+
+export interface ContentModuleVersionPage {
+  id: string;
+  title: string;
+  order_index: number;
+  blocks: ContentModuleBlockRow[];
+}
+
+export interface ContentModuleVersionSnapshot {
+  title: string;
+  description: string | null;
+  pages: ContentModuleVersionPage[];
+}
+
+export interface ContentModuleVersionSummary {
+  id: string;
+  module_id: string;
+  version_number: number;
+  change_note: string | null;
+  published_by: string | null;
+  published_by_name: string | null;
+  published_at: string;
+}
+
+export interface ContentModuleVersion extends ContentModuleVersionSummary {
+  snapshot: ContentModuleVersionSnapshot;
+}
+
+const VERSION_SUMMARY_COLUMNS =
+  "id, module_id, version_number, change_note, published_by, published_by_name, published_at";
+
+// ---------------------------------------------------------------------------
+// Publish the current draft
+// ---------------------------------------------------------------------------
+
+export interface PublishContentModuleParams {
+  moduleId: string;
+  changeNote?: string | null;
+  publishedByName?: string | null;
+}
+
+/**
+ * Snapshot the module's current pages and blocks as the next version and make
+ * it the version new learners get.
+ */
+export async function publishContentModule(
+  params: PublishContentModuleParams
+): Promise<ContentModuleVersionSummary> {
+  const { moduleId } = params;
+
+  const [module, pages, latest] = await Promise.all([
+    getContentModuleById(moduleId),
+    getContentModulePagesByModuleId(moduleId),
+    listContentModuleVersions(moduleId, 1),
+  ]);
+
+  if (!module) {
+    throw new Error("Module not found.");
+  }
+
+  // Linked saved blocks are frozen with their current library content
+  const pageBlocks = await Promise.all(
+    pages.map(async (page) =>
+      resolveLinkedBlockRows(await getContentModuleBlocksByPageId(page.id))
+    )
+  );
+
+  const snapshot: ContentModuleVersionSnapshot = {
+    title: module.title,
+    description: module.description,
+    pages: pages.map((page, index) => ({
+      id: page.id,
+      title: page.title,
+      order_index: page.order_index,
+      blocks: pageBlocks[index],
+    })),
+  };
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_module_versions")
+    .insert({
+      module_id: moduleId,
+      version_number: (latest[0]?.version_number ?? 0) + 1,
+      snapshot,
+      change_note: params.changeNote?.trim() || null,
+      published_by: user?.id ?? null,
+      published_by_name: params.publishedByName ?? null,
+    })
+    .select(VERSION_SUMMARY_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Error inserting content_module_versions", error);
+    throw error;
+  }
+
+  const version = data as ContentModuleVersionSummary;
+
+  const { error: moduleError } = await supabase
+    .from("content_modules")
+    .update({
+      status: "published",
+      published_version_id: version.id,
+      published_at: version.published_at,
+    })
+    .eq("id", moduleId);
+
+  if (moduleError) {
+    console.error(
+      "Error updating content_modules published version",
+      moduleError
+    );
+    throw moduleError;
+  }
+
+  return version;
+}
+
+// ---------------------------------------------------------------------------
+// Read versions
+// ---------------------------------------------------------------------------
+
+export async function listContentModuleVersions(
+  moduleId: string,
+  limit = 50
+): Promise<ContentModuleVersionSummary[]> {
+  const { data, error } = await supabase
+    .from("content_module_versions")
+    .select(VERSION_SUMMARY_COLUMNS)
+    .eq("module_id", moduleId)
+    .order("version_number", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("Error fetching content_module_versions", error);
+    throw error;
+  }
+
+  return (data ?? []) as ContentModuleVersionSummary[];
+}
+
+export async function getContentModuleVersion(
+  versionId: string
+): Promise<ContentModuleVersion | null> {
+  const { data, error } = await supabase
+    .from("content_module_versions")
+    .select(`${VERSION_SUMMARY_COLUMNS}, snapshot`)
+    .eq("id", versionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching content_module_version", error);
+    throw error;
+  }
+
+  return (data ?? null) as ContentModuleVersion | null;
+}
@@ -0,0 +1,363 @@
+import { supabase } from "../../../lib/supabaseClient";
+
+// ---------------------------------------------------------------------------
+// Types for reading modules and pages from the database
+// ---------------------------------------------------------------------------
+
+export interface ContentModuleRow {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string | null; // 'draft' | 'published'
+  created_at: string;
+  // Version learners currently get (see contentModuleVersions.ts)
+  published_version_id: string | null;
+  published_at: string | null;
+}
+
+export interface ContentModulePageRow {
+  id: string;
+  module_id: string;
+  title: string;
+  order_index: number;
+  status: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Fetch a single module by id
+// ---------------------------------------------------------------------------
+
+export async function getContentModuleById(
+  moduleId: string
+): Promise<ContentModuleRow | null> {
+  const { data, error } = await supabase
+    .from("content_modules")
+    .select(
+      "id, title, description, status, created_at, published_version_id, published_at"
+    )
+    .eq("id", moduleId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching content_modules", error);
+    throw error;
+  }
+
+  return (data ?? null) as ContentModuleRow | null;
+}
+
+// ---------------------------------------------------------------------------
+// Fetch the pages (lessons) of a module, in lesson order
+// ---------------------------------------------------------------------------
+
+export async function getContentModulePagesByModuleId(
+  moduleId: string
+): Promise<ContentModulePageRow[]> {
+  const { data, error } = await supabase
+    .from("content_module_pages")
+    .select("id, module_id, title, order_index, status")
+    .eq("module_id", moduleId)
+    .order("order_index", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching content_module_pages", error);
+    throw error;
+  }
+
+  return (data ?? []) as ContentModulePageRow[];
+}
+
+// ---------------------------------------------------------------------------
+// Page versions (optimistic concurrency for the Lesson Builder)
+// ---------------------------------------------------------------------------
+// Columns (to be added in Supabase):
+//
+// alter table content_module_pages
+//   add column if not exists version integer not null default 0,
+//   add column if not exists updated_at timestamptz not null default now(),
+//   add column if not exists updated_by uuid references auth.users(id) on delete set null;
+//
+// Every Lesson Builder save first bumps the version it loaded. If another
+// author saved in the meantime the conditional update matches no row and the
+// save is rejected as a conflict instead of overwriting their blocks.
+
+export interface ContentModulePageVersion {
+  version: number;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
+export async function getContentModulePageVersion(
+  pageId: string
+): Promise<ContentModulePageVersion | null> {
+  const { data, error } = await supabase
+    .from("content_module_pages")
+    .select("version, updated_at, updated_by")
+    .eq("id", pageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching content_module_pages version", error);
+    throw error;
+  }
+
+  return (data ?? null) as ContentModulePageVersion | null;
+}
+
+/**
+ * Move a page from `expectedVersion` to the next version.
+ * Returns the new version, or null when the page was saved by someone else
+ * since `expectedVersion` was loaded.
+ */
+export async function claimContentModulePageVersion(
+  pageId: string,
+  expectedVersion: number
+): Promise<ContentModulePageVersion | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_module_pages")
+    .update({
+      version: expectedVersion + 1,
+      updated_at: new Date().toISOString(),
+      updated_by: user?.id ?? null,
+    })
+    .eq("id", pageId)
+    .eq("version", expectedVersion)
+    .select("version, updated_at, updated_by");
+
+  if (error) {
+    console.error("Error updating content_module_pages version", error);
+    throw error;
+  }
+
+  return ((data ?? [])[0] ?? null) as ContentModulePageVersion | null;
+}
+
+// ---------------------------------------------------------------------------
+// Lesson review state
+// ---------------------------------------------------------------------------
+// Columns (to be added in Supabase):
+//
+// alter table content_module_pages
+//   add column if not exists review_status text not null default 'draft', -- 'draft' | 'ready_for_review' | 'approved'
+//   add column if not exists review_updated_at timestamptz,
+//   add column if not exists review_updated_by uuid references auth.users(id) on delete set null,
+//   add column if not exists review_updated_by_name text;
+//
+// Independent of module publishing: authors mark a lesson ready for review
+// once its block comments are addressed, and a reviewer approves it.
+
+export type LessonReviewStatus = "draft" | "ready_for_review" | "approved";
+
+export const LESSON_REVIEW_STATUS_LABELS: Record<LessonReviewStatus, string> = {
+  draft: "Draft",
+  ready_for_review: "Ready for review",
+  approved: "Approved",
+};
+
+export interface ContentModulePageReview {
+  review_status: LessonReviewStatus;
+  review_updated_at: string | null;
+  review_updated_by_name: string | null;
+}
+
+export async function updateContentModulePageReviewStatus(
+  pageId: string,
+  reviewStatus: LessonReviewStatus,
+  updatedByName?: string | null
+): Promise<ContentModulePageReview> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_module_pages")
+    .update({
+      review_status: reviewStatus,
+      review_updated_at: new Date().toISOString(),
+      review_updated_by: user?.id ?? null,
+      review_updated_by_name: updatedByName ?? null,
+    })
+    .eq("id", pageId)
+    .select("review_status, review_updated_at, review_updated_by_name")
+    .single();
+
+  if (error) {
+    console.error("Error updating content_module_pages review status", error);
+    throw error;
+  }
+
+  return data as ContentModulePageReview;
+}
+
+// ---------------------------------------------------------------------------
+// Duplicate a module (deep copy of the draft)
+// ---------------------------------------------------------------------------
+
+async function removeContentModuleCopy(
+  moduleId: string,
+  pageIds: string[]
+): Promise<void> {
+  if (pageIds.length > 0) {
+    const { error: blocksError } = await supabase
+      .from("content_module_blocks")
+      .delete()
+      .in("page_id", pageIds);
+    if (blocksError) {
+      console.error("Error removing copied content_module_blocks", blocksError);
+    }
+
+    const { error: pagesError } = await supabase
+      .from("content_module_pages")
+      .delete()
+      .in("id", pageIds);
+    if (pagesError) {
+      console.error("Error removing copied content_module_pages", pagesError);
+    }
+  }
+
+  const { error } = await supabase
+    .from("content_modules")
+    .delete()
+    .eq("id", moduleId);
+  if (error) {
+    console.error("Error removing content_modules copy", error);
+  }
+}
+
+/**
+ * Copy a module with all of its pages and blocks into a new draft module and
+ * return the new module's id. Media isn't re-uploaded: copied blocks point
+ * at the same media_assets rows, and linked saved blocks stay linked.
+ * Published versions, revisions and learner progress are not copied.
+ */
+export async function duplicateContentModule(
+  moduleId: string
+): Promise<string> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: module, error: moduleError } = await supabase
+    .from("content_modules")
+    .select("title, description")
+    .eq("id", moduleId)
+    .single();
+
+  if (moduleError) {
+    console.error("Error fetching content_modules", moduleError);
+    throw moduleError;
+  }
+
+  const { data: pages, error: pagesError } = await supabase
+    .from("content_module_pages")
+    .select("*")
+    .eq("module_id", moduleId)
+    .order("order_index", { ascending: true });
+
+  if (pagesError) {
+    console.error("Error fetching content_module_pages", pagesError);
+    throw pagesError;
+  }
+
+  const { data: newModule, error: insertModuleError } = await supabase
+    .from("content_modules")
+    .insert({
+      title: `${module.title ?? ""} (Copy)`.trim(),
+      description: module.description ?? null,
+      status: "draft",
+      created_by: user?.id ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (insertModuleError) {
+    console.error("Error inserting content_modules copy", insertModuleError);
+    throw insertModuleError;
+  }
+
+  // Pages and blocks are copied one at a time; if any step fails the
+  // half-copied module is removed again rather than left in the list
+  const newPageIds: string[] = [];
+  try {
+    for (const page of pages ?? []) {
+      // Copy every column except identity, save-tracking and review ones:
+      // the copy's lessons start unreviewed
+      const {
+        id: pageId,
+        module_id: _moduleId,
+        created_at: _pageCreatedAt,
+        version: _version,
+        updated_at: _pageUpdatedAt,
+        updated_by: _updatedBy,
+        review_status: _reviewStatus,
+        review_updated_at: _reviewUpdatedAt,
+        review_updated_by: _reviewUpdatedBy,
+        review_updated_by_name: _reviewUpdatedByName,
+        ...pageColumns
+      } = page;
+
+      const { data: newPage, error: insertPageError } = await supabase
+        .from("content_module_pages")
+        .insert({
+          ...pageColumns,
+          module_id: newModule.id,
+          status: "draft",
+          review_status: "draft",
+        })
+        .select("id")
+        .single();
+
+      if (insertPageError) {
+        console.error(
+          "Error inserting content_module_pages copy",
+          insertPageError
+        );
+        throw insertPageError;
+      }
+      newPageIds.push(newPage.id);
+
+      const { data: blocks, error: blocksError } = await supabase
+        .from("content_module_blocks")
+        .select("*")
+        .eq("page_id", pageId);
+
+      if (blocksError) {
+        console.error("Error fetching content_module_blocks", blocksError);
+        throw blocksError;
+      }
+
+      if (blocks && blocks.length > 0) {
+        const { error: insertBlocksError } = await supabase
+          .from("content_module_blocks")
+          .insert(
+            blocks.map(
+              ({
+                id: _blockId,
+                page_id: _pageId,
+                created_at: _blockCreatedAt,
+                updated_at: _blockUpdatedAt,
+                ...blockColumns
+              }) => ({ ...blockColumns, page_id: newPage.id })
+            )
+          );
+
+        if (insertBlocksError) {
+          console.error(
+            "Error inserting content_module_blocks copy",
+            insertBlocksError
+          );
+          throw insertBlocksError;
+        }
+      }
+    }
+  } catch (err) {
+    await removeContentModuleCopy(newModule.id, newPageIds);
+    throw err;
+  }
+
+  return newModule.id as string;
+}
@@ -0,0 +1,190 @@
+import { supabase } from "../../../lib/supabaseClient";
+import type { ContentModuleBlockRow } from "./contentModuleBlocks";
+
+// ---------------------------------------------------------------------------
+// Saved blocks library (reusable blocks shared across modules)
+// ---------------------------------------------------------------------------
+// Table + column (to be created in Supabase):
+//
+// create table content_saved_blocks (
+//   id uuid primary key default gen_random_uuid(),
+//   name text not null,
+//   tags text[] not null default '{}',
+//   block_type text not null, -- LessonBlock type, e.g. 'paragraph', 'accordion'
+//   content_json jsonb not null, -- same shape as content_module_blocks.content_json
+//   media_asset_id uuid references media_assets(id) on delete set null,
+//   created_by uuid references auth.users(id) on delete set null,
+//   created_by_name text,
+//   created_at timestamptz not null default now(),
+//   updated_at timestamptz not null default now()
+// );
+//
+// alter table content_module_blocks
+//   add column if not exists saved_block_id uuid references content_saved_blocks(id) on delete set null;
+//
+// A saved block can be inserted into a lesson as a plain copy, or as a linked
+// instance (content_module_blocks.saved_block_id set). Linked instances read
+// their content from the saved block when loaded, and editing one writes
+// back to the saved block, so every lesson using it picks up the change.
+// Deleting a saved block leaves its instances behind as ordinary copies.
+
+export interface ContentSavedBlockRow {
+  id: string;
+  name: string;
+  tags: string[];
+  block_type: string;
+  content_json: ContentModuleBlockRow["content_json"];
+  media_asset_id: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// List saved blocks (most recently updated first)
+// ---------------------------------------------------------------------------
+
+export async function listContentSavedBlocks(): Promise<
+  ContentSavedBlockRow[]
+> {
+  const { data, error } = await supabase
+    .from("content_saved_blocks")
+    .select("*")
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching content_saved_blocks", error);
+    throw error;
+  }
+
+  return (data ?? []) as ContentSavedBlockRow[];
+}
+
+// ---------------------------------------------------------------------------
+// Create / update / delete
+// ---------------------------------------------------------------------------
+
+export interface CreateContentSavedBlockParams {
+  name: string;
+  tags: string[];
+  blockType: string;
+  contentJson: unknown;
+  mediaAssetId?: string | null;
+  createdByName?: string | null;
+}
+
+export async function createContentSavedBlock(
+  params: CreateContentSavedBlockParams
+): Promise<ContentSavedBlockRow> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from("content_saved_blocks")
+    .insert({
+      name: params.name.trim(),
+      tags: params.tags,
+      block_type: params.blockType,
+      content_json: params.contentJson,
+      media_asset_id: params.mediaAssetId ?? null,
+      created_by: user?.id ?? null,
+      created_by_name: params.createdByName ?? null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error inserting content_saved_blocks", error);
+    throw error;
+  }
+
+  return data as ContentSavedBlockRow;
+}
+
+/**
+ * Write a linked instance's content back to its saved block.
+ */
+export async function updateContentSavedBlockContent(
+  savedBlockId: string,
+  contentJson: unknown,
+  mediaAssetId: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from("content_saved_blocks")
+    .update({
+      content_json: contentJson,
+      media_asset_id: mediaAssetId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", savedBlockId);
+
+  if (error) {
+    console.error("Error updating content_saved_blocks", error);
+    throw error;
+  }
+}
+
+export async function deleteContentSavedBlock(
+  savedBlockId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("content_saved_blocks")
+    .delete()
+    .eq("id", savedBlockId);
+
+  if (error) {
+    console.error("Error deleting content_saved_blocks", error);
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resolve linked instances
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace the content of linked content_module_blocks rows with the current
+ * content of their saved block. Rows that aren't linked (or whose saved block
+ * was deleted) are returned unchanged.
+ */
+export async function resolveLinkedBlockRows(
+  rows: ContentModuleBlockRow[]
+): Promise<ContentModuleBlockRow[]> {
+  const ids = [
+    ...new Set(
+      rows.map((row) => row.saved_block_id).filter((id): id is string => !!id)
+    ),
+  ];
+  if (ids.length === 0) return rows;
+
+  const { data, error } = await supabase
+    .from("content_saved_blocks")
+    .select("id, content_json, media_asset_id")
+    .in("id", ids);
+
+  if (error) {
+    console.error("Error fetching linked content_saved_blocks", error);
+    throw error;
+  }
+
+  const savedById = new Map(
+    (
+      (data ?? []) as Pick<
+        ContentSavedBlockRow,
+        "id" | "content_json" | "media_asset_id"
+      >[]
+    ).map((saved) => [saved.id, saved])
+  );
+
+  return rows.map((row) => {
+    const saved = row.saved_block_id ? savedById.get(row.saved_block_id) : null;
+    if (!saved) return row;
+    return {
+      ...row,
+      content_json: saved.content_json,
+      media_asset_id: saved.media_asset_id,
+    };
+  });
+}
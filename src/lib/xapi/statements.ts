@@ -0,0 +1,248 @@
+// ---------------------------------------------------------------------------
+// xAPI (Tin Can) statements built from learning_events rows.
+// Each block interaction becomes a statement whose object is the block, with
+// the lesson page as the parent activity and the module as the grouping
+// activity. The statements are stored in xapi_statements (see
+// src/lib/api/xapi.ts) and served by GET /xapi/statements in server.js.
+// ---------------------------------------------------------------------------
+
+export const XAPI_VERSION = "1.0.3";
+
+export interface LearningEventRecord {
+  user_id: string;
+  module_id: string | null;
+  page_id: string | null;
+  block_id: string | null | undefined;
+  event_type: string;
+  event_time: string;
+  duration_ms: number | null;
+  metadata: Record<string, unknown>;
+}
+
+export interface XapiLanguageMap {
+  [language: string]: string;
+}
+
+export interface XapiAgent {
+  objectType: "Agent";
+  account: { homePage: string; name: string };
+}
+
+export interface XapiVerb {
+  id: string;
+  display: XapiLanguageMap;
+}
+
+export interface XapiActivity {
+  objectType: "Activity";
+  id: string;
+  definition?: {
+    type?: string;
+    name?: XapiLanguageMap;
+  };
+}
+
+export interface XapiResult {
+  score?: { scaled?: number; raw?: number; min?: number; max?: number };
+  success?: boolean;
+  completion?: boolean;
+  response?: string;
+  duration?: string;
+}
+
+export interface XapiStatement {
+  id: string;
+  actor: XapiAgent;
+  verb: XapiVerb;
+  object: XapiActivity;
+  result?: XapiResult;
+  context?: {
+    platform?: string;
+    contextActivities?: {
+      parent?: XapiActivity[];
+      grouping?: XapiActivity[];
+    };
+    extensions?: Record<string, unknown>;
+  };
+  timestamp: string;
+  version: string;
+}
+
+const ADL_VERBS = "http://adlnet.gov/expapi/verbs";
+const ADL_ACTIVITY_TYPES = "http://adlnet.gov/expapi/activities";
+
+export const XAPI_VERBS = {
+  initialized: {
+    id: `${ADL_VERBS}/initialized`,
+    display: { "en-US": "initialized" },
+  },
+  experienced: {
+    id: `${ADL_VERBS}/experienced`,
+    display: { "en-US": "experienced" },
+  },
+  interacted: {
+    id: `${ADL_VERBS}/interacted`,
+    display: { "en-US": "interacted" },
+  },
+  answered: { id: `${ADL_VERBS}/answered`, display: { "en-US": "answered" } },
+  completed: {
+    id: `${ADL_VERBS}/completed`,
+    display: { "en-US": "completed" },
+  },
+  attempted: {
+    id: `${ADL_VERBS}/attempted`,
+    display: { "en-US": "attempted" },
+  },
+} satisfies Record<string, XapiVerb>;
+
+// learning_events.event_type → xAPI verb. Unknown event types are reported as
+// "interacted"; the original event type is always kept in a context extension.
+const EVENT_TYPE_VERBS: Record<string, XapiVerb> = {
+  tabs_started: XAPI_VERBS.initialized,
+  tabs_tab_viewed: XAPI_VERBS.experienced,
+  accordion_started: XAPI_VERBS.initialized,
+  accordion_toggle: XAPI_VERBS.interacted,
+  image_compare_started: XAPI_VERBS.initialized,
+  image_compare_interacted: XAPI_VERBS.interacted,
+  image_compare_completed: XAPI_VERBS.completed,
+  flashcard_flip: XAPI_VERBS.interacted,
+  flashcard_summary: XAPI_VERBS.experienced,
+  sorting_activity_started: XAPI_VERBS.initialized,
+  sorting_activity_item_answered: XAPI_VERBS.answered,
+  sorting_activity_completed: XAPI_VERBS.completed,
+  sorting_activity_replayed: XAPI_VERBS.attempted,
+  knowledge_check_answered: XAPI_VERBS.answered,
+  knowledge_check_completed: XAPI_VERBS.completed,
+  video_started: XAPI_VERBS.initialized,
+  video_progress: XAPI_VERBS.experienced,
+  video_completed: XAPI_VERBS.completed,
+};
+
+// Activity and extension IRIs are rooted at the app's origin
+export function getXapiBaseIri(): string {
+  const origin =
+    typeof window !== "undefined" ? window.location.origin : "http://localhost";
+  return `${origin}/xapi`;
+}
+
+export function getModuleActivityId(moduleId: string): string {
+  return `${getXapiBaseIri()}/activities/modules/${moduleId}`;
+}
+
+export function getPageActivityId(pageId: string): string {
+  return `${getXapiBaseIri()}/activities/pages/${pageId}`;
+}
+
+export function getBlockActivityId(blockId: string): string {
+  return `${getXapiBaseIri()}/activities/blocks/${blockId}`;
+}
+
+export const XAPI_EXTENSIONS = {
+  eventType: () => `${getXapiBaseIri()}/extensions/event-type`,
+  metadata: () => `${getXapiBaseIri()}/extensions/metadata`,
+};
+
+// Milliseconds → ISO 8601 duration (PT12.5S)
+export function msToIsoDuration(ms: number): string {
+  return `PT${Math.round(ms / 10) / 100}S`;
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function buildResult(event: LearningEventRecord): XapiResult | undefined {
+  const result: XapiResult = {};
+  const meta = event.metadata ?? {};
+
+  if (event.duration_ms != null && event.duration_ms >= 0) {
+    result.duration = msToIsoDuration(event.duration_ms);
+  }
+  if (event.event_type.endsWith("_completed")) {
+    result.completion = true;
+  }
+  if (typeof meta.isCorrect === "boolean") {
+    result.success = meta.isCorrect;
+  }
+  if (typeof meta.selectedCategoryId === "string") {
+    result.response = meta.selectedCategoryId;
+  } else if (typeof meta.response === "string") {
+    result.response = meta.response;
+  }
+
+  const raw = numberOrUndefined(meta.correctItems);
+  const max = numberOrUndefined(meta.totalItems);
+  if (raw !== undefined && max !== undefined && max > 0) {
+    result.score = { raw, min: 0, max, scaled: raw / max };
+  } else {
+    const scaled = numberOrUndefined(meta.scoreScaled);
+    if (scaled !== undefined) result.score = { scaled };
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Express a learning_events row as an xAPI statement. Rows without a block
+ * use the page (or module) as the statement object.
+ */
+export function buildLearningEventStatement(
+  event: LearningEventRecord,
+  statementId: string = crypto.randomUUID()
+): XapiStatement {
+  const objectId = event.block_id
+    ? getBlockActivityId(event.block_id)
+    : event.page_id
+      ? getPageActivityId(event.page_id)
+      : getModuleActivityId(event.module_id ?? "unknown");
+
+  const parent =
+    event.block_id && event.page_id
+      ? [
+          {
+            objectType: "Activity" as const,
+            id: getPageActivityId(event.page_id),
+          },
+        ]
+      : undefined;
+  const grouping = event.module_id
+    ? [
+        {
+          objectType: "Activity" as const,
+          id: getModuleActivityId(event.module_id),
+          definition: { type: `${ADL_ACTIVITY_TYPES}/module` },
+        },
+      ]
+    : undefined;
+
+  return {
+    id: statementId,
+    actor: {
+      objectType: "Agent",
+      account: { homePage: getXapiBaseIri(), name: event.user_id },
+    },
+    verb: EVENT_TYPE_VERBS[event.event_type] ?? XAPI_VERBS.interacted,
+    object: {
+      objectType: "Activity",
+      id: objectId,
+      definition: {
+        type: event.block_id
+          ? `${ADL_ACTIVITY_TYPES}/interaction`
+          : `${ADL_ACTIVITY_TYPES}/lesson`,
+      },
+    },
+    result: buildResult(event),
+    context: {
+      platform: "MyLMS",
+      contextActivities: parent || grouping ? { parent, grouping } : undefined,
+      extensions: {
+        [XAPI_EXTENSIONS.eventType()]: event.event_type,
+        [XAPI_EXTENSIONS.metadata()]: event.metadata ?? {},
+      },
+    },
+    timestamp: event.event_time,
+    version: XAPI_VERSION,
+  };
+}
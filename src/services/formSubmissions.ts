@@ -9,30 +9,28 @@ interface SaveOrSubmitInput {
   answers: FormAnswers;
   submissionId?: string | null;
   mode: SubmissionMode;
+  // Form version the draft is being filled against (submit-form sets it on submit)
+  formVersion?: number;
 }
 
 export async function saveOrSubmitSubmission(input: SaveOrSubmitInput): Promise<string> {
-  const { formId, userId, answers, submissionId, mode } = input;
+  const { formId, userId, answers, submissionId, mode, formVersion } = input;
+
+  if (mode === 'submit') {
+    return submitSubmission(formId, answers, submissionId);
+  }
 
   const basePayload = {
     form_id: formId,
     user_id: userId,
     data: { answers },
+    ...(formVersion !== undefined ? { form_version: formVersion } : {}),
   };
 
-  const modePayload = mode === 'submit'
-    ? {
-        status: 'submitted' as const,
-        submitted_at: new Date().toISOString(),
-        review_status: 'pending' as const,
-        reviewed_at: null,
-        reviewed_by: null,
-        rejection_reason: null,
-      }
-    : {
-        status: 'started' as const,
-        submitted_at: null, // Explicitly clear submission timestamp for drafts
-      };
+  const modePayload = {
+    status: 'started' as const,
+    submitted_at: null, // Explicitly clear submission timestamp for drafts
+  };
 
   const finalPayload = { ...basePayload, ...modePayload };
 
@@ -63,6 +61,28 @@ export async function saveOrSubmitSubmission(input: SaveOrSubmitInput): Promise<
   }
 }
 
+// Submitting goes through the submit-form Edge Function, which validates the
+// answers against the form schema (see src/lib/formValidation.ts) before the
+// submission becomes 'submitted'. RLS should stop users setting that status
+// directly, since the function writes with the service role.
+async function submitSubmission(formId: string, answers: FormAnswers, submissionId?: string | null): Promise<string> {
+  const { data, error } = await supabase.functions.invoke<{ submissionId: string }>('submit-form', {
+    body: { formId, submissionId: submissionId ?? null, answers },
+  });
+
+  if (error) {
+    console.error('Error submitting form:', error);
+    // Validation failures come back as 422 with the first message in `error`
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || 'Could not submit your form.');
+  }
+  if (!data?.submissionId) {
+    console.error('Invalid response from submit-form:', data);
+    throw new Error('Could not submit your form.');
+  }
+  return data.submissionId;
+}
+
 export async function getFilesForSubmission(submissionId: string): Promise<Record<string, FileAnswerItem[]>> {
     const { data, error } = await supabase
         .from('form_submission_files')
@@ -229,6 +249,8 @@ export interface FullSubmission {
   review_status: 'pending' | 'approved' | 'rejected' | null;
   rejection_reason: string | null;
   status: string;
+  current_stage_id: string | null;
+  form_version: number | null;
 }
 
 export interface UserSubmission {
@@ -238,12 +260,14 @@ export interface UserSubmission {
   status: 'draft' | 'submitted' | 'started';
   review_status: 'pending' | 'approved' | 'rejected' | null;
   rejection_reason: string | null;
+  current_stage_id: string | null;
+  form_version: number | null;
 }
 
 export async function getLatestUserSubmission(formId: string, userId: string): Promise<UserSubmission | null> {
     const { data, error } = await supabase
         .from('form_submissions')
-        .select('id, data, submitted_at, status, review_status, rejection_reason')
+        .select('id, data, submitted_at, status, review_status, rejection_reason, current_stage_id, form_version')
         .eq('form_id', formId)
         .eq('user_id', userId)
         .order('submitted_at', { ascending: false, nullsFirst: true })
@@ -363,6 +387,8 @@ export async function getSubmissionById(submissionId: string): Promise<FullSubmi
         review_status: submission.review_status,
         rejection_reason: submission.rejection_reason,
         status: submission.status,
+        current_stage_id: submission.current_stage_id ?? null,
+        form_version: submission.form_version ?? null,
     };
 }
 
@@ -0,0 +1,366 @@
+import { supabase } from '../../lib/supabaseClient';
+import type { BaseFormField, FormAnswerValue, FormSchema, SignatureAnswer } from '../types/forms';
+import type { SpreadsheetTable } from '../lib/spreadsheetExport';
+import { getFormStage } from '../lib/formStages';
+import type { AllSubmissionsParams, DerivedStatus } from './formSubmissions';
+import { getFormById, listFormSchemaVersions } from './forms';
+
+// ---------------------------------------------------------------------------
+// Bulk export of a form's submissions (CSV / XLSX, see src/lib/spreadsheetExport.ts)
+// ---------------------------------------------------------------------------
+// Rows are one form's submissions, filtered and sorted the way the admin
+// listing (get_all_submissions) filters and sorts them: status is derived as
+// in listMyForms and the search matches the form name or the learner's name
+// or email. Each row has the submission details followed by one column per
+// input field: the latest version's fields in order, then fields only older
+// versions had. Uploaded files and signatures are exported as signed links.
+
+export type SubmissionsExportFilters = Pick<AllSubmissionsParams, 'p_search' | 'p_status' | 'p_sort' | 'p_dir'>;
+
+// Long enough for the links to still work while the export is being analysed
+export const EXPORT_LINK_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+const SUBMISSION_PAGE_SIZE = 500;
+const ID_BATCH_SIZE = 100;
+
+const NON_INPUT_FIELD_TYPES = ['static_text', 'image', 'divider', 'group'];
+
+type ExportSubmissionRow = {
+  id: string;
+  user_id: string;
+  status: string;
+  submitted_at: string | null;
+  reviewed_at: string | null;
+  data: { answers?: Record<string, FormAnswerValue> } | null;
+  review_status: string | null;
+  reviewed_by: string | null;
+  rejection_reason: string | null;
+  current_stage_id: string | null;
+  form_version: number | null;
+};
+
+type ExportFileRow = {
+  submission_id: string;
+  field_key: string;
+  storage_bucket: string;
+  storage_path: string;
+};
+
+type ExportColumn = { fieldId: string; header: string; field: BaseFormField };
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+type ExportProfile = {
+  user_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+};
+
+function profileName(profile: ExportProfile | undefined, fallback: string): string {
+  return [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || fallback;
+}
+
+// Same precedence as the listing: a review outcome wins over the submission status
+function deriveStatus(row: ExportSubmissionRow): DerivedStatus {
+  if (row.review_status === 'approved') return 'Completed';
+  if (row.review_status === 'rejected') return 'Rejected';
+  if (row.status === 'submitted') return 'Submitted';
+  return 'Started';
+}
+
+/**
+ * The form's submissions in the listing's status. Only this form's rows are
+ * read; 'Not Started' assignments have no submission and so no rows.
+ */
+async function fetchFormSubmissionRows(formId: string, status: DerivedStatus | 'All'): Promise<ExportSubmissionRow[]> {
+  if (status === 'Not Started') return [];
+
+  const rows: ExportSubmissionRow[] = [];
+  for (let offset = 0; ; offset += SUBMISSION_PAGE_SIZE) {
+    let query = supabase
+      .from('form_submissions')
+      .select('id, user_id, status, submitted_at, reviewed_at, data, review_status, reviewed_by, rejection_reason, current_stage_id, form_version')
+      .eq('form_id', formId);
+
+    if (status === 'Completed') query = query.eq('review_status', 'approved');
+    if (status === 'Rejected') query = query.eq('review_status', 'rejected');
+    if (status === 'Submitted' || status === 'Started') {
+      query = query
+        .eq('status', status === 'Submitted' ? 'submitted' : 'started')
+        .or('review_status.is.null,review_status.not.in.(approved,rejected)');
+    }
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + SUBMISSION_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching submissions for export:', error);
+      throw new Error('Could not load submissions for the export.');
+    }
+    rows.push(...((data ?? []) as ExportSubmissionRow[]));
+    if (!data || data.length < SUBMISSION_PAGE_SIZE) return rows;
+  }
+}
+
+async function fetchProfiles(userIds: string[]): Promise<Map<string, ExportProfile>> {
+  const profiles = new Map<string, ExportProfile>();
+  for (const ids of chunk(userIds, ID_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id, first_name, last_name, email')
+      .in('user_id', ids);
+
+    if (error) {
+      console.error('Error fetching profiles for export:', error);
+      throw error;
+    }
+    for (const profile of (data ?? []) as ExportProfile[]) profiles.set(profile.user_id, profile);
+  }
+  return profiles;
+}
+
+function compareNullable(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a.localeCompare(b);
+}
+
+function inputFields(schema: FormSchema): BaseFormField[] {
+  return (schema.sections ?? []).flatMap((section) =>
+    (section.fields ?? []).filter((field) => !NON_INPUT_FIELD_TYPES.includes(field.type))
+  );
+}
+
+/**
+ * One column per input field across all versions; repeated labels get a
+ * number so every header is unique.
+ */
+function buildFieldColumns(schemas: FormSchema[]): ExportColumn[] {
+  const columns: ExportColumn[] = [];
+  const seenFieldIds = new Set<string>();
+  const labelCounts = new Map<string, number>();
+
+  for (const schema of schemas) {
+    for (const field of inputFields(schema)) {
+      if (seenFieldIds.has(field.id)) continue;
+      seenFieldIds.add(field.id);
+
+      const label = field.label?.trim() || field.pdfLabel?.trim() || 'Untitled field';
+      const count = (labelCounts.get(label) ?? 0) + 1;
+      labelCounts.set(label, count);
+      columns.push({ fieldId: field.id, header: count > 1 ? `${label} (${count})` : label, field });
+    }
+  }
+  return columns;
+}
+
+function optionLabel(field: BaseFormField, value: unknown): string {
+  const option = (field.options ?? []).find((o) => o.value === String(value));
+  return option?.label ?? String(value);
+}
+
+function isSignatureAnswer(answer: unknown): answer is SignatureAnswer {
+  return (
+    typeof answer === 'object' &&
+    answer !== null &&
+    !Array.isArray(answer) &&
+    typeof (answer as SignatureAnswer).storagePath === 'string'
+  );
+}
+
+function formatAnswer(field: BaseFormField, answer: FormAnswerValue | undefined): string {
+  if (answer === null || answer === undefined || answer === '') return '';
+
+  switch (field.type) {
+    case 'dropdown':
+    case 'radio':
+      return optionLabel(field, answer);
+    case 'checkbox_group':
+      // Flattened into one cell: "Option A; Option B"
+      return Array.isArray(answer) ? answer.map((value) => optionLabel(field, value)).join('; ') : String(answer);
+    case 'checkbox':
+      return answer === true ? 'Yes' : answer === false ? 'No' : String(answer);
+    default:
+      return typeof answer === 'object' ? JSON.stringify(answer) : String(answer);
+  }
+}
+
+function storageKey(bucket: string, path: string): string {
+  return `${bucket}/${path}`;
+}
+
+async function createSignedLinks(objects: { bucket: string; path: string }[]): Promise<Map<string, string>> {
+  const links = new Map<string, string>();
+  const pathsByBucket = new Map<string, string[]>();
+  for (const { bucket, path } of objects) {
+    const paths = pathsByBucket.get(bucket) ?? [];
+    if (!paths.includes(path)) paths.push(path);
+    pathsByBucket.set(bucket, paths);
+  }
+
+  for (const [bucket, paths] of pathsByBucket) {
+    for (const batch of chunk(paths, ID_BATCH_SIZE)) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .createSignedUrls(batch, EXPORT_LINK_EXPIRY_SECONDS);
+
+      if (error) {
+        console.error('Error creating signed URLs for export:', error);
+        throw new Error('Could not create links to the uploaded files.');
+      }
+      for (const item of data ?? []) {
+        if (item.path && item.signedUrl) links.set(storageKey(bucket, item.path), item.signedUrl);
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Build the export table for a form.
+ */
+export async function exportFormSubmissions(formId: string, filters: SubmissionsExportFilters): Promise<SpreadsheetTable> {
+  const { p_search = '', p_status = 'All', p_sort = 'submitted', p_dir = 'desc' } = filters;
+  const form = await getFormById(formId);
+  if (!form) throw new Error('Form not found.');
+
+  // 1) The form's submissions in the selected status
+  const submissions = await fetchFormSubmissionRows(formId, p_status);
+
+  // 2) Learners and reviewers
+  const profiles = await fetchProfiles([
+    ...new Set(
+      submissions.flatMap((s) => [s.user_id, s.reviewed_by]).filter((id): id is string => !!id)
+    ),
+  ]);
+
+  // 3) Search and sort as the listing does
+  const term = p_search.trim().toLowerCase();
+  const matchesSearch = (row: ExportSubmissionRow) => {
+    if (!term || form.name.toLowerCase().includes(term)) return true;
+    const profile = profiles.get(row.user_id);
+    return [profileName(profile, ''), profile?.email ?? ''].some((value) => value.toLowerCase().includes(term));
+  };
+  const sortValue = (row: ExportSubmissionRow): string | null => {
+    if (p_sort === 'learner') return profileName(profiles.get(row.user_id), '').toLowerCase() || null;
+    if (p_sort === 'reviewed') return row.reviewed_at;
+    return row.submitted_at; // 'form' is the same for every row
+  };
+  const rows = submissions
+    .filter(matchesSearch)
+    .sort((a, b) => {
+      const order = compareNullable(sortValue(a), sortValue(b));
+      // Empty values stay last in either direction
+      if (sortValue(a) === null || sortValue(b) === null) return order;
+      return p_dir === 'asc' ? order : -order;
+    });
+  const submissionIds = rows.map((row) => row.id);
+
+  // 4) Uploaded files and the schema versions used
+  const filesBySubmission = new Map<string, ExportFileRow[]>();
+  for (const ids of chunk(submissionIds, ID_BATCH_SIZE)) {
+    const { data, error } = await supabase
+      .from('form_submission_files')
+      .select('submission_id, field_key, storage_bucket, storage_path')
+      .in('submission_id', ids)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching submission files for export:', error);
+      throw new Error('Could not load uploaded files.');
+    }
+    for (const file of (data ?? []) as ExportFileRow[]) {
+      const files = filesBySubmission.get(file.submission_id) ?? [];
+      files.push(file);
+      filesBySubmission.set(file.submission_id, files);
+    }
+  }
+
+  const versions = await listFormSchemaVersions(formId);
+  const schemaByVersion = new Map(versions.map((v) => [v.version, v.schema]));
+  const schemaFor = (version: number | null): FormSchema =>
+    (version !== null ? schemaByVersion.get(version) : undefined) ?? form.schema;
+
+  // Latest first, then older versions newest to oldest
+  const columns = buildFieldColumns([form.schema, ...versions.map((v) => v.schema)]);
+
+  // 5) Signed links for files and signatures
+  const storageObjects: { bucket: string; path: string }[] = [];
+  for (const files of filesBySubmission.values()) {
+    for (const file of files) storageObjects.push({ bucket: file.storage_bucket, path: file.storage_path });
+  }
+  for (const submission of rows) {
+    for (const answer of Object.values(submission.data?.answers ?? {})) {
+      if (isSignatureAnswer(answer)) storageObjects.push({ bucket: answer.storageBucket, path: answer.storagePath });
+    }
+  }
+  const links = await createSignedLinks(storageObjects);
+  const linkFor = (bucket: string, path: string) => links.get(storageKey(bucket, path)) ?? '';
+
+  // 6) Table
+  const headers = [
+    'Submission ID',
+    'Learner',
+    'Email',
+    'Status',
+    'Form version',
+    'Submitted at',
+    'Reviewed at',
+    'Reviewer',
+    'Review status',
+    'Rejection reason',
+    'Awaiting stage',
+    ...columns.map((column) => column.header),
+  ];
+
+  const tableRows = rows.map((submission) => {
+    const schema = schemaFor(submission.form_version);
+    const fieldsById = new Map(inputFields(schema).map((field) => [field.id, field]));
+    const answers = submission.data?.answers ?? {};
+    const files = filesBySubmission.get(submission.id) ?? [];
+
+    const fieldCells = columns.map(({ fieldId, field: columnField }) => {
+      // Labels and options as the submitter saw them
+      const field = fieldsById.get(fieldId) ?? columnField;
+      const answer = answers[fieldId];
+
+      if (field.type === 'file') {
+        return files
+          .filter((file) => file.field_key === fieldId)
+          .map((file) => linkFor(file.storage_bucket, file.storage_path))
+          .filter(Boolean)
+          .join('\n');
+      }
+      if (field.type === 'signature') {
+        return isSignatureAnswer(answer) ? linkFor(answer.storageBucket, answer.storagePath) : '';
+      }
+      return formatAnswer(field, answer);
+    });
+
+    const learner = profiles.get(submission.user_id);
+
+    return [
+      submission.id,
+      profileName(learner, 'Unknown User'),
+      learner?.email ?? '',
+      deriveStatus(submission),
+      submission.form_version !== null ? String(submission.form_version) : '',
+      submission.submitted_at ?? '',
+      submission.reviewed_at ?? '',
+      submission.reviewed_by ? profileName(profiles.get(submission.reviewed_by), 'Unknown Admin') : '',
+      submission.review_status ?? '',
+      submission.rejection_reason ?? '',
+      getFormStage(schema, submission.current_stage_id)?.name ?? '',
+      ...fieldCells,
+    ];
+  });
+
+  return { headers, rows: tableRows };
+}
@@ -0,0 +1,235 @@
+import { supabase } from '../../lib/supabaseClient';
+import type { FormAnswers, FormSchema, FormStage } from '../types/forms';
+import { getFormStage, hasFormRole } from '../lib/formStages';
+
+// ---------------------------------------------------------------------------
+// Multi-stage form workflow (see src/lib/formStages.ts)
+// ---------------------------------------------------------------------------
+// Columns + table (to be created in Supabase):
+//
+// alter table form_submissions
+//   add column if not exists current_stage_id text; -- stage waiting to be completed, null when done
+//
+// create table form_submission_stage_events (
+//   id uuid primary key default gen_random_uuid(),
+//   submission_id uuid not null references form_submissions(id) on delete cascade,
+//   stage_id text not null,
+//   stage_name text,
+//   role text, -- FormRole of the stage
+//   action text not null, -- 'completed' | 'returned'
+//   actor_id uuid references auth.users(id) on delete set null,
+//   actor_name text,
+//   note text,
+//   created_at timestamptz not null default now()
+// );
+//
+// RLS on form_submissions must let holders of a stage's role read and update
+// submissions whose current_stage_id is that stage (updates are only needed to
+// send a form back; completing a stage goes through the submit-form function).
+
+export type FormStageAction = 'completed' | 'returned';
+
+export interface FormStageEvent {
+  id: string;
+  submission_id: string;
+  stage_id: string;
+  stage_name: string | null;
+  role: string | null;
+  action: FormStageAction;
+  actor_id: string | null;
+  actor_name: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface AwaitingStageSubmission {
+  id: string;
+  form_id: string;
+  form_name: string;
+  submitted_at: string | null;
+  stage: FormStage;
+}
+
+async function getActor(): Promise<{ id: string | null; name: string | null }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { id: null, name: null };
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('first_name, last_name, email')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  const name = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || user.email || null;
+  return { id: user.id, name };
+}
+
+export async function recordSubmissionStageEvent(
+  submissionId: string,
+  stage: FormStage,
+  action: FormStageAction,
+  note?: string | null
+): Promise<void> {
+  const actor = await getActor();
+
+  const { error } = await supabase
+    .from('form_submission_stage_events')
+    .insert({
+      submission_id: submissionId,
+      stage_id: stage.id,
+      stage_name: stage.name,
+      role: stage.role,
+      action,
+      actor_id: actor.id,
+      actor_name: actor.name,
+      note: note?.trim() || null,
+    });
+
+  if (error) {
+    console.error('Error recording form stage event:', error);
+    throw new Error('Could not record this stage in the submission history.');
+  }
+}
+
+export async function listSubmissionStageEvents(submissionId: string): Promise<FormStageEvent[]> {
+  const { data, error } = await supabase
+    .from('form_submission_stage_events')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching form stage events:', error);
+    throw error;
+  }
+
+  return (data ?? []) as FormStageEvent[];
+}
+
+/**
+ * Save a later stage's answers and route the submission on to the next stage
+ * (or finish the workflow). The submit-form Edge Function checks the caller
+ * holds the stage's role, keeps only that stage's fields, validates them and
+ * records the stage event. Fails if someone else already completed the stage.
+ */
+export async function completeSubmissionStage(input: {
+  formId: string;
+  submissionId: string;
+  schema: FormSchema;
+  stageId: string;
+  answers: FormAnswers;
+}): Promise<FormStage | null> {
+  const { formId, submissionId, schema, stageId, answers } = input;
+
+  const { data, error } = await supabase.functions.invoke<{ nextStageId: string | null }>('submit-form', {
+    body: { formId, submissionId, stageId, answers },
+  });
+
+  if (error) {
+    console.error('Error completing form stage:', error);
+    // Validation failures come back as 422 with the first message in `error`
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || 'Could not complete this stage.');
+  }
+
+  return getFormStage(schema, data?.nextStageId);
+}
+
+/**
+ * Send a submission back to the person who submitted it. They see the reason
+ * the same way as a rejection and the workflow restarts when they resubmit.
+ */
+export async function returnSubmissionToSubmitter(input: {
+  submissionId: string;
+  stage: FormStage;
+  reason: string;
+}): Promise<void> {
+  const { submissionId, stage, reason } = input;
+  if (!reason || reason.trim() === '') {
+    throw new Error('A reason is required to send the form back.');
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from('form_submissions')
+    .update({
+      current_stage_id: null,
+      reviewed_at: new Date().toISOString(),
+      reviewed_by: user?.id ?? null,
+      review_status: 'rejected',
+      rejection_reason: reason.trim(),
+    })
+    .eq('id', submissionId)
+    .eq('current_stage_id', stage.id);
+
+  if (error) {
+    console.error('Error returning submission to submitter:', error);
+    throw new Error('Could not send the form back.');
+  }
+
+  await recordSubmissionStageEvent(submissionId, stage, 'returned', reason);
+}
+
+/**
+ * Submissions waiting on a stage that one of `profileRoles` completes. The
+ * stage is looked up in the schema version each submission is pinned to, so
+ * renaming or removing stages later doesn't strand in-flight submissions.
+ */
+export async function listSubmissionsAwaitingMyStage(profileRoles: string[]): Promise<AwaitingStageSubmission[]> {
+  const { data, error } = await supabase
+    .from('form_submissions')
+    .select('id, form_id, submitted_at, current_stage_id, form_version, forms(name, schema)')
+    .eq('status', 'submitted')
+    .not('current_stage_id', 'is', null)
+    .order('submitted_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching submissions awaiting a stage:', error);
+    throw error;
+  }
+
+  type Row = {
+    id: string;
+    form_id: string;
+    submitted_at: string | null;
+    current_stage_id: string;
+    form_version: number | null;
+    forms: { name: string; schema: FormSchema } | { name: string; schema: FormSchema }[] | null;
+  };
+  const rows = (data ?? []) as Row[];
+
+  // Pinned schema versions, keyed by "formId:version"
+  const versionedSchemas = new Map<string, FormSchema>();
+  const pinnedRows = rows.filter((row) => row.form_version !== null);
+  if (pinnedRows.length > 0) {
+    const { data: versions, error: versionsError } = await supabase
+      .from('form_schema_versions')
+      .select('form_id, version, schema')
+      .in('form_id', [...new Set(pinnedRows.map((row) => row.form_id))])
+      .in('version', [...new Set(pinnedRows.map((row) => row.form_version as number))]);
+
+    if (versionsError) {
+      console.error('Error fetching form schema versions:', versionsError);
+      throw versionsError;
+    }
+    for (const version of versions ?? []) {
+      versionedSchemas.set(`${version.form_id}:${version.version}`, version.schema as FormSchema);
+    }
+  }
+
+  return rows.flatMap((row) => {
+    const form = Array.isArray(row.forms) ? row.forms[0] : row.forms;
+    if (!form) return [];
+    // Submissions from before versioning use the current schema
+    const schema = versionedSchemas.get(`${row.form_id}:${row.form_version}`) ?? form.schema;
+    const stage = getFormStage(schema, row.current_stage_id);
+    if (!stage || !hasFormRole(profileRoles, stage.role)) return [];
+    return [{
+      id: row.id,
+      form_id: row.form_id,
+      form_name: form.name,
+      submitted_at: row.submitted_at,
+      stage,
+    }];
+  });
+}
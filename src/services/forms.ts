@@ -21,6 +21,99 @@ function mapDbFormToFormSchema(row: any): DbForm {
   };
 }
 
+// ===== Schema versions =====
+//
+// Every saved change to a form's schema publishes a new immutable version;
+// forms.schema / forms.version hold the latest, and each form_submissions row
+// records the version it was filled against (form_version), so reviews and
+// later workflow stages render the questions the submitter actually saw.
+//
+// create table form_schema_versions (
+//   id uuid primary key default gen_random_uuid(),
+//   form_id uuid not null references forms(id) on delete cascade,
+//   version integer not null,
+//   schema jsonb not null,
+//   created_by uuid references auth.users(id) on delete set null,
+//   created_at timestamptz not null default now(),
+//   unique (form_id, version)
+// );
+// -- insert + select policies only: versions are never updated or deleted
+//
+// alter table form_submissions add column if not exists form_version integer; -- null: filled before versioning
+
+export interface DbFormSchemaVersion {
+  id: string;
+  form_id: string;
+  version: number;
+  schema: FormSchema;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Insert-only: an existing row for the version is left untouched
+async function archiveFormSchemaVersion(
+  formId: string,
+  version: number,
+  schema: FormSchema,
+  createdBy: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('form_schema_versions')
+    .upsert(
+      { form_id: formId, version, schema, created_by: createdBy },
+      { onConflict: 'form_id,version', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Error saving form schema version', error);
+    throw error;
+  }
+}
+
+/**
+ * The schema a submission was filled against. Falls back to the form's
+ * current schema for submissions from before versioning.
+ */
+export async function getFormSchemaVersion(
+  formId: string,
+  version: number | null | undefined
+): Promise<FormSchema | null> {
+  if (version !== null && version !== undefined) {
+    const { data, error } = await supabase
+      .from('form_schema_versions')
+      .select('schema')
+      .eq('form_id', formId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading form schema version', error);
+      throw error;
+    }
+    if (data) return data.schema as FormSchema;
+  }
+
+  const form = await getFormById(formId);
+  return form?.schema ?? null;
+}
+
+export async function listFormSchemaVersions(
+  formId: string
+): Promise<DbFormSchemaVersion[]> {
+  const { data, error } = await supabase
+    .from('form_schema_versions')
+    .select('*')
+    .eq('form_id', formId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error loading form schema versions', error);
+    throw error;
+  }
+
+  return (data ?? []) as DbFormSchemaVersion[];
+}
+
 export async function listForms(): Promise<DbForm[]> {
   const { data, error } = await supabase
     .from('forms')
@@ -63,11 +156,12 @@ interface CreateFormInput {
 }
 
 export async function createForm(input: CreateFormInput): Promise<DbForm> {
+  const schema = { ...input.schema, version: 1 };
   const { data, error } = await supabase
     .from('forms')
     .insert({
       name: input.name,
-      schema: input.schema,
+      schema,
       version: 1,
       created_by: input.createdBy,
     })
@@ -79,6 +173,7 @@ export async function createForm(input: CreateFormInput): Promise<DbForm> {
     throw error;
   }
 
+  await archiveFormSchemaVersion(data.id, 1, schema, input.createdBy);
   return mapDbFormToFormSchema(data);
 }
 
@@ -87,6 +182,15 @@ interface UpdateFormInput {
   schema?: FormSchema;
 }
 
+function withoutVersion(schema: FormSchema): string {
+  const { version: _version, ...rest } = schema;
+  return JSON.stringify(rest);
+}
+
+/**
+ * Save a form. A changed schema is published as a new version; the one it
+ * replaces stays available to the submissions filled against it.
+ */
 export async function updateForm(
   formId: string,
   input: UpdateFormInput
@@ -95,21 +199,47 @@ export async function updateForm(
   if (typeof input.name === 'string') {
     payload.name = input.name;
   }
+
+  let current: DbForm | null = null;
+  let publishedSchema: FormSchema | null = null;
+  let editorId: string | null = null;
   if (input.schema) {
-    payload.schema = input.schema;
+    const { data: { user } } = await supabase.auth.getUser();
+    editorId = user?.id ?? null;
+    current = await getFormById(formId);
+    if (!current) {
+      throw new Error('Form not found');
+    }
+    const currentVersion = current.version ?? 1;
+    if (withoutVersion(input.schema) === withoutVersion(current.schema)) {
+      payload.schema = { ...input.schema, version: currentVersion };
+    } else {
+      // Forms created before versioning have no row for their current schema yet
+      await archiveFormSchemaVersion(formId, currentVersion, current.schema, editorId);
+      publishedSchema = { ...input.schema, version: currentVersion + 1 };
+      payload.schema = publishedSchema;
+      payload.version = currentVersion + 1;
+    }
   }
 
-  const { data, error } = await supabase
-    .from('forms')
-    .update(payload)
-    .eq('id', formId)
-    .select('*')
-    .single();
+  let query = supabase.from('forms').update(payload).eq('id', formId);
+  if (current) {
+    // Two admins saving at once would otherwise publish the same version number
+    query = query.eq('version', current.version);
+  }
+  const { data, error } = await query.select('*').maybeSingle();
 
   if (error) {
     console.error('Error updating form', error);
     throw error;
   }
+  if (!data) {
+    throw new Error('This form was changed by someone else. Reload it and try again.');
+  }
+
+  if (publishedSchema) {
+    await archiveFormSchemaVersion(formId, data.version, publishedSchema, editorId);
+  }
 
   return mapDbFormToFormSchema(data);
 }
@@ -129,12 +259,13 @@ export async function duplicateForm(
   }
 
   const newName = input.nameOverride || `Copy - ${original.name}`;
+  const schema = { ...original.schema, version: 1 };
 
   const { data, error } = await supabase
     .from('forms')
     .insert({
       name: newName,
-      schema: original.schema,
+      schema,
       version: 1,
       created_by: input.createdBy,
     })
@@ -146,6 +277,7 @@ export async function duplicateForm(
     throw error;
   }
 
+  await archiveFormSchemaVersion(data.id, 1, schema, input.createdBy);
   return mapDbFormToFormSchema(data);
 }
 
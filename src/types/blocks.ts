@@ -270,9 +270,23 @@ export interface VideoBlock extends BaseBlock {
   layout: BlockLayout;
   metadata?: BlockMetadata;
   content: {
+    /** Video URL (YouTube / Vimeo page URL, or the uploaded file URL) */
     src: string;
     provider?: 'youtube' | 'vimeo' | 'upload';
     caption?: string;
+    title?: string;
+    /** media_assets row for uploaded videos */
+    mediaAssetId?: string | null;
+    /** Poster image from the media library */
+    posterUrl?: string | null;
+    posterMediaAssetId?: string | null;
+    /** WebVTT captions file (uploaded videos only) */
+    captionsUrl?: string | null;
+    captionsLanguage?: string;
+    /** Plain-text transcript shown below the player */
+    transcript?: string;
+    /** When true the lesson only completes once the video has been watched */
+    requireFullWatch?: boolean;
   };
 }
 
@@ -285,8 +299,15 @@ export interface QuoteBlock extends BaseBlock {
   layout: BlockLayout;
   metadata?: BlockMetadata;
   content: {
+    /** Quote text (HTML from the inline editor) */
     text: string;
     author?: string;
+    /** e.g. job title or organisation, shown under the author */
+    authorRole?: string;
+    /** Author photo from the media library */
+    avatarUrl?: string | null;
+    avatarMediaAssetId?: string | null;
+    alignment?: 'left' | 'center';
   };
 }
 
@@ -312,6 +333,15 @@ export interface DividerBlock extends BaseBlock {
   style: BlockStyle;
   layout: BlockLayout;
   metadata?: BlockMetadata;
+  content: {
+    /** line = horizontal rule, spacer = empty space, numbered = step marker */
+    variant: 'line' | 'spacer' | 'numbered';
+    lineStyle?: 'solid' | 'dashed' | 'dotted';
+    spacerSize?: 'S' | 'M' | 'L';
+    /** Numbered step marker */
+    stepNumber?: number;
+    stepLabel?: string;
+  };
 }
 
 // ============================================================================
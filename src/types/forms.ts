@@ -35,6 +35,18 @@ export interface VisibilityCondition {
   value: string | number | boolean | (string | number)[];
 }
 
+// How a list of conditions combines: 'all' = AND, 'any' = OR
+export type VisibilityLogic = 'all' | 'any';
+
+export interface VisibilityConditionGroup {
+  logic: VisibilityLogic;
+  conditions: VisibilityCondition[];
+}
+
+// A top-level rule is either a single condition or a group of them,
+// e.g. (A and B) or C = logic 'any' over [{ logic: 'all', [A, B] }, C]
+export type VisibilityRule = VisibilityCondition | VisibilityConditionGroup;
+
 export interface FormFieldOption {
   value: string;
   label: string;
@@ -67,7 +79,8 @@ export interface BaseFormField {
   defaultValue?: unknown;
   validation?: FormFieldValidation;
   layout?: FormFieldLayout;
-  visibilityConditions?: VisibilityCondition[];
+  visibilityConditions?: VisibilityRule[];
+  visibilityLogic?: VisibilityLogic; // defaults to 'all'
   visibleToRoles?: FormRole[];
   readOnly?: boolean;
   showInSummary?: boolean;
@@ -93,6 +106,17 @@ export interface FormSection {
   title: string;
   description?: string;
   fields: BaseFormField[];
+  visibilityConditions?: VisibilityRule[];
+  visibilityLogic?: VisibilityLogic; // defaults to 'all'
+  stageId?: string; // workflow stage that fills this section; defaults to the first stage
+}
+
+// A step of a multi-stage form, e.g. worker -> supervisor -> security sign-off.
+// The first stage is always filled by the person the form is assigned to.
+export interface FormStage {
+  id: string;
+  name: string;
+  role: FormRole; // role that completes this stage
 }
 
 export interface FormSettings {
@@ -108,6 +132,7 @@ export interface FormSchema {
   category?: string;
   version?: number;
   settings?: FormSettings;
+  stages?: FormStage[];
   sections: FormSection[];
 }
 
@@ -146,6 +171,8 @@ export interface FormSubmissionDataMetadata {
   userAgent?: string;
   pdfGeneratedAt?: string | null;
   lastEditedAt?: string;
+  // Fields hidden by visibility conditions at submit time; left out of PDFs
+  hiddenFieldIds?: string[];
 }
 
 export interface FormSubmissionData {
@@ -1,6 +1,7 @@
 // supabase/functions/finalize-scorm-upload/index.ts
 import { createClient } from "jsr:@supabase/supabase-js@2";
 import JSZip from "npm:jszip@3.10.1";
+import { XMLParser } from "npm:fast-xml-parser@4.4.1";
 import { S3Client, GetObjectCommand, PutObjectCommand } from "npm:@aws-sdk/client-s3@3.609.0";
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { crypto } from "https://deno.land/std@0.177.0/crypto/mod.ts";
@@ -55,6 +56,172 @@ function guessContentType(path: string): string {
   return "application/octet-stream";
 }
 
+/* ------------------------------------------------------------------ */
+/*  imsmanifest.xml parsing                                           */
+/* ------------------------------------------------------------------ */
+
+type ScormVersion = "1.2" | "2004";
+
+interface ManifestSco {
+  identifier: string;
+  title: string;
+  resource_identifier: string;
+  href: string; // relative to the package root, including item parameters
+  mastery_score: number | null;
+}
+
+// One entry per visible <item> of the organization, in document order.
+// Container items (no resource) have sco_identifier = null.
+interface ManifestTocItem {
+  identifier: string;
+  title: string;
+  depth: number;
+  sco_identifier: string | null;
+}
+
+interface ParsedManifest {
+  version: ScormVersion;
+  title: string | null;
+  launch_href: string;
+  mastery_score: number | null;
+  scos: ManifestSco[];
+  toc: ManifestTocItem[];
+}
+
+class ManifestError extends Error {}
+
+// Always treat these elements as arrays so single children parse the same way
+const MANIFEST_ARRAY_TAGS = new Set(["organization", "item", "resource", "file", "dependency"]);
+
+function asArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value == null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// Text content of a parsed node (plain string, or { "#text": ... } when it has attributes)
+function textOf(node: unknown): string | null {
+  if (node == null) return null;
+  if (typeof node === "string" || typeof node === "number") return String(node).trim() || null;
+  // @ts-ignore parsed XML node
+  const text = node["#text"];
+  return text != null ? String(text).trim() || null : null;
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function detectVersion(manifest: any): ScormVersion {
+  const schemaVersion = textOf(manifest?.metadata?.schemaversion) ?? "";
+  if (/2004|cam\s*1\.3/i.test(schemaVersion)) return "2004";
+  if (schemaVersion === "1.2") return "1.2";
+  // Fall back to the ADL namespace declared on the manifest
+  const attrs = Object.entries(manifest ?? {}).filter(([k]) => k.startsWith("@_"));
+  if (attrs.some(([, v]) => /adlcp_v1p3/i.test(String(v)))) return "2004";
+  return "1.2";
+}
+
+// SCORM 1.2: <adlcp:masteryscore>80</adlcp:masteryscore> (0-100)
+// SCORM 2004: <imsss:primaryObjective satisfiedByMeasure="true"><imsss:minNormalizedMeasure>0.8</...>
+// Both are returned on a 0-100 scale.
+function getItemMasteryScore(item: any, version: ScormVersion): number | null {
+  if (version === "1.2") {
+    return parseNumber(textOf(item?.masteryscore));
+  }
+  const primary = item?.sequencing?.objectives?.primaryObjective;
+  const measure = parseNumber(textOf(primary?.minNormalizedMeasure));
+  return measure != null ? Math.round(measure * 100) : null;
+}
+
+function parseManifest(xml: string): ParsedManifest {
+  let doc: any;
+  try {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: "@_",
+      removeNSPrefix: true,
+      isArray: (name: string) => MANIFEST_ARRAY_TAGS.has(name),
+    });
+    doc = parser.parse(xml);
+  } catch (err) {
+    throw new ManifestError(`imsmanifest.xml is not valid XML: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const manifest = doc?.manifest;
+  if (!manifest) {
+    throw new ManifestError("imsmanifest.xml has no <manifest> root element.");
+  }
+
+  const version = detectVersion(manifest);
+
+  // Resources by identifier (href is relative to the manifest, optionally with xml:base)
+  const manifestBase = manifest["@_base"] ?? "";
+  const resourcesBase = manifest.resources?.["@_base"] ?? "";
+  const resources = new Map<string, { href: string | null; scormType: string | null }>();
+  for (const resource of asArray<any>(manifest.resources?.resource)) {
+    const identifier = resource?.["@_identifier"];
+    if (!identifier) continue;
+    const href = resource["@_href"] ? `${manifestBase}${resourcesBase}${resource["@_base"] ?? ""}${resource["@_href"]}` : null;
+    const scormType = resource["@_scormtype"] ?? resource["@_scormType"] ?? null;
+    resources.set(identifier, { href, scormType: scormType ? String(scormType).toLowerCase() : null });
+  }
+
+  // Default organization (or the first one)
+  const organizations = asArray<any>(manifest.organizations?.organization);
+  if (organizations.length === 0) {
+    throw new ManifestError("imsmanifest.xml does not define any <organization>.");
+  }
+  const defaultOrgId = manifest.organizations?.["@_default"];
+  const organization = organizations.find((o) => o?.["@_identifier"] === defaultOrgId) ?? organizations[0];
+
+  // Walk the item tree in order, collecting launchable items (SCOs and assets)
+  // and the visible tree used for the player's table of contents
+  const scos: ManifestSco[] = [];
+  const toc: ManifestTocItem[] = [];
+  const walk = (items: any[], depth: number) => {
+    for (const item of items) {
+      const ref = item?.["@_identifierref"];
+      const resource = ref ? resources.get(ref) : undefined;
+      const isVisible = item?.["@_isvisible"] !== "false";
+      const identifier = String(item?.["@_identifier"] ?? ref ?? `item-${toc.length + 1}`);
+      const title = textOf(item?.title) ?? identifier;
+      let scoIdentifier: string | null = null;
+      if (resource?.href && isVisible) {
+        const parameters = item["@_parameters"] ? String(item["@_parameters"]) : "";
+        const separator = parameters && !parameters.startsWith("?") && !parameters.startsWith("#") ? (resource.href.includes("?") ? "&" : "?") : "";
+        scos.push({
+          identifier,
+          title,
+          resource_identifier: ref,
+          href: `${resource.href}${separator}${parameters}`,
+          mastery_score: getItemMasteryScore(item, version),
+        });
+        scoIdentifier = identifier;
+      }
+      if (isVisible) {
+        toc.push({ identifier, title, depth, sco_identifier: scoIdentifier });
+      }
+      walk(asArray<any>(item?.item), isVisible ? depth + 1 : depth);
+    }
+  };
+  walk(asArray<any>(organization.item), 0);
+
+  if (scos.length === 0) {
+    throw new ManifestError("imsmanifest.xml does not reference any launchable resource (no <item> with an identifierref pointing at a <resource href>).");
+  }
+
+  return {
+    version,
+    title: textOf(organization.title) ?? textOf(manifest?.metadata?.lom?.general?.title?.langstring) ?? null,
+    launch_href: scos[0].href,
+    mastery_score: scos[0].mastery_score,
+    scos,
+    toc,
+  };
+}
+
 
 /* ------------------------------------------------------------------ */
 /*  Main handler                                                      */
@@ -133,9 +300,47 @@ serve(async (req) => {
     return jsonResponse({ success: false, error: "Failed to read ZIP archive", details: err instanceof Error ? err.message : String(err) }, 500);
   }
 
+  /* ------------------------- Read imsmanifest.xml ------------------------ */
+
+  // The manifest is normally at the package root, but some tools wrap the
+  // package in a folder, so take the shallowest imsmanifest.xml we can find.
+  const manifestPath = Object.keys(zip.files)
+    .filter((path) => path.toLowerCase().split("/").pop() === "imsmanifest.xml")
+    .sort((a, b) => a.split("/").length - b.split("/").length)[0];
+
+  if (!manifestPath) {
+    return jsonResponse({ success: false, error: "Invalid SCORM package: imsmanifest.xml was not found. Please upload a SCORM 1.2 or SCORM 2004 package." }, 400);
+  }
+
+  let manifest: ParsedManifest;
+  try {
+    const manifestXml = await zip.files[manifestPath].async("string");
+    manifest = parseManifest(manifestXml);
+  } catch (err) {
+    console.error("Error parsing imsmanifest.xml:", err);
+    const message = err instanceof ManifestError ? err.message : "imsmanifest.xml could not be read.";
+    return jsonResponse({ success: false, error: `Invalid SCORM package: ${message}` }, 400);
+  }
+
+  // hrefs in the manifest are relative to the folder that contains it
+  const manifestDir = manifestPath.includes("/") ? manifestPath.slice(0, manifestPath.lastIndexOf("/") + 1) : "";
+  const launchRelativePath = `${manifestDir}${manifest.launch_href}`;
+  const launchFilePath = launchRelativePath.split(/[?#]/)[0];
+  if (!zip.files[launchFilePath] && !zip.files[decodeURIComponent(launchFilePath)]) {
+    return jsonResponse({ success: false, error: `Invalid SCORM package: the launch file '${manifest.launch_href}' listed in imsmanifest.xml is missing from the package.` }, 400);
+  }
+
+  console.log("Parsed imsmanifest.xml", {
+    version: manifest.version,
+    title: manifest.title,
+    launch: launchRelativePath,
+    scos: manifest.scos.length,
+  });
+
+  /* ---------------------------- Upload to S3 ---------------------------- */
+
   const moduleFolder = crypto.randomUUID();
   const basePath = `modules/${moduleFolder}/`; // S3 prefix
-  let launchRelativePath: string | null = null;
   
   // Parallel upload setup
   const uploadPromises = [];
@@ -155,11 +360,6 @@ serve(async (req) => {
 
       await s3.send(new PutObjectCommand({ Bucket: S3_BUCKET, Key: destKey, Body: fileData, ContentType: contentType }));
     });
-
-    const lower = relativePath.toLowerCase();
-    if (!launchRelativePath && (lower.endsWith("index.html") || lower.endsWith("story.html") || lower.endsWith("index_lms.html"))) {
-      launchRelativePath = relativePath;
-    }
   }
 
   try {
@@ -171,10 +371,6 @@ serve(async (req) => {
     return jsonResponse({ success: false, error: "Failed to upload unzipped files to S3", details: err instanceof Error ? err.message : String(err) }, 500);
   }
 
-  if (!launchRelativePath) {
-    launchRelativePath = "index.html";
-  }
-
   const storagePath = basePath; // prefix inside bucket
   const launchKey = `${basePath}${launchRelativePath}`;
   
@@ -209,6 +405,43 @@ serve(async (req) => {
     return jsonResponse({ success: false, error: "Unexpected error calling create_scorm_module", details: err instanceof Error ? err.message : String(err) }, 500);
   }
 
+  /* ------------------- Store manifest data on the module ----------------- */
+  // Requires (to be created in Supabase):
+  //   alter table modules
+  //     add column scorm_version text,      -- '1.2' | '2004'
+  //     add column manifest_title text,     -- default organization title
+  //     add column mastery_score numeric,   -- 0-100, from the first SCO
+  //     add column scos jsonb;              -- [{ identifier, title, resource_identifier, href, mastery_score }]
+  //   alter table modules
+  //     add column toc jsonb;               -- [{ identifier, title, depth, sco_identifier }] organization tree
+  // SCO hrefs are stored relative to the package root (storage_path).
+
+  const { error: manifestUpdateError } = await supabase
+    .from("modules")
+    .update({
+      scorm_version: manifest.version,
+      manifest_title: manifest.title,
+      mastery_score: manifest.mastery_score,
+      scos: manifest.scos.map((sco) => ({ ...sco, href: `${manifestDir}${sco.href}` })),
+      toc: manifest.toc,
+    })
+    .eq("id", moduleData?.id);
+
+  if (manifestUpdateError) {
+    console.error("Error storing manifest data on module:", manifestUpdateError);
+
+    // Don't leave a module without its SCOs behind: the upload is reported as failed
+    const { error: rollbackError } = await supabase
+      .from("modules")
+      .delete()
+      .eq("id", moduleData?.id);
+    if (rollbackError) {
+      console.error("Error removing module after failed manifest update:", rollbackError);
+    }
+
+    return jsonResponse({ success: false, error: "Could not save the SCORM package's manifest data", details: manifestUpdateError.message }, 500);
+  }
+
   /* ------------------------------ Success ------------------------------- */
   
   return jsonResponse({
@@ -216,5 +449,11 @@ serve(async (req) => {
     message: "SCORM package processed successfully.",
     module: moduleData,
     launchUrl: dbLaunchPath,
+    manifest: {
+      version: manifest.version,
+      title: manifest.title,
+      masteryScore: manifest.mastery_score,
+      scoCount: manifest.scos.length,
+    },
   });
 });
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { servePresignMediaUpload } from "../_shared/presignMediaUpload.ts";
+
+servePresignMediaUpload({
+  functionName: "presign-video-upload",
+  // Video files plus WebVTT caption tracks
+  mimeTypes: {
+    "video/mp4": "mp4",
+    "video/webm": "webm",
+    "video/quicktime": "mov",
+    "text/vtt": "vtt",
+  },
+  maxSizeBytes: 1024 * 1024 * 1024, // 1 GB
+  maxSizeLabel: "1GB",
+  getFolder: (mimeType) => (mimeType === "text/vtt" ? "captions" : "videos"),
+  expiresIn: 3600, // 1 hour – large videos take a while to upload
+});
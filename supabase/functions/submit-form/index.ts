@@ -0,0 +1,449 @@
+// Supabase Edge Function: submit-form
+// Validates a form submission against its schema and marks it submitted.
+//
+// The browser runs the same validator (src/lib/formValidation.ts) for inline
+// messages; this is the authoritative check, so tampered answers (unknown
+// option values, missing required fields, oversized text, answers to fields
+// the submitter can't fill, signatures that aren't the submitter's uploaded
+// image) are rejected with 422 before the status changes.
+// Writes use the service role, so the form_submissions RLS policy for users
+// should only allow status 'started' (drafts).
+//
+// With a `stageId` it completes a later stage of a multi-stage form instead:
+// the caller must hold the stage's role, only that stage's fields are taken
+// from the request and they are validated against the schema version the
+// submission is pinned to before it moves on to the next stage.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import type { FileAnswerItem, FormAnswers, FormSchema, FormStage } from "../../../src/types/forms.ts";
+import { validateFormAnswers } from "../../../src/lib/formValidation.ts";
+import { getFormVisibility, omitHiddenAnswers } from "../../../src/lib/formVisibility.ts";
+import {
+  canViewFormField,
+  getFormStage,
+  getFormStages,
+  getNextFormStage,
+  getStageIndex,
+  hasFormRole,
+  isFormFieldEditable,
+  isMultiStageForm,
+} from "../../../src/lib/formStages.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("Missing required environment variables for submit-form");
+}
+
+function jsonResponse(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+type ProfileRow = {
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  roles: string[] | null;
+} | null;
+
+function getActorName(profile: ProfileRow, userEmail: string | undefined) {
+  return [profile?.first_name, profile?.last_name].filter(Boolean).join(" ") ||
+    profile?.email ||
+    userEmail ||
+    null;
+}
+
+// Uploaded files are linked to the submission rather than kept in answers
+async function loadFileAnswers(supabase: ServiceClient, submissionId: string) {
+  const { data: files, error } = await supabase
+    .from("form_submission_files")
+    .select("id, field_key, file_name, storage_bucket, storage_path, created_at")
+    .eq("submission_id", submissionId);
+
+  if (error) throw error;
+
+  const fileAnswers: Record<string, FileAnswerItem[]> = {};
+  for (const row of files ?? []) {
+    (fileAnswers[row.field_key] ??= []).push({
+      fileId: row.id,
+      fileName: row.file_name,
+      storageBucket: row.storage_bucket,
+      storagePath: row.storage_path,
+      uploadedAt: row.created_at,
+    });
+  }
+  return fileAnswers;
+}
+
+// Ids of the fields the caller may fill while `stageIndex` is being completed
+function getEditableFieldIds(
+  schema: FormSchema,
+  stageIndex: number,
+  profileRoles: string[],
+) {
+  return new Set(
+    (schema.sections ?? []).flatMap((section) =>
+      (section.fields ?? [])
+        .filter((field) =>
+          field.type !== "file" &&
+          isFormFieldEditable(schema, section, field, stageIndex, true) &&
+          canViewFormField(field, profileRoles)
+        )
+        .map((field) => field.id)
+    ),
+  );
+}
+
+async function recordStageCompleted(
+  supabase: ServiceClient,
+  submissionId: string,
+  stage: FormStage,
+  actorId: string,
+  actorName: string | null,
+) {
+  const { error } = await supabase
+    .from("form_submission_stage_events")
+    .insert({
+      submission_id: submissionId,
+      stage_id: stage.id,
+      stage_name: stage.name,
+      role: stage.role,
+      action: "completed",
+      actor_id: actorId,
+      actor_name: actorName,
+    });
+
+  if (error) {
+    // Log but don't fail - the submission itself was saved
+    console.error("Error recording stage event", error);
+  }
+}
+
+/**
+ * Complete a later stage of a submission that is waiting on it.
+ */
+async function completeStage(input: {
+  supabase: ServiceClient;
+  userId: string;
+  userEmail: string | undefined;
+  profile: ProfileRow;
+  formId: string;
+  currentSchema: FormSchema;
+  submissionId: string;
+  stageId: string;
+  answers: FormAnswers;
+}) {
+  const {
+    supabase,
+    userId,
+    userEmail,
+    profile,
+    formId,
+    currentSchema,
+    submissionId,
+    stageId,
+    answers,
+  } = input;
+  const profileRoles: string[] = profile?.roles ?? [];
+
+  const { data: existing, error: existingError } = await supabase
+    .from("form_submissions")
+    .select("id, form_id, data, status, current_stage_id, form_version")
+    .eq("id", submissionId)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error("Error loading submission", existingError);
+    return jsonResponse({ error: "Could not load the submission." }, 500);
+  }
+  if (!existing || existing.form_id !== formId) {
+    return jsonResponse({ error: "Submission not found." }, 404);
+  }
+  if (existing.status !== "submitted" || existing.current_stage_id !== stageId) {
+    return jsonResponse({ error: "This stage has already been completed by someone else." }, 409);
+  }
+
+  // The schema version the submission is pinned to (current schema for older ones)
+  let schema: FormSchema | null = null;
+  if (existing.form_version !== null && existing.form_version !== undefined) {
+    const { data: versionRow, error: versionError } = await supabase
+      .from("form_schema_versions")
+      .select("schema")
+      .eq("form_id", formId)
+      .eq("version", existing.form_version)
+      .maybeSingle();
+
+    if (versionError) {
+      console.error("Error loading form schema version", versionError);
+      return jsonResponse({ error: "Could not load the form." }, 500);
+    }
+    schema = (versionRow?.schema as FormSchema | undefined) ?? null;
+  }
+  schema ??= currentSchema;
+
+  const stage = getFormStage(schema, stageId);
+  if (!stage) {
+    return jsonResponse({ error: "This stage no longer exists on the form." }, 404);
+  }
+  if (!hasFormRole(profileRoles, stage.role)) {
+    return jsonResponse({ error: "You can't complete this stage." }, 403);
+  }
+  const stageIndex = getStageIndex(schema, stageId);
+
+  // Only this stage's fields come from the request; earlier answers are kept
+  const storedAnswers: FormAnswers = existing.data?.answers ?? {};
+  const editableFieldIds = getEditableFieldIds(schema, stageIndex, profileRoles);
+  const mergedAnswers: FormAnswers = { ...storedAnswers };
+  for (const [fieldId, answer] of Object.entries(answers)) {
+    if (editableFieldIds.has(fieldId)) mergedAnswers[fieldId] = answer;
+  }
+
+  let fileAnswers: Record<string, FileAnswerItem[]>;
+  try {
+    fileAnswers = await loadFileAnswers(supabase, submissionId);
+  } catch (err) {
+    console.error("Error loading submission files", err);
+    return jsonResponse({ error: "Could not load uploaded files." }, 500);
+  }
+
+  const answersWithFiles = { ...mergedAnswers, ...fileAnswers };
+  const fieldErrors = validateFormAnswers(schema, answersWithFiles, {
+    stageIndex,
+    profileRoles,
+    signatureOwner: { userId, formId },
+  });
+  const messages = Object.values(fieldErrors);
+  if (messages.length > 0) {
+    return jsonResponse({ error: messages[0], fieldErrors }, 422);
+  }
+
+  // Answers to this stage's fields hidden by conditional logic aren't kept
+  const { hiddenFieldIds } = getFormVisibility(schema, answersWithFiles);
+  for (const fieldId of editableFieldIds) {
+    if (hiddenFieldIds.has(fieldId)) delete mergedAnswers[fieldId];
+  }
+
+  const nextStage = getNextFormStage(schema, stageId);
+  const { data: updated, error: updateError } = await supabase
+    .from("form_submissions")
+    .update({
+      data: { ...(existing.data ?? {}), answers: mergedAnswers },
+      current_stage_id: nextStage?.id ?? null,
+    })
+    .eq("id", submissionId)
+    .eq("current_stage_id", stageId)
+    .select("id");
+
+  if (updateError) {
+    console.error("Error completing stage", updateError);
+    return jsonResponse({ error: "Could not complete this stage." }, 500);
+  }
+  if (!updated || updated.length === 0) {
+    return jsonResponse({ error: "This stage has already been completed by someone else." }, 409);
+  }
+
+  await recordStageCompleted(supabase, submissionId, stage, userId, getActorName(profile, userEmail));
+
+  return jsonResponse({ submissionId, nextStageId: nextStage?.id ?? null });
+}
+
+serve(async (req) => {
+  // Handle preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+
+    const authHeader = req.headers.get("Authorization") ?? "";
+    const userClient = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const {
+      data: { user },
+      error: userError,
+    } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      console.error("Auth error", userError);
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json().catch(() => null);
+    const { formId, submissionId, stageId, answers } = (body ?? {}) as {
+      formId?: string;
+      submissionId?: string | null;
+      stageId?: string | null;
+      answers?: FormAnswers;
+    };
+
+    if (!formId || !answers || typeof answers !== "object" || Array.isArray(answers)) {
+      return jsonResponse({ error: "Missing required fields: formId, answers" }, 400);
+    }
+
+    const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!);
+
+    // 1) Form schema and the submitter's roles
+    const [formRes, profileRes] = await Promise.all([
+      supabase.from("forms").select("schema, version").eq("id", formId).maybeSingle(),
+      supabase
+        .from("profiles")
+        .select("first_name, last_name, email, roles")
+        .eq("user_id", user.id)
+        .maybeSingle(),
+    ]);
+
+    if (formRes.error || profileRes.error) {
+      console.error("Error loading form or profile", formRes.error ?? profileRes.error);
+      return jsonResponse({ error: "Could not load the form." }, 500);
+    }
+    if (!formRes.data) {
+      return jsonResponse({ error: "Form not found." }, 404);
+    }
+
+    const schema = formRes.data.schema as FormSchema;
+    const profile = profileRes.data;
+    const profileRoles: string[] = profile?.roles ?? [];
+
+    if (stageId) {
+      if (!submissionId) {
+        return jsonResponse({ error: "Missing required field: submissionId" }, 400);
+      }
+      return await completeStage({
+        supabase,
+        userId: user.id,
+        userEmail: user.email,
+        profile,
+        formId,
+        currentSchema: schema,
+        submissionId,
+        stageId,
+        answers,
+      });
+    }
+
+    // 2) The submitter's existing submission (draft, or one sent back to them)
+    let storedAnswers: FormAnswers = {};
+    let fileAnswers: Record<string, FileAnswerItem[]> = {};
+
+    if (submissionId) {
+      const { data: existing, error: existingError } = await supabase
+        .from("form_submissions")
+        .select("id, form_id, user_id, data, status, review_status")
+        .eq("id", submissionId)
+        .maybeSingle();
+
+      if (existingError) {
+        console.error("Error loading submission", existingError);
+        return jsonResponse({ error: "Could not load your submission." }, 500);
+      }
+      if (!existing || existing.user_id !== user.id || existing.form_id !== formId) {
+        return jsonResponse({ error: "Submission not found." }, 404);
+      }
+      if (existing.status === "submitted" && existing.review_status !== "rejected") {
+        return jsonResponse({ error: "This form has already been submitted." }, 409);
+      }
+      storedAnswers = existing.data?.answers ?? {};
+
+      try {
+        fileAnswers = await loadFileAnswers(supabase, submissionId);
+      } catch (err) {
+        console.error("Error loading submission files", err);
+        return jsonResponse({ error: "Could not load uploaded files." }, 500);
+      }
+    }
+
+    // 3) Only take answers the submitter may fill in the first stage; anything
+    //    else keeps its stored value (e.g. later stages of a returned form)
+    const editableFieldIds = getEditableFieldIds(schema, 0, profileRoles);
+
+    const mergedAnswers: FormAnswers = { ...storedAnswers };
+    for (const [fieldId, answer] of Object.entries(answers)) {
+      if (editableFieldIds.has(fieldId)) mergedAnswers[fieldId] = answer;
+    }
+
+    // 4) Validate
+    const answersWithFiles = { ...mergedAnswers, ...fileAnswers };
+    const fieldErrors = validateFormAnswers(schema, answersWithFiles, {
+      stageIndex: 0,
+      profileRoles,
+      // Signatures are uploaded before submitting; only the submitter's own count
+      signatureOwner: { userId: user.id, formId },
+    });
+    const messages = Object.values(fieldErrors);
+    if (messages.length > 0) {
+      return jsonResponse({ error: messages[0], fieldErrors }, 422);
+    }
+
+    // 5) Save as submitted, routed to the next stage for multi-stage forms
+    const visibility = getFormVisibility(schema, answersWithFiles);
+    const stages = getFormStages(schema);
+    const nextStage = isMultiStageForm(schema) ? getNextFormStage(schema, stages[0].id) : null;
+
+    const payload = {
+      form_id: formId,
+      user_id: user.id,
+      data: {
+        // Answers to fields the submitter can no longer see aren't kept
+        answers: omitHiddenAnswers(mergedAnswers, visibility),
+        metadata: { hiddenFieldIds: [...visibility.hiddenFieldIds] },
+      },
+      status: "submitted",
+      submitted_at: new Date().toISOString(),
+      review_status: "pending",
+      reviewed_at: null,
+      reviewed_by: null,
+      rejection_reason: null,
+      current_stage_id: nextStage?.id ?? null,
+      // Submissions are always validated against, and pinned to, the latest version
+      form_version: formRes.data.version,
+    };
+
+    const { data: saved, error: saveError } = submissionId
+      ? await supabase
+        .from("form_submissions")
+        .update(payload)
+        .eq("id", submissionId)
+        .select("id")
+        .single()
+      : await supabase
+        .from("form_submissions")
+        .insert(payload)
+        .select("id")
+        .single();
+
+    if (saveError || !saved) {
+      console.error("Error saving submission", saveError);
+      return jsonResponse({ error: "Could not submit your form." }, 500);
+    }
+
+    if (nextStage) {
+      await recordStageCompleted(supabase, saved.id, stages[0], user.id, getActorName(profile, user.email));
+    }
+
+    return jsonResponse({ submissionId: saved.id });
+  } catch (err) {
+    console.error("submit-form error", err);
+    return jsonResponse({ error: "Unexpected error submitting the form." }, 500);
+  }
+});